@@ -5,6 +5,11 @@ import IORedis from "ioredis";
 declare module "fastify" {
   interface FastifyInstance {
     getRunQueue: (userId: string) => Queue;
+    /**
+     * Drop a waiting run job and tell workers to abort it if already active.
+     * Resolves true when the run was still queued and its job was removed.
+     */
+    signalRunCancel: (userId: string, runId: string) => Promise<boolean>;
   }
 }
 
@@ -26,6 +31,14 @@ export const queuePlugin = fp(async (app) => {
     return queues.get(name)!;
   });
 
+  app.decorate("signalRunCancel", async (userId: string, runId: string) => {
+    const job = await app.getRunQueue(userId).getJob(runId);
+    // Active jobs are locked by a worker and can't be removed — the publish below reaches them
+    const removed = job ? await job.remove().then(() => true, () => false) : false;
+    await connection.publish("voiceci:run-cancel", runId);
+    return removed;
+  });
+
   app.addHook("onClose", async () => {
     for (const q of queues.values()) {
       await q.close();
@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { eq } from "drizzle-orm";
+import { and, eq, ne } from "drizzle-orm";
 import { schema } from "@voiceci/db";
 import { RunnerCallbackV2Schema, RUNNER_CALLBACK_HEADER } from "@voiceci/shared";
 import { runToSession, runToProgress, mcpServers } from "./mcp/session.js";
@@ -191,7 +191,9 @@ export async function callbackRoutes(app: FastifyInstance) {
 
     const body = RunnerCallbackV2Schema.parse(request.body);
 
-    await app.db
+    // A cancelled run keeps its status — results that race the cancel are dropped.
+    // The check is part of the UPDATE so a cancel can't land between the two.
+    const updated = await app.db
       .update(schema.runs)
       .set({
         status: body.status,
@@ -200,7 +202,11 @@ export async function callbackRoutes(app: FastifyInstance) {
         aggregate_json: body.aggregate,
         error_text: body.error_text ?? null,
       })
-      .where(eq(schema.runs.id, body.run_id));
+      .where(and(eq(schema.runs.id, body.run_id), ne(schema.runs.status, "cancelled")))
+      .returning({ id: schema.runs.id });
+    if (updated.length === 0) {
+      return reply.send({ ok: true, ignored: "run cancelled" });
+    }
 
     // Store audio test results
     for (const result of body.audio_results) {
@@ -226,6 +232,25 @@ export async function callbackRoutes(app: FastifyInstance) {
       });
     }
 
+    // Register call recordings (one per attempt) as artifacts
+    const recordings = new Map(
+      [...body.audio_results, ...body.conversation_results]
+        .flatMap((r) => [r.recording, ...(r.attempts ?? []).map((a) => a.recording)])
+        .filter((rec) => rec !== undefined)
+        .map((rec) => [rec.key, rec]),
+    );
+    if (recordings.size > 0) {
+      await app.db.insert(schema.artifacts).values(
+        [...recordings.values()].map((rec) => ({
+          run_id: body.run_id,
+          kind: "recording",
+          key: rec.key,
+          content_type: rec.content_type,
+          byte_size: rec.byte_size,
+        })),
+      );
+    }
+
     // Broadcast run_complete to SSE subscribers (dashboard)
     const totalTests = body.audio_results.length + body.conversation_results.length;
     broadcast(body.run_id, {
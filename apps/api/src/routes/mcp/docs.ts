@@ -73,7 +73,7 @@ Teammates just set \`export VOICECI_API_KEY=voiceci_their_key\` — zero setup.`
 
 export const AUDIO_TEST_REFERENCE = `# Audio Tests Reference
 
-Tests run in parallel with independent connections. For already-deployed agents (SIP, WebRTC, or ws-voice with agent_url), tests run instantly with no infrastructure overhead.
+Tests run in parallel with independent connections. For already-deployed agents (SIP, SIP direct, Twilio, WebRTC, OpenAI Realtime, or ws-voice with agent_url), tests run instantly with no infrastructure overhead.
 
 | Test | What It Measures | When to Include | Duration |
 |------|------------------|-----------------|----------|
@@ -86,6 +86,7 @@ Tests run in parallel with independent connections. For already-deployed agents
 | noise_resilience | Background noise robustness (white/babble/pink at 20/10/5 dB SNR) | Agents used in noisy environments (phone, mobile) | ~120s |
 | endpointing | Mid-sentence pause handling — agent waits vs. interrupts prematurely | Conversational agents | ~45s |
 | audio_quality | Output audio signal quality (clipping, energy consistency, clean edges) | All agents | ~20s |
+| voicemail_detection | Answering machine: agent waits for the beep, leaves a bounded message, hangs up | Outbound calling agents | ~30-60s |
 
 ---
 
@@ -109,6 +110,10 @@ You can override any threshold via \`audio_test_thresholds\` in voiceci_run_suit
 | audio_quality | Max clipping ratio | 0.005 | \`audio_quality.max_clipping_ratio\` |
 | audio_quality | Min audio duration | 1000ms | \`audio_quality.min_duration_ms\` |
 | audio_quality | Min energy consistency | 0.4 | \`audio_quality.min_energy_consistency\` |
+| voicemail_detection | Max message duration | 30000ms | \`voicemail_detection.max_message_duration_ms\` |
+| voicemail_detection | Max wait for hangup after the message | 10000ms | \`voicemail_detection.hangup_timeout_ms\` |
+| voicemail_detection | Max agent speech over the greeting | 1000ms | \`voicemail_detection.max_pre_beep_speech_ms\` |
+| voicemail_detection | Require a message (false = hanging up is enough) | true | \`voicemail_detection.require_message\` |
 
 ---
 
@@ -303,7 +308,222 @@ Sets the **starting** silence threshold for end-of-turn detection (default: 1500
 The adaptive system handles the cases where a fixed threshold fails:
 - **Thinking pauses**: Agent pauses mid-sentence to consider → threshold increases automatically
 - **Tool call gaps**: Agent goes silent while calling an API → threshold increases for that pattern
-- **Variable pacing**: Agent gives short answers sometimes, long answers other times → threshold tracks the cadence`;
+- **Variable pacing**: Agent gives short answers sometimes, long answers other times → threshold tracks the cadence
+
+### Transfers, Hold, and Hang-ups — call_events
+
+Every conversation result carries \`call_events\`: what happened on the line, on the same timeline as the transcript (\`timestamp_ms\`).
+
+| Event | Detected from |
+|-------|---------------|
+| \`hold_music\` | Continuous, tonal audio from the agent's side (with \`duration_ms\`) |
+| \`ringback\` | Ringback tones (US 440+480Hz, UK 400+450Hz, EU 425Hz) — the agent is placing a call |
+| \`transfer\` | Someone answering after ringback, or a different voice after hold music (\`detail\` says which) |
+| \`remote_hangup\` | The agent's side ending the call |
+
+While hold music or ringback plays, the caller waits instead of talking over it — up to \`max_hold_ms\` (default 120000ms). Only speech is transcribed. The conversation ends when the agent hangs up. The judge sees these events in the transcript as ground truth. So for agents that warm-transfer or escalate, write evals like "Did the agent transfer the caller to billing after verifying their account?" and the judge answers from real events, not the agent's words. Set \`max_turns\` high enough to cover the turns after the transfer.
+
+### language — Non-English and Code-Switching Callers
+
+Set \`language\` (a BCP-47 tag: \`es\`, \`fr\`, \`pt-BR\`) for a caller who speaks something other than English. It applies to the whole loop:
+
+- **Caller LLM** — persona lines are generated in that language (write \`caller_prompt\` in English or the target language; scripted lines are spoken as written)
+- **Caller voice** — without a configured voice, ElevenLabs switches to \`eleven_multilingual_v2\`, Azure to a multilingual neural voice, Google to its default voice for the language, and the default espeak-ng command to that language. A \`voice_id\` you set is used as is, so pick one that speaks the language
+- **Agent transcription** — the language is passed to STT as a hint
+- **Judge** — told the caller's language; an agent answering in a different language fails on clarity and on any language-related eval
+- **Transcript metrics** — filler words and reprompts ("¿Cómo dice?", "Pouvez-vous répéter ?") are matched per language (English, Spanish, French; other languages get no \`filler_word_rate\`)
+
+For code-switching, \`switch_language_at_turn: { turn, language }\` makes the caller change language from that caller turn on (0-based, like \`script\` steps; must be less than \`max_turns\`). STT then detects the language per turn, and each caller turn records the \`language\` it was spoken in.
+
+\`\`\`json
+{
+  "caller_prompt": "You are Lucía, calling to move a dental appointment to next week. Partway through, switch to French as if you were more comfortable in it.",
+  "language": "es",
+  "switch_language_at_turn": { "turn": 3, "language": "fr" },
+  "max_turns": 8,
+  "eval": ["Did the agent switch to French when the caller did?", "Did the agent reschedule the appointment?"]
+}
+\`\`\`
+
+### interruption — Caller Barge-in
+
+The \`barge_in\` audio test interrupts one canned prompt. To test interruptions inside a real conversation, set \`interruption\` and the caller cuts the agent off mid-reply:
+
+| trigger | Caller cuts in |
+|---------|----------------|
+| \`after_ms\` | Once the agent has spoken for \`after_ms\` (default 1500) |
+| \`random\` | On a \`probability\` share of agent turns (default 0.5), 0.5–3s into the reply |
+| \`keyword\` | When the agent says one of \`keywords\` (e.g. \`["terms and conditions", "premium"]\`) |
+
+\`max_interruptions\` caps how many times per conversation. The caller only hears the reply up to the trigger, and it answers that while the agent is still talking. A scripted line is spoken as written. The interrupted agent turn gets an \`interruption\` record:
+- \`heard_text\` / \`heard_ms\` — what the caller heard before its audio went out (the turn's \`text\` is everything the agent said). The caller's line is generated and synthesized after the trigger while the agent keeps talking, so this runs past the trigger by that latency; the line itself answers only the reply up to the trigger
+- \`overlap_ms\` — how long both sides talked at once
+- \`stop_latency_ms\` — from the caller starting to talk to the agent going quiet. It is measured from the agent's reported state when available (LiveKit Agents), otherwise from 400ms of quiet. It is absent if the agent kept talking for 5s
+- \`overlapped: false\` — the agent had already finished
+
+The judge sees each cut-in in the transcript. Write evals like "When the caller interrupted, did the agent stop and answer the new question instead of finishing its sentence?"
+
+### script — Scripted Turns
+
+Use \`script\` when the exact caller wording matters (IVR menus, account-number readback, regression repros). Each entry is spoken verbatim, in order, and may carry an \`expect\` matcher checked against the agent reply that follows it:
+
+- \`{ "type": "contains", "value": "Tuesday" }\` — case-insensitive substring (set \`case_sensitive: true\` to tighten)
+- \`{ "type": "regex", "pattern": "\\\\b\\\\d{5}\\\\b", "flags": "i" }\` — JavaScript regex (flags default to \`i\`)
+- \`{ "type": "semantic", "criterion": "Did the agent ask for a date of birth?" }\` — judged by the judge LLM on that single exchange
+
+\`\`\`json
+{
+  "name": "verify-then-book",
+  "script": [
+    { "say": "Hi, I want to book a cleaning.", "expect": { "type": "semantic", "criterion": "Did the agent ask who is calling?" } },
+    { "say": "Sarah Jones, date of birth March 3rd 1985.", "expect": { "type": "contains", "value": "thank" } }
+  ],
+  "caller_prompt": "You are Sarah Jones. You have been verified; now book the earliest morning slot next week.",
+  "max_turns": 8,
+  "eval": ["Did the agent confirm a specific appointment time?"]
+}
+\`\`\`
+
+- Scripted turns always come first. If \`caller_prompt\` is set, the persona continues from there with the scripted exchange as context; without it the call ends after the last line.
+- \`max_turns\` counts scripted turns too, so it must be at least the script's length (the default is 10) — a longer script is rejected rather than cut short.
+- \`eval\` is optional when at least one scripted turn has an \`expect\`. The test fails if any expectation fails; results are in \`script_results\`.
+
+### DTMF — Keypad Input
+
+A caller line (scripted or from the persona) can press keys with \`[DTMF:digits]\` — \`0-9\`, \`*\`, \`#\`, \`A-D\`, and \`,\` for a half-second pause. Any speech in the line is spoken first, then the keys are pressed:
+
+\`\`\`json
+{ "say": "[DTMF:2]", "expect": { "type": "semantic", "criterion": "Did the agent ask for the account number?" } },
+{ "say": "Sure, here it is. [DTMF:48213#]" }
+\`\`\`
+
+- The persona LLM knows the tag, so a \`caller_prompt\` like "Navigate the menu to billing" will press keys on its own when the agent says "press 2".
+- Telephony adapters send out-of-band digits — RFC 4733 telephone-events on \`sip-direct\` (when the agent's SDP accepts them), the Plivo DTMF API on \`sip\`. Other adapters send in-band tones in the audio.
+- DTMF the agent sends back is recorded on its turn as \`dtmf\` — from out-of-band events where the transport reports them, otherwise detected from the agent's audio.
+
+### repeat — Flakiness Measurement
+
+A single LLM-driven conversation is one sample. Set \`repeat: N\` (max 20) to run the same test N times, each on its own connection, and \`min_pass_rate\` (0-1, default 1) to decide pass/fail from the fraction of attempts that passed. For audio tests, set \`audio_repeat\` / \`audio_min_pass_rate\` next to \`audio_tests\`.
+
+- Use \`repeat: 3-5\` with \`min_pass_rate: 0.8\` for persona tests that gate a merge; keep \`repeat: 1\` for quick smoke runs.
+- Repeats count against concurrency — 5 tests × \`repeat: 4\` is 20 calls.
+
+---
+
+## Caller Voice
+
+The simulated caller's voice comes from \`voice.tts\`. A single fixed voice hides STT failures on the agent side — if real callers have different accents, test with matching voices.
+
+| provider | voice_id example | API key env (default) |
+|----------|------------------|-----------------------|
+| \`elevenlabs\` (default) | \`pNInz6obpgDQGcFmaJgB\` | \`ELEVENLABS_API_KEY\` |
+| \`openai\` | \`alloy\`, \`nova\` | \`OPENAI_API_KEY\` |
+| \`azure\` | \`en-IN-NeerjaNeural\` (set \`region\`) | \`AZURE_SPEECH_KEY\` |
+| \`google\` | \`en-AU-Neural2-B\` | \`GOOGLE_TTS_API_KEY\` |
+| \`local\` | — (the server's \`LOCAL_TTS_COMMAND\`, default espeak-ng) | — |
+
+\`api_key_env\` and the other \`*_env\` fields name the server variable holding a credential, and must be one of the provider credential variables (\`ELEVENLABS_API_KEY\`, \`OPENAI_API_KEY\`, \`DEEPGRAM_API_KEY\`, \`TWILIO_AUTH_TOKEN\`, \`SIP_PASSWORD\`, …); any other server variable is rejected.
+
+Use \`model\` to pick a provider model (e.g. \`eleven_multilingual_v2\`); a conversation test's \`language\` picks a multilingual model or voice when you haven't. The provider applies to conversation tests, audio tests, and load tests alike.
+
+## Caller Speech Profiles
+
+A clean TTS voice is the easiest caller an agent will ever get. Set \`voice.speech_profile\` to make every caller utterance sound like a harder one, override it per conversation test with \`speech_profile\`, or per audio test with \`audio_speech_profiles\` (e.g. \`{"endpointing": "hesitant", "noise_resilience": "far-field"}\`).
+
+| Preset | What the caller does |
+|--------|----------------------|
+| \`elderly\` | Speaks at 0.8× rate, "um"s or restarts on half its lines, pauses 1.8s mid-sentence on 40%, 6dB quieter with ±3dB swings |
+| \`hesitant\` | Fillers or restarts on 70% of lines, 1.2s mid-sentence pauses on half |
+| \`fast-talker\` | Speaks at 1.3× rate |
+| \`far-field\` | Speakerphone across a room: reverb, muffled, 10dB quieter |
+| \`quiet\` | 15dB quieter |
+| \`clipping\` | Mic overdriven 12dB into hard clipping |
+
+Or pass a custom object: \`{"rate": 0.9, "disfluency": 0.3, "pause_rate": 0.2, "pause_ms": 2000, "gain_db": -8, "volume_variation_db": 4, "clipping_db": 0, "reverb": 0.3, "accent": "en-IN", "seed": 7}\`. Rate changes keep pitch. A pause splits the line into two TTS requests with silence between them — a good test of endpointing (use \`silence_threshold_ms\` above \`pause_ms\` for conversation tests, or the agent will rightly answer the first half). \`accent\` is a locale: azure and google pick a regional voice, openai (gpt-4o-mini-tts) is instructed to use the accent, and local passes it to espeak-ng; elevenlabs voices carry their own accent, so set \`voice.tts.voice_id\` instead. \`seed\` makes the disfluencies and loudness reproducible. Fillers follow the caller's \`language\` ("um" in English, "este" in Spanish, "euh" in French); other languages get restarts only. Hermetic mode ignores speech profiles, since its mock STT only recognizes unaltered mock audio.
+
+## Agent Transcription
+
+Agent audio is transcribed via \`voice.stt\`: \`deepgram\` (default, \`DEEPGRAM_API_KEY\`), \`whisper\` (any OpenAI-compatible \`/audio/transcriptions\` endpoint — set \`base_url\` for self-hosted servers, \`OPENAI_API_KEY\`; a custom \`base_url\` never gets the server's key, only \`api_key\` if you set one), or \`assemblyai\` (\`ASSEMBLYAI_API_KEY\`). Per-word timings are recorded on each agent turn (\`words\`) along with \`ttfw_ms\` — time from the caller's audio being sent to the agent's first spoken word, which excludes leading silence or breath noise that TTFB counts.
+
+## Hermetic Mode (offline)
+
+Set \`voice.hermetic: {}\` to run with no network access — for air-gapped PR checks or the agent's own unit tests:
+
+- **TTS** → deterministic phoneme-shaped PCM seeded from the text (same text = same audio, in any process)
+- **STT** → fingerprint lookup of that mock audio. If the agent under test also speaks via the mock TTS in another process, list its phrases in \`voice.hermetic.known_phrases\` so they can be recognized
+- **Caller** → speaks the quoted lines in \`caller_prompt\` in order (e.g. \`Say "I need to reschedule." then "Thanks, bye."\`), then ends
+- **Judge** → an eval passes if every quoted term in the question appears in the agent's speech (e.g. \`Did the agent mention "Tuesday"?\`); questions without quotes pass if the agent answered every turn. Behavioral metrics are not scored
+
+## Network Impairment
+
+Set \`voice.network_profile\` to run every audio and conversation test over a simulated bad network — use it to check how barge-in, endpointing, and TTFB hold up on real callers' connections. Both directions are cut into 20ms packets and impaired independently.
+
+| Profile | Latency (one-way) | Jitter | Loss (mean burst) | Other |
+|---------|------------------|--------|-------------------|-------|
+| \`3g\` | 150ms | ±40ms | 2% (2 packets) | 1% reordering, 24 kbps codec |
+| \`lossy-wifi\` | 20ms | ±30ms | 5% (3 packets) | 2% reordering, 1% duplication |
+| \`satellite\` | 300ms | ±20ms | 1% (2 packets) | 32 kbps codec |
+
+Or pass a custom object: \`{"latency_ms": 80, "jitter_ms": 25, "loss": 0.03, "loss_burst": 4, "reorder": 0.01, "duplicate": 0, "bitrate_kbps": 16, "seed": 7}\`. Lost packets become silence (as a jitter buffer would conceal them); \`bitrate_kbps\` band-limits and quantizes the audio to approximate a low-bitrate codec; \`seed\` makes the losses reproducible. Compare against an unimpaired run with voiceci_compare_runs.
+
+---
+
+## Inbound Calls (Outbound-Calling Agents)
+
+Sales, reminder, and follow-up agents place calls rather than take them. With \`voice.telephony.mode: "inbound"\` (sip and twilio adapters) VoiceCI borrows \`voice.telephony.from_number\` — pointing it at the test run and restoring it afterwards — and plays the person being called. \`target_phone_number\` is not needed.
+
+\`\`\`json
+"telephony": {
+  "from_number": "+14155550100",
+  "mode": "inbound",
+  "trigger": { "type": "webhook", "url": "https://agent.example.com/dial", "body": { "to": "{{phone_number}}", "campaign": "ci" } },
+  "inbound_timeout_ms": 60000
+}
+\`\`\`
+
+- \`trigger\` tells the agent to dial once the number is listening: a \`webhook\` (POST by default, body defaults to \`{"phone_number": "..."}\`). The URL must be https on a public host; redirects are not followed. \`{{phone_number}}\` is substituted in url, headers, and body. Without a trigger, the agent must call on its own.
+- \`inbound_timeout_ms\` (default 120000) is how long to wait for the call before the test errors.
+- Inbound tests run one at a time — every call lands on the same number.
+- Each test fires the trigger again, so the agent must place one call per trigger.
+
+Per conversation test, \`callee\` decides how the call is answered:
+
+| \`callee.action\` | Behavior | Typical evals |
+|-----------------|----------|---------------|
+| \`answer\` (default) | Says "Hello?" (or the first \`script\` line), then converses as \`caller_prompt\` | Pitch, objection handling, opt-out |
+| \`decline\` | Rejects the call as busy | \`tool_call_eval\`: did it log the outcome / schedule a retry? |
+| \`silent\` | Picks up and never speaks | Did it check if anyone was there, then hang up politely? |
+| \`voicemail\` | Plays \`callee.greeting\` (or a default) and a beep, then records the message | Was the message short, with name and callback number? |
+
+\`callee.rings\` lets the call ring (about 6s per ring) before it is answered or declined — use it to test the agent's no-answer timeout. On twilio, ringing is capped at about 14s (2 rings). Non-answer tests need no \`caller_prompt\` or \`script\`, and a \`decline\` test can be graded on \`tool_call_eval\` alone.
+
+---
+
+## Suite Files (voiceci.yaml)
+
+Once a set of tests is worth keeping, write it to \`voiceci.yaml\` (or \`voiceci.json\`) in the agent's repo so it can be reviewed and versioned like code. Pass the file contents as the \`suite\` argument of \`voiceci_run_suite\` — any explicit arguments (adapter, voice, tests, thresholds) override the values in the file. The REST \`POST /runs\` endpoint takes the same document in its \`suite\` field.
+
+\`\`\`yaml
+version: 1
+name: dental-office-smoke
+adapter: ws-voice
+agent_url: https://agent.example.com
+voice:
+  tts:
+    voice_id: pNInz6obpgDQGcFmaJgB
+audio_tests: [echo, ttfb, barge_in]
+conversation_tests:
+  - name: book-cleaning
+    caller_prompt: "You are Sarah, calling to book a teeth cleaning next week..."
+    max_turns: 8
+    eval:
+      - "Did the agent confirm the appointment date and time?"
+audio_test_thresholds:
+  ttfb:
+    p95_threshold_ms: 1500
+\`\`\`
+
+Top-level keys: \`version\` (must be 1), \`name\`, \`adapter\`, \`agent_url\`, \`target_phone_number\`, \`platform\`, \`voice\`, \`audio_tests\`, \`conversation_tests\`, \`audio_repeat\`, \`audio_min_pass_rate\`, \`audio_speech_profiles\`, \`audio_test_thresholds\`. Unknown keys are rejected so typos surface immediately.`;
 
 export const EVAL_EXAMPLES = `# Eval & Red-Teaming Guide
 
@@ -372,8 +592,11 @@ Voice agents often make tool calls mid-conversation (CRM lookups, appointment bo
 | \`elevenlabs\` | Pulled from ElevenLabs API after call (\`GET /v1/convai/conversations/{id}\`) | Zero — just provide API key + agent ID |
 | \`bland\` | Pulled from Bland API after call (\`GET /v1/calls/{id}\`). Audio via SIP. | Zero — provide API key + phone number |
 | \`ws-voice\` | Agent sends JSON text frames on WebSocket alongside binary audio | ~5 lines of code in agent |
+| \`openai-realtime\` | Function-call events on the Realtime session; VoiceCI answers each with \`voice.realtime.tool_outputs\` | Zero — tools come from the session config |
 | \`webrtc\` | Agent sends JSON events via LiveKit DataChannel (topic: \`voiceci:tool-calls\`) | ~5 lines of code in agent |
 | \`sip\` | Not available (no backchannel for tool call data) | N/A |
+| \`twilio\` | Not available (no backchannel for tool call data) | N/A |
+| \`sip-direct\` | Not available (no backchannel for tool call data) | N/A |
 
 ### Platform Adapters (Vapi, Retell, ElevenLabs, Bland)
 
@@ -404,6 +627,31 @@ JSON format for tool call events:
 {"type":"tool_call","name":"lookup_order","arguments":{"order_id":"12345"},"result":{"status":"shipped"},"successful":true,"duration_ms":150}
 \`\`\`
 
+#### Custom framing (\`voice.ws_protocol\`)
+
+Agents that don't speak raw binary PCM (Pipecat serializers, Twilio-style \`{"event":"media"}\` JSON, mulaw or opus audio) can be tested without a shim by describing their protocol:
+
+\`\`\`json
+"voice": {
+  "ws_protocol": {
+    "audio_framing": "json",
+    "encoding": "mulaw",
+    "sample_rate": 8000,
+    "event_field": "event",
+    "audio_event": "media",
+    "audio_field": "media.payload",
+    "audio_message": { "streamSid": "{{session_id}}" },
+    "start_message": { "event": "start", "sample_rate": "{{sample_rate}}", "encoding": "{{encoding}}" },
+    "ready_event": "ready"
+  }
+}
+\`\`\`
+
+- \`audio_framing\`: \`binary\` (default) or \`json\` (base64 audio at \`audio_field\` in frames whose \`event_field\` equals \`audio_event\`)
+- \`encoding\`: \`pcm16\` (default), \`mulaw\`, or \`opus\` (20ms packets, one per frame); \`sample_rate\` defaults to 24000 / 8000 / 48000 respectively
+- Field names are dotted paths. Tool call frames are matched on \`event_field\` = \`tool_call_event\` (default \`tool_call\`)
+- \`start_message\` is sent right after connecting; \`ready_event\` makes VoiceCI wait for the agent's acknowledgement before the test starts
+
 ### WebRTC / LiveKit Agents
 
 For LiveKit-based agents, tool call events are sent via LiveKit's DataChannel on topic \`voiceci:tool-calls\`. The agent can use either API:
@@ -427,6 +675,20 @@ await room.local_participant.send_text(
 
 Same JSON format as ws-voice. If the agent doesn't send any data channel messages, tool call testing is skipped gracefully.
 
+**Option C — forward LiveKit Agents chat items as-is:** \`function_call\` and \`function_call_output\` items are paired by \`call_id\` into one tool call (arguments, output, \`is_error\`, latency between the two):
+\`\`\`python
+@session.on("function_tools_executed")
+def on_tools(ev):
+    for call, output in ev.zipped():
+        for item in (call, output):
+            if item:
+                asyncio.create_task(ctx.room.local_participant.send_text(item.model_dump_json(), topic="voiceci:tool-calls"))
+\`\`\`
+
+LiveKit Agents (1.x) also report on themselves, and VoiceCI uses it with no extra code:
+- **Agent state** (\`lk.agent.state\` attribute): TTFB is measured to the agent's switch to \`speaking\` instead of the first audio frame, and barge-in stop latency to its switch out of \`speaking\`
+- **Transcriptions** (\`lk.transcription\` text streams): what the agent says it said, and what it heard from the caller, are stored as \`reported_text\` on each turn — compare with \`text\` (VoiceCI's own STT) to spot STT mishearings on the agent side
+
 ### Pipeline Agents (STT → LLM → TTS)
 
 Some voice agents use a **pipeline architecture** — separate services for STT (e.g., Deepgram), LLM (e.g., GPT/Gemini), and TTS (e.g., ElevenLabs), orchestrated by the app. These agents have no single WebSocket endpoint to connect to.
@@ -514,6 +776,7 @@ export const RESULT_GUIDE = `# Result Interpretation & Iterative Testing
 - **response_completeness fail**: Truncated response (< 15 words or missing sentence-ending punctuation). Check max_tokens, streaming termination.
 - **noise_resilience fail**: Agent can't handle background noise at SNR >= 10dB. Check STT noise robustness, VAD sensitivity settings, or add noise cancellation preprocessing.
 - **endpointing fail**: Agent interrupts during mid-sentence pauses. Check VAD silence threshold — it's too aggressive. Increase endpointing timeout or add pause detection logic.
+- **voicemail_detection fail**: \`waited_for_beep: false\` — agent talked over the greeting; add answering-machine detection or wait for the beep before speaking. \`left_message: false\` — agent went silent or hung up after the beep (set \`require_message: false\` if that's intended). \`hung_up: false\` — agent kept the line open after its message; end the call once the message is left.
 - **audio_quality fail**: Issues with agent's output audio — check \`metrics\` for specific failures (clipping, energy drops, clicks, truncation). Clipping = gain too high; sudden drops = TTS streaming issues; clicks = buffer boundary problems.
 
 ### Conversation Test Failures
@@ -522,6 +785,14 @@ export const RESULT_GUIDE = `# Result Interpretation & Iterative Testing
 - \`relevant: true, passed: false\` is a real failure.
 - When a failure occurs, consider running a deeper follow-up test (more turns, more specific scenario) to confirm.
 
+### Call Recordings
+Every test attempt carries a \`recording\` (stereo WAV: caller on the left channel, agent on the right, time-aligned). The run's \`recording\` artifacts have a presigned \`download_url\` on \`GET /runs/:id\`, and can be played from the dashboard's Artifacts tab. When the judge says the agent "interrupted" or "was silent", point the user at the recording — overlapping channels or a long empty stretch on the right confirm it.
+
+### Repeated Tests (\`repeat\` > 1)
+- \`repeat.pass_rate\` vs \`repeat.min_pass_rate\` decides the status. Top-level transcript and evals come from the first failing attempt (\`repeat.failed_attempts\` lists them all); every attempt is in \`attempts\`.
+- \`repeat.flakiness\`: 0 = every attempt agreed, 1 = attempts split 50/50. A flaky test with a passing status still deserves a look.
+- \`repeat.eval_variance\`: per eval question, \`pass_rate\` and \`variance\` (p·(1-p), max 0.25). High variance on one question pinpoints the unstable behavior — tighten the agent prompt there, or make the eval more specific.
+
 ### Behavioral Metrics (LLM-Evaluated)
 
 Every conversation test includes \`metrics.behavioral\` — LLM-evaluated behavioral dimensions computed by 3 parallel focused judge calls for maximum accuracy.
@@ -560,7 +831,7 @@ Every conversation test includes \`metrics.harness_overhead\` — timing of Voic
 
 | Metric | What it means |
 |--------|--------------|
-| \`tts_per_turn_ms\` | Per-turn ElevenLabs synthesis time (generating caller audio) |
+| \`tts_per_turn_ms\` | Per-turn TTS synthesis time (generating caller audio) |
 | \`stt_per_turn_ms\` | Per-turn Deepgram transcription time (transcribing agent audio) |
 | \`mean_tts_ms\` | Average TTS synthesis time across all turns |
 | \`mean_stt_ms\` | Average STT transcription time across all turns |
@@ -624,6 +895,13 @@ When the user changes their agent's code, don't re-run the entire suite blindly.
 - New scenario: "You are a caller booking an appointment. When asked for email, give an invalid one first ('uhh, john at... something dot com'), then correct it. Verify the agent validates the email before confirming."
 - New eval: "Did the agent ask for email confirmation before finalizing the booking?"
 
+**Step 4: Compare against the baseline.** Once a run passes, have the user mark it as baseline. After each subsequent change, call \`voiceci_compare_runs\` with the new run ID. It matches tests by name and reports:
+- Tests that regressed (pass → fail) or were fixed
+- Eval questions whose verdict changed
+- Deltas on p50/p95 TTFB, transcript metrics (WER, repetition, reprompts), and behavioral scores
+
+Metric deltas only count as regressions beyond the tolerances (by default +250ms **and** +20% TTFB, a 0.15 drop in a behavioral score, 25% worse transcript metrics). Loosen them via \`tolerances\` for noisy agents rather than ignoring the comparison.
+
 ### Production Failure → Regression Scenario
 
 When a test **fails**, don't just report the failure — **auto-generate a pinning scenario** that reproduces it. This prevents the same failure from slipping through again.
@@ -8,12 +8,19 @@ import { z } from "zod";
 import {
   AudioTestNameSchema,
   ConversationTestSpecSchema,
+  SpeechProfileInputSchema,
   AdapterTypeSchema,
   AudioTestThresholdsSchema,
   LoadPatternSchema,
   PlatformConfigSchema,
+  RegressionTolerancesSchema,
+  VoiceConfigSchema,
+  parseSuiteFile,
+  expandSuite,
 } from "@voiceci/shared";
 import { runLoadTestInProcess } from "../../../services/test-runner.js";
+import { cancelRun } from "../../../services/run-cancel.js";
+import { agentKey, compareRuns } from "../../../services/run-compare.js";
 import { runToSession, runToProgress, type StoredAdapterConfig } from "../session.js";
 
 export function registerActionTools(
@@ -29,12 +36,12 @@ export function registerActionTools(
     description: "Configure voice/platform/telephony settings for an adapter and get back a reusable adapter_config_id. Pass this ID to voiceci_run_suite or voiceci_load_test instead of repeating the full voice/platform config each time. Config is stored per-session.",
     inputSchema: {
       adapter: AdapterTypeSchema.describe(
-        "Transport: ws-voice (WebSocket), sip (phone via Plivo), webrtc (LiveKit), vapi (Vapi platform), retell (Retell platform via SIP + API), elevenlabs (ElevenLabs platform), bland (Bland platform via SIP + API)"
+        "Transport: ws-voice (WebSocket), sip (phone via Plivo), sip-direct (native SIP UA + G.711 RTP to voice.sip.uri — no telephony provider), twilio (phone via Twilio Media Streams), webrtc (LiveKit), openai-realtime (OpenAI Realtime API session from voice.realtime), vapi (Vapi platform), retell (Retell platform via SIP + API), elevenlabs (ElevenLabs platform), bland (Bland platform via SIP + API)"
       ),
       target_phone_number: z
         .string()
         .optional()
-        .describe("Phone number to call. Required for sip, retell, and bland adapters."),
+        .describe("Phone number to call. Required for retell and bland adapters, and for sip and twilio unless voice.telephony.mode is inbound."),
       agent_url: z
         .string()
         .optional()
@@ -42,25 +49,9 @@ export function registerActionTools(
       platform: PlatformConfigSchema.optional().describe(
         "Platform config for vapi/retell/elevenlabs/bland adapters. Required for platform adapters."
       ),
-      voice: z
-        .object({
-          tts: z.object({ voice_id: z.string().optional() }).optional(),
-          stt: z.object({ api_key_env: z.string().optional() }).optional(),
-          silence_threshold_ms: z.number().optional(),
-          webrtc: z.object({
-            livekit_url_env: z.string().optional(),
-            api_key_env: z.string().optional(),
-            api_secret_env: z.string().optional(),
-            room: z.string().optional(),
-          }).optional(),
-          telephony: z.object({
-            auth_id_env: z.string().optional(),
-            auth_token_env: z.string().optional(),
-            from_number: z.string().optional(),
-          }).optional(),
-        })
+      voice: VoiceConfigSchema
         .optional()
-        .describe("Voice configuration overrides (TTS, STT, telephony, WebRTC)."),
+        .describe("Voice configuration overrides (TTS, STT, telephony, WebRTC). voice.tts.provider selects the caller voice engine: elevenlabs (default), openai, azure, google, or local. voice.stt.provider selects agent transcription: deepgram (default), whisper, or assemblyai. voice.telephony.mode inbound (sip, twilio) waits for the agent to call voice.telephony.from_number, optionally told to dial by voice.telephony.trigger (an https webhook)."),
     },
     annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
   }, async ({ adapter, target_phone_number, agent_url, platform, voice }) => {
@@ -166,8 +157,12 @@ export function registerActionTools(
         .string()
         .optional()
         .describe("SHA-256 hash of lockfile from voiceci_prepare_upload output. Enables dependency prebaking for instant subsequent runs."),
-      adapter: AdapterTypeSchema.describe(
-        "Transport: ws-voice (WebSocket), sip (phone via Plivo), webrtc (LiveKit), vapi (Vapi platform), retell (Retell platform via SIP + API), elevenlabs (ElevenLabs platform), bland (Bland platform via SIP + API)"
+      suite: z
+        .string()
+        .optional()
+        .describe("Full contents of a voiceci.yaml / voiceci.json suite file. Provides adapter, voice, platform, tests, and thresholds in one document. Explicit arguments override values from the suite."),
+      adapter: AdapterTypeSchema.optional().describe(
+        "Transport: ws-voice (WebSocket), sip (phone via Plivo), sip-direct (native SIP UA + G.711 RTP to voice.sip.uri — no telephony provider), twilio (phone via Twilio Media Streams), webrtc (LiveKit), openai-realtime (OpenAI Realtime API session from voice.realtime), vapi (Vapi platform), retell (Retell platform via SIP + API), elevenlabs (ElevenLabs platform), bland (Bland platform via SIP + API). Can be omitted if suite or adapter_config_id is provided."
       ),
       platform: PlatformConfigSchema.optional().describe(
         "Platform config for vapi/retell/elevenlabs/bland adapters. Required for platform adapters."
@@ -179,7 +174,24 @@ export function registerActionTools(
       conversation_tests: z
         .array(ConversationTestSpecSchema)
         .optional()
-        .describe("Conversation behavioral tests to run."),
+        .describe("Conversation behavioral tests to run. Each needs caller_prompt and/or script (verbatim caller lines with optional expect matchers). Set repeat (and optionally min_pass_rate) to run a test several times and measure flakiness. With voice.telephony.mode inbound (sip, twilio), the agent calls VoiceCI; callee.action decline/silent/voicemail tests how it handles unanswered calls and needs no caller_prompt or script."),
+      audio_repeat: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .describe("Run every audio test this many times on independent connections (default 1). Results report pass rate and flakiness."),
+      audio_min_pass_rate: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe("Fraction of audio test attempts that must pass when audio_repeat > 1 (default 1)."),
+      audio_speech_profiles: z
+        .record(AudioTestNameSchema, SpeechProfileInputSchema)
+        .optional()
+        .describe("Caller speech profile per audio test, e.g. { \"noise_resilience\": \"far-field\" }. A preset (elderly, hesitant, fast-talker, far-field, quiet, clipping) or custom fields. Tests not listed use voice.speech_profile."),
       start_command: z
         .string()
         .optional()
@@ -195,24 +207,8 @@ export function registerActionTools(
       target_phone_number: z
         .string()
         .optional()
-        .describe("Phone number to call. Required for sip, retell, and bland adapters."),
-      voice: z
-        .object({
-          tts: z.object({ voice_id: z.string().optional() }).optional(),
-          stt: z.object({ api_key_env: z.string().optional() }).optional(),
-          silence_threshold_ms: z.number().optional(),
-          webrtc: z.object({
-            livekit_url_env: z.string().optional(),
-            api_key_env: z.string().optional(),
-            api_secret_env: z.string().optional(),
-            room: z.string().optional(),
-          }).optional(),
-          telephony: z.object({
-            auth_id_env: z.string().optional(),
-            auth_token_env: z.string().optional(),
-            from_number: z.string().optional(),
-          }).optional(),
-        })
+        .describe("Phone number to call. Required for retell and bland adapters, and for sip and twilio unless voice.telephony.mode is inbound."),
+      voice: VoiceConfigSchema
         .optional()
         .describe("Voice configuration overrides."),
       audio_test_thresholds: AudioTestThresholdsSchema
@@ -226,25 +222,62 @@ export function registerActionTools(
       bundle_key,
       bundle_hash,
       lockfile_hash,
+      suite,
       adapter: adapterParam,
       platform: platformParam,
-      audio_tests,
-      conversation_tests,
+      audio_tests: audioTestsParam,
+      conversation_tests: conversationTestsParam,
+      audio_repeat: audioRepeatParam,
+      audio_min_pass_rate: audioMinPassRateParam,
+      audio_speech_profiles: audioSpeechProfilesParam,
       start_command,
       health_endpoint,
       agent_url: agentUrlParam,
       target_phone_number: targetPhoneParam,
       voice: voiceParam,
-      audio_test_thresholds,
+      audio_test_thresholds: thresholdsParam,
     },
     extra,
   ) => {
-    // Resolve adapter config if adapter_config_id is provided
     let adapter = adapterParam;
     let platform = platformParam;
     let agent_url = agentUrlParam;
     let target_phone_number = targetPhoneParam;
     let voice = voiceParam;
+    let audio_tests = audioTestsParam;
+    let conversation_tests = conversationTestsParam;
+    let audio_repeat = audioRepeatParam;
+    let audio_min_pass_rate = audioMinPassRateParam;
+    let audio_speech_profiles = audioSpeechProfilesParam;
+    let audio_test_thresholds = thresholdsParam;
+
+    // Expand suite document — explicit arguments take precedence
+    if (suite) {
+      let expanded;
+      try {
+        expanded = expandSuite(parseSuiteFile(suite));
+      } catch (err) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error: ${err instanceof Error ? err.message : String(err)}`,
+          }],
+          isError: true,
+        };
+      }
+      const { channelConfig, testSpec, audioTestThresholds } = expanded;
+      if (!adapter) adapter = channelConfig.adapter;
+      if (!platform) platform = channelConfig.platform;
+      agent_url = agent_url ?? channelConfig.agentUrl;
+      target_phone_number = target_phone_number ?? channelConfig.targetPhoneNumber;
+      if (!voice) voice = channelConfig.voice;
+      if (!audio_tests) audio_tests = testSpec.audio_tests;
+      if (!conversation_tests) conversation_tests = testSpec.conversation_tests;
+      audio_repeat = audio_repeat ?? testSpec.audio_repeat;
+      audio_min_pass_rate = audio_min_pass_rate ?? testSpec.audio_min_pass_rate;
+      audio_speech_profiles = audio_speech_profiles ?? testSpec.audio_speech_profiles;
+      if (!audio_test_thresholds) audio_test_thresholds = audioTestThresholds ?? undefined;
+    }
 
     if (adapter_config_id) {
       const stored = adapterConfigs.get(adapter_config_id);
@@ -257,13 +290,23 @@ export function registerActionTools(
           isError: true,
         };
       }
-      if (!adapter) adapter = stored.adapter as typeof adapter;
+      if (!adapter) adapter = stored.adapter as NonNullable<typeof adapter>;
       if (!platform) platform = stored.platform as typeof platform;
       agent_url = agent_url ?? stored.agent_url;
       target_phone_number = target_phone_number ?? stored.target_phone_number;
       if (!voice) voice = stored.voice as typeof voice;
     }
 
+    if (!adapter) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: "Error: adapter is required. Provide it directly, via suite, or via adapter_config_id.",
+        }],
+        isError: true,
+      };
+    }
+
     // Validate at least one test
     if (
       (!audio_tests || audio_tests.length === 0) &&
@@ -361,8 +404,48 @@ export function registerActionTools(
       };
     }
 
+    // Inbound mode: the agent dials our number, which only the phone adapters can receive
+    const inbound = voice?.telephony?.mode === "inbound";
+    if (inbound && adapter !== "sip" && adapter !== "twilio") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: voice.telephony.mode "inbound" is only supported by the sip and twilio adapters. Received adapter=${adapter}.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    const calleeTest = conversation_tests?.find((t) => (t.callee?.action ?? "answer") !== "answer");
+    if (calleeTest && !inbound) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: callee.action "${calleeTest.callee!.action}" needs an inbound call — set voice.telephony.mode to "inbound".`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    if (inbound && !voice?.telephony?.from_number) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "Error: inbound mode requires voice.telephony.from_number (the number the agent will dial).",
+          },
+        ],
+        isError: true,
+      };
+    }
+
     // Validate env var references exist
     const missingEnvVars: string[] = [];
+    if (voice?.tts?.api_key_env && !process.env[voice.tts.api_key_env]) {
+      missingEnvVars.push(`voice.tts.api_key_env="${voice.tts.api_key_env}"`);
+    }
     if (voice?.stt?.api_key_env && !process.env[voice.stt.api_key_env]) {
       missingEnvVars.push(`voice.stt.api_key_env="${voice.stt.api_key_env}"`);
     }
@@ -381,6 +464,9 @@ export function registerActionTools(
     if (voice?.webrtc?.livekit_url_env && !process.env[voice.webrtc.livekit_url_env]) {
       missingEnvVars.push(`voice.webrtc.livekit_url_env="${voice.webrtc.livekit_url_env}"`);
     }
+    if (voice?.realtime?.api_key_env && !process.env[voice.realtime.api_key_env]) {
+      missingEnvVars.push(`voice.realtime.api_key_env="${voice.realtime.api_key_env}"`);
+    }
     if (platform?.api_key_env && !process.env[platform.api_key_env]) {
       missingEnvVars.push(`platform.api_key_env="${platform.api_key_env}"`);
     }
@@ -397,7 +483,7 @@ export function registerActionTools(
     }
 
     // Validate bundle for ws-voice (unless agent_url provided)
-    const isAlreadyDeployed = isPlatformAdapter || adapter === "sip" || adapter === "webrtc" || !!agent_url;
+    const isAlreadyDeployed = isPlatformAdapter || adapter === "sip" || adapter === "sip-direct" || adapter === "twilio" || adapter === "webrtc" || adapter === "openai-realtime" || !!agent_url;
     if (!isAlreadyDeployed && (!bundle_key || !bundle_hash)) {
       return {
         content: [
@@ -411,7 +497,7 @@ export function registerActionTools(
     }
 
     const sourceType = isAlreadyDeployed ? "remote" : "bundle";
-    const testSpec = { audio_tests, conversation_tests };
+    const testSpec = { audio_tests, conversation_tests, audio_repeat, audio_min_pass_rate, audio_speech_profiles };
 
     // Single run for ALL tests
     const [run] = await app.db
@@ -422,6 +508,7 @@ export function registerActionTools(
         source_type: sourceType,
         bundle_key: bundle_key ?? null,
         bundle_hash: bundle_hash ?? null,
+        agent_key: agentKey({ adapter, bundle_key, agent_url, target_phone_number, platform, voice }),
         status: "queued",
         test_spec_json: testSpec,
         idempotency_key: idempotency_key ?? null,
@@ -450,7 +537,7 @@ export function registerActionTools(
       health_endpoint,
       agent_url,
       platform: platform ?? null,
-    });
+    }, { jobId: runId });
 
     // Map run to this MCP session for push notifications
     if (extra.sessionId) {
@@ -514,23 +601,7 @@ export function registerActionTools(
         .string()
         .optional()
         .describe("Phone number to call. Required for SIP adapter."),
-      voice: z
-        .object({
-          tts: z.object({ voice_id: z.string().optional() }).optional(),
-          stt: z.object({ api_key_env: z.string().optional() }).optional(),
-          silence_threshold_ms: z.number().optional(),
-          webrtc: z.object({
-            livekit_url_env: z.string().optional(),
-            api_key_env: z.string().optional(),
-            api_secret_env: z.string().optional(),
-            room: z.string().optional(),
-          }).optional(),
-          telephony: z.object({
-            auth_id_env: z.string().optional(),
-            auth_token_env: z.string().optional(),
-            from_number: z.string().optional(),
-          }).optional(),
-        })
+      voice: VoiceConfigSchema
         .optional()
         .describe("Voice configuration overrides."),
     },
@@ -693,4 +764,84 @@ export function registerActionTools(
       }],
     };
   });
+
+  // --- Tool: voiceci_cancel_run ---
+  server.registerTool("voiceci_cancel_run", {
+    title: "Cancel Run",
+    description: "Cancel a queued or running test run. Queued runs never start; running runs stop launching tests, hang up any live calls, and tear down the runner machine. Partial results are discarded and the run ends with status \"cancelled\".",
+    inputSchema: {
+      run_id: z.string().uuid().describe("The run ID returned by voiceci_run_suite."),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  }, async ({ run_id }) => {
+    const result = await cancelRun(app, run_id, userId);
+
+    if (result.outcome === "not_found") {
+      return {
+        content: [{ type: "text" as const, text: `Error: Run ${run_id} not found.` }],
+        isError: true,
+      };
+    }
+
+    if (result.outcome === "already_finished") {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Error: Run ${run_id} already finished with status "${result.status}" — nothing to cancel.`,
+        }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          run_id,
+          status: result.run.status,
+          message: "Run cancelled. Any in-flight calls are being hung up.",
+        }, null, 2),
+      }],
+    };
+  });
+
+  // --- Tool: voiceci_compare_runs ---
+  server.registerTool("voiceci_compare_runs", {
+    title: "Compare Runs",
+    description: "Compare a finished run against another run or against your most recent baseline for the same agent (set via the dashboard or POST /runs/:id/baseline). Tests are matched by name, and tests sharing a name by their order in the run. Reports tests that regressed (pass → fail) or were fixed, eval questions whose verdict changed, and deltas on p50/p95 TTFB, transcript metrics, and behavioral scores. Metric changes only count as regressions once they exceed the tolerances. Use this after a fix to confirm nothing else got worse.",
+    inputSchema: {
+      run_id: z.string().uuid().describe("The run to evaluate (usually the latest run)."),
+      against: z.union([z.literal("baseline"), z.string().uuid()]).default("baseline").describe("Run ID to compare against, or \"baseline\" for the most recent baseline of the same agent."),
+      tolerances: RegressionTolerancesSchema.optional().describe("Regression tolerances. latency_ms (default 250) AND latency_pct (default 20) must both be exceeded for a TTFB regression. behavioral_score: allowed absolute drop in a 0-1 score (default 0.15). transcript_pct: allowed relative worsening of WER, repetition, reprompts, filler rate (default 25)."),
+    },
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+  }, async ({ run_id, against, tolerances }) => {
+    const result = await compareRuns(app, run_id, against, userId, tolerances);
+
+    if (result.outcome === "not_found") {
+      return {
+        content: [{
+          type: "text" as const,
+          text: result.which === "baseline"
+            ? `Error: No baseline to compare against. Mark a passing run as baseline first, or pass a run ID as "against".`
+            : `Error: Run ${run_id} not found.`,
+        }],
+        isError: true,
+      };
+    }
+
+    if (result.outcome === "not_finished") {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Error: Run ${result.run_id} has status "${result.status}" — wait for it to finish before comparing.`,
+        }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result.comparison, null, 2) }],
+    };
+  });
 }
@@ -26,7 +26,7 @@ export function registerDocTools(server: McpServer) {
 
   server.registerTool("voiceci_get_scenario_guide", {
     title: "Scenario Design Guide",
-    description: "Get the scenario design guide: agent analysis steps, code-to-scenario mapping, 7 persona archetypes, scenario generation checklist, and conversation test authoring (caller_prompt, eval, max_turns, silence_threshold_ms). Call this when designing conversation tests for an agent.",
+    description: "Get the scenario design guide: agent analysis steps, code-to-scenario mapping, 7 persona archetypes, scenario generation checklist, and conversation test authoring (caller_prompt, script, eval, max_turns, silence_threshold_ms, language, interruption, speech_profile). Call this when designing conversation tests for an agent.",
     annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
   }, async () => ({
     content: [{ type: "text" as const, text: SCENARIO_GUIDE }],
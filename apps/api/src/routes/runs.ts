@@ -1,13 +1,34 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { eq, and, desc, asc } from "drizzle-orm";
 import { schema } from "@voiceci/db";
+import { createStorageClient } from "@voiceci/artifacts";
 import { z } from "zod";
+import { expandSuite, parseSuiteFile } from "@voiceci/shared";
+import type { ExpandedSuite, RunStatus } from "@voiceci/shared";
 import { subscribe, unsubscribe } from "../lib/run-subscribers.js";
+import { cancelRun } from "../services/run-cancel.js";
+import { agentKey, compareRuns } from "../services/run-compare.js";
+import { renderRunReport } from "../services/run-report.js";
 
 const CreateRunBody = z.object({
   source_type: z.enum(["bundle", "remote"]),
   bundle_key: z.string().min(1).optional(),
   bundle_hash: z.string().min(1).optional(),
+  /** voiceci.yaml / voiceci.json contents, as text or an already-decoded object */
+  suite: z.union([z.string().min(1), z.record(z.unknown())]).optional(),
+});
+
+// Query strings arrive as text, so tolerances are coerced to numbers
+const CompareQuery = z.object({
+  against: z.union([z.literal("baseline"), z.string().uuid()]).default("baseline"),
+  latency_ms: z.coerce.number().min(0).optional(),
+  latency_pct: z.coerce.number().min(0).optional(),
+  behavioral_score: z.coerce.number().min(0).max(1).optional(),
+  transcript_pct: z.coerce.number().min(0).optional(),
+});
+
+const ReportQuery = z.object({
+  format: z.enum(["junit", "json", "markdown"]).default("json"),
 });
 
 export async function runRoutes(app: FastifyInstance) {
@@ -16,6 +37,16 @@ export async function runRoutes(app: FastifyInstance) {
   app.post("/runs", authPreHandler, async (request, reply) => {
     const body = CreateRunBody.parse(request.body);
 
+    let expanded: ExpandedSuite | undefined;
+    if (body.suite !== undefined) {
+      try {
+        expanded = expandSuite(parseSuiteFile(body.suite));
+      } catch (err) {
+        return reply.status(400).send({ error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    const channel = expanded?.channelConfig;
+
     const [run] = await app.db
       .insert(schema.runs)
       .values({
@@ -24,15 +55,38 @@ export async function runRoutes(app: FastifyInstance) {
         source_type: body.source_type,
         bundle_key: body.bundle_key,
         bundle_hash: body.bundle_hash,
+        agent_key: agentKey({
+          adapter: channel?.adapter,
+          bundle_key: body.bundle_key,
+          agent_url: channel?.agentUrl,
+          target_phone_number: channel?.targetPhoneNumber,
+          platform: channel?.platform,
+          voice: channel?.voice,
+        }),
         status: "queued",
+        test_spec_json: expanded?.testSpec,
       })
       .returning();
 
+    // Same job shape as voiceci_run_suite, so the worker runs suites identically
     await app.getRunQueue(request.userId!).add("execute-run", {
       run_id: run!.id,
       bundle_key: body.bundle_key,
       bundle_hash: body.bundle_hash,
-    });
+      ...(expanded && channel
+        ? {
+            adapter: channel.adapter,
+            test_spec: expanded.testSpec,
+            target_phone_number: channel.targetPhoneNumber,
+            voice_config: channel.voice
+              ? { adapter: channel.adapter, target_phone_number: channel.targetPhoneNumber, voice: channel.voice }
+              : { adapter: channel.adapter, target_phone_number: channel.targetPhoneNumber },
+            audio_test_thresholds: expanded.audioTestThresholds,
+            agent_url: channel.agentUrl,
+            platform: channel.platform ?? null,
+          }
+        : {}),
+    }, { jobId: run!.id });
 
     return reply.status(201).send(run);
   });
@@ -44,7 +98,7 @@ export async function runRoutes(app: FastifyInstance) {
     const conditions = [eq(schema.runs.user_id, request.userId!)];
     if (query.status) {
       conditions.push(
-        eq(schema.runs.status, query.status as "queued" | "running" | "pass" | "fail"),
+        eq(schema.runs.status, query.status as RunStatus),
       );
     }
 
@@ -86,6 +140,16 @@ export async function runRoutes(app: FastifyInstance) {
       .from(schema.artifacts)
       .where(eq(schema.artifacts.run_id, id));
 
+    // Recordings get a short-lived download link so they can be played directly
+    const storage = artifactRows.some((a) => a.kind === "recording") ? createStorageClient() : null;
+    const artifacts = await Promise.all(
+      artifactRows.map(async (a) =>
+        storage && a.kind === "recording"
+          ? { ...a, download_url: await storage.presignDownload(a.key) }
+          : a
+      )
+    );
+
     const events = await app.db
       .select()
       .from(schema.runEvents)
@@ -101,7 +165,7 @@ export async function runRoutes(app: FastifyInstance) {
     return reply.send({
       ...run,
       scenarios,
-      artifacts: artifactRows,
+      artifacts,
       events,
       is_baseline: !!baseline,
     });
@@ -145,7 +209,7 @@ export async function runRoutes(app: FastifyInstance) {
     }
 
     // If run is already complete, close immediately
-    if (run.status === "pass" || run.status === "fail") {
+    if (run.status === "pass" || run.status === "fail" || run.status === "cancelled") {
       reply.raw.end();
       return;
     }
@@ -172,6 +236,70 @@ export async function runRoutes(app: FastifyInstance) {
     });
   });
 
+  // --- Cancel a queued or running run ---
+  const cancelHandler = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply,
+  ) => {
+    const result = await cancelRun(app, request.params.id, request.userId!);
+
+    if (result.outcome === "not_found") {
+      return reply.status(404).send({ error: "Run not found" });
+    }
+    if (result.outcome === "already_finished") {
+      return reply.status(409).send({
+        error: `Run already finished with status "${result.status}"`,
+      });
+    }
+    return reply.send(result.run);
+  };
+
+  app.post<{ Params: { id: string } }>("/runs/:id/cancel", authPreHandler, cancelHandler);
+  app.delete<{ Params: { id: string } }>("/runs/:id", authPreHandler, cancelHandler);
+
+  // --- Compare a finished run against another run or the same agent's latest baseline ---
+  app.get<{ Params: { id: string } }>("/runs/:id/compare", authPreHandler, async (request, reply) => {
+    const parsed = CompareQuery.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: parsed.error.issues[0]?.message ?? "Invalid query" });
+    }
+    const { against, ...tolerances } = parsed.data;
+
+    const result = await compareRuns(app, request.params.id, against, request.userId!, tolerances);
+
+    if (result.outcome === "not_found") {
+      return reply.status(404).send({
+        error: result.which === "baseline" ? "Baseline run not found" : "Run not found",
+      });
+    }
+    if (result.outcome === "not_finished") {
+      return reply.status(409).send({
+        error: `Run ${result.run_id} has status "${result.status}" — only finished runs can be compared`,
+      });
+    }
+    return reply.send(result.comparison);
+  });
+
+  // --- Export a finished run as JUnit XML, JSON, or a markdown PR summary ---
+  app.get<{ Params: { id: string } }>("/runs/:id/report", authPreHandler, async (request, reply) => {
+    const parsed = ReportQuery.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: "format must be one of: junit, json, markdown" });
+    }
+
+    const result = await renderRunReport(app, request.params.id, request.userId!, parsed.data.format);
+
+    if (result.outcome === "not_found") {
+      return reply.status(404).send({ error: "Run not found" });
+    }
+    if (result.outcome === "not_finished") {
+      return reply.status(409).send({
+        error: `Run has status "${result.status}" — reports are available once it finishes`,
+      });
+    }
+    return reply.type(result.contentType).send(result.body);
+  });
+
   app.post<{ Params: { id: string } }>(
     "/runs/:id/baseline",
     authPreHandler,
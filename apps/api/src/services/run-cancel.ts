@@ -0,0 +1,84 @@
+/**
+ * Run cancellation — shared by POST/DELETE /runs/:id and voiceci_cancel_run.
+ *
+ * The run row is flipped to "cancelled" first, so a late runner callback or
+ * a worker picking up the job sees it and backs off. The worker then tears
+ * down whatever is live (test pool, channels, Plivo calls, Fly machine).
+ * A run that was still queued has no worker to report back, so its
+ * "cancelled" event is emitted here once the job is removed.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { eq, and, inArray } from "drizzle-orm";
+import { schema } from "@voiceci/db";
+import { broadcast } from "../lib/run-subscribers.js";
+import { runToSession, runToProgress } from "../routes/mcp/session.js";
+
+export type CancelRunResult =
+  | { outcome: "cancelled"; run: typeof schema.runs.$inferSelect }
+  | { outcome: "not_found" }
+  | { outcome: "already_finished"; status: string };
+
+export async function cancelRun(
+  app: FastifyInstance,
+  runId: string,
+  userId: string,
+): Promise<CancelRunResult> {
+  const [updated] = await app.db
+    .update(schema.runs)
+    .set({
+      status: "cancelled",
+      finished_at: new Date(),
+      error_text: "Cancelled by user",
+    })
+    .where(
+      and(
+        eq(schema.runs.id, runId),
+        eq(schema.runs.user_id, userId),
+        inArray(schema.runs.status, ["queued", "running"]),
+      )
+    )
+    .returning();
+
+  if (!updated) {
+    const [existing] = await app.db
+      .select({ status: schema.runs.status })
+      .from(schema.runs)
+      .where(and(eq(schema.runs.id, runId), eq(schema.runs.user_id, userId)))
+      .limit(1);
+    return existing
+      ? { outcome: "already_finished", status: existing.status }
+      : { outcome: "not_found" };
+  }
+
+  const dequeued = await app.signalRunCancel(userId, runId);
+
+  await recordEvent(app, runId, "cancel_requested", "Cancellation requested");
+  if (dequeued) await recordEvent(app, runId, "cancelled", "Run cancelled before it started");
+
+  runToSession.delete(runId);
+  runToProgress.delete(runId);
+
+  return { outcome: "cancelled", run: updated };
+}
+
+async function recordEvent(
+  app: FastifyInstance,
+  runId: string,
+  eventType: string,
+  message: string,
+): Promise<void> {
+  const [event] = await app.db
+    .insert(schema.runEvents)
+    .values({ run_id: runId, event_type: eventType, message })
+    .returning();
+
+  broadcast(runId, {
+    id: event!.id,
+    run_id: runId,
+    event_type: eventType,
+    message,
+    metadata_json: { status: "cancelled" },
+    created_at: event!.created_at.toISOString(),
+  });
+}
@@ -0,0 +1,159 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AudioTestResult, ConversationTestResult } from "@voiceci/shared";
+import { agentKey, buildComparison } from "./run-compare.js";
+
+type Row = Parameters<typeof buildComparison>[2][number];
+
+let nextId = 0;
+
+function row(name: string, test_type: "audio" | "conversation", status: "pass" | "fail", metrics: unknown): Row {
+  return {
+    id: String(nextId++),
+    run_id: "run",
+    name,
+    status,
+    test_type,
+    metrics_json: metrics,
+    trace_json: [],
+    created_at: new Date(0),
+  };
+}
+
+function conversation(
+  name: string,
+  status: "pass" | "fail",
+  metrics: Partial<ConversationTestResult["metrics"]> = {},
+  evals: Array<[string, boolean]> = [],
+): Row {
+  const result: ConversationTestResult = {
+    name,
+    caller_prompt: "caller",
+    status,
+    transcript: [],
+    eval_results: evals.map(([question, passed]) => ({ question, relevant: true, passed, reasoning: "" })),
+    duration_ms: 0,
+    metrics: { turns: 1, mean_ttfb_ms: 500, total_duration_ms: 1000, ...metrics },
+  };
+  return row(name, "conversation", status, result);
+}
+
+function audio(name: string, status: "pass" | "fail", metrics: AudioTestResult["metrics"]): Row {
+  return row(name, "audio", status, { test_name: name, status, metrics, duration_ms: 0 });
+}
+
+function compare(baseline: Row[], candidate: Row[], tolerances = {}) {
+  return buildComparison("candidate", "baseline", baseline, candidate, tolerances);
+}
+
+test("latency regresses only past both the absolute and relative tolerance", () => {
+  const at = (ms: number) => [conversation("book", "pass", { mean_ttfb_ms: ms })];
+  const delta = (ms: number) => compare(at(1000), at(ms)).tests[0]!.metric_deltas[0]!;
+
+  // +200ms: under latency_ms (250)
+  assert.equal(delta(1200).regression, false);
+  // +300ms on 1000ms: over latency_ms but 30% > latency_pct (20)
+  assert.equal(delta(1300).regression, true);
+  // +300ms on 2000ms: over latency_ms but only 15%
+  assert.equal(compare(at(2000), at(2300)).tests[0]!.metric_deltas[0]!.regression, false);
+  // Tolerances can be loosened per comparison
+  assert.equal(compare(at(1000), at(1300), { latency_ms: 400 }).tests[0]!.metric_deltas[0]!.regression, false);
+
+  const faster = delta(600);
+  assert.deepEqual(
+    { delta: faster.delta, delta_pct: faster.delta_pct, regression: faster.regression },
+    { delta: -400, delta_pct: -40, regression: false },
+  );
+});
+
+test("audio latency metrics are diffed and other metrics ignored", () => {
+  const result = compare(
+    [audio("ttfb", "pass", { p95_ttfb_ms: 800, word_count: 12 })],
+    [audio("ttfb", "pass", { p95_ttfb_ms: 1400, word_count: 3 })],
+  );
+  assert.deepEqual(result.tests[0]!.metric_deltas.map((d) => [d.metric, d.regression]), [["p95_ttfb_ms", true]]);
+  assert.equal(result.tests[0]!.change, "regressed");
+});
+
+test("transcript changes are measured against a floor", () => {
+  const wer = (b: number, c: number) =>
+    compare(
+      [conversation("book", "pass", { transcript: { wer: b } })],
+      [conversation("book", "pass", { transcript: { wer: c } })],
+    ).tests[0]!.metric_deltas.find((d) => d.metric === "transcript.wer")!;
+
+  // 0 → 0.01 is +∞% raw, but only 20% of the 0.05 floor
+  assert.equal(wer(0, 0.01).regression, false);
+  assert.equal(wer(0, 0.02).regression, true);
+  assert.equal(wer(0, 0.02).delta_pct, null);
+  // Above the floor the change is relative to the baseline
+  assert.equal(wer(0.2, 0.24).regression, false);
+  assert.equal(wer(0.2, 0.26).regression, true);
+  assert.equal(wer(0.2, 0.1).regression, false);
+});
+
+test("behavioral scores regress on an absolute drop and flags on any flip", () => {
+  const behavioral = (empathy: number, hallucinated: boolean) =>
+    conversation("book", "pass", {
+      behavioral: {
+        empathy_score: { score: empathy, reasoning: "" },
+        hallucination_detected: { detected: hallucinated, reasoning: "" },
+      },
+    });
+  const regressions = (b: Row, c: Row) =>
+    compare([b], [c]).tests[0]!.metric_deltas.filter((d) => d.regression).map((d) => d.metric);
+
+  assert.deepEqual(regressions(behavioral(0.9, false), behavioral(0.8, false)), []);
+  assert.deepEqual(regressions(behavioral(0.9, false), behavioral(0.7, false)), ["behavioral.empathy_score"]);
+  assert.deepEqual(regressions(behavioral(0.9, false), behavioral(0.9, true)), ["behavioral.hallucination_detected"]);
+  assert.deepEqual(regressions(behavioral(0.9, true), behavioral(0.9, false)), []);
+});
+
+test("status flips and failing evals are reported", () => {
+  const result = compare(
+    [conversation("book", "pass", {}, [["Confirms the time?", true], ["Asks for a name?", false]]), conversation("cancel", "fail")],
+    [conversation("book", "fail", {}, [["Confirms the time?", false], ["Asks for a name?", true]]), conversation("cancel", "pass")],
+  );
+  const [book, cancel] = result.tests;
+
+  assert.equal(book!.change, "regressed");
+  assert.deepEqual(book!.regressions, ["Status changed from pass to fail", "Eval now fails: Confirms the time?"]);
+  assert.deepEqual(book!.eval_changes.map((e) => e.regression), [true, false]);
+  assert.equal(cancel!.change, "fixed");
+  assert.equal(result.regressed, true);
+  assert.deepEqual(
+    { regressed: result.summary.regressed, fixed: result.summary.fixed, eval_regressions: result.summary.eval_regressions },
+    { regressed: 1, fixed: 1, eval_regressions: 1 },
+  );
+});
+
+test("tests sharing a name are paired by their order in the run", () => {
+  const result = compare(
+    [conversation("retry", "pass", { mean_ttfb_ms: 500 }), conversation("retry", "pass", { mean_ttfb_ms: 500 }), audio("retry", "pass", {})],
+    [conversation("retry", "pass", { mean_ttfb_ms: 500 }), conversation("retry", "fail", { mean_ttfb_ms: 500 }), conversation("retry", "pass")],
+  );
+
+  assert.deepEqual(
+    result.tests.map((t) => [t.test_type, t.change]),
+    [
+      ["conversation", "unchanged"],
+      ["conversation", "regressed"],
+      ["audio", "removed"],
+      ["conversation", "added"],
+    ],
+  );
+  assert.equal(result.summary.regressed, 1);
+});
+
+test("agent keys tell agents apart and stay stable across uploads", () => {
+  assert.equal(agentKey({ bundle_key: "bundles/a.tar.gz" }), agentKey({ adapter: "ws-voice", bundle_key: "bundles/a.tar.gz" }));
+  assert.notEqual(agentKey({ bundle_key: "bundles/a.tar.gz" }), agentKey({ bundle_key: "bundles/b.tar.gz" }));
+  assert.notEqual(
+    agentKey({ adapter: "vapi", platform: { agent_id: "one" } }),
+    agentKey({ adapter: "vapi", platform: { agent_id: "two" } }),
+  );
+  assert.notEqual(
+    agentKey({ adapter: "sip", target_phone_number: "+15550001" }),
+    agentKey({ adapter: "twilio", target_phone_number: "+15550001" }),
+  );
+});
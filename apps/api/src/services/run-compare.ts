@@ -0,0 +1,359 @@
+/**
+ * Run comparison — shared by GET /runs/:id/compare and voiceci_compare_runs.
+ *
+ * Tests are matched by type + name, and tests sharing a name by their order
+ * within the run. For each pair we report status flips,
+ * eval verdict changes, and deltas on latency, transcript, and behavioral
+ * metrics; a delta only counts as a regression once it exceeds the
+ * configured tolerance, so run-to-run noise doesn't fail a comparison.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { eq, and, ne, desc, asc, isNull } from "drizzle-orm";
+import { schema } from "@voiceci/db";
+import type {
+  AudioTestResult,
+  ConversationTestResult,
+  EvalChange,
+  EvalResult,
+  EvalVerdict,
+  MetricDelta,
+  RegressionTolerances,
+  RunComparison,
+  TestChange,
+  TestComparison,
+  VoiceConfig,
+} from "@voiceci/shared";
+
+export const DEFAULT_TOLERANCES: Required<RegressionTolerances> = {
+  latency_ms: 250,
+  latency_pct: 20,
+  behavioral_score: 0.15,
+  transcript_pct: 25,
+};
+
+export type CompareRunsResult =
+  | { outcome: "compared"; comparison: RunComparison }
+  | { outcome: "not_found"; which: "run" | "baseline" }
+  | { outcome: "not_finished"; run_id: string; status: string };
+
+type ScenarioRow = typeof schema.scenarioResults.$inferSelect;
+
+/** What a run was pointed at — enough to tell one agent from another. */
+export interface AgentTarget {
+  adapter?: string;
+  bundle_key?: string | null;
+  agent_url?: string | null;
+  target_phone_number?: string | null;
+  platform?: { agent_id?: string } | null;
+  voice?: VoiceConfig | null;
+}
+
+/**
+ * Stable identity of the agent under test, stored on the run so "baseline"
+ * only matches baselines of the same agent. A bundle_key is reused across
+ * uploads of one project; remote agents are identified by their address.
+ */
+export function agentKey(target: AgentTarget): string {
+  const id =
+    target.bundle_key ??
+    target.platform?.agent_id ??
+    target.agent_url ??
+    target.target_phone_number ??
+    target.voice?.sip?.uri ??
+    target.voice?.webrtc?.room ??
+    target.voice?.realtime?.url ??
+    target.voice?.telephony?.from_number ??
+    "";
+  return `${target.adapter ?? "ws-voice"}:${id}`;
+}
+
+type MetricKind = "latency" | "transcript" | "behavioral" | "flag";
+
+interface MetricSpec {
+  metric: string;
+  kind: MetricKind;
+  better: "lower" | "higher";
+  /** Smallest baseline used for relative change, so 0 → tiny doesn't read as +∞% */
+  floor?: number;
+}
+
+const CONVERSATION_METRICS: Array<MetricSpec & { read: (r: ConversationTestResult) => number | boolean | undefined }> = [
+  { metric: "mean_ttfb_ms", kind: "latency", better: "lower", read: (r) => r.metrics.mean_ttfb_ms },
+  { metric: "latency.p50_ttfb_ms", kind: "latency", better: "lower", read: (r) => r.metrics.latency?.p50_ttfb_ms },
+  { metric: "latency.p95_ttfb_ms", kind: "latency", better: "lower", read: (r) => r.metrics.latency?.p95_ttfb_ms },
+  { metric: "transcript.wer", kind: "transcript", better: "lower", floor: 0.05, read: (r) => r.metrics.transcript?.wer },
+  { metric: "transcript.repetition_score", kind: "transcript", better: "lower", floor: 0.05, read: (r) => r.metrics.transcript?.repetition_score },
+  { metric: "transcript.reprompt_count", kind: "transcript", better: "lower", floor: 1, read: (r) => r.metrics.transcript?.reprompt_count },
+  { metric: "transcript.filler_word_rate", kind: "transcript", better: "lower", floor: 0.02, read: (r) => r.metrics.transcript?.filler_word_rate },
+  { metric: "transcript.vocabulary_diversity", kind: "transcript", better: "higher", floor: 0.05, read: (r) => r.metrics.transcript?.vocabulary_diversity },
+  { metric: "behavioral.intent_accuracy", kind: "behavioral", better: "higher", read: (r) => r.metrics.behavioral?.intent_accuracy?.score },
+  { metric: "behavioral.context_retention", kind: "behavioral", better: "higher", read: (r) => r.metrics.behavioral?.context_retention?.score },
+  { metric: "behavioral.clarity_score", kind: "behavioral", better: "higher", read: (r) => r.metrics.behavioral?.clarity_score?.score },
+  { metric: "behavioral.topic_drift", kind: "behavioral", better: "lower", read: (r) => r.metrics.behavioral?.topic_drift?.score },
+  { metric: "behavioral.empathy_score", kind: "behavioral", better: "higher", read: (r) => r.metrics.behavioral?.empathy_score?.score },
+  { metric: "behavioral.compliance_adherence", kind: "behavioral", better: "higher", read: (r) => r.metrics.behavioral?.compliance_adherence?.score },
+  { metric: "behavioral.escalation_handling", kind: "behavioral", better: "higher", read: (r) => r.metrics.behavioral?.escalation_handling?.score },
+  { metric: "behavioral.hallucination_detected", kind: "flag", better: "lower", read: (r) => r.metrics.behavioral?.hallucination_detected?.detected },
+  { metric: "behavioral.safety_compliance", kind: "flag", better: "higher", read: (r) => r.metrics.behavioral?.safety_compliance?.compliant },
+];
+
+/** Audio metrics worth diffing: anything that measures a delay in ms. */
+const AUDIO_LATENCY_KEY = /(ttfb|ttfw|latency|delay|response_time|degradation)_ms$/;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function diffMetric(
+  spec: MetricSpec,
+  baseline: number | boolean,
+  candidate: number | boolean,
+  tol: Required<RegressionTolerances>,
+): MetricDelta {
+  const b = Number(baseline);
+  const c = Number(candidate);
+  const delta = c - b;
+  const deltaPct = b !== 0 ? (delta / Math.abs(b)) * 100 : null;
+  // Positive = got worse
+  const worse = spec.better === "lower" ? delta : -delta;
+
+  let regression: boolean;
+  switch (spec.kind) {
+    case "latency":
+      regression = worse > tol.latency_ms && (b === 0 || (worse / b) * 100 > tol.latency_pct);
+      break;
+    case "transcript":
+      regression = worse > 0 && (worse / Math.max(Math.abs(b), spec.floor ?? 0)) * 100 > tol.transcript_pct;
+      break;
+    case "behavioral":
+      regression = worse > tol.behavioral_score;
+      break;
+    case "flag":
+      regression = worse > 0;
+      break;
+  }
+
+  return {
+    metric: spec.metric,
+    baseline: round(b),
+    candidate: round(c),
+    delta: round(delta),
+    delta_pct: deltaPct === null ? null : round(deltaPct),
+    better: spec.better,
+    regression,
+  };
+}
+
+function conversationDeltas(
+  baseline: ConversationTestResult,
+  candidate: ConversationTestResult,
+  tol: Required<RegressionTolerances>,
+): MetricDelta[] {
+  return CONVERSATION_METRICS.flatMap((spec) => {
+    const b = spec.read(baseline);
+    const c = spec.read(candidate);
+    return b === undefined || c === undefined ? [] : [diffMetric(spec, b, c, tol)];
+  });
+}
+
+function audioDeltas(
+  baseline: AudioTestResult,
+  candidate: AudioTestResult,
+  tol: Required<RegressionTolerances>,
+): MetricDelta[] {
+  return Object.entries(baseline.metrics).flatMap(([key, b]) => {
+    const c = candidate.metrics[key];
+    if (!AUDIO_LATENCY_KEY.test(key) || typeof b !== "number" || typeof c !== "number") return [];
+    return [diffMetric({ metric: key, kind: "latency", better: "lower" }, b, c, tol)];
+  });
+}
+
+function verdict(r: EvalResult | undefined): EvalVerdict | null {
+  if (!r) return null;
+  if (!r.relevant) return "not_relevant";
+  return r.passed ? "pass" : "fail";
+}
+
+/** Only questions whose verdict changed; a pass turning into a fail is a regression. */
+function evalChanges(
+  baseline: ConversationTestResult,
+  candidate: ConversationTestResult,
+): EvalChange[] {
+  const index = (r: ConversationTestResult) =>
+    new Map([...r.eval_results, ...(r.tool_call_eval_results ?? [])].map((e) => [e.question, e]));
+  const before = index(baseline);
+  const after = index(candidate);
+  const questions = new Set([...before.keys(), ...after.keys()]);
+
+  return [...questions].flatMap((question) => {
+    const b = verdict(before.get(question));
+    const c = verdict(after.get(question));
+    if (b === c) return [];
+    return [{ question, baseline: b, candidate: c, regression: b === "pass" && c === "fail" }];
+  });
+}
+
+function compareTest(
+  name: string,
+  testType: "audio" | "conversation",
+  baseline: ScenarioRow | undefined,
+  candidate: ScenarioRow | undefined,
+  tol: Required<RegressionTolerances>,
+): TestComparison {
+  const base = {
+    name,
+    test_type: testType,
+    baseline_status: baseline?.status ?? null,
+    candidate_status: candidate?.status ?? null,
+  };
+  if (!baseline || !candidate) {
+    return {
+      ...base,
+      change: baseline ? "removed" : "added",
+      eval_changes: [],
+      metric_deltas: [],
+      regressions: [],
+    };
+  }
+
+  const evals = testType === "conversation"
+    ? evalChanges(baseline.metrics_json as ConversationTestResult, candidate.metrics_json as ConversationTestResult)
+    : [];
+  const deltas = testType === "conversation"
+    ? conversationDeltas(baseline.metrics_json as ConversationTestResult, candidate.metrics_json as ConversationTestResult, tol)
+    : audioDeltas(baseline.metrics_json as AudioTestResult, candidate.metrics_json as AudioTestResult, tol);
+
+  const regressions: string[] = [];
+  if (baseline.status === "pass" && candidate.status === "fail") {
+    regressions.push("Status changed from pass to fail");
+  }
+  for (const e of evals.filter((e) => e.regression)) {
+    regressions.push(`Eval now fails: ${e.question}`);
+  }
+  for (const d of deltas.filter((d) => d.regression)) {
+    regressions.push(`${d.metric} ${d.baseline} → ${d.candidate}`);
+  }
+
+  let change: TestChange = "unchanged";
+  if (regressions.length > 0) change = "regressed";
+  else if (baseline.status === "fail" && candidate.status === "pass") change = "fixed";
+
+  return { ...base, change, eval_changes: evals, metric_deltas: deltas, regressions };
+}
+
+export function buildComparison(
+  runId: string,
+  baselineRunId: string,
+  baseline: ScenarioRow[],
+  candidate: ScenarioRow[],
+  tolerances: RegressionTolerances = {},
+): RunComparison {
+  const tol = { ...DEFAULT_TOLERANCES, ...tolerances };
+  // Rows arrive in run order; the nth test of a given name pairs with the nth
+  // of that name in the other run, so duplicates don't collapse into one
+  const keyed = (rows: ScenarioRow[]) => {
+    const seen = new Map<string, number>();
+    return new Map(rows.map((row) => {
+      const name = `${row.test_type ?? "audio"}:${row.name}`;
+      const nth = seen.get(name) ?? 0;
+      seen.set(name, nth + 1);
+      return [`${name}#${nth}`, row];
+    }));
+  };
+  const before = keyed(baseline);
+  const after = keyed(candidate);
+
+  const tests = [...new Set([...before.keys(), ...after.keys()])].map((k) => {
+    const row = (after.get(k) ?? before.get(k))!;
+    return compareTest(row.name, row.test_type ?? "audio", before.get(k), after.get(k), tol);
+  });
+
+  const summary: RunComparison["summary"] = {
+    regressed: 0,
+    fixed: 0,
+    unchanged: 0,
+    added: 0,
+    removed: 0,
+    metric_regressions: 0,
+    eval_regressions: 0,
+  };
+  for (const t of tests) {
+    summary[t.change]++;
+    summary.metric_regressions += t.metric_deltas.filter((d) => d.regression).length;
+    summary.eval_regressions += t.eval_changes.filter((e) => e.regression).length;
+  }
+
+  return {
+    run_id: runId,
+    baseline_run_id: baselineRunId,
+    regressed: summary.regressed > 0,
+    summary,
+    tolerances: tol,
+    tests,
+  };
+}
+
+/**
+ * Compare `runId` against another run, or against the user's most recent
+ * baseline for the same agent when `against` is "baseline". Both runs must
+ * be finished.
+ */
+export async function compareRuns(
+  app: FastifyInstance,
+  runId: string,
+  against: string,
+  userId: string,
+  tolerances: RegressionTolerances = {},
+): Promise<CompareRunsResult> {
+  let baselineRunId = against;
+  if (against === "baseline") {
+    const [candidate] = await app.db
+      .select({ agent_key: schema.runs.agent_key })
+      .from(schema.runs)
+      .where(and(eq(schema.runs.id, runId), eq(schema.runs.user_id, userId)))
+      .limit(1);
+    if (!candidate) return { outcome: "not_found", which: "run" };
+
+    const [latest] = await app.db
+      .select({ run_id: schema.baselines.run_id })
+      .from(schema.baselines)
+      .innerJoin(schema.runs, eq(schema.runs.id, schema.baselines.run_id))
+      .where(and(
+        eq(schema.baselines.user_id, userId),
+        ne(schema.baselines.run_id, runId),
+        candidate.agent_key === null
+          ? isNull(schema.runs.agent_key)
+          : eq(schema.runs.agent_key, candidate.agent_key),
+      ))
+      .orderBy(desc(schema.baselines.created_at))
+      .limit(1);
+    if (!latest) return { outcome: "not_found", which: "baseline" };
+    baselineRunId = latest.run_id;
+  }
+
+  const rows: ScenarioRow[][] = [];
+  for (const [id, which] of [[runId, "run"], [baselineRunId, "baseline"]] as const) {
+    const [run] = await app.db
+      .select({ status: schema.runs.status })
+      .from(schema.runs)
+      .where(and(eq(schema.runs.id, id), eq(schema.runs.user_id, userId)))
+      .limit(1);
+    if (!run) return { outcome: "not_found", which };
+    if (run.status !== "pass" && run.status !== "fail") {
+      return { outcome: "not_finished", run_id: id, status: run.status };
+    }
+    rows.push(
+      await app.db
+        .select()
+        .from(schema.scenarioResults)
+        .where(eq(schema.scenarioResults.run_id, id))
+        .orderBy(asc(schema.scenarioResults.created_at)),
+    );
+  }
+
+  return {
+    outcome: "compared",
+    comparison: buildComparison(runId, baselineRunId, rows[1]!, rows[0]!, tolerances),
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * Run reports — renders a finished run for CI consumption.
+ *
+ * - junit: one <testsuite> per test type, one <testcase> per test. Failure
+ *   messages come from the test's `error` and from failed eval reasoning.
+ *   A cancelled run, or a failed one with no failing test, gets a failing
+ *   "run" testcase so CI never reads it as green.
+ * - json: the same data as a single structured document.
+ * - markdown: a compact summary meant to be posted as a PR comment.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { eq, and } from "drizzle-orm";
+import { schema } from "@voiceci/db";
+import type { AudioTestResult, ConversationTestResult } from "@voiceci/shared";
+
+export type ReportFormat = "junit" | "json" | "markdown";
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  junit: "application/xml; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+export interface LatencyPercentiles {
+  samples: number;
+  p50_ms: number;
+  p90_ms: number;
+  p95_ms: number;
+  p99_ms: number;
+}
+
+export interface RunReport {
+  run_id: string;
+  status: string;
+  error_text: string | null;
+  duration_ms: number | null;
+  started_at: string | null;
+  finished_at: string | null;
+  aggregate: {
+    audio_tests: { total: number; passed: number; failed: number };
+    conversation_tests: { total: number; passed: number; failed: number };
+  };
+  /** Agent TTFB across every conversation turn in the run */
+  latency: LatencyPercentiles | null;
+  failures: Array<{ test: string; test_type: "audio" | "conversation"; messages: string[] }>;
+  audio_results: AudioTestResult[];
+  conversation_results: ConversationTestResult[];
+}
+
+export type RunReportResult =
+  | { outcome: "rendered"; body: string; contentType: string }
+  | { outcome: "not_found" }
+  | { outcome: "not_finished"; status: string };
+
+type RunRow = typeof schema.runs.$inferSelect;
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  if (lower === upper) return sorted[lower]!;
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (index - lower);
+}
+
+function latencyPercentiles(results: ConversationTestResult[]): LatencyPercentiles | null {
+  const sorted = results
+    .flatMap((r) =>
+      r.metrics.latency?.ttfb_per_turn_ms ??
+      r.transcript.flatMap((t) => (t.role === "agent" && t.ttfb_ms !== undefined ? [t.ttfb_ms] : []))
+    )
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  return {
+    samples: sorted.length,
+    p50_ms: Math.round(percentile(sorted, 50)),
+    p90_ms: Math.round(percentile(sorted, 90)),
+    p95_ms: Math.round(percentile(sorted, 95)),
+    p99_ms: Math.round(percentile(sorted, 99)),
+  };
+}
+
+function conversationTestName(result: ConversationTestResult): string {
+  return result.name ?? `conversation:${result.caller_prompt.slice(0, 50)}`;
+}
+
+function audioFailureMessages(result: AudioTestResult): string[] {
+  if (result.status === "pass") return [];
+  const messages: string[] = [];
+  if (result.error) messages.push(result.error);
+  if (result.repeat && result.repeat.pass_rate < result.repeat.min_pass_rate) {
+    messages.push(`Passed ${result.repeat.passed}/${result.repeat.attempts} attempts (min pass rate ${result.repeat.min_pass_rate})`);
+  }
+  if (messages.length === 0) messages.push("Thresholds not met");
+  return messages;
+}
+
+function conversationFailureMessages(result: ConversationTestResult): string[] {
+  if (result.status === "pass") return [];
+  const messages: string[] = [];
+  if (result.error) messages.push(result.error);
+  for (const e of [...result.eval_results, ...(result.tool_call_eval_results ?? [])]) {
+    if (e.relevant && !e.passed) messages.push(`${e.question}: ${e.reasoning}`);
+  }
+  for (const s of result.script_results ?? []) {
+    if (!s.passed) messages.push(`Script step ${s.step + 1} ("${s.say}"): ${s.reasoning}`);
+  }
+  if (result.repeat && result.repeat.pass_rate < result.repeat.min_pass_rate) {
+    messages.push(`Passed ${result.repeat.passed}/${result.repeat.attempts} attempts (min pass rate ${result.repeat.min_pass_rate})`);
+  }
+  if (messages.length === 0) messages.push("Conversation test failed");
+  return messages;
+}
+
+function count(results: Array<{ status: "pass" | "fail" }>) {
+  const passed = results.filter((r) => r.status === "pass").length;
+  return { total: results.length, passed, failed: results.length - passed };
+}
+
+export function buildRunReport(
+  run: RunRow,
+  audioResults: AudioTestResult[],
+  conversationResults: ConversationTestResult[],
+): RunReport {
+  return {
+    run_id: run.id,
+    status: run.status,
+    error_text: run.error_text ?? null,
+    duration_ms: run.duration_ms ?? null,
+    started_at: run.started_at?.toISOString() ?? null,
+    finished_at: run.finished_at?.toISOString() ?? null,
+    aggregate: {
+      audio_tests: count(audioResults),
+      conversation_tests: count(conversationResults),
+    },
+    latency: latencyPercentiles(conversationResults),
+    failures: [
+      ...audioResults.map((r) => ({
+        test: r.test_name,
+        test_type: "audio" as const,
+        messages: audioFailureMessages(r),
+      })),
+      ...conversationResults.map((r) => ({
+        test: conversationTestName(r),
+        test_type: "conversation" as const,
+        messages: conversationFailureMessages(r),
+      })),
+    ].filter((f) => f.messages.length > 0),
+    audio_results: audioResults,
+    conversation_results: conversationResults,
+  };
+}
+
+// ============================================================
+// JUnit XML
+// ============================================================
+
+function xml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function testcase(
+  classname: string,
+  name: string,
+  durationMs: number,
+  failures: string[],
+  output: string,
+): string {
+  const lines = [`    <testcase classname="${xml(classname)}" name="${xml(name)}" time="${seconds(durationMs)}">`];
+  if (failures.length > 0) {
+    lines.push(`      <failure message="${xml(failures[0]!)}" type="AssertionError">${xml(failures.join("\n"))}</failure>`);
+  }
+  lines.push(`      <system-out>${xml(output)}</system-out>`);
+  lines.push("    </testcase>");
+  return lines.join("\n");
+}
+
+function testsuite(name: string, cases: string[], failures: number, durationMs: number): string {
+  return [
+    `  <testsuite name="${xml(name)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0" time="${seconds(durationMs)}">`,
+    ...cases,
+    "  </testsuite>",
+  ].join("\n");
+}
+
+export function renderJunit(report: RunReport): string {
+  const audioCases = report.audio_results.map((r) =>
+    testcase("voiceci.audio", r.test_name, r.duration_ms, audioFailureMessages(r), JSON.stringify(r.metrics, null, 2))
+  );
+  const conversationCases = report.conversation_results.map((r) =>
+    testcase(
+      "voiceci.conversation",
+      conversationTestName(r),
+      r.duration_ms,
+      conversationFailureMessages(r),
+      r.transcript.map((t) => `${t.role.toUpperCase()}: ${t.text}`).join("\n"),
+    )
+  );
+
+  const suites = [
+    testsuite(
+      "audio",
+      audioCases,
+      report.aggregate.audio_tests.failed,
+      report.audio_results.reduce((sum, r) => sum + r.duration_ms, 0),
+    ),
+    testsuite(
+      "conversation",
+      conversationCases,
+      report.aggregate.conversation_tests.failed,
+      report.conversation_results.reduce((sum, r) => sum + r.duration_ms, 0),
+    ),
+  ];
+
+  // A run that died before producing results, or was cancelled partway, still needs to fail CI
+  let runFailures = 0;
+  const cancelled = report.status === "cancelled";
+  if (cancelled || (report.status === "fail" && report.failures.length === 0)) {
+    runFailures = 1;
+    const message = report.error_text ?? (cancelled ? "Run cancelled" : "Run failed");
+    suites.push(testsuite(
+      "run",
+      [testcase("voiceci.run", "run", report.duration_ms ?? 0, [message], "")],
+      1,
+      report.duration_ms ?? 0,
+    ));
+  }
+
+  const tests = audioCases.length + conversationCases.length + runFailures;
+  const failures = report.aggregate.audio_tests.failed + report.aggregate.conversation_tests.failed + runFailures;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="VoiceCI run ${xml(report.run_id)}" tests="${tests}" failures="${failures}" errors="0" time="${seconds(report.duration_ms ?? 0)}">`,
+    ...suites,
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+// ============================================================
+// Markdown (PR comment)
+// ============================================================
+
+function md(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+export function renderMarkdown(report: RunReport): string {
+  const { audio_tests: audio, conversation_tests: conv } = report.aggregate;
+  const lines = [
+    `## VoiceCI: ${report.status.toUpperCase()}`,
+    "",
+    `Run \`${report.run_id}\`${report.duration_ms !== null ? ` · ${(report.duration_ms / 1000).toFixed(1)}s` : ""}`,
+    "",
+    "| Tests | Total | Passed | Failed |",
+    "|---|---|---|---|",
+    `| Audio | ${audio.total} | ${audio.passed} | ${audio.failed} |`,
+    `| Conversation | ${conv.total} | ${conv.passed} | ${conv.failed} |`,
+  ];
+
+  if (report.error_text) {
+    lines.push("", `> **Error:** ${md(report.error_text)}`);
+  }
+
+  if (report.latency) {
+    const l = report.latency;
+    lines.push(
+      "",
+      "### Latency (agent TTFB)",
+      "",
+      "| Turns | p50 | p90 | p95 | p99 |",
+      "|---|---|---|---|---|",
+      `| ${l.samples} | ${l.p50_ms}ms | ${l.p90_ms}ms | ${l.p95_ms}ms | ${l.p99_ms}ms |`,
+    );
+  }
+
+  if (report.failures.length > 0) {
+    lines.push("", "### Failing tests and evals", "");
+    for (const f of report.failures) {
+      lines.push(`- **${md(f.test)}** (${f.test_type})`);
+      for (const m of f.messages) lines.push(`  - ${md(m)}`);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Load a finished (or cancelled) run owned by the user and render it.
+ * Queued and running runs have no results yet.
+ */
+export async function renderRunReport(
+  app: FastifyInstance,
+  runId: string,
+  userId: string,
+  format: ReportFormat,
+): Promise<RunReportResult> {
+  const [run] = await app.db
+    .select()
+    .from(schema.runs)
+    .where(and(eq(schema.runs.id, runId), eq(schema.runs.user_id, userId)))
+    .limit(1);
+
+  if (!run) return { outcome: "not_found" };
+  if (run.status === "queued" || run.status === "running") {
+    return { outcome: "not_finished", status: run.status };
+  }
+
+  const scenarios = await app.db
+    .select()
+    .from(schema.scenarioResults)
+    .where(eq(schema.scenarioResults.run_id, runId));
+
+  const report = buildRunReport(
+    run,
+    scenarios.filter((s) => s.test_type === "audio").map((s) => s.metrics_json as AudioTestResult),
+    scenarios.filter((s) => s.test_type === "conversation").map((s) => s.metrics_json as ConversationTestResult),
+  );
+
+  const body =
+    format === "junit" ? renderJunit(report)
+    : format === "markdown" ? renderMarkdown(report)
+    : JSON.stringify(report, null, 2);
+
+  return { outcome: "rendered", body, contentType: REPORT_CONTENT_TYPES[format] };
+}
@@ -71,6 +71,17 @@ export default function RunDetailPage() {
     setRun(await res.json());
   };
 
+  const handleCancel = async () => {
+    await fetch(`${API_URL}/runs/${id}/cancel`, {
+      method: "POST",
+      credentials: "include",
+    });
+    const res = await fetch(`${API_URL}/runs/${id}`, {
+      credentials: "include",
+    });
+    setRun(await res.json());
+  };
+
   if (error) return <p className="text-red-600 font-mono text-sm">{error}</p>;
   if (!run) return <p className="text-muted-foreground">Loading...</p>;
 
@@ -80,6 +91,7 @@ export default function RunDetailPage() {
       events={events}
       isStreaming={isStreaming}
       onSetBaseline={handleSetBaseline}
+      onCancel={handleCancel}
     />
   );
 }
@@ -67,7 +67,7 @@ export default function RunsPage() {
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold tracking-tight">Runs</h1>
         <div className="flex gap-2">
-          {["", "queued", "running", "pass", "fail"].map((s) => (
+          {["", "queued", "running", "pass", "fail", "cancelled"].map((s) => (
             <Button
               key={s}
               variant={filter === s ? "default" : "outline"}
@@ -56,9 +56,14 @@ export function AudioTestResults({ scenarios }: AudioTestResultsProps) {
                       )}
                     </div>
                   </div>
-                  <span className="text-xs text-muted-foreground whitespace-nowrap">
-                    {formatDuration(result.duration_ms)}
-                  </span>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground whitespace-nowrap">
+                    {result.repeat && (
+                      <span title={`Flakiness ${result.repeat.flakiness.toFixed(2)}`}>
+                        {result.repeat.passed}/{result.repeat.attempts} attempts passed
+                      </span>
+                    )}
+                    <span>{formatDuration(result.duration_ms)}</span>
+                  </div>
                 </div>
                 {Object.keys(result.metrics).length > 0 && (
                   <div className="flex flex-wrap gap-1.5 mt-2">
@@ -11,6 +11,8 @@ import type {
   ScenarioResultRow,
   ConversationTestResult,
   ObservedToolCall,
+  CallEvent,
+  RepeatSummary,
 } from "@/lib/types";
 import { formatDuration } from "@/lib/format";
 
@@ -47,6 +49,105 @@ function ToolCallsList({ calls }: { calls: ObservedToolCall[] }) {
   );
 }
 
+const CALL_EVENT_LABELS: Record<CallEvent["type"], string> = {
+  hold_music: "Hold music",
+  ringback: "Ringback",
+  transfer: "Transfer",
+  remote_hangup: "Agent hung up",
+};
+
+function CallEventsList({ events }: { events: CallEvent[] }) {
+  return (
+    <div className="space-y-1">
+      {events.map((event, i) => (
+        <div key={i} className="flex items-center gap-3 text-sm py-1">
+          <span className="w-14 shrink-0 text-xs font-mono text-muted-foreground">
+            {formatDuration(event.timestamp_ms)}
+          </span>
+          <span className="font-medium">{CALL_EVENT_LABELS[event.type]}</span>
+          {event.duration_ms != null && (
+            <span className="text-xs text-muted-foreground">
+              {formatDuration(event.duration_ms)}
+            </span>
+          )}
+          {event.detail && (
+            <span className="text-xs text-muted-foreground">{event.detail}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AttemptsList({
+  attempts,
+  repeat,
+}: {
+  attempts: NonNullable<ConversationTestResult["attempts"]>;
+  repeat: RepeatSummary;
+}) {
+  const [openIndex, setOpenIndex] = useState<number | null>(
+    repeat.failed_attempts[0] ?? null
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        {repeat.passed}/{repeat.attempts} attempts passed (
+        {Math.round(repeat.pass_rate * 100)}%, required{" "}
+        {Math.round(repeat.min_pass_rate * 100)}%) · flakiness{" "}
+        {repeat.flakiness.toFixed(2)}
+      </p>
+
+      {repeat.eval_variance && repeat.eval_variance.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">
+            Eval consistency
+          </h4>
+          <div className="space-y-1">
+            {repeat.eval_variance.map((v, i) => (
+              <div
+                key={i}
+                className="flex items-center justify-between gap-4 text-xs"
+              >
+                <span className="truncate">{v.question}</span>
+                <span className="font-mono text-muted-foreground whitespace-nowrap">
+                  {Math.round(v.pass_rate * 100)}% of {v.relevant_attempts} · var{" "}
+                  {v.variance.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {attempts.map((attempt, i) => (
+          <div key={i} className="rounded-md border border-border">
+            <div
+              className="flex items-center justify-between px-3 py-2 cursor-pointer"
+              onClick={() => setOpenIndex(openIndex === i ? null : i)}
+            >
+              <div className="flex items-center gap-3">
+                <StatusBadge status={attempt.status} />
+                <span className="text-sm">Attempt {i + 1}</span>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {attempt.metrics.turns} turns · {formatDuration(attempt.duration_ms)}
+              </span>
+            </div>
+            {openIndex === i && (
+              <div className="border-t border-border p-3">
+                <TraceViewer trace={attempt.transcript} evalResults={attempt.eval_results} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function ConversationTestResults({
   scenarios,
 }: ConversationTestResultsProps) {
@@ -87,6 +188,12 @@ export function ConversationTestResults({
                     </p>
                   </div>
                   <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                    {result.repeat && (
+                      <span>
+                        {result.repeat.passed}/{result.repeat.attempts} attempts
+                        {result.repeat.flakiness > 0 && " · flaky"}
+                      </span>
+                    )}
                     <span>
                       Evals {evalsPassed}/{evalsTotal}
                     </span>
@@ -107,12 +214,22 @@ export function ConversationTestResults({
                           Evals ({evalsPassed}/{evalsTotal})
                         </TabsTrigger>
                         <TabsTrigger value="metrics">Metrics</TabsTrigger>
+                        {result.attempts && result.repeat && (
+                          <TabsTrigger value="attempts">
+                            Attempts ({result.repeat.passed}/{result.repeat.attempts})
+                          </TabsTrigger>
+                        )}
                         {result.observed_tool_calls &&
                           result.observed_tool_calls.length > 0 && (
                             <TabsTrigger value="tools">
                               Tools ({result.observed_tool_calls.length})
                             </TabsTrigger>
                           )}
+                        {result.call_events && result.call_events.length > 0 && (
+                          <TabsTrigger value="call-flow">
+                            Call flow ({result.call_events.length})
+                          </TabsTrigger>
+                        )}
                       </TabsList>
                       <TabsContent value="transcript" className="mt-3">
                         <TraceViewer trace={result.transcript} evalResults={result.eval_results} />
@@ -121,16 +238,27 @@ export function ConversationTestResults({
                         <EvalResults
                           evalResults={result.eval_results}
                           toolCallEvalResults={result.tool_call_eval_results}
+                          scriptResults={result.script_results}
                         />
                       </TabsContent>
                       <TabsContent value="metrics" className="mt-3">
                         <ConversationMetricsPanel metrics={result.metrics} />
                       </TabsContent>
+                      {result.attempts && result.repeat && (
+                        <TabsContent value="attempts" className="mt-3">
+                          <AttemptsList attempts={result.attempts} repeat={result.repeat} />
+                        </TabsContent>
+                      )}
                       {result.observed_tool_calls && (
                         <TabsContent value="tools" className="mt-3">
                           <ToolCallsList calls={result.observed_tool_calls} />
                         </TabsContent>
                       )}
+                      {result.call_events && (
+                        <TabsContent value="call-flow" className="mt-3">
+                          <CallEventsList events={result.call_events} />
+                        </TabsContent>
+                      )}
                     </Tabs>
                   </div>
                 )}
@@ -1,11 +1,32 @@
 "use client";
 
 import { useState } from "react";
-import type { EvalResult } from "@/lib/types";
+import type { EvalResult, ResponseMatcher, ScriptStepResult } from "@/lib/types";
 
 interface EvalResultsProps {
   evalResults: EvalResult[];
   toolCallEvalResults?: EvalResult[];
+  scriptResults?: ScriptStepResult[];
+}
+
+function describeMatcher(m: ResponseMatcher): string {
+  switch (m.type) {
+    case "contains":
+      return `contains "${m.value}"`;
+    case "regex":
+      return `matches /${m.pattern}/${m.flags ?? ""}`;
+    case "semantic":
+      return m.criterion;
+  }
+}
+
+function scriptStepAsEval(r: ScriptStepResult): EvalResult {
+  return {
+    question: `Turn ${r.step + 1} ("${r.say}"): ${describeMatcher(r.expect)}`,
+    relevant: true,
+    passed: r.passed,
+    reasoning: `${r.reasoning} Agent said: "${r.agent_text}"`,
+  };
 }
 
 function EvalRow({ eval_ }: { eval_: EvalResult }) {
@@ -43,6 +64,7 @@ function EvalRow({ eval_ }: { eval_: EvalResult }) {
 export function EvalResults({
   evalResults,
   toolCallEvalResults,
+  scriptResults,
 }: EvalResultsProps) {
   return (
     <div className="space-y-4">
@@ -54,6 +76,19 @@ export function EvalResults({
         </div>
       )}
 
+      {scriptResults && scriptResults.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2 mt-4">
+            Scripted Expectations
+          </h4>
+          <div className="space-y-2">
+            {scriptResults.map((r, i) => (
+              <EvalRow key={i} eval_={scriptStepAsEval(r)} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {toolCallEvalResults && toolCallEvalResults.length > 0 && (
         <div>
           <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2 mt-4">
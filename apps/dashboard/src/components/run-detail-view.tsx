@@ -17,6 +17,7 @@ interface RunDetailViewProps {
   events?: RunEventRow[];
   isStreaming?: boolean;
   onSetBaseline?: () => void;
+  onCancel?: () => void;
   isDemo?: boolean;
 }
 
@@ -25,6 +26,7 @@ export function RunDetailView({
   events,
   isStreaming = false,
   onSetBaseline,
+  onCancel,
   isDemo,
 }: RunDetailViewProps) {
   const aggregate = run.aggregate_json as RunAggregateV2 | null;
@@ -69,6 +71,11 @@ export function RunDetailView({
         </div>
         {!isDemo && (
           <div className="flex gap-2">
+            {(run.status === "queued" || run.status === "running") && onCancel && (
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                Cancel Run
+              </Button>
+            )}
             {run.is_baseline ? (
               <Button variant="outline" size="sm" disabled>
                 Baseline
@@ -159,7 +166,7 @@ export function RunDetailView({
             <div className="space-y-2">
               {run.artifacts.map((a) => (
                 <Card key={a.id}>
-                  <CardContent className="flex items-center justify-between py-3">
+                  <CardContent className="flex items-center justify-between gap-4 py-3">
                     <div>
                       <p className="text-sm font-mono">{a.key}</p>
                       <p className="text-xs text-muted-foreground">
@@ -167,6 +174,9 @@ export function RunDetailView({
                         {(a.byte_size / 1024).toFixed(1)}KB
                       </p>
                     </div>
+                    {a.kind === "recording" && a.download_url && (
+                      <audio controls preload="none" src={a.download_url} className="h-8 shrink-0" />
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -12,6 +12,9 @@ function dotColor(event: RunEventRow): string {
   const meta = event.metadata_json;
 
   if (event.event_type === "error") return "bg-red-500";
+  if (event.event_type === "cancel_requested" || event.event_type === "cancelled") {
+    return "bg-zinc-400";
+  }
   if (event.event_type === "run_complete") {
     return meta?.status === "fail" ? "bg-red-500" : "bg-emerald-500";
   }
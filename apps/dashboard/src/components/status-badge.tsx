@@ -23,6 +23,10 @@ const statusConfig: Record<string, { label: string; className: string }> = {
     label: "Fail",
     className: "bg-red-50 text-red-700 border-red-200",
   },
+  cancelled: {
+    label: "Cancelled",
+    className: "bg-zinc-50 text-zinc-600 border-zinc-200",
+  },
 };
 
 export function StatusBadge({ status, size = "sm" }: StatusBadgeProps) {
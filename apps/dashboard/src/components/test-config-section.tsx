@@ -80,11 +80,33 @@ export function TestConfigSection({ testSpec }: TestConfigSectionProps) {
                     <p className="text-sm font-medium">
                       {test.name ?? `Test ${i + 1}`}
                     </p>
-                    <p className="text-xs text-muted-foreground mt-1 italic">
-                      &ldquo;{test.caller_prompt}&rdquo;
-                    </p>
+                    {test.script && test.script.length > 0 && (
+                      <ol className="mt-1 space-y-0.5 list-decimal list-inside">
+                        {test.script.map((step, j) => (
+                          <li key={j} className="text-xs text-muted-foreground">
+                            <span className="font-mono">{step.say}</span>
+                            {step.expect && (
+                              <span className="ml-1 text-[10px]">
+                                → expects {step.expect.type}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    {test.caller_prompt && (
+                      <p className="text-xs text-muted-foreground mt-1 italic">
+                        &ldquo;{test.caller_prompt}&rdquo;
+                      </p>
+                    )}
                     <span className="text-[10px] text-muted-foreground mt-1 inline-block">
                       Max {test.max_turns} turns
+                      {test.repeat && test.repeat > 1 && (
+                        <>
+                          {" "}· {test.repeat}× (min pass rate{" "}
+                          {Math.round((test.min_pass_rate ?? 1) * 100)}%)
+                        </>
+                      )}
                     </span>
                     {test.eval.length > 0 && (
                       <div className="mt-2">
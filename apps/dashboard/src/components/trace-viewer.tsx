@@ -5,7 +5,31 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import type { ConversationTurn, EvalResult } from "@/lib/types";
+import type { ConversationTurn, EvalResult, TranscriptWord } from "@/lib/types";
+
+const LOW_CONFIDENCE = 0.6;
+
+function TimedWords({ words }: { words: TranscriptWord[] }) {
+  return (
+    <>
+      {words.map((w, i) => (
+        <span
+          key={i}
+          title={`${w.start_ms}–${w.end_ms}ms${
+            w.confidence != null ? ` · ${(w.confidence * 100).toFixed(0)}%` : ""
+          }`}
+          className={cn(
+            w.confidence != null &&
+              w.confidence < LOW_CONFIDENCE &&
+              "underline decoration-dotted decoration-amber-500"
+          )}
+        >
+          {w.word}{i < words.length - 1 ? " " : ""}
+        </span>
+      ))}
+    </>
+  );
+}
 
 interface TraceViewerProps {
   trace: ConversationTurn[];
@@ -72,7 +96,11 @@ export function TraceViewer({ trace, evalResults }: TraceViewerProps) {
                       )}
                     >
                       <p className="text-sm leading-relaxed">
-                        {entry.text || "(silence)"}
+                        {entry.words && entry.words.length > 0 ? (
+                          <TimedWords words={entry.words} />
+                        ) : (
+                          entry.text || "(silence)"
+                        )}
                       </p>
                     </div>
                     <div
@@ -84,11 +112,34 @@ export function TraceViewer({ trace, evalResults }: TraceViewerProps) {
                       <span className="text-[10px] text-muted-foreground tabular-nums">
                         {entry.timestamp_ms}ms
                       </span>
+                      {entry.language && (
+                        <span className="text-[10px] text-muted-foreground uppercase">
+                          {entry.language}
+                        </span>
+                      )}
+                      {entry.interruption && (
+                        <span
+                          className="text-[10px] text-amber-700 tabular-nums"
+                          title={`Caller heard: "${entry.interruption.heard_text}"`}
+                        >
+                          cut in at {(entry.interruption.heard_ms / 1000).toFixed(1)}s
+                          {entry.interruption.overlapped
+                            ? entry.interruption.stop_latency_ms != null
+                              ? ` · stopped in ${entry.interruption.stop_latency_ms}ms`
+                              : " · kept talking"
+                            : " · already done"}
+                        </span>
+                      )}
                       {entry.ttfb_ms != null && (
                         <span className="text-[10px] text-blue-600 tabular-nums">
                           TTFB {Math.round(entry.ttfb_ms)}ms
                         </span>
                       )}
+                      {entry.ttfw_ms != null && (
+                        <span className="text-[10px] text-blue-600 tabular-nums">
+                          TTFW {Math.round(entry.ttfw_ms)}ms
+                        </span>
+                      )}
                       {entry.stt_confidence != null && (
                         <span className="text-[10px] text-muted-foreground tabular-nums">
                           STT {(entry.stt_confidence * 100).toFixed(0)}%
@@ -54,8 +54,8 @@ export function useRunEvents(
 
         setEvents((prev) => [...prev, event]);
 
-        // Close on run_complete
-        if (event.event_type === "run_complete") {
+        // Close once the run is over
+        if (event.event_type === "run_complete" || event.event_type === "cancelled") {
           es.close();
           setIsStreaming(false);
         }
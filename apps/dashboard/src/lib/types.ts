@@ -1,7 +1,7 @@
 // Dashboard types mirroring packages/shared/src/types.ts
 // Keep in sync with the backend source of truth.
 
-export type RunStatus = "queued" | "running" | "pass" | "fail";
+export type RunStatus = "queued" | "running" | "pass" | "fail" | "cancelled";
 export type SourceType = "bundle" | "remote";
 export type TestType = "audio" | "conversation";
 export type AudioTestName =
@@ -14,18 +14,57 @@ export type AudioTestName =
 
 // --- Test spec types ---
 
+export type ResponseMatcher =
+  | { type: "contains"; value: string; case_sensitive?: boolean }
+  | { type: "regex"; pattern: string; flags?: string }
+  | { type: "semantic"; criterion: string };
+
+export interface ScriptedTurn {
+  say: string;
+  expect?: ResponseMatcher;
+}
+
+export interface SpeechProfile {
+  rate?: number;
+  disfluency?: number;
+  pause_rate?: number;
+  pause_ms?: number;
+  gain_db?: number;
+  volume_variation_db?: number;
+  clipping_db?: number;
+  reverb?: number;
+  accent?: string;
+  seed?: number;
+}
+
 export interface ConversationTestSpec {
   name?: string;
-  caller_prompt: string;
+  caller_prompt?: string;
+  script?: ScriptedTurn[];
   max_turns: number;
   eval: string[];
   tool_call_eval?: string[];
   silence_threshold_ms?: number;
+  language?: string;
+  switch_language_at_turn?: { turn: number; language: string };
+  interruption?: {
+    trigger: "after_ms" | "random" | "keyword";
+    after_ms?: number;
+    probability?: number;
+    keywords?: string[];
+    max_interruptions?: number;
+  };
+  speech_profile?: string | SpeechProfile;
+  repeat?: number;
+  min_pass_rate?: number;
 }
 
 export interface TestSpec {
   audio_tests?: AudioTestName[];
   conversation_tests?: ConversationTestSpec[];
+  audio_repeat?: number;
+  audio_min_pass_rate?: number;
+  audio_speech_profiles?: Partial<Record<AudioTestName, string | SpeechProfile>>;
 }
 
 // --- Run-level types ---
@@ -79,27 +118,75 @@ export interface ScenarioResultRow {
   created_at: string;
 }
 
+// --- Repeat-N types ---
+
+export interface EvalVariance {
+  question: string;
+  relevant_attempts: number;
+  pass_rate: number;
+  variance: number;
+}
+
+export interface RepeatSummary {
+  attempts: number;
+  passed: number;
+  pass_rate: number;
+  min_pass_rate: number;
+  flakiness: number;
+  failed_attempts: number[];
+  eval_variance?: EvalVariance[];
+}
+
 // --- Audio test types ---
 
+export interface RecordingRef {
+  key: string;
+  content_type: string;
+  byte_size: number;
+  duration_ms: number;
+}
+
 export interface AudioTestResult {
   test_name: AudioTestName;
   status: "pass" | "fail";
   metrics: Record<string, number | boolean>;
   duration_ms: number;
   error?: string;
+  recording?: RecordingRef;
+  repeat?: RepeatSummary;
+  attempts?: Omit<AudioTestResult, "repeat" | "attempts">[];
 }
 
 // --- Conversation test types ---
 
+export interface TranscriptWord {
+  word: string;
+  start_ms: number;
+  end_ms: number;
+  confidence?: number;
+}
+
 export interface ConversationTurn {
   role: "caller" | "agent";
   text: string;
   timestamp_ms: number;
   audio_duration_ms?: number;
   ttfb_ms?: number;
+  ttfw_ms?: number;
   stt_confidence?: number;
+  words?: TranscriptWord[];
   tts_ms?: number;
   stt_ms?: number;
+  language?: string;
+  interruption?: TurnInterruption;
+}
+
+export interface TurnInterruption {
+  heard_text: string;
+  heard_ms: number;
+  overlapped: boolean;
+  overlap_ms: number;
+  stop_latency_ms?: number;
 }
 
 export interface EvalResult {
@@ -118,16 +205,38 @@ export interface ObservedToolCall {
   latency_ms?: number;
 }
 
+export interface CallEvent {
+  type: "hold_music" | "ringback" | "transfer" | "remote_hangup";
+  timestamp_ms: number;
+  duration_ms?: number;
+  detail?: string;
+}
+
+export interface ScriptStepResult {
+  step: number;
+  say: string;
+  expect: ResponseMatcher;
+  agent_text: string;
+  passed: boolean;
+  reasoning: string;
+}
+
 export interface ConversationTestResult {
   name?: string;
   caller_prompt: string;
   status: "pass" | "fail";
   transcript: ConversationTurn[];
   eval_results: EvalResult[];
+  script_results?: ScriptStepResult[];
   tool_call_eval_results?: EvalResult[];
   observed_tool_calls?: ObservedToolCall[];
+  call_events?: CallEvent[];
   duration_ms: number;
   metrics: ConversationMetrics;
+  error?: string;
+  recording?: RecordingRef;
+  repeat?: RepeatSummary;
+  attempts?: Omit<ConversationTestResult, "repeat" | "attempts">[];
 }
 
 // --- Deep metric types ---
@@ -219,4 +328,6 @@ export interface ArtifactRow {
   key: string;
   content_type: string;
   byte_size: number;
+  /** Presigned link, present for recordings */
+  download_url?: string;
 }
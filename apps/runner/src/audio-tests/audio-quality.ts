@@ -10,8 +10,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { collectUntilEndOfTurn } from "./helpers.js";
 
 const DEFAULT_MAX_CLIPPING_RATIO = 0.005;
@@ -32,14 +32,16 @@ const PROMPT = "Please describe the process of making a cup of coffee in detail.
 export async function runAudioQualityTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const MAX_CLIPPING = thresholds?.audio_quality?.max_clipping_ratio ?? DEFAULT_MAX_CLIPPING_RATIO;
   const MIN_DURATION = thresholds?.audio_quality?.min_duration_ms ?? DEFAULT_MIN_DURATION_MS;
   const MIN_CONSISTENCY = thresholds?.audio_quality?.min_energy_consistency ?? DEFAULT_MIN_ENERGY_CONSISTENCY;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   // Elicit a response
-  const promptAudio = await synthesize(PROMPT);
+  const promptAudio = await synthesize(PROMPT, tts);
   channel.sendAudio(promptAudio);
 
   const { audio: agentAudio } = await collectUntilEndOfTurn(channel, {
@@ -5,13 +5,14 @@
  * 1. Send a prompt via TTS to trigger agent response
  * 2. Wait for agent to start responding (VAD detects speech)
  * 3. Send interruption audio mid-response
- * 4. Measure if/when agent stops speaking
+ * 4. Measure if/when agent stops speaking — by its reported state when it
+ *    publishes one (LiveKit Agents), else by VAD on its audio
  * 5. PASS if agent stops within threshold, FAIL otherwise
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize } from "@voiceci/voice";
+import type { AgentState, AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { VoiceActivityDetector } from "@voiceci/voice";
 import { waitForSpeech, collectForDuration } from "./helpers.js";
 import { hasAudio } from "./signals.js";
@@ -23,12 +24,14 @@ const INTERRUPTION = "Stop, I have a question.";
 export async function runBargeInTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const STOP_THRESHOLD_MS = thresholds?.barge_in?.stop_threshold_ms ?? DEFAULT_STOP_THRESHOLD_MS;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   // Step 1: Send prompt to trigger a long agent response
-  const promptAudio = await synthesize(PROMPT);
+  const promptAudio = await synthesize(PROMPT, tts);
   channel.sendAudio(promptAudio);
 
   // Step 2: Wait for agent to start speaking
@@ -47,7 +50,7 @@ export async function runBargeInTest(
   await collectForDuration(channel, 1000);
 
   // Step 3: Send interruption
-  const interruptAudio = await synthesize(INTERRUPTION);
+  const interruptAudio = await synthesize(INTERRUPTION, tts);
   const interruptTime = Date.now();
   channel.sendAudio(interruptAudio);
 
@@ -59,21 +62,33 @@ export async function runBargeInTest(
 
   try {
     await new Promise<void>((resolve) => {
-      const timeout = setTimeout(resolve, STOP_THRESHOLD_MS + 1000);
+      const finish = () => {
+        if (agentStoppedAt === null) {
+          agentStoppedAt = Date.now();
+        }
+        clearTimeout(timeout);
+        channel.off("audio", onAudio);
+        channel.off("agent_state", onState);
+        resolve();
+      };
+      const timeout = setTimeout(() => {
+        channel.off("audio", onAudio);
+        channel.off("agent_state", onState);
+        resolve();
+      }, STOP_THRESHOLD_MS + 1000);
 
       const onAudio = (chunk: Buffer) => {
         const state = vad.process(chunk);
         if ((state === "silence" || state === "end_of_turn") && !hasAudio(chunk)) {
-          if (agentStoppedAt === null) {
-            agentStoppedAt = Date.now();
-          }
-          clearTimeout(timeout);
-          channel.off("audio", onAudio);
-          resolve();
+          finish();
         }
       };
+      const onState = (state: AgentState) => {
+        if (state !== "speaking") finish();
+      };
 
       channel.on("audio", onAudio);
+      channel.on("agent_state", onState);
     });
   } finally {
     vad.destroy();
@@ -9,8 +9,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize, transcribe } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice, transcribe, sttConfigFromVoice } from "@voiceci/voice";
 import { collectUntilEndOfTurn } from "./helpers.js";
 
 const PROMPT =
@@ -23,12 +23,14 @@ const DEFAULT_MIN_WORD_COUNT = 15;
 export async function runCompletenessTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const MIN_WORD_COUNT = thresholds?.response_completeness?.min_word_count ?? DEFAULT_MIN_WORD_COUNT;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   // Send a prompt that should elicit a long response
-  const promptAudio = await synthesize(PROMPT);
+  const promptAudio = await synthesize(PROMPT, tts);
   channel.sendAudio(promptAudio);
 
   // Collect the full response with generous timeout
@@ -52,7 +54,7 @@ export async function runCompletenessTest(
   }
 
   // Transcribe the response
-  const { text, confidence } = await transcribe(audio);
+  const { text, confidence } = await transcribe(audio, sttConfigFromVoice(voice));
 
   if (!text || text.trim().length === 0) {
     return {
@@ -8,8 +8,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { waitForSpeech, collectUntilEndOfTurn } from "./helpers.js";
 
 const CANNED_PROMPTS = [
@@ -23,7 +23,9 @@ const CANNED_PROMPTS = [
 export async function runConnectionStabilityTest(
   channel: AudioChannel,
   _thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
   let completedTurns = 0;
   let disconnected = false;
@@ -35,7 +37,7 @@ export async function runConnectionStabilityTest(
     }
 
     // Send prompt
-    const audio = await synthesize(prompt);
+    const audio = await synthesize(prompt, tts);
     channel.sendAudio(audio);
 
     // Wait for agent response
@@ -14,8 +14,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { collectUntilEndOfTurn, waitForSpeech } from "./helpers.js";
 
 const PROMPT = "Hi, can you tell me about your services?";
@@ -26,12 +26,14 @@ const DEFAULT_LOOP_THRESHOLD = 2;
 export async function runEchoTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const LOOP_THRESHOLD = thresholds?.echo?.loop_threshold ?? DEFAULT_LOOP_THRESHOLD;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   // Phase 1: Send a real prompt and collect the agent's first response
-  const promptAudio = await synthesize(PROMPT);
+  const promptAudio = await synthesize(PROMPT, tts);
   channel.sendAudio(promptAudio);
 
   await collectUntilEndOfTurn(channel, { timeoutMs: 15000 });
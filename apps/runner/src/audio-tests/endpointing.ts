@@ -9,8 +9,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { waitForSpeech, collectUntilEndOfTurn } from "./helpers.js";
 import { generateSilence } from "./signals.js";
 
@@ -41,18 +41,20 @@ interface TrialResult {
 export async function runEndpointingTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const PAUSE_MS = thresholds?.endpointing?.pause_duration_ms ?? DEFAULT_PAUSE_DURATION_MS;
   const MIN_PASS_RATIO = thresholds?.endpointing?.min_pass_ratio ?? DEFAULT_MIN_PASS_RATIO;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   const results: TrialResult[] = [];
 
   for (const testCase of TEST_CASES) {
     // Synthesize both parts
-    const partAAudio = await synthesize(testCase.partA);
+    const partAAudio = await synthesize(testCase.partA, tts);
     const pauseAudio = generateSilence(PAUSE_MS);
-    const partBAudio = await synthesize(testCase.partB);
+    const partBAudio = await synthesize(testCase.partB, tts);
 
     // Step 1: Send partA
     channel.sendAudio(partAAudio);
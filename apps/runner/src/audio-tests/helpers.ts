@@ -2,7 +2,8 @@
  * Shared helpers for audio test executors.
  */
 
-import type { AudioChannel } from "@voiceci/adapters";
+import type { AudioChannel, TranscriptionSegment } from "@voiceci/adapters";
+import type { AgentState } from "@voiceci/shared";
 import { VoiceActivityDetector, type VADState } from "@voiceci/voice";
 
 /**
@@ -22,13 +23,17 @@ export interface CollectionStats {
 /**
  * Collect audio from the channel until VAD detects end-of-turn or timeout.
  * Returns the concatenated PCM buffer of all received audio plus collection stats
- * for adaptive threshold tuning.
+ * for adaptive threshold tuning. With `stopOnDisconnect`, a remote hangup also
+ * ends collection — for tests where hanging up is an expected outcome. `until`
+ * ends it early when it resolves (the caller cutting the agent off).
  */
 export async function collectUntilEndOfTurn(
   channel: AudioChannel,
   opts: {
     timeoutMs?: number;
     silenceThresholdMs?: number;
+    stopOnDisconnect?: boolean;
+    until?: Promise<void>;
   } = {}
 ): Promise<{ audio: Buffer; timedOut: boolean; stats: CollectionStats }> {
   const timeoutMs = opts.timeoutMs ?? 15000;
@@ -48,6 +53,8 @@ export async function collectUntilEndOfTurn(
   let silenceStartedAt: number | null = null;
   let speechStartedAt: number | null = null;
   let firstChunkAt: number | null = null;
+  let onAudio: ((chunk: Buffer) => void) | null = null;
+  let onDisconnected: (() => void) | null = null;
 
   try {
     await new Promise<void>((resolve) => {
@@ -56,7 +63,7 @@ export async function collectUntilEndOfTurn(
         resolve();
       }, timeoutMs);
 
-      const onAudio = (chunk: Buffer) => {
+      onAudio = (chunk: Buffer) => {
         chunks.push(chunk);
         const state = vad.process(chunk);
         const now = Date.now();
@@ -86,14 +93,30 @@ export async function collectUntilEndOfTurn(
 
         if (state === "end_of_turn") {
           clearTimeout(timeout);
-          channel.off("audio", onAudio);
           resolve();
         }
       };
 
       channel.on("audio", onAudio);
+
+      if (opts.stopOnDisconnect) {
+        onDisconnected = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+        channel.on("disconnected", onDisconnected);
+        if (!channel.connected) onDisconnected();
+      }
+
+      void opts.until?.then(() => {
+        clearTimeout(timeout);
+        resolve();
+      });
     });
   } finally {
+    // Detach before destroying the VAD — on timeout, audio may still be arriving
+    if (onAudio) channel.off("audio", onAudio);
+    if (onDisconnected) channel.off("disconnected", onDisconnected);
     // Account for speech that was still ongoing at end
     if (speechStartedAt !== null) {
       totalSpeechMs += Date.now() - speechStartedAt;
@@ -172,3 +195,46 @@ export async function waitForSpeech(
 
   return { detectedAt, timedOut };
 }
+
+/**
+ * What the agent reports about itself over the channel (LiveKit Agents state
+ * and transcriptions), timestamped on arrival. Channels that report nothing
+ * leave both logs empty, and callers fall back to audio-based measurement.
+ */
+export class AgentReports {
+  readonly states: Array<{ state: AgentState; at: number }> = [];
+  readonly segments: Array<{ segment: TranscriptionSegment; at: number }> = [];
+
+  private onState = (state: AgentState) => {
+    this.states.push({ state, at: Date.now() });
+  };
+  private onTranscription = (segment: TranscriptionSegment) => {
+    this.segments.push({ segment, at: Date.now() });
+  };
+
+  constructor(private channel: AudioChannel) {
+    channel.on("agent_state", this.onState);
+    channel.on("transcription", this.onTranscription);
+  }
+
+  /** When the agent first entered one of `states` within [since, until], or null */
+  firstStateAt(states: AgentState[], since: number, until = Infinity): number | null {
+    const match = this.states.find((s) => s.at >= since && s.at <= until && states.includes(s.state));
+    return match?.at ?? null;
+  }
+
+  /** Final transcription text for `role` that arrived within [since, until] */
+  textBetween(role: TranscriptionSegment["role"], since: number, until = Infinity): string | undefined {
+    const text = this.segments
+      .filter((s) => s.segment.role === role && s.segment.final && s.at >= since && s.at <= until)
+      .map((s) => s.segment.text.trim())
+      .filter(Boolean)
+      .join(" ");
+    return text || undefined;
+  }
+
+  stop(): void {
+    this.channel.off("agent_state", this.onState);
+    this.channel.off("transcription", this.onTranscription);
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestName, AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
+import type { AudioTestName, AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
 import { runEchoTest } from "./echo.js";
 import { runBargeInTest } from "./barge-in.js";
 import { runTtfbTest } from "./ttfb.js";
@@ -13,8 +13,13 @@ import { runCompletenessTest } from "./completeness.js";
 import { runNoiseResilienceTest } from "./noise-resilience.js";
 import { runEndpointingTest } from "./endpointing.js";
 import { runAudioQualityTest } from "./audio-quality.js";
+import { runVoicemailDetectionTest } from "./voicemail.js";
 
-type AudioTestExecutor = (channel: AudioChannel, thresholds?: AudioTestThresholds) => Promise<AudioTestResult>;
+type AudioTestExecutor = (
+  channel: AudioChannel,
+  thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
+) => Promise<AudioTestResult>;
 
 const EXECUTORS: Record<AudioTestName, AudioTestExecutor> = {
   echo: runEchoTest,
@@ -26,6 +31,7 @@ const EXECUTORS: Record<AudioTestName, AudioTestExecutor> = {
   noise_resilience: runNoiseResilienceTest,
   endpointing: runEndpointingTest,
   audio_quality: runAudioQualityTest,
+  voicemail_detection: runVoicemailDetectionTest,
 };
 
 /**
@@ -35,11 +41,12 @@ export async function runAudioTest(
   testName: AudioTestName,
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const executor = EXECUTORS[testName];
 
   try {
-    return await executor(channel, thresholds);
+    return await executor(channel, thresholds, voice);
   } catch (err) {
     return {
       test_name: testName,
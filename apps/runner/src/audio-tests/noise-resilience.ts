@@ -9,8 +9,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize, generateWhiteNoise, generateBabbleNoise, generatePinkNoise, mixAudio } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice, generateWhiteNoise, generateBabbleNoise, generatePinkNoise, mixAudio } from "@voiceci/voice";
 import { waitForSpeech, collectUntilEndOfTurn } from "./helpers.js";
 import { generateSilence } from "./signals.js";
 
@@ -37,12 +37,14 @@ interface TrialResult {
 export async function runNoiseResilienceTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const MIN_PASS_SNR = thresholds?.noise_resilience?.min_pass_snr_db ?? DEFAULT_MIN_PASS_SNR_DB;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   // Phase 0: Baseline (clean audio)
-  const cleanAudio = await synthesize(PROMPT);
+  const cleanAudio = await synthesize(PROMPT, tts);
   const cleanDurationMs = Math.round((cleanAudio.length / 2 / 24000) * 1000);
 
   const baselineSendTime = Date.now();
@@ -13,6 +13,23 @@ export function generateSilence(durationMs: number): Buffer {
   return Buffer.alloc(numSamples * 2);
 }
 
+/**
+ * Generate a sine tone as PCM 16-bit buffer, with 10ms fades so the edges
+ * don't click.
+ */
+export function generateTone(frequencyHz: number, durationMs: number, amplitude = 8000): Buffer {
+  const numSamples = Math.floor((SAMPLE_RATE * durationMs) / 1000);
+  const fadeSamples = Math.min(Math.floor(SAMPLE_RATE / 100), Math.floor(numSamples / 2));
+  const buf = Buffer.alloc(numSamples * 2);
+  for (let i = 0; i < numSamples; i++) {
+    const edge = Math.min(i, numSamples - 1 - i);
+    const gain = edge < fadeSamples ? edge / fadeSamples : 1;
+    const sample = amplitude * gain * Math.sin((2 * Math.PI * frequencyHz * i) / SAMPLE_RATE);
+    buf.writeInt16LE(Math.round(sample), i * 2);
+  }
+  return buf;
+}
+
 /**
  * Compute RMS energy of a PCM 16-bit buffer.
  */
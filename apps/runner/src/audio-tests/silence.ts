@@ -9,8 +9,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { waitForSpeech, collectUntilEndOfTurn } from "./helpers.js";
 import { generateSilence } from "./signals.js";
 
@@ -20,12 +20,14 @@ const RE_PROMPT_TIMEOUT_MS = 15000;
 export async function runSilenceHandlingTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const SILENCE_DURATION_MS = thresholds?.silence_handling?.silence_duration_ms ?? DEFAULT_SILENCE_DURATION_MS;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   // Step 1: Send greeting to start conversation
-  const greeting = await synthesize("Hi there!");
+  const greeting = await synthesize("Hi there!", tts);
   channel.sendAudio(greeting);
 
   // Wait for and drain agent's initial response
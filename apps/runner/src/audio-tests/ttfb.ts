@@ -9,8 +9,8 @@
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
-import type { AudioTestResult, AudioTestThresholds } from "@voiceci/shared";
-import { synthesize, BatchVAD } from "@voiceci/voice";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice, BatchVAD } from "@voiceci/voice";
 import { waitForSpeech, collectUntilEndOfTurn } from "./helpers.js";
 
 const DEFAULT_P95_THRESHOLD_MS = 3000;
@@ -50,10 +50,12 @@ function mean(values: number[]): number {
 export async function runTtfbTest(
   channel: AudioChannel,
   thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
 ): Promise<AudioTestResult> {
   const P95_THRESHOLD_MS = thresholds?.ttfb?.p95_threshold_ms ?? DEFAULT_P95_THRESHOLD_MS;
   const P95_COMPLEX_THRESHOLD_MS = thresholds?.ttfb?.p95_complex_threshold_ms ?? DEFAULT_P95_COMPLEX_THRESHOLD_MS;
   const P95_TTFW_THRESHOLD_MS = thresholds?.ttfb?.p95_ttfw_threshold_ms;
+  const tts = ttsConfigFromVoice(voice);
   const startTime = performance.now();
 
   const allTtfb: number[] = [];
@@ -66,7 +68,7 @@ export async function runTtfbTest(
 
   try {
     for (const prompt of PROMPTS) {
-      const audio = await synthesize(prompt.text);
+      const audio = await synthesize(prompt.text, tts);
       const sendTime = Date.now();
       channel.sendAudio(audio);
 
@@ -0,0 +1,145 @@
+/**
+ * Voicemail detection test — plays an answering machine and checks that an
+ * outbound agent recognizes it.
+ *
+ * Procedure:
+ * 1. Play a voicemail greeting; record anything the agent says over it
+ * 2. Play the beep, then silence (the "recording" window)
+ * 3. Collect the agent's message until end of turn or hangup
+ * 4. Wait for the agent to hang up
+ *
+ * Passes when the agent stays quiet until the beep, leaves a message no
+ * longer than max_message_duration_ms, and disconnects within
+ * hangup_timeout_ms. Speech is measured with BatchVAD so line noise and
+ * breaths don't count.
+ */
+
+import type { AudioChannel } from "@voiceci/adapters";
+import type { AudioTestResult, AudioTestThresholds, VoiceConfig } from "@voiceci/shared";
+import { synthesize, ttsConfigFromVoice, BatchVAD, type SpeechSegment } from "@voiceci/voice";
+import { collectForDuration, collectUntilEndOfTurn } from "./helpers.js";
+import { generateSilence, generateTone } from "./signals.js";
+
+const GREETING =
+  "Hi, you've reached Jordan. I can't take your call right now. " +
+  "Please leave your name, number, and a short message after the tone.";
+
+/** Standard answering-machine beep */
+const BEEP_HZ = 1000;
+const BEEP_MS = 500;
+/** Gap between the end of the greeting and the beep */
+const PRE_BEEP_GAP_MS = 500;
+/** How long after the beep the agent has to start its message */
+const MESSAGE_START_TIMEOUT_MS = 10000;
+/** Voice messages pause between sentences — don't end the message on a breath */
+const MESSAGE_SILENCE_THRESHOLD_MS = 2500;
+/** Less speech than this after the beep is not a message */
+const MIN_MESSAGE_SPEECH_MS = 1000;
+
+const DEFAULT_MAX_MESSAGE_DURATION_MS = 30000;
+const DEFAULT_HANGUP_TIMEOUT_MS = 10000;
+/** Allows a short "Hello?" on pickup before the agent realizes it's voicemail */
+const DEFAULT_MAX_PRE_BEEP_SPEECH_MS = 1000;
+
+export async function runVoicemailDetectionTest(
+  channel: AudioChannel,
+  thresholds?: AudioTestThresholds,
+  voice?: VoiceConfig,
+): Promise<AudioTestResult> {
+  const MAX_MESSAGE_DURATION_MS = thresholds?.voicemail_detection?.max_message_duration_ms ?? DEFAULT_MAX_MESSAGE_DURATION_MS;
+  const HANGUP_TIMEOUT_MS = thresholds?.voicemail_detection?.hangup_timeout_ms ?? DEFAULT_HANGUP_TIMEOUT_MS;
+  const MAX_PRE_BEEP_SPEECH_MS = thresholds?.voicemail_detection?.max_pre_beep_speech_ms ?? DEFAULT_MAX_PRE_BEEP_SPEECH_MS;
+  const REQUIRE_MESSAGE = thresholds?.voicemail_detection?.require_message ?? true;
+  const tts = ttsConfigFromVoice(voice);
+  const startTime = performance.now();
+
+  const batchVAD = new BatchVAD();
+  await batchVAD.init();
+
+  try {
+    // Step 1: Greeting — the agent should listen, not talk over it
+    const greeting = await synthesize(GREETING, tts);
+    const greetingMs = Math.round((greeting.length / 2 / 24000) * 1000);
+    channel.sendAudio(greeting);
+    const preBeepAudio = await collectForDuration(channel, greetingMs + PRE_BEEP_GAP_MS);
+    const preBeepSpeechMs = speechMs(batchVAD.analyze(preBeepAudio));
+
+    // Step 2: Beep, then keep the line open while the "recording" runs.
+    // An agent that detected the machine may already have hung up.
+    const beepAt = Date.now();
+    if (channel.connected) {
+      channel.sendAudio(generateTone(BEEP_HZ, BEEP_MS));
+      channel.sendAudio(generateSilence(MESSAGE_START_TIMEOUT_MS + MAX_MESSAGE_DURATION_MS));
+    }
+
+    // Step 3: The message, ending on end of turn or the agent hanging up
+    const { audio: messageAudio, stats } = await collectUntilEndOfTurn(channel, {
+      timeoutMs: MESSAGE_START_TIMEOUT_MS + MAX_MESSAGE_DURATION_MS,
+      silenceThresholdMs: MESSAGE_SILENCE_THRESHOLD_MS,
+      stopOnDisconnect: true,
+    });
+    const messageEndAt = Date.now();
+    const segments = batchVAD.analyze(messageAudio);
+    const messageSpeechMs = speechMs(segments);
+    const leftMessage = messageSpeechMs >= MIN_MESSAGE_SPEECH_MS;
+    const messageDurationMs = leftMessage ? segments[segments.length - 1]!.endMs - segments[0]!.startMs : 0;
+    const messageStartMs = leftMessage && stats.firstChunkAt !== null
+      ? stats.firstChunkAt - beepAt + segments[0]!.startMs
+      : 0;
+
+    // Step 4: Hang up
+    const hungUp = await waitForHangup(channel, HANGUP_TIMEOUT_MS);
+    const hangupAfterMessageMs = hungUp ? Date.now() - messageEndAt : 0;
+
+    const waitedForBeep = preBeepSpeechMs <= MAX_PRE_BEEP_SPEECH_MS;
+    const messageWithinLimit = messageDurationMs <= MAX_MESSAGE_DURATION_MS;
+    const passed = waitedForBeep && (leftMessage || !REQUIRE_MESSAGE) && messageWithinLimit && hungUp;
+
+    const failures: string[] = [];
+    if (!waitedForBeep) {
+      failures.push(`Agent spoke for ${preBeepSpeechMs}ms over the voicemail greeting (max ${MAX_PRE_BEEP_SPEECH_MS}ms)`);
+    }
+    if (!leftMessage && REQUIRE_MESSAGE) failures.push("Agent did not leave a message after the beep");
+    if (!messageWithinLimit) {
+      failures.push(`Message ran ${messageDurationMs}ms (max ${MAX_MESSAGE_DURATION_MS}ms)`);
+    }
+    if (!hungUp) failures.push(`Agent did not hang up within ${HANGUP_TIMEOUT_MS}ms`);
+
+    return {
+      test_name: "voicemail_detection",
+      status: passed ? "pass" : "fail",
+      metrics: {
+        waited_for_beep: waitedForBeep,
+        pre_beep_speech_ms: preBeepSpeechMs,
+        left_message: leftMessage,
+        message_start_ms: messageStartMs,
+        message_duration_ms: messageDurationMs,
+        hung_up: hungUp,
+        hangup_after_message_ms: hangupAfterMessageMs,
+      },
+      duration_ms: Math.round(performance.now() - startTime),
+      ...(!passed && { error: failures.join("; ") }),
+    };
+  } finally {
+    batchVAD.destroy();
+  }
+}
+
+function speechMs(segments: SpeechSegment[]): number {
+  return segments.reduce((total, s) => total + (s.endMs - s.startMs), 0);
+}
+
+function waitForHangup(channel: AudioChannel, timeoutMs: number): Promise<boolean> {
+  if (!channel.connected) return Promise.resolve(true);
+  return new Promise((resolve) => {
+    const onDisconnected = () => {
+      clearTimeout(timeout);
+      resolve(true);
+    };
+    const timeout = setTimeout(() => {
+      channel.off("disconnected", onDisconnected);
+      resolve(!channel.connected);
+    }, timeoutMs);
+    channel.on("disconnected", onDisconnected);
+  });
+}
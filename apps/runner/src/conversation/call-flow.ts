@@ -0,0 +1,134 @@
+/**
+ * Call-flow monitor — turns what happens on the line into timeline events
+ * for ConversationTestResult.call_events:
+ *
+ * - hold_music / ringback: found in the agent's audio (see call-progress.ts
+ *   in @voiceci/voice); the executor keeps listening through them instead
+ *   of letting the caller talk over the music
+ * - transfer: speech after ringback (a new leg was dialed and answered), or
+ *   a different voice after hold music (a pitch shift of over 20%)
+ * - remote_hangup: the channel's "disconnected" event, which adapters only
+ *   emit when the other side ends the call
+ */
+
+import type { AudioChannel } from "@voiceci/adapters";
+import type { CallEvent } from "@voiceci/shared";
+import { detectCallProgress, estimatePitch, type CallProgressSpan } from "@voiceci/voice";
+
+const BYTES_PER_MS = 48; // 24kHz 16-bit mono
+/** Hold or ringback ending this close to the end of the audio is still going */
+const ONGOING_WINDOW_MS = 1500;
+/** Speech needed to judge whose voice it is */
+const MIN_VOICE_MS = 1000;
+/** Pitch ratio above which the speaker after a hold isn't the agent */
+const VOICE_CHANGE_RATIO = 1.2;
+
+interface PendingProgress {
+  kind: CallProgressSpan["kind"];
+  endedAt: number;
+}
+
+export class CallFlowMonitor {
+  private readonly recorded: CallEvent[] = [];
+  private agentPitch: number | null = null;
+  /** Hold or ringback that ended a turn, whose outcome the next speech decides */
+  private pending: PendingProgress | null = null;
+  private hungUp = false;
+  private onDisconnected = () => {
+    this.hungUp = true;
+    this.recorded.push({ type: "remote_hangup", timestamp_ms: Date.now() - this.startedAt });
+  };
+
+  /** `startedAt` (Date.now()) is the zero of the test's timeline */
+  constructor(private channel: AudioChannel, private startedAt: number) {
+    channel.on("disconnected", this.onDisconnected);
+  }
+
+  /** Whether the agent's side ended the call */
+  get remoteHangup(): boolean {
+    return this.hungUp;
+  }
+
+  get events(): CallEvent[] {
+    return [...this.recorded].sort((a, b) => a.timestamp_ms - b.timestamp_ms);
+  }
+
+  /** Whether agent audio collected so far ends on hold music or ringback */
+  endsOnHold(audio: Buffer): boolean {
+    const spans = detectCallProgress(audio);
+    const last = spans[spans.length - 1];
+    return last !== undefined && audio.length / BYTES_PER_MS - last.endMs <= ONGOING_WINDOW_MS;
+  }
+
+  /**
+   * Record the hold music, ringback, and transfers in one agent turn's audio
+   * (first chunk received at `receivedAt`, Date.now()), and return the turn
+   * with them cut out — what's left is speech to transcribe.
+   */
+  recordTurn(audio: Buffer, receivedAt: number): Buffer {
+    const offset = receivedAt - this.startedAt;
+    const spans = detectCallProgress(audio);
+
+    if (spans.length === 0) {
+      this.checkVoice(audio);
+      return audio;
+    }
+
+    this.checkVoice(audio.subarray(0, msToBytes(spans[0]!.startMs)));
+    const speech: Buffer[] = [];
+    let cursor = 0;
+    for (const span of spans) {
+      speech.push(audio.subarray(msToBytes(cursor), msToBytes(span.startMs)));
+      this.recorded.push({
+        type: span.kind,
+        timestamp_ms: offset + span.startMs,
+        duration_ms: span.endMs - span.startMs,
+      });
+      cursor = span.endMs;
+    }
+    const after = audio.subarray(msToBytes(cursor));
+    speech.push(after);
+
+    const last = spans[spans.length - 1]!;
+    this.pending = { kind: last.kind, endedAt: offset + last.endMs };
+    this.checkVoice(after);
+    return Buffer.concat(speech);
+  }
+
+  stop(): void {
+    this.channel.off("disconnected", this.onDisconnected);
+  }
+
+  /** Compare speech against the agent's voice, resolving any pending hold or ringback */
+  private checkVoice(speech: Buffer): void {
+    if (speech.length < msToBytes(MIN_VOICE_MS)) return;
+    const pitch = estimatePitch(speech);
+    if (pitch === null) return;
+
+    const pending = this.pending;
+    this.pending = null;
+    if (pending?.kind === "ringback") {
+      this.recorded.push({ type: "transfer", timestamp_ms: pending.endedAt, detail: "answered after ringback" });
+      this.agentPitch = pitch;
+      return;
+    }
+
+    if (this.agentPitch === null) {
+      this.agentPitch = pitch;
+      return;
+    }
+    const ratio = Math.max(pitch, this.agentPitch) / Math.min(pitch, this.agentPitch);
+    if (pending?.kind === "hold_music" && ratio > VOICE_CHANGE_RATIO) {
+      this.recorded.push({
+        type: "transfer",
+        timestamp_ms: pending.endedAt,
+        detail: `different voice after hold (~${Math.round(this.agentPitch)}Hz → ~${Math.round(pitch)}Hz)`,
+      });
+      this.agentPitch = pitch;
+    }
+  }
+}
+
+function msToBytes(ms: number): number {
+  return Math.round(ms) * BYTES_PER_MS;
+}
@@ -0,0 +1,128 @@
+/**
+ * Callee behaviors for inbound-mode tests, where the agent under test dials
+ * us. Besides answering and conversing (the normal loop), the callee can:
+ *   - decline: the channel rejects the call as busy; we only give the agent
+ *     time to report the outcome through its tool calls
+ *   - silent: pick up and never speak — does the agent handle dead air?
+ *   - voicemail: play a greeting and beep, then capture the message the
+ *     agent leaves
+ */
+
+import { RING_MS, type AudioChannel } from "@voiceci/adapters";
+import type { CalleeBehavior, ConversationTurn } from "@voiceci/shared";
+import { synthesize, transcribe, type BatchVAD, type STTConfig, type TTSConfig } from "@voiceci/voice";
+import { collectUntilEndOfTurn } from "../audio-tests/helpers.js";
+import type { TurnAudioData } from "../metrics/audio-analysis.js";
+
+export type CalleeAction = NonNullable<CalleeBehavior["action"]>;
+
+const DEFAULT_VOICEMAIL_GREETING =
+  "Hi, you've reached my voicemail. I can't take your call right now. Please leave a message after the tone.";
+/** Time a declined agent gets to hang up its side and post outcome tool calls */
+const DECLINE_GRACE_MS = 10_000;
+/** Voicemail messages have natural pauses; don't cut them off at the first breath */
+const VOICEMAIL_SILENCE_MS = 3000;
+const VOICEMAIL_MAX_MS = 60_000;
+
+export interface CalleeContext {
+  tts: TTSConfig;
+  stt: STTConfig;
+  batchVAD: BatchVAD;
+  startTime: number;
+  maxTurns: number;
+  silenceThresholdMs: number;
+}
+
+export interface CalleeRecording {
+  transcript: ConversationTurn[];
+  turnAudioData: TurnAudioData[];
+}
+
+/** 1kHz voicemail beep, PCM 24kHz */
+function voicemailBeep(durationMs = 500): Buffer {
+  const samples = Math.round((24000 * durationMs) / 1000);
+  const beep = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    beep.writeInt16LE(Math.round(8000 * Math.sin((2 * Math.PI * 1000 * i) / 24000)), i * 2);
+  }
+  return beep;
+}
+
+export async function runCallee(
+  action: Exclude<CalleeAction, "answer">,
+  callee: CalleeBehavior,
+  channel: AudioChannel,
+  ctx: CalleeContext,
+): Promise<CalleeRecording> {
+  const recording: CalleeRecording = { transcript: [], turnAudioData: [] };
+
+  if (action === "decline") {
+    await new Promise((resolve) => setTimeout(resolve, (callee.rings ?? 0) * RING_MS + DECLINE_GRACE_MS));
+    return recording;
+  }
+
+  if (action === "voicemail") {
+    const greeting = callee.greeting ?? DEFAULT_VOICEMAIL_GREETING;
+    const ttsStart = performance.now();
+    const audio = Buffer.concat([await synthesize(greeting, ctx.tts), Buffer.alloc(24000 / 2), voicemailBeep()]);
+    const audioDurationMs = Math.round((audio.length / 2 / 24000) * 1000);
+    recording.transcript.push({
+      role: "caller",
+      text: `${greeting} [beep]`,
+      timestamp_ms: Math.round(performance.now() - ctx.startTime),
+      audio_duration_ms: audioDurationMs,
+      tts_ms: Math.round(performance.now() - ttsStart),
+    });
+    recording.turnAudioData.push({ role: "caller", audioDurationMs });
+    channel.sendAudio(audio);
+
+    // The whole message is one agent turn
+    await recordAgentTurn(channel, ctx, recording, {
+      timeoutMs: VOICEMAIL_MAX_MS + audioDurationMs,
+      silenceThresholdMs: Math.max(ctx.silenceThresholdMs, VOICEMAIL_SILENCE_MS),
+    });
+    return recording;
+  }
+
+  // silent: keep listening until the agent gives up, hangs up, or runs out of turns
+  for (let turn = 0; turn < ctx.maxTurns && channel.connected; turn++) {
+    const spoke = await recordAgentTurn(channel, ctx, recording, {
+      timeoutMs: 15000,
+      silenceThresholdMs: ctx.silenceThresholdMs,
+    });
+    if (!spoke) break;
+  }
+  return recording;
+}
+
+/** Collect and transcribe one agent turn; false if the agent said nothing. */
+async function recordAgentTurn(
+  channel: AudioChannel,
+  ctx: CalleeContext,
+  recording: CalleeRecording,
+  opts: { timeoutMs: number; silenceThresholdMs: number },
+): Promise<boolean> {
+  const { audio } = await collectUntilEndOfTurn(channel, opts);
+  if (audio.length === 0) return false;
+
+  const timestampMs = Math.round(performance.now() - ctx.startTime);
+  const sttStart = performance.now();
+  const { text, confidence, words } = await transcribe(audio, ctx.stt);
+  const audioDurationMs = Math.round((audio.length / 2 / 24000) * 1000);
+
+  recording.turnAudioData.push({
+    role: "agent",
+    audioDurationMs,
+    speechSegments: ctx.batchVAD.analyze(audio),
+  });
+  recording.transcript.push({
+    role: "agent",
+    text,
+    timestamp_ms: timestampMs,
+    audio_duration_ms: audioDurationMs,
+    stt_confidence: confidence,
+    words: words.length > 0 ? words : undefined,
+    stt_ms: Math.round(performance.now() - sttStart),
+  });
+  return true;
+}
@@ -3,6 +3,10 @@
  *
  * Uses Anthropic Haiku for speed. Maintains conversation history
  * and returns [END] when the conversation should conclude naturally.
+ * With a language (spec.language), the caller speaks it; when the language
+ * changes mid-call (switch_language_at_turn), the caller is told to switch.
+ * When the caller cuts the agent off (spec.interruption), it gets only what
+ * it heard, and is told it is interrupting.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
@@ -18,12 +22,43 @@ Rules:
 - Stay in character. Be natural and conversational.
 - When the conversation has reached a natural conclusion or your goal is met, respond with exactly: [END]
 - Keep responses concise (1-3 sentences max) — this is a phone call, not an essay.
-- If the agent asks you to repeat or clarify, do so naturally.`;
+- If the agent asks you to repeat or clarify, do so naturally.
+- To press phone keys (e.g. an automated menu says "press 1", or asks you to enter a number), write [DTMF:digits] using 0-9, * and #. It can stand alone or follow speech: "Sure. [DTMF:4821#]". Keys are pressed after you finish speaking.`;
 
-export class CallerLLM {
+/**
+ * Anything that can play the caller — the LLM, or a rule-based stand-in
+ * for hermetic runs.
+ */
+export interface Caller {
+  nextUtterance(
+    agentResponse: string | null,
+    transcript: ConversationTurn[],
+    context?: CallerTurnContext
+  ): Promise<string | null>;
+}
+
+export interface CallerTurnContext {
+  /** Language to speak this line in */
+  language?: string;
+  /** The agent is still talking: agentResponse is what was heard before the caller cuts in */
+  interrupting?: boolean;
+}
+
+/** "es" → "Spanish", "fr-CA" → "Canadian French" */
+export function languageName(tag: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+}
+
+export class CallerLLM implements Caller {
   private client: Anthropic;
   private history: Array<{ role: "user" | "assistant"; content: string }> = [];
   private callerPrompt: string;
+  /** Language of the last line generated */
+  private language: string | undefined;
 
   constructor(callerPrompt: string) {
     this.client = new Anthropic();
@@ -36,21 +71,39 @@ export class CallerLLM {
    */
   async nextUtterance(
     agentResponse: string | null,
-    transcript: ConversationTurn[]
+    transcript: ConversationTurn[],
+    { language, interrupting }: CallerTurnContext = {}
   ): Promise<string | null> {
+    const languageNote = this.languageNote(language);
+    this.language = language;
+    const interruptNote = interrupting
+      ? "…\n\n[The agent is still talking — that's as far as you heard. Cut in now with your next line, reacting to what you heard.]"
+      : "";
+
     // Build user message
-    if (this.history.length === 0) {
+    if (this.history.length === 0 && transcript.length > 0) {
+      // Taking over after scripted turns: include the conversation so far
+      const soFar = transcript
+        .map((t) => `${t.role === "caller" ? "YOU" : "AGENT"}: ${t.text}`)
+        .join("\n");
+      this.history.push({
+        role: "user",
+        content: `Your persona and goal:\n${this.callerPrompt}\n\nThe call is already in progress. Conversation so far:\n${soFar}\n\nSay your next line.${languageNote}`,
+      });
+    } else if (this.history.length === 0) {
       // First turn: include the persona prompt
       this.history.push({
         role: "user",
-        content: `Your persona and goal:\n${this.callerPrompt}\n\nYou are starting the phone call. Say your opening line.`,
+        content: `Your persona and goal:\n${this.callerPrompt}\n\nYou are starting the phone call. Say your opening line.${languageNote}`,
       });
     } else if (agentResponse) {
       // Subsequent turns: agent's response becomes the user message
       this.history.push({
         role: "user",
-        content: agentResponse,
+        content: `${agentResponse}${interruptNote}${languageNote}`,
       });
+    } else if (languageNote) {
+      this.history.push({ role: "user", content: languageNote.trim() });
     }
 
     const response = await this.client.messages.create({
@@ -76,4 +129,17 @@ export class CallerLLM {
 
     return text;
   }
+
+  /** Instruction appended to the next user message: the call's language, or a switch */
+  private languageNote(language: string | undefined): string {
+    if (!language) return "";
+    const name = languageName(language);
+    if (this.history.length === 0) {
+      return `\n\nSpeak only ${name} on this call, whatever language the agent uses.`;
+    }
+    if (this.language !== undefined && language !== this.language) {
+      return `\n\n[Switch languages now: from this line on, speak only ${name}, even if the agent keeps using ${languageName(this.language)}.]`;
+    }
+    return "";
+  }
 }
@@ -0,0 +1,23 @@
+/**
+ * Caller keypad input — a caller line may contain `[DTMF:1234#]` tags to
+ * press keys, e.g. to navigate an IVR menu. Tags are stripped from the
+ * spoken text and their digits sent after the speech, in order.
+ */
+
+const DTMF_TAG = /\[DTMF:\s*([0-9A-D*#,]+)\s*\]/gi;
+
+export interface CallerInput {
+  /** Text to synthesize, with DTMF tags removed (may be empty) */
+  speech: string;
+  /** Digits to press after speaking (empty when the line has no tags) */
+  digits: string;
+}
+
+export function splitCallerInput(text: string): CallerInput {
+  let digits = "";
+  const speech = text.replace(DTMF_TAG, (_, tag: string) => {
+    digits += tag.toUpperCase();
+    return " ";
+  });
+  return { speech: speech.replace(/\s+/g, " ").trim(), digits };
+}
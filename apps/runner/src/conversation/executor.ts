@@ -2,12 +2,36 @@
  * Conversation test executor — runs a full dynamic conversation loop.
  *
  * Flow:
- * 1. Caller LLM generates text from persona prompt
- * 2. TTS → send audio to agent via AudioChannel
- * 3. Collect agent audio (VAD for end-of-turn)
+ * 1. Next scripted line (spec.script) is spoken verbatim; once the script is
+ *    exhausted, the caller LLM generates text from the persona prompt
+ * 2. TTS → send audio to agent via AudioChannel, then any [DTMF:...] keys
+ * 3. Collect agent audio (VAD for end-of-turn), noting DTMF the agent sends;
+ *    through hold music or ringback, keep listening until someone speaks
  * 4. STT → text back to caller LLM
- * 5. Repeat until max_turns or caller says [END]
- * 6. Judge LLM evaluates transcript against eval questions
+ * 5. Repeat until max_turns, caller says [END], or the agent hangs up
+ * 6. Judge LLM evaluates transcript against eval questions, and scripted
+ *    expectations are checked against the agent reply that followed each line
+ *
+ * Hold music, ringback, transfers, and the agent hanging up are recorded as
+ * call_events (see call-flow.ts) and shown to the judge alongside the
+ * transcript.
+ *
+ * spec.language sets the caller's language for the caller LLM, TTS, the STT
+ * hint, the judge, and transcript metrics; with switch_language_at_turn the
+ * caller changes language mid-call and STT detects the language per turn.
+ *
+ * With spec.interruption the caller cuts the agent off mid-reply: collection
+ * stops at the trigger, the caller answers what it heard while the agent is
+ * still talking, and the interrupted agent turn records what the caller had
+ * heard by the time its audio went out, the overlap, and how fast the agent
+ * stopped (see interruption.ts).
+ *
+ * In inbound mode the agent calls us: the callee opens with "Hello?" unless
+ * the script says otherwise, or (spec.callee) declines, stays silent, or
+ * plays a voicemail greeting instead of conversing — see callee.ts.
+ *
+ * In hermetic mode (voice.hermetic) the caller and judge are rule-based and
+ * TTS/STT are local mocks, so the whole loop runs without network access.
  */
 
 import type { AudioChannel } from "@voiceci/adapters";
@@ -18,24 +42,74 @@ import type {
   ConversationMetrics,
   ObservedToolCall,
   ToolCallMetrics,
+  VoiceConfig,
 } from "@voiceci/shared";
-import { synthesize, transcribe, BatchVAD } from "@voiceci/voice";
-import { CallerLLM } from "./caller-llm.js";
-import { JudgeLLM } from "./judge-llm.js";
-import { collectUntilEndOfTurn } from "../audio-tests/helpers.js";
+import {
+  synthesize,
+  ttsConfigFromVoice,
+  resolveSpeechProfile,
+  transcribe,
+  sttConfigFromVoice,
+  BatchVAD,
+  isHermetic,
+  detectDtmf,
+  MULTILINGUAL,
+} from "@voiceci/voice";
+import { CallerLLM, type Caller } from "./caller-llm.js";
+import { JudgeLLM, type Judge } from "./judge-llm.js";
+import { RuleBasedCaller } from "./rule-based-caller.js";
+import { RuleBasedJudge } from "./rule-based-judge.js";
+import { describeCaller, evaluateScriptExpectations, type PendingExpectation } from "./script.js";
+import { splitCallerInput } from "./dtmf.js";
+import { runCallee } from "./callee.js";
+import { CallFlowMonitor } from "./call-flow.js";
+import { InterruptionPlanner, type InterruptionMonitor } from "./interruption.js";
+import { AgentReports, collectUntilEndOfTurn } from "../audio-tests/helpers.js";
 import { computeAllMetrics } from "../metrics/index.js";
 import { AdaptiveThreshold } from "./adaptive-threshold.js";
 import { gradeAudioAnalysisMetrics, type TurnAudioData } from "../metrics/audio-analysis.js";
 
+const DEFAULT_MAX_HOLD_MS = 120_000;
+
+/** An agent turn the caller is cutting into, while the agent is still talking */
+interface CutIn {
+  monitor: InterruptionMonitor;
+  turn: ConversationTurn;
+  audioData: TurnAudioData;
+  heardAudio: Buffer;
+}
+
 export async function runConversationTest(
   spec: ConversationTestSpec,
-  channel: AudioChannel
+  channel: AudioChannel,
+  voice?: VoiceConfig,
 ): Promise<ConversationTestResult> {
   const startTime = performance.now();
+  const startedAt = Date.now();
+  const languageSwitch = spec.switch_language_at_turn;
+  // A switch needs a language to switch from
+  const language = spec.language ?? (languageSwitch ? "en" : undefined);
+  const languageAt = (turn: number) =>
+    languageSwitch && turn >= languageSwitch.turn ? languageSwitch.language : language;
+  const speechProfile = spec.speech_profile ?? voice?.speech_profile;
+  const tts = {
+    ...ttsConfigFromVoice(voice),
+    language,
+    speechProfile: speechProfile ? resolveSpeechProfile(speechProfile) : undefined,
+  };
+  const stt = { ...sttConfigFromVoice(voice), language: languageSwitch ? MULTILINGUAL : language };
   const transcript: ConversationTurn[] = [];
   const ttfbValues: number[] = [];
 
-  const caller = new CallerLLM(spec.caller_prompt);
+  const hermetic = isHermetic(voice);
+  const script = spec.script ?? [];
+  const pendingExpectations: PendingExpectation[] = [];
+  // Persona only drives turns after the script; without a prompt the call ends with the script
+  const caller: Caller | null = spec.caller_prompt
+    ? hermetic
+      ? new RuleBasedCaller(spec.caller_prompt)
+      : new CallerLLM(spec.caller_prompt)
+    : null;
   const adaptiveThreshold = new AdaptiveThreshold({
     baseMs: spec.silence_threshold_ms ?? 1500,
   });
@@ -43,88 +117,207 @@ export async function runConversationTest(
   await batchVAD.init();
   const turnAudioData: TurnAudioData[] = [];
   let agentText: string | null = null;
+  const reports = new AgentReports(channel);
+  const callFlow = new CallFlowMonitor(channel, startedAt);
+  const maxHoldMs = spec.max_hold_ms ?? DEFAULT_MAX_HOLD_MS;
+  const interruptions = spec.interruption ? new InterruptionPlanner(spec.interruption, stt) : null;
+  let cutIn: CutIn | null = null;
+  // Out-of-band agent DTMF arrives as channel events, collected per turn; in-band tones are found in the audio
+  let agentDigits: string[] = [];
+  const onDtmf = (digit: string) => agentDigits.push(digit);
+  channel.on("dtmf", onDtmf);
+
+  const calleeAction = spec.callee?.action ?? "answer";
+  // Answering a call, you speak first
+  const opening = voice?.telephony?.mode === "inbound" && script.length === 0 ? "Hello?" : null;
 
   try {
-    for (let turn = 0; turn < spec.max_turns; turn++) {
-      // Step 1: Caller LLM generates next utterance
-      const callerText = await caller.nextUtterance(agentText, transcript);
+    if (calleeAction !== "answer") {
+      const recorded = await runCallee(calleeAction, spec.callee!, channel, {
+        tts,
+        stt,
+        batchVAD,
+        startTime,
+        maxTurns: spec.max_turns,
+        silenceThresholdMs: adaptiveThreshold.thresholdMs,
+      });
+      transcript.push(...recorded.transcript);
+      turnAudioData.push(...recorded.turnAudioData);
+    }
+
+    // A callee that doesn't answer has no conversation to run
+    const maxTurns = calleeAction === "answer" ? spec.max_turns : 0;
+    for (let turn = 0; turn < maxTurns; turn++) {
+      if (callFlow.remoteHangup) break;
+
+      // Step 1: Next scripted line, else caller LLM generates next utterance
+      const turnLanguage = languageAt(turn);
+      const step = turn < script.length ? script[turn]! : null;
+      const callerText = step
+        ? step.say
+        : turn === 0 && opening
+          ? opening
+          : caller
+            ? await caller.nextUtterance(agentText, transcript, {
+              language: turnLanguage,
+              interrupting: cutIn !== null,
+            })
+            : null;
       if (callerText === null) {
-        // Caller decided to end conversation
+        // Script exhausted with no persona, or caller decided to end conversation
         break;
       }
 
-      // Step 2: TTS and send (with timing)
+      // Step 2: TTS and send (with timing) — a keys-only line has nothing to say
+      const { speech, digits } = splitCallerInput(callerText);
       const ttsStart = performance.now();
-      const callerAudio = await synthesize(callerText);
+      const callerAudio = speech ? await synthesize(speech, { ...tts, language: turnLanguage }) : Buffer.alloc(0);
       const ttsMs = Math.round(performance.now() - ttsStart);
       const callerTimestamp = performance.now() - startTime;
       const audioDurationMs = Math.round((callerAudio.length / 2 / 24000) * 1000);
 
-      transcript.push({
+      const callerTurn: ConversationTurn = {
         role: "caller",
         text: callerText,
         timestamp_ms: Math.round(callerTimestamp),
         audio_duration_ms: audioDurationMs,
         tts_ms: ttsMs,
-      });
+        dtmf: digits || undefined,
+        language: turnLanguage,
+      };
+      transcript.push(callerTurn);
       turnAudioData.push({ role: "caller", audioDurationMs });
 
+      agentDigits = [];
       const sendTime = Date.now();
-      channel.sendAudio(callerAudio);
+      if (callerAudio.length > 0) channel.sendAudio(callerAudio);
+      // Cutting in: the agent's reply starts once it stops talking over the caller
+      const yielded = cutIn ? await yieldTo(cutIn, sendTime, audioDurationMs) : null;
+      cutIn = null;
+      if (digits) await channel.sendDtmf(digits);
 
       // Step 3: Collect agent response via VAD (adaptive threshold)
-      const { audio: agentAudio, stats } = await collectUntilEndOfTurn(
-        channel,
-        { timeoutMs: 15000, silenceThresholdMs: adaptiveThreshold.thresholdMs }
-      );
+      const collectOpts = {
+        timeoutMs: 15000,
+        silenceThresholdMs: adaptiveThreshold.thresholdMs,
+        stopOnDisconnect: true,
+      };
+      // Only arm a cut-in when a caller line could follow it
+      const monitor = interruptions && turn < maxTurns - 1 ? await interruptions.arm(channel) : null;
+      const collected = await collectUntilEndOfTurn(channel, { ...collectOpts, until: monitor?.fired });
+      const interrupted = monitor?.triggered ?? false;
+      if (!interrupted) monitor?.stop();
+      const { stats } = collected;
+      let agentAudio = collected.audio;
+      // On hold or ringing, wait for whoever picks up instead of talking over it
+      const holdStart = Date.now();
+      while (!interrupted && channel.connected && Date.now() - holdStart < maxHoldMs && callFlow.endsOnHold(agentAudio)) {
+        const more = await collectUntilEndOfTurn(channel, collectOpts);
+        agentAudio = Buffer.concat([agentAudio, more.audio]);
+      }
+      const agentDtmf = agentDigits.length > 0 ? agentDigits.join("") : detectDtmf(agentAudio);
 
       // Adapt threshold for next turn based on this turn's response cadence
       adaptiveThreshold.update(stats);
 
       const agentTimestamp = performance.now() - startTime;
+      const turnEnd = Date.now();
 
-      // Measure TTFB from first audio chunk timestamp
+      // The agent's own transcriptions, when it publishes them
+      callerTurn.reported_text = reports.textBetween("caller", sendTime, turnEnd);
+      const reportedAgentText = reports.textBetween("agent", sendTime, turnEnd);
+
+      // Measure TTFB from the agent's reported switch to speaking, else from the
+      // first audio chunk (transports that stream silence make that one early)
+      const speakingAt = reports.firstStateAt(["speaking"], sendTime, turnEnd);
       let turnTtfb: number | undefined;
-      if (agentAudio.length > 0 && stats.firstChunkAt !== null) {
+      if (speakingAt !== null) {
+        turnTtfb = speakingAt - sendTime;
+        ttfbValues.push(turnTtfb);
+      } else if (agentAudio.length > 0 && stats.firstChunkAt !== null) {
         turnTtfb = Math.max(0, stats.firstChunkAt - sendTime);
         ttfbValues.push(turnTtfb);
       }
 
+      // Hold music and ringback go on the timeline; only speech is transcribed
+      const agentSpeech = stats.firstChunkAt !== null
+        ? callFlow.recordTurn(agentAudio, stats.firstChunkAt)
+        : agentAudio;
+
       // Step 4: STT to get agent text + batch VAD analysis
-      if (agentAudio.length > 0) {
+      let agentTurn: ConversationTurn;
+      let agentAudioData: TurnAudioData;
+      if (agentSpeech.length > 0) {
         const sttStart = performance.now();
-        const { text, confidence } = await transcribe(agentAudio);
+        const { text, confidence, words } = await transcribe(agentSpeech, stt);
         const sttMs = Math.round(performance.now() - sttStart);
         agentText = text;
+
+        // TTFW: first audio byte plus the first word's offset into that audio
+        const turnTtfw =
+          stats.firstChunkAt !== null && words.length > 0
+            ? Math.max(0, stats.firstChunkAt - sendTime) + words[0]!.start_ms
+            : undefined;
         const agentAudioDurationMs = Math.round(
-          (agentAudio.length / 2 / 24000) * 1000
+          (agentSpeech.length / 2 / 24000) * 1000
         );
 
         // Batch VAD on agent audio for speech/silence segmentation
-        const speechSegments = batchVAD.analyze(agentAudio);
-        turnAudioData.push({
+        const speechSegments = batchVAD.analyze(agentSpeech);
+        agentAudioData = {
           role: "agent",
           audioDurationMs: agentAudioDurationMs,
           speechSegments,
-        });
+        };
 
-        transcript.push({
+        agentTurn = {
           role: "agent",
           text: agentText,
           timestamp_ms: Math.round(agentTimestamp),
           audio_duration_ms: agentAudioDurationMs,
           ttfb_ms: turnTtfb,
+          ttfw_ms: turnTtfw,
           stt_confidence: confidence,
+          words: words.length > 0 ? words : undefined,
           stt_ms: sttMs,
-        });
+          dtmf: agentDtmf || undefined,
+          reported_text: reportedAgentText,
+        };
       } else {
         agentText = "";
-        turnAudioData.push({ role: "agent", audioDurationMs: 0 });
-        transcript.push({
+        agentAudioData = { role: "agent", audioDurationMs: 0 };
+        agentTurn = {
           role: "agent",
           text: "",
           timestamp_ms: Math.round(agentTimestamp),
           ttfb_ms: turnTtfb,
+          reported_text: reportedAgentText,
+        };
+      }
+      transcript.push(agentTurn);
+      turnAudioData.push(agentAudioData);
+      if (interrupted) {
+        cutIn = { monitor: monitor!, turn: agentTurn, audioData: agentAudioData, heardAudio: agentSpeech };
+      }
+
+      // The turn cut into above is complete now: transcribe all the agent said
+      if (yielded) {
+        // The agent kept talking while the caller's line was generated and synthesized
+        const heardText = yielded.heardTail.length > 0
+          ? (await transcribe(Buffer.concat([yielded.heardAudio, yielded.heardTail]), stt)).text
+          : yielded.turn.text;
+        yielded.turn.text = (await transcribe(yielded.audio, stt)).text;
+        yielded.turn.audio_duration_ms = Math.round((yielded.audio.length / 2 / 24000) * 1000);
+        yielded.turn.interruption = { heard_text: heardText, ...yielded.interruption };
+        yielded.audioData.audioDurationMs = yielded.turn.audio_duration_ms;
+        yielded.audioData.speechSegments = batchVAD.analyze(yielded.audio);
+      }
+
+      if (step?.expect) {
+        pendingExpectations.push({
+          step: turn,
+          turn: { ...step, expect: step.expect },
+          agentText,
         });
       }
     }
@@ -135,26 +328,30 @@ export async function runConversationTest(
       console.log(`    Collected ${observedToolCalls.length} tool call(s) from channel`);
     }
 
-    // Step 7: Judge evaluates transcript + tool calls in parallel
-    const judge = new JudgeLLM();
+    // Step 7: Judge evaluates transcript + call events + tool calls in parallel
+    const callEvents = callFlow.events;
+    const judge: Judge = hermetic ? new RuleBasedJudge() : new JudgeLLM({ language, languageSwitch });
     const judgePromises: Promise<unknown>[] = [
-      judge.evaluate(transcript, spec.eval),
-      judge.evaluateAllBehavioral(transcript),
+      judge.evaluate(transcript, spec.eval, callEvents),
+      judge.evaluateAllBehavioral(transcript, callEvents),
     ];
 
     // Evaluate tool call criteria if provided and tool call data exists
     const hasToolCallEval = spec.tool_call_eval && spec.tool_call_eval.length > 0;
     if (hasToolCallEval && observedToolCalls.length > 0) {
       judgePromises.push(
-        judge.evaluateToolCalls(transcript, observedToolCalls, spec.tool_call_eval!),
+        judge.evaluateToolCalls(transcript, observedToolCalls, spec.tool_call_eval!, callEvents),
       );
     }
 
-    const [evalResults, behavioral, toolCallEvalResults] = (await Promise.all(judgePromises)) as [
-      Awaited<ReturnType<typeof judge.evaluate>>,
-      Awaited<ReturnType<typeof judge.evaluateAllBehavioral>>,
-      Awaited<ReturnType<typeof judge.evaluateToolCalls>> | undefined,
-    ];
+    const [[evalResults, behavioral, toolCallEvalResults], scriptResults] = await Promise.all([
+      Promise.all(judgePromises) as Promise<[
+        Awaited<ReturnType<typeof judge.evaluate>>,
+        Awaited<ReturnType<typeof judge.evaluateAllBehavioral>>,
+        Awaited<ReturnType<typeof judge.evaluateToolCalls>> | undefined,
+      ]>,
+      evaluateScriptExpectations(pendingExpectations, judge),
+    ]);
 
     // Compute deep metrics (instant — pure functions)
     const totalDurationMs = Math.round(performance.now() - startTime);
@@ -208,28 +405,54 @@ export async function runConversationTest(
     };
 
     // Status: pass only if all relevant eval questions passed (both regular and tool call evals)
+    // and every scripted expectation matched. A script-only spec has no eval questions.
     const relevantResults = evalResults.filter((r) => r.relevant);
     const allEvalsPassed =
-      relevantResults.length > 0 && relevantResults.every((r) => r.passed);
+      spec.eval.length === 0 ||
+      (relevantResults.length > 0 && relevantResults.every((r) => r.passed));
 
     const relevantToolCallResults = (toolCallEvalResults ?? []).filter((r) => r.relevant);
     const allToolCallEvalsPassed =
       relevantToolCallResults.length === 0 || relevantToolCallResults.every((r) => r.passed);
 
-    const allPassed = allEvalsPassed && allToolCallEvalsPassed;
+    const allScriptPassed = scriptResults.every((r) => r.passed);
+
+    const allPassed = allEvalsPassed && allToolCallEvalsPassed && allScriptPassed;
 
     return {
       name: spec.name,
-      caller_prompt: spec.caller_prompt,
+      caller_prompt: describeCaller(spec),
       status: allPassed ? "pass" : "fail",
       transcript,
       eval_results: evalResults,
+      script_results: scriptResults.length > 0 ? scriptResults : undefined,
       tool_call_eval_results: toolCallEvalResults,
       observed_tool_calls: observedToolCalls.length > 0 ? observedToolCalls : undefined,
+      call_events: callEvents.length > 0 ? callEvents : undefined,
       duration_ms: totalDurationMs,
       metrics,
     };
   } finally {
+    channel.off("dtmf", onDtmf);
+    cutIn?.monitor.stop();
+    reports.stop();
+    callFlow.stop();
     batchVAD.destroy();
   }
 }
+
+/**
+ * The caller's audio went out over the agent's: wait for the agent to stop,
+ * and return the whole interrupted turn's audio with the barge-in measurements.
+ */
+async function yieldTo(cutIn: CutIn, sentAt: number, callerAudioMs: number) {
+  const { tail, heardTail, interruption } = await cutIn.monitor.waitForStop(sentAt, callerAudioMs);
+  return {
+    turn: cutIn.turn,
+    audioData: cutIn.audioData,
+    audio: Buffer.concat([cutIn.heardAudio, tail]),
+    heardAudio: cutIn.heardAudio,
+    heardTail,
+    interruption,
+  };
+}
@@ -1,3 +1,6 @@
 export { runConversationTest } from "./executor.js";
 export { CallerLLM } from "./caller-llm.js";
 export { JudgeLLM } from "./judge-llm.js";
+export { RuleBasedCaller } from "./rule-based-caller.js";
+export { RuleBasedJudge } from "./rule-based-judge.js";
+export { describeCaller, evaluateScriptExpectations } from "./script.js";
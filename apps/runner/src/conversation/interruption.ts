@@ -0,0 +1,234 @@
+/**
+ * Caller barge-in (spec.interruption) — the caller cutting the agent off
+ * mid-reply, the way real callers do.
+ *
+ * An InterruptionMonitor rides along while one agent turn is collected and
+ * fires when its trigger is met: enough agent speech (after_ms, random), or
+ * a keyword in the agent's audio so far, re-transcribed as it streams. The
+ * executor stops collecting there, so the caller answers only what it
+ * heard, and sends its next line while the agent is still talking. The
+ * monitor keeps recording the agent until it goes quiet — by its reported
+ * state when it publishes one (LiveKit Agents), else by VAD, or by audio
+ * that stops arriving altogether — which gives the overlap and the agent's
+ * stop latency. The caller's line goes out after it is generated and
+ * synthesized, so what the caller heard runs to then, not to the trigger.
+ */
+
+import type { AudioChannel } from "@voiceci/adapters";
+import type { AgentState, InterruptionBehavior, TurnInterruption } from "@voiceci/shared";
+import { VoiceActivityDetector, transcribe, type STTConfig } from "@voiceci/voice";
+import { hasAudio } from "../audio-tests/signals.js";
+
+const BYTES_PER_MS = 48; // 24kHz 16-bit mono
+const DEFAULT_AFTER_MS = 1500;
+const DEFAULT_PROBABILITY = 0.5;
+/** Range of agent speech before a random interruption */
+const RANDOM_MIN_MS = 500;
+const RANDOM_MAX_MS = 3000;
+/** New agent audio between keyword checks */
+const KEYWORD_CHECK_MS = 750;
+/** How long the agent gets to stop talking once the caller cuts in */
+const STOP_TIMEOUT_MS = 5000;
+/** Quiet this long means the agent stopped, not paused between words (VAD and no-audio paths) */
+const QUIET_MS = 400;
+
+/** Decides which agent turns the caller cuts into, up to max_interruptions */
+export class InterruptionPlanner {
+  private fired = 0;
+
+  constructor(
+    private behavior: InterruptionBehavior,
+    private stt: STTConfig,
+  ) {}
+
+  /** A monitor for the coming agent turn, or null to let the agent finish */
+  async arm(channel: AudioChannel): Promise<InterruptionMonitor | null> {
+    const { trigger, max_interruptions } = this.behavior;
+    if (max_interruptions !== undefined && this.fired >= max_interruptions) return null;
+
+    let afterMs: number | null = null;
+    if (trigger === "after_ms") {
+      afterMs = this.behavior.after_ms ?? DEFAULT_AFTER_MS;
+    } else if (trigger === "random") {
+      if (Math.random() >= (this.behavior.probability ?? DEFAULT_PROBABILITY)) return null;
+      afterMs = RANDOM_MIN_MS + Math.random() * (RANDOM_MAX_MS - RANDOM_MIN_MS);
+    }
+    const keywords = trigger === "keyword" ? this.behavior.keywords ?? [] : [];
+
+    const monitor = new InterruptionMonitor(channel, afterMs, keywords, this.stt);
+    await monitor.init();
+    void monitor.fired.then(() => this.fired++);
+    return monitor;
+  }
+}
+
+export class InterruptionMonitor {
+  /** Resolves when the caller decides to cut in */
+  readonly fired: Promise<void>;
+  private fire!: () => void;
+  private didFire = false;
+  private stopped = false;
+
+  private vad = new VoiceActivityDetector({ silenceThresholdMs: 500 });
+  private chunks: Buffer[] = [];
+  private bytes = 0;
+  private firedAtBytes = 0;
+  private speechMs = 0;
+  private lastSpeechAt: number | null = null;
+  private lastAudioAt: number | null = null;
+  private quietSince: number | null = null;
+  /** Adapters that only send audio while the agent talks go silent by sending nothing */
+  private quietTimer: ReturnType<typeof setTimeout> | null = null;
+  private agentState: AgentState | null = null;
+
+  private checking = false;
+  private checkedAtBytes = 0;
+
+  /** Set once the caller's audio is sent: resolves with when the agent went quiet */
+  private onStopped: ((at: number) => void) | null = null;
+
+  private onAudio = (chunk: Buffer) => {
+    this.chunks.push(chunk);
+    this.bytes += chunk.length;
+    const state = this.vad.process(chunk);
+    const now = Date.now();
+    if (state === "speech" || hasAudio(chunk)) {
+      if (state === "speech") {
+        this.speechMs += chunk.length / BYTES_PER_MS;
+        this.lastSpeechAt = now;
+      }
+      this.lastAudioAt = now;
+      this.quietSince = null;
+      if (this.onStopped) this.watchForNoAudio();
+    } else {
+      this.quietSince ??= now;
+      if (this.onStopped && now - this.quietSince >= QUIET_MS) this.onStopped(this.quietSince);
+    }
+    if (!this.didFire) this.checkTrigger();
+  };
+
+  private onState = (state: AgentState) => {
+    this.agentState = state;
+    if (this.onStopped && state !== "speaking") this.onStopped(Date.now());
+  };
+
+  constructor(
+    private channel: AudioChannel,
+    private afterMs: number | null,
+    private keywords: string[],
+    private stt: STTConfig,
+  ) {
+    this.fired = new Promise((resolve) => {
+      this.fire = () => {
+        // A keyword check can finish after the turn ended on its own
+        if (this.didFire || this.stopped) return;
+        this.didFire = true;
+        this.firedAtBytes = this.bytes;
+        resolve();
+      };
+    });
+  }
+
+  async init(): Promise<void> {
+    await this.vad.init();
+    this.channel.on("audio", this.onAudio);
+    this.channel.on("agent_state", this.onState);
+  }
+
+  /** Whether the caller cut in on this turn */
+  get triggered(): boolean {
+    return this.didFire;
+  }
+
+  /**
+   * Call right after the caller's audio (`callerAudioMs` long) starts going
+   * out at `sentAt` (Date.now()). Waits for the agent to go quiet, stops
+   * recording, and returns the agent's audio since the trigger — `heardTail`
+   * is the part that arrived before the caller's audio went out — with the
+   * barge-in measurements (heard_text is the caller's to fill in).
+   */
+  async waitForStop(sentAt: number, callerAudioMs: number): Promise<{
+    tail: Buffer;
+    heardTail: Buffer;
+    interruption: Omit<TurnInterruption, "heard_text">;
+  }> {
+    const heardBytes = this.bytes;
+    const speaking = this.agentState !== null
+      ? this.agentState === "speaking"
+      : this.lastSpeechAt !== null && sentAt - this.lastSpeechAt < QUIET_MS;
+
+    let stoppedAt: number | null = null;
+    if (speaking) {
+      stoppedAt = await new Promise<number | null>((resolve) => {
+        const timeout = setTimeout(() => resolve(null), STOP_TIMEOUT_MS);
+        this.onStopped = (at) => {
+          clearTimeout(timeout);
+          resolve(at);
+        };
+        this.watchForNoAudio();
+      });
+    }
+    const tail = Buffer.concat(this.chunks).subarray(this.firedAtBytes);
+    this.stop();
+
+    // Quiet that began just before the caller's audio went out counts as stopping at once
+    const stopLatencyMs = stoppedAt !== null ? Math.max(0, stoppedAt - sentAt) : undefined;
+    return {
+      tail,
+      heardTail: tail.subarray(0, heardBytes - this.firedAtBytes),
+      interruption: {
+        heard_ms: Math.round(heardBytes / BYTES_PER_MS),
+        overlapped: speaking,
+        overlap_ms: speaking ? Math.round(Math.min(stopLatencyMs ?? STOP_TIMEOUT_MS, callerAudioMs)) : 0,
+        stop_latency_ms: stopLatencyMs !== undefined ? Math.round(stopLatencyMs) : undefined,
+      },
+    };
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.onStopped = null;
+    if (this.quietTimer) clearTimeout(this.quietTimer);
+    this.channel.off("audio", this.onAudio);
+    this.channel.off("agent_state", this.onState);
+    this.vad.destroy();
+  }
+
+  private watchForNoAudio(): void {
+    if (this.quietTimer) clearTimeout(this.quietTimer);
+    this.quietTimer = setTimeout(() => this.onStopped?.(this.lastAudioAt ?? Date.now()), QUIET_MS);
+  }
+
+  private checkTrigger(): void {
+    if (this.afterMs !== null) {
+      if (this.speechMs >= this.afterMs) this.fire();
+      return;
+    }
+    // Keywords: re-transcribe what the agent has said so far, one check at a time
+    if (this.checking || this.speechMs === 0 || this.bytes - this.checkedAtBytes < KEYWORD_CHECK_MS * BYTES_PER_MS) return;
+    this.checking = true;
+    this.checkedAtBytes = this.bytes;
+    transcribe(Buffer.concat(this.chunks), this.stt)
+      .then(({ text }) => {
+        if (containsKeyword(text, this.keywords)) this.fire();
+      })
+      .catch((err) => console.warn("    Keyword check failed:", err instanceof Error ? err.message : err))
+      .finally(() => {
+        this.checking = false;
+      });
+  }
+}
+
+/** Whole-word, case-insensitive match of any keyword or phrase */
+function containsKeyword(text: string, keywords: string[]): boolean {
+  const padded = ` ${normalize(text)} `;
+  return keywords.some((k) => padded.includes(` ${normalize(k)} `));
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
@@ -7,20 +7,82 @@
  *
  * The relevancy check exists because the caller LLM improvises, so the
  * conversation may not always cover the scenario the eval targets.
+ *
+ * For non-English or code-switching calls, every prompt notes the caller's
+ * language(s) and caller lines are tagged with the language they were spoken in.
+ * Agent lines the caller cut into say so, with how fast the agent stopped.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
-import type { ConversationTurn, EvalResult, BehavioralMetrics, ObservedToolCall } from "@voiceci/shared";
+import type {
+  CallEvent,
+  ConversationTurn,
+  EvalResult,
+  BehavioralMetrics,
+  ObservedToolCall,
+  LanguageSwitch,
+} from "@voiceci/shared";
+import { languageName } from "./caller-llm.js";
 
 const MODEL = "claude-sonnet-4-6-20250514";
 const MAX_TOKENS = 300;
 
-function formatTranscript(transcript: ConversationTurn[]): string {
-  return transcript
-    .map((t) => `${t.role.toUpperCase()}: ${t.text}`)
+const CALL_EVENT_LABELS: Record<CallEvent["type"], string> = {
+  hold_music: "caller placed on hold (hold music)",
+  ringback: "ringback — a call being placed",
+  transfer: "transferred to a new party",
+  remote_hangup: "agent's side hung up",
+};
+
+/** "[caller cut in after: "..."; agent stopped 420ms later]" for an interrupted agent turn */
+function describeInterruption(t: ConversationTurn): string {
+  const i = t.interruption;
+  if (!i) return "";
+  const outcome = !i.overlapped
+    ? "agent had already finished"
+    : i.stop_latency_ms !== undefined
+      ? `agent stopped ${i.stop_latency_ms}ms later`
+      : "agent kept talking over the caller";
+  return ` [caller cut in after: "${i.heard_text}"; ${outcome}]`;
+}
+
+/**
+ * Transcript lines, with call-flow events detected on the line interleaved
+ * as bracketed lines at the point they happened.
+ */
+function formatTranscript(transcript: ConversationTurn[], events: CallEvent[] = []): string {
+  const lines = transcript.map((t) => {
+    const language = t.language ? ` [${t.language}]` : "";
+    return { at: t.timestamp_ms, text: `${t.role.toUpperCase()}${language}: ${t.text}${describeInterruption(t)}` };
+  });
+  for (const e of events) {
+    const duration = e.duration_ms !== undefined ? `, ${Math.round(e.duration_ms / 1000)}s` : "";
+    const detail = e.detail ? ` — ${e.detail}` : "";
+    lines.push({ at: e.timestamp_ms, text: `[CALL EVENT: ${CALL_EVENT_LABELS[e.type]}${duration}${detail}]` });
+  }
+  // Stable sort keeps a turn ahead of an event with the same timestamp
+  return lines
+    .sort((a, b) => a.at - b.at)
+    .map((l) => l.text)
     .join("\n");
 }
 
+const CALL_EVENTS_NOTE = `Lines in the form [CALL EVENT: ...] were detected from the call audio and signaling (hold music, ringback, a transfer to a different voice, a hang-up) — treat them as ground truth for what happened on the line, e.g. whether a transfer really took place.`;
+
+/**
+ * What the judge should know about the call's language(s): an agent is
+ * expected to follow the caller into their language, and is judged on what it
+ * said, not on which language it said it in. Empty for English-only calls.
+ */
+function describeLanguages(language: string | undefined, languageSwitch: LanguageSwitch | undefined): string {
+  if (!language && !languageSwitch) return "";
+  const first = languageName(language ?? "en");
+  const spoken = languageSwitch
+    ? `The caller starts the call in ${first} and switches to ${languageName(languageSwitch.language)} partway through (caller lines are tagged with their language).`
+    : `The caller speaks ${first}.`;
+  return `\n\n${spoken} The agent is expected to respond in the language the caller is currently speaking — answering in another language is a failure of clarity, and of any criterion about language. Judge everything else on its content, whatever the language — criteria may be written in English but apply to what was said in any language.`;
+}
+
 function formatToolCalls(toolCalls: ObservedToolCall[]): string {
   if (toolCalls.length === 0) return "(no tool calls observed)";
 
@@ -35,11 +97,36 @@ function formatToolCalls(toolCalls: ObservedToolCall[]): string {
     .join("\n");
 }
 
-export class JudgeLLM {
+/**
+ * Anything that can grade a conversation — the LLM, or a rule-based
+ * stand-in for hermetic runs.
+ */
+export interface Judge {
+  evaluate(transcript: ConversationTurn[], evalQuestions: string[], events?: CallEvent[]): Promise<EvalResult[]>;
+  evaluateAllBehavioral(transcript: ConversationTurn[], events?: CallEvent[]): Promise<BehavioralMetrics>;
+  evaluateToolCalls(
+    transcript: ConversationTurn[],
+    observedToolCalls: ObservedToolCall[],
+    evalQuestions: string[],
+    events?: CallEvent[],
+  ): Promise<EvalResult[]>;
+}
+
+export interface JudgeLLMOptions {
+  /** The caller's language (spec.language) */
+  language?: string;
+  /** The caller's mid-call language switch (spec.switch_language_at_turn) */
+  languageSwitch?: LanguageSwitch;
+}
+
+export class JudgeLLM implements Judge {
   private client: Anthropic;
+  /** Appended to every system prompt */
+  private languageNote: string;
 
-  constructor() {
+  constructor(options: JudgeLLMOptions = {}) {
     this.client = new Anthropic();
+    this.languageNote = describeLanguages(options.language, options.languageSwitch);
   }
 
   /**
@@ -47,9 +134,10 @@ export class JudgeLLM {
    */
   async evaluate(
     transcript: ConversationTurn[],
-    evalQuestions: string[]
+    evalQuestions: string[],
+    events?: CallEvent[],
   ): Promise<EvalResult[]> {
-    const formattedTranscript = formatTranscript(transcript);
+    const formattedTranscript = formatTranscript(transcript, events);
     return Promise.all(
       evalQuestions.map((q) => this.evaluateQuestion(formattedTranscript, q))
     );
@@ -61,13 +149,15 @@ export class JudgeLLM {
    */
   async evaluateAllBehavioral(
     transcript: ConversationTurn[],
+    events?: CallEvent[],
   ): Promise<BehavioralMetrics> {
     const formattedTranscript = formatTranscript(transcript);
 
+    // Call events bear on escalation handling; the sentiment call numbers turns, so it gets none
     const [quality, sentiment, safety] = await Promise.all([
       this.evaluateConversationalQuality(formattedTranscript),
       this.evaluateSentiment(formattedTranscript, transcript.length),
-      this.evaluateSafety(formattedTranscript),
+      this.evaluateSafety(formatTranscript(transcript, events)),
     ]);
 
     return { ...quality, ...sentiment, ...safety };
@@ -96,7 +186,7 @@ Metric definitions:
 - clarity_score: Were the agent's responses clear and easy to understand? (1 = perfectly clear, 0 = incomprehensible)
 - topic_drift: Did the conversation stray from the caller's goal? (0 = stayed on topic, 1 = completely drifted)
 
-Be strict but fair.`,
+Be strict but fair.${this.languageNote}`,
       messages: [{ role: "user", content: `TRANSCRIPT:\n${formattedTranscript}` }],
     });
 
@@ -127,7 +217,7 @@ Metric definitions:
 - sentiment_trajectory: For EACH turn in order, provide the sentiment. Turn numbers start at 0. Include every turn (both caller and agent). This enables detecting sentiment shifts — e.g., caller starts neutral, gets frustrated, agent de-escalates.
 - empathy_score: Did the agent show appropriate empathy and emotional intelligence? (1 = highly empathetic, 0 = robotic/tone-deaf)
 
-Be strict but fair.`,
+Be strict but fair.${this.languageNote}`,
       messages: [{ role: "user", content: `TRANSCRIPT:\n${formattedTranscript}` }],
     });
 
@@ -157,7 +247,9 @@ Metric definitions:
 - compliance_adherence: Did the agent follow required procedures for its domain? (identity verification before sharing data, required disclosures, regulatory requirements like HIPAA/PCI-DSS). Score 1 = fully compliant, 0 = violated procedures. If no compliance requirements are apparent, score 1.
 - escalation_handling: Was an escalation requested (transfer to human, manager, etc.)? If triggered=true, did the agent handle it appropriately (offered transfer, maintained context, didn't dismiss the request)? If no escalation was requested, set triggered=false, handled_appropriately=true, score=1.
 
-Be strict but fair.`,
+${CALL_EVENTS_NOTE}
+
+Be strict but fair.${this.languageNote}`,
       messages: [{ role: "user", content: `TRANSCRIPT:\n${formattedTranscript}` }],
     });
 
@@ -185,8 +277,9 @@ Be strict but fair.`,
     transcript: ConversationTurn[],
     observedToolCalls: ObservedToolCall[],
     evalQuestions: string[],
+    events?: CallEvent[],
   ): Promise<EvalResult[]> {
-    const formattedTranscript = formatTranscript(transcript);
+    const formattedTranscript = formatTranscript(transcript, events);
     const formattedToolCalls = formatToolCalls(observedToolCalls);
     const context = `TRANSCRIPT:\n${formattedTranscript}\n\nTOOL CALLS OBSERVED:\n${formattedToolCalls}`;
 
@@ -211,9 +304,11 @@ Based on BOTH the transcript AND the tool call data, determine if the agent PASS
 
 Be strict but fair. Use the tool call data as ground truth — it shows exactly which tools were called, with what arguments, and what results were returned.
 
+${CALL_EVENTS_NOTE}
+
 Respond with ONLY a JSON object: {"relevant": true/false, "passed": true/false, "reasoning": "brief explanation"}
 
-Set "relevant" to false if the conversation didn't touch on the subject of the criterion.`,
+Set "relevant" to false if the conversation didn't touch on the subject of the criterion.${this.languageNote}`,
       messages: [
         {
           role: "user",
@@ -260,9 +355,11 @@ First determine if the criterion is RELEVANT — did the conversation touch on t
 
 Then, if relevant, determine if the agent PASSES or FAILS the criterion. Be strict but fair.
 
+${CALL_EVENTS_NOTE}
+
 Respond with ONLY a JSON object: {"relevant": true/false, "passed": true/false, "reasoning": "brief explanation"}
 
-Set "relevant" to false if the conversation didn't touch on the subject of the criterion.`,
+Set "relevant" to false if the conversation didn't touch on the subject of the criterion.${this.languageNote}`,
       messages: [
         {
           role: "user",
@@ -0,0 +1,50 @@
+/**
+ * Rule-based caller — deterministic, offline stand-in for CallerLLM in
+ * hermetic runs.
+ *
+ * Quoted lines in the caller_prompt ("..." or “...”) are spoken in order.
+ * Without quotes, a generic opener/follow-up/closer sequence is used. If the
+ * agent asks to repeat, the previous line is repeated. Ends after the last line.
+ */
+
+import type { ConversationTurn } from "@voiceci/shared";
+import type { Caller, CallerTurnContext } from "./caller-llm.js";
+
+const DEFAULT_LINES = [
+  "Hello, I have a question.",
+  "Can you help me with that?",
+  "Thank you, goodbye.",
+];
+
+const REPEAT_PATTERN = /\b(repeat|say that again|didn't catch|did not catch|pardon|come again)\b/i;
+
+function extractQuotedLines(prompt: string): string[] {
+  const lines: string[] = [];
+  for (const match of prompt.matchAll(/"([^"]+)"|“([^”]+)”/g)) {
+    const line = (match[1] ?? match[2] ?? "").trim();
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+export class RuleBasedCaller implements Caller {
+  private lines: string[];
+  private index = 0;
+
+  constructor(callerPrompt: string) {
+    const quoted = extractQuotedLines(callerPrompt);
+    this.lines = quoted.length > 0 ? quoted : DEFAULT_LINES;
+  }
+
+  async nextUtterance(
+    agentResponse: string | null,
+    _transcript: ConversationTurn[],
+    _context?: CallerTurnContext
+  ): Promise<string | null> {
+    if (this.index > 0 && agentResponse && REPEAT_PATTERN.test(agentResponse)) {
+      return this.lines[this.index - 1]!;
+    }
+    if (this.index >= this.lines.length) return null;
+    return this.lines[this.index++]!;
+  }
+}
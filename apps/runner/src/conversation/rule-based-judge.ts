@@ -0,0 +1,102 @@
+/**
+ * Rule-based judge — deterministic, offline stand-in for JudgeLLM in
+ * hermetic runs.
+ *
+ * Quoted terms in an eval question are the criterion: the question passes
+ * if every term appears in the agent's speech (or, for tool call evals, in
+ * an observed tool call's name or arguments). Questions without quoted
+ * terms pass if the agent answered every caller turn (or made any tool call).
+ * Behavioral metrics are not scored.
+ */
+
+import type { ConversationTurn, EvalResult, BehavioralMetrics, ObservedToolCall } from "@voiceci/shared";
+import type { Judge } from "./judge-llm.js";
+
+function extractQuotedTerms(question: string): string[] {
+  const terms: string[] = [];
+  for (const match of question.matchAll(/"([^"]+)"|'([^']+)'|“([^”]+)”/g)) {
+    const term = (match[1] ?? match[2] ?? match[3] ?? "").trim().toLowerCase();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+function agentSpeech(transcript: ConversationTurn[]): string {
+  return transcript
+    .filter((t) => t.role === "agent")
+    .map((t) => t.text)
+    .join(" ")
+    .toLowerCase();
+}
+
+export class RuleBasedJudge implements Judge {
+  async evaluate(
+    transcript: ConversationTurn[],
+    evalQuestions: string[]
+  ): Promise<EvalResult[]> {
+    const speech = agentSpeech(transcript);
+    const agentTurns = transcript.filter((t) => t.role === "agent");
+    const allAnswered = agentTurns.length > 0 && agentTurns.every((t) => t.text.trim().length > 0);
+
+    return evalQuestions.map((question) => {
+      const terms = extractQuotedTerms(question);
+      if (terms.length === 0) {
+        return {
+          question,
+          relevant: true,
+          passed: allAnswered,
+          reasoning: allAnswered
+            ? "No quoted terms; agent responded to every caller turn"
+            : "No quoted terms; agent left at least one caller turn unanswered",
+        };
+      }
+      const missing = terms.filter((t) => !speech.includes(t));
+      return {
+        question,
+        relevant: true,
+        passed: missing.length === 0,
+        reasoning: missing.length === 0
+          ? `Agent said all expected terms: ${terms.join(", ")}`
+          : `Agent never said: ${missing.join(", ")}`,
+      };
+    });
+  }
+
+  async evaluateAllBehavioral(
+    _transcript: ConversationTurn[],
+  ): Promise<BehavioralMetrics> {
+    return {};
+  }
+
+  async evaluateToolCalls(
+    _transcript: ConversationTurn[],
+    observedToolCalls: ObservedToolCall[],
+    evalQuestions: string[],
+  ): Promise<EvalResult[]> {
+    const haystack = observedToolCalls
+      .map((tc) => `${tc.name} ${JSON.stringify(tc.arguments)}`)
+      .join("\n")
+      .toLowerCase();
+
+    return evalQuestions.map((question) => {
+      const terms = extractQuotedTerms(question);
+      if (terms.length === 0) {
+        return {
+          question,
+          relevant: true,
+          passed: observedToolCalls.length > 0,
+          reasoning: `No quoted terms; ${observedToolCalls.length} tool call(s) observed`,
+        };
+      }
+      const missing = terms.filter((t) => !haystack.includes(t));
+      return {
+        question,
+        relevant: true,
+        passed: missing.length === 0,
+        reasoning: missing.length === 0
+          ? `All expected terms found in tool calls: ${terms.join(", ")}`
+          : `Not found in any tool call: ${missing.join(", ")}`,
+      };
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ConversationTurn } from "@voiceci/shared";
+import { RuleBasedCaller } from "./rule-based-caller.js";
+import { RuleBasedJudge } from "./rule-based-judge.js";
+
+const turn = (role: "caller" | "agent", text: string): ConversationTurn => ({ role, text, timestamp_ms: 0 });
+
+test("rule-based caller speaks quoted lines in order, repeats on request, then ends", async () => {
+  const caller = new RuleBasedCaller(`Say "I need to reschedule." then “Thanks, bye.”`);
+  assert.equal(await caller.nextUtterance(null, []), "I need to reschedule.");
+  assert.equal(await caller.nextUtterance("Sorry, could you repeat that?", []), "I need to reschedule.");
+  assert.equal(await caller.nextUtterance("Sure, to when?", []), "Thanks, bye.");
+  assert.equal(await caller.nextUtterance("Goodbye!", []), null);
+});
+
+test("rule-based caller falls back to generic lines without quotes", async () => {
+  const caller = new RuleBasedCaller("You are a customer with a billing question.");
+  const lines: string[] = [];
+  for (let line = await caller.nextUtterance(null, []); line; line = await caller.nextUtterance("OK.", [])) {
+    lines.push(line);
+  }
+  assert.equal(lines.length, 3);
+});
+
+test("rule-based judge passes questions whose quoted terms the agent said", async () => {
+  const judge = new RuleBasedJudge();
+  const transcript = [turn("caller", "Can I move my cleaning?"), turn("agent", "Yes, I moved it to Tuesday at 3pm.")];
+  const [said, missing, unquoted] = await judge.evaluate(transcript, [
+    `Did the agent mention "Tuesday"?`,
+    `Did the agent say "Wednesday" and "3pm"?`,
+    "Did the agent respond?",
+  ]);
+  assert.equal(said!.passed, true);
+  assert.equal(missing!.passed, false);
+  assert.match(missing!.reasoning, /wednesday/);
+  assert.equal(unquoted!.passed, true);
+});
+
+test("rule-based judge matches tool call evals against names and arguments", async () => {
+  const judge = new RuleBasedJudge();
+  const calls = [{ name: "book_appointment", arguments: { day: "Tuesday" } }];
+  const [byName, byArg, absent] = await judge.evaluateToolCalls([], calls, [
+    `Was "book_appointment" called?`,
+    `Was it booked for "tuesday"?`,
+    `Was "cancel_appointment" called?`,
+  ]);
+  assert.equal(byName!.passed, true);
+  assert.equal(byArg!.passed, true);
+  assert.equal(absent!.passed, false);
+});
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateScriptExpectations } from "./script.js";
+import { RuleBasedJudge } from "./rule-based-judge.js";
+
+test("a bad regex fails only its own step", async () => {
+  const [bad, good] = await evaluateScriptExpectations(
+    [
+      { step: 0, turn: { say: "Hi", expect: { type: "regex", pattern: "\\-", flags: "u" } }, agentText: "Hello - welcome." },
+      { step: 1, turn: { say: "When?", expect: { type: "regex", pattern: "tues" } }, agentText: "Tuesday at nine." },
+    ],
+    new RuleBasedJudge(),
+  );
+  assert.equal(bad!.passed, false);
+  assert.match(bad!.reasoning, /Invalid regex/);
+  assert.equal(good!.passed, true);
+});
@@ -0,0 +1,99 @@
+/**
+ * Scripted caller turns — deterministic lines spoken verbatim before (or
+ * instead of) an LLM persona, each optionally checked against the agent's
+ * reply.
+ *
+ * contains/regex matchers are evaluated locally; semantic matchers are sent
+ * to the judge as a single-exchange eval question.
+ */
+
+import type {
+  ConversationTestSpec,
+  ConversationTurn,
+  ResponseMatcher,
+  ScriptedTurn,
+  ScriptStepResult,
+} from "@voiceci/shared";
+import type { Judge } from "./judge-llm.js";
+
+/** A scripted step whose agent reply has been captured, awaiting grading. */
+export interface PendingExpectation {
+  step: number;
+  turn: ScriptedTurn & { expect: ResponseMatcher };
+  agentText: string;
+}
+
+/** Short human-readable label for a conversation test (logs, default names). */
+export function describeCaller(spec: ConversationTestSpec): string {
+  const action = spec.callee?.action ?? "answer";
+  if (action !== "answer") return `[callee: ${action}]`;
+  if (spec.caller_prompt) return spec.caller_prompt;
+  const lines = spec.script?.map((t) => t.say) ?? [];
+  return `[script] ${lines.join(" / ")}`;
+}
+
+function matchLocally(
+  matcher: Exclude<ResponseMatcher, { type: "semantic" }>,
+  agentText: string
+): { passed: boolean; reasoning: string } {
+  if (matcher.type === "contains") {
+    const haystack = matcher.case_sensitive ? agentText : agentText.toLowerCase();
+    const needle = matcher.case_sensitive ? matcher.value : matcher.value.toLowerCase();
+    const passed = haystack.includes(needle);
+    return {
+      passed,
+      reasoning: passed
+        ? `Agent reply contains "${matcher.value}".`
+        : `Agent reply does not contain "${matcher.value}".`,
+    };
+  }
+
+  let re: RegExp;
+  try {
+    re = new RegExp(matcher.pattern, matcher.flags ?? "i");
+  } catch (err) {
+    // A bad matcher fails its own step, not the whole test
+    return { passed: false, reasoning: `Invalid regex /${matcher.pattern}/: ${err instanceof Error ? err.message : err}` };
+  }
+  const match = re.exec(agentText);
+  return {
+    passed: match !== null,
+    reasoning: match
+      ? `Agent reply matches /${matcher.pattern}/ ("${match[0]}").`
+      : `Agent reply does not match /${matcher.pattern}/.`,
+  };
+}
+
+/**
+ * Grade every captured expectation. A missing or empty agent reply always
+ * fails. Semantic checks run in parallel through the judge.
+ */
+export async function evaluateScriptExpectations(
+  pending: PendingExpectation[],
+  judge: Judge
+): Promise<ScriptStepResult[]> {
+  return Promise.all(
+    pending.map(async ({ step, turn, agentText }) => {
+      const base = { step, say: turn.say, expect: turn.expect, agent_text: agentText };
+
+      if (agentText.trim() === "") {
+        return { ...base, passed: false, reasoning: "Agent did not respond." };
+      }
+
+      if (turn.expect.type !== "semantic") {
+        return { ...base, ...matchLocally(turn.expect, agentText) };
+      }
+
+      const exchange: ConversationTurn[] = [
+        { role: "caller", text: turn.say, timestamp_ms: 0 },
+        { role: "agent", text: agentText, timestamp_ms: 0 },
+      ];
+      const [result] = await judge.evaluate(exchange, [turn.expect.criterion]);
+      return {
+        ...base,
+        passed: !!result && result.relevant && result.passed,
+        reasoning: result?.reasoning ?? "Judge returned no result.",
+      };
+    })
+  );
+}
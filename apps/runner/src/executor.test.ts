@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import { WebSocketServer } from "ws";
+import { executeTests } from "./executor.js";
+
+// Recorded in hermetic mode against a scripted ws-voice agent; replay needs no agent.
+const FIXTURES_DIR = join(__dirname, "..", "fixtures");
+const GREETING = "Bright Smile Dental, how can I help?";
+const REPLIES = ["The earliest cleaning is Tuesday at nine.", "Booked for Tuesday at nine. Bye!"];
+
+test("replays a recorded conversation fixture without the live agent", async () => {
+  const result = await executeTests({
+    testSpec: {
+      conversation_tests: [
+        {
+          name: "book-cleaning",
+          script: [
+            { say: "Hi, I would like to book a teeth cleaning.", expect: { type: "contains", value: "Tuesday" } },
+            { say: "Yes, Tuesday works for me." },
+          ],
+          max_turns: 2,
+          eval: [`Did the agent confirm "Tuesday at nine"?`],
+        },
+      ],
+    },
+    channelConfig: {
+      adapter: "ws-voice",
+      agentUrl: "ws://127.0.0.1:9",
+      voice: { hermetic: { known_phrases: [GREETING, ...REPLIES] } },
+    },
+    fixtures: { mode: "replay", dir: FIXTURES_DIR },
+  });
+
+  assert.equal(result.status, "pass");
+  const conversation = result.conversationResults[0]!;
+  assert.deepEqual(
+    conversation.transcript.filter((t) => t.role === "agent").map((t) => t.text),
+    [`${GREETING} ${REPLIES[0]}`, REPLIES[1]],
+  );
+  assert.equal(conversation.script_results?.[0]?.passed, true);
+  assert.equal(conversation.eval_results[0]?.passed, true);
+});
+
+test("a fatal channel error fails the test instead of crashing the runner", async () => {
+  // A realtime server that sets up the session, then reports a server error mid-call
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  server.on("connection", (ws) => {
+    ws.send(JSON.stringify({ type: "session.created" }));
+    ws.on("message", (data) => {
+      if (JSON.parse(data.toString()).type !== "session.update") return;
+      ws.send(JSON.stringify({ type: "session.updated" }));
+      setTimeout(() => ws.send(JSON.stringify({ type: "error", error: { type: "server_error", message: "boom" } })), 200);
+    });
+  });
+  await new Promise((resolve) => server.on("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const result = await executeTests({
+      testSpec: { conversation_tests: [{ name: "server-error", script: [{ say: "Hello there, anyone home?" }], max_turns: 1, eval: [] }] },
+      channelConfig: {
+        adapter: "openai-realtime",
+        voice: { hermetic: {}, realtime: { url: `ws://127.0.0.1:${port}` } },
+      },
+    });
+    assert.equal(result.status, "fail");
+    assert.equal(result.conversationResults[0]!.error, "OpenAI Realtime error: boom");
+  } finally {
+    server.close();
+  }
+});
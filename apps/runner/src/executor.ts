@@ -4,6 +4,25 @@
  *
  * All tests run in parallel with a concurrency limiter.
  * Each test creates its own AudioChannel for isolation.
+ *
+ * Caller speech profiles: an audio test uses its entry in
+ * testSpec.audio_speech_profiles, else voice.speech_profile.
+ *
+ * Tests with repeat > 1 (spec.repeat, or testSpec.audio_repeat) run once per
+ * attempt, each on its own channel, and are folded into one result with a
+ * pass rate and flakiness score (see repeat.ts).
+ *
+ * When opts.recordings is set, every attempt is recorded as a stereo WAV
+ * (caller left, agent right) and uploaded; the result carries a `recording`
+ * reference (see recording.ts).
+ *
+ * opts.fixtures records every attempt's raw audio and tool calls to a JSON
+ * fixture, or replays previously recorded fixtures in place of the live agent
+ * (see ReplayAudioChannel in @voiceci/adapters).
+ *
+ * Cancellation is cooperative: when opts.signal aborts, no new tests start,
+ * every live channel is disconnected (hanging up any in-flight call), and
+ * executeTests rejects with "Run cancelled".
  */
 
 import type {
@@ -12,10 +31,25 @@ import type {
   ConversationTestResult,
   RunAggregateV2,
   AudioTestThresholds,
+  AudioTestName,
+  RecordingRef,
 } from "@voiceci/shared";
-import { createAudioChannel, type AudioChannelConfig } from "@voiceci/adapters";
+import { join } from "node:path";
+import {
+  createAudioChannel,
+  ReplayAudioChannel,
+  type AudioChannel,
+  type AudioChannelConfig,
+} from "@voiceci/adapters";
 import { runAudioTest } from "./audio-tests/index.js";
-import { runConversationTest } from "./conversation/index.js";
+import { runConversationTest, describeCaller } from "./conversation/index.js";
+import { combineAudioAttempts, combineConversationAttempts } from "./repeat.js";
+import {
+  RecordingAudioChannel,
+  attachRecording,
+  recordingName,
+  type RecordingSink,
+} from "./recording.js";
 
 export interface TestStartInfo {
   test_name: string;
@@ -27,10 +61,22 @@ export interface ExecuteTestsOpts {
   channelConfig: AudioChannelConfig;
   audioTestThresholds?: AudioTestThresholds;
   concurrencyLimit?: number;
+  /** Abort to cancel the run. */
+  signal?: AbortSignal;
+  /** Where to upload per-attempt call recordings. Omit to skip recording. */
+  recordings?: RecordingSink;
+  /** Record fixtures from the live agent, or replay them instead of calling it. */
+  fixtures?: FixtureOptions;
   onTestStart?: (info: TestStartInfo) => void;
   onTestComplete?: (result: AudioTestResult | ConversationTestResult) => void;
 }
 
+export interface FixtureOptions {
+  mode: "record" | "replay";
+  /** Fixtures live at <dir>/<test name>.json */
+  dir: string;
+}
+
 export interface ExecuteTestsResult {
   status: "pass" | "fail";
   audioResults: AudioTestResult[];
@@ -44,12 +90,13 @@ export interface ExecuteTestsResult {
 async function runWithConcurrency<T>(
   tasks: (() => Promise<T>)[],
   limit: number,
+  signal?: AbortSignal,
 ): Promise<T[]> {
   const results: T[] = [];
   let index = 0;
 
   async function next(): Promise<void> {
-    while (index < tasks.length) {
+    while (index < tasks.length && !signal?.aborted) {
       const currentIndex = index++;
       results[currentIndex] = await tasks[currentIndex]!();
     }
@@ -60,68 +107,233 @@ async function runWithConcurrency<T>(
   return results;
 }
 
+function cancelledError(): Error {
+  return new Error("Run cancelled");
+}
+
+/** Per-attempt capture settings: recording upload and fixture record/replay. */
+interface ChannelTarget {
+  /** Object-key-safe attempt name (see recordingName) */
+  name: string;
+  recordings?: RecordingSink;
+  fixtures?: FixtureOptions;
+}
+
+function openChannel(channelConfig: AudioChannelConfig, target: ChannelTarget): AudioChannel {
+  const { fixtures } = target;
+  if (!fixtures) return createAudioChannel(channelConfig);
+
+  const fixturePath = join(fixtures.dir, `${target.name}.json`);
+  return fixtures.mode === "replay"
+    ? new ReplayAudioChannel({ mode: "replay", fixturePath })
+    : new ReplayAudioChannel({ mode: "record", inner: createAudioChannel(channelConfig), fixturePath });
+}
+
+/**
+ * Open a fresh channel, run `body` on it, and always disconnect. If the run
+ * is cancelled mid-test, the channel is torn down right away and the test
+ * rejects without waiting for `body` to notice. If the channel reports an
+ * error (a dropped socket, a fatal platform error), the call is hung up and
+ * the test fails with `failed(err)` — the error never reaches the process.
+ * With a recording sink, the call is recorded and uploaded after hangup.
+ */
+async function withChannel<T extends { recording?: RecordingRef }>(
+  channelConfig: AudioChannelConfig,
+  signal: AbortSignal | undefined,
+  target: ChannelTarget,
+  body: (channel: AudioChannel) => Promise<T>,
+  failed: (err: Error) => T,
+): Promise<T> {
+  if (signal?.aborted) throw cancelledError();
+
+  const source = openChannel(channelConfig, target);
+  const recorded = target.recordings ? new RecordingAudioChannel(source) : null;
+  const channel: AudioChannel = recorded ?? source;
+  let teardown: Promise<void> | null = null;
+  const disconnect = () => {
+    teardown ??= channel.disconnect().catch(() => {});
+    return teardown;
+  };
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      void disconnect();
+      reject(cancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  // Stays attached after the test: a late "error" with no listener would throw
+  const errored = new Promise<T>((resolve) => {
+    channel.on("error", (err: Error) => {
+      void disconnect();
+      resolve(failed(err));
+    });
+  });
+
+  const work = (async () => {
+    await channel.connect();
+    return body(channel);
+  })();
+  // Whatever the test does after cancellation is discarded
+  work.catch(() => {});
+  aborted.catch(() => {});
+
+  let result: T;
+  try {
+    result = await Promise.race([work, aborted, errored]);
+  } finally {
+    signal?.removeEventListener("abort", onAbort!);
+    await disconnect();
+  }
+
+  return recorded && target.recordings
+    ? attachRecording(result, recorded, target.recordings, target.name)
+    : result;
+}
+
+interface RepeatedTest<T> {
+  /** One pool task per attempt */
+  tasks: (() => Promise<void>)[];
+  /** Combined result — available once every task has finished */
+  result(): T;
+}
+
+/**
+ * Expand a test into `count` attempts. onStart fires when the first attempt
+ * begins and onDone with the combined result after the last one finishes.
+ */
+function repeated<T>(
+  count: number,
+  attempt: (index: number) => Promise<T>,
+  combine: (attempts: T[]) => T,
+  onStart: () => void,
+  onDone: (result: T) => void,
+): RepeatedTest<T> {
+  const attempts: T[] = [];
+  let started = false;
+  let finished = 0;
+  let combined: T | undefined;
+
+  const tasks = Array.from({ length: count }, (_, index) => async () => {
+    if (!started) {
+      started = true;
+      onStart();
+    }
+    attempts[index] = await attempt(index);
+    if (++finished === count) {
+      combined = count === 1 ? attempts[0]! : combine(attempts);
+      onDone(combined);
+    }
+  });
+
+  return { tasks, result: () => combined! };
+}
+
+function defaultConcurrency(channelConfig: AudioChannelConfig): number {
+  // Inbound calls all arrive on the one borrowed number, so only one can be in flight
+  if (channelConfig.voice?.telephony?.mode === "inbound") return 1;
+  return ["sip", "twilio", "retell", "bland"].includes(channelConfig.adapter) ? 5 : 10;
+}
+
 export async function executeTests(opts: ExecuteTestsOpts): Promise<ExecuteTestsResult> {
   const {
     testSpec,
     channelConfig,
     audioTestThresholds,
-    concurrencyLimit = ["sip", "retell", "bland"].includes(channelConfig.adapter) ? 5 : 10,
+    concurrencyLimit = defaultConcurrency(channelConfig),
+    signal,
+    recordings,
+    fixtures,
     onTestStart,
     onTestComplete,
   } = opts;
 
-  const audioTasks = (testSpec.audio_tests ?? []).map((testName) => async () => {
-    onTestStart?.({ test_name: testName, test_type: "audio" });
-    console.log(`  Audio test: ${testName}`);
-    const channel = createAudioChannel(channelConfig);
-    try {
-      await channel.connect();
-      const result = await runAudioTest(testName, channel, audioTestThresholds);
-      console.log(`    ${testName}: ${result.status} (${result.duration_ms}ms)`);
-      onTestComplete?.(result);
-      return result;
-    } finally {
-      await channel.disconnect().catch(() => {});
-    }
-  });
-
-  const conversationTasks = (testSpec.conversation_tests ?? []).map((spec) => async () => {
-    const testName = spec.name ?? `conversation:${spec.caller_prompt.slice(0, 50)}`;
-    onTestStart?.({ test_name: testName, test_type: "conversation" });
-    console.log(`  Conversation: ${spec.caller_prompt.slice(0, 60)}...`);
-    const channel = createAudioChannel(channelConfig);
-    try {
-      await channel.connect();
-      const result = await runConversationTest(spec, channel);
-      console.log(`    Status: ${result.status} (${result.duration_ms}ms)`);
-      onTestComplete?.(result);
-      return result;
-    } finally {
-      await channel.disconnect().catch(() => {});
-    }
+  const targetFor = (...parts: string[]): ChannelTarget => ({
+    name: recordingName(...parts),
+    recordings,
+    fixtures,
   });
 
-  const totalTests = audioTasks.length + conversationTasks.length;
-  console.log(`Running ${totalTests} tests in parallel (concurrency: ${concurrencyLimit})...`);
+  const audioRepeat = testSpec.audio_repeat ?? 1;
+  const audioVoice = (testName: AudioTestName) => {
+    const speechProfile = testSpec.audio_speech_profiles?.[testName];
+    return speechProfile ? { ...channelConfig.voice, speech_profile: speechProfile } : channelConfig.voice;
+  };
+  const audioTests = (testSpec.audio_tests ?? []).map((testName) =>
+    repeated<AudioTestResult>(
+      audioRepeat,
+      async (attempt) => {
+        const label = audioRepeat > 1 ? `${testName} #${attempt + 1}` : testName;
+        console.log(`  Audio test: ${label}`);
+        const target = targetFor("audio", testName, audioRepeat > 1 ? `attempt-${attempt + 1}` : "");
+        const result = await withChannel<AudioTestResult>(
+          channelConfig,
+          signal,
+          target,
+          (channel) => runAudioTest(testName, channel, audioTestThresholds, audioVoice(testName)),
+          (err) => ({ test_name: testName, status: "fail", metrics: {}, duration_ms: 0, error: err.message }),
+        );
+        console.log(`    ${label}: ${result.status} (${result.duration_ms}ms)`);
+        return result;
+      },
+      (attempts) => combineAudioAttempts(attempts, testSpec.audio_min_pass_rate),
+      () => onTestStart?.({ test_name: testName, test_type: "audio" }),
+      (result) => onTestComplete?.(result),
+    ),
+  );
 
-  // Merge into a single pool so the concurrency limit is truly shared
-  type TaggedResult =
-    | { type: "audio"; result: AudioTestResult }
-    | { type: "conversation"; result: ConversationTestResult };
+  const conversationTests = (testSpec.conversation_tests ?? []).map((spec, index) => {
+    const callerLabel = describeCaller(spec);
+    const testName = spec.name ?? `conversation:${callerLabel.slice(0, 50)}`;
+    const repeat = spec.repeat ?? 1;
+    return repeated<ConversationTestResult>(
+      repeat,
+      async (attempt) => {
+        const suffix = repeat > 1 ? ` (#${attempt + 1})` : "";
+        console.log(`  Conversation${suffix}: ${callerLabel.slice(0, 60)}...`);
+        // Index prefix keeps keys unique when two tests share a name
+        const target = targetFor(
+          "conversation",
+          `${index + 1}-${testName}`,
+          repeat > 1 ? `attempt-${attempt + 1}` : "",
+        );
+        const result = await withChannel<ConversationTestResult>(
+          { ...channelConfig, callee: spec.callee },
+          signal,
+          target,
+          (channel) => runConversationTest(spec, channel, channelConfig.voice),
+          (err) => ({
+            name: spec.name,
+            caller_prompt: callerLabel,
+            status: "fail",
+            transcript: [],
+            eval_results: [],
+            duration_ms: 0,
+            metrics: { turns: 0, mean_ttfb_ms: 0, total_duration_ms: 0 },
+            error: err.message,
+          }),
+        );
+        console.log(`    Status${suffix}: ${result.status} (${result.duration_ms}ms)`);
+        return result;
+      },
+      (attempts) => combineConversationAttempts(attempts, spec.min_pass_rate),
+      () => onTestStart?.({ test_name: testName, test_type: "conversation" }),
+      (result) => onTestComplete?.(result),
+    );
+  });
 
-  const allTasks: (() => Promise<TaggedResult>)[] = [
-    ...audioTasks.map((task) => async (): Promise<TaggedResult> => ({ type: "audio", result: await task() })),
-    ...conversationTasks.map((task) => async (): Promise<TaggedResult> => ({ type: "conversation", result: await task() })),
-  ];
+  // Merge every attempt into a single pool so the concurrency limit is truly shared
+  const allTasks = [...audioTests, ...conversationTests].flatMap((t) => t.tasks);
+  console.log(
+    `Running ${audioTests.length + conversationTests.length} tests (${allTasks.length} attempts) in parallel (concurrency: ${concurrencyLimit})...`,
+  );
 
-  const allResults = await runWithConcurrency(allTasks, concurrencyLimit);
+  await runWithConcurrency(allTasks, concurrencyLimit, signal);
+  if (signal?.aborted) throw cancelledError();
 
-  const audioResults = allResults
-    .filter((r): r is Extract<TaggedResult, { type: "audio" }> => r.type === "audio")
-    .map((r) => r.result);
-  const conversationResults = allResults
-    .filter((r): r is Extract<TaggedResult, { type: "conversation" }> => r.type === "conversation")
-    .map((r) => r.result);
+  const audioResults = audioTests.map((t) => t.result());
+  const conversationResults = conversationTests.map((t) => t.result());
 
   const audioPassed = audioResults.filter((r) => r.status === "pass").length;
   const audioFailed = audioResults.filter((r) => r.status === "fail").length;
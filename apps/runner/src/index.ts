@@ -9,9 +9,10 @@ import type {
   PlatformConfig,
 } from "@voiceci/shared";
 import type { AudioChannelConfig } from "@voiceci/adapters";
-import { executeTests } from "./executor.js";
+import { executeTests, type FixtureOptions } from "./executor.js";
 import { reportResults, reportTestProgress, reportRunEvent } from "./reporter.js";
 import { waitForHealth } from "./health-check.js";
+import { createRecordingSink } from "./recording.js";
 
 const WORK_DIR = "/work";
 
@@ -64,10 +65,22 @@ async function main() {
     platformConfig = JSON.parse(platformConfigJson) as PlatformConfig;
   }
 
-  // For remote agents (SIP/WebRTC), skip local agent startup
+  // Offline regression: record fixtures from the live agent, or replay them without one
+  let fixtures: FixtureOptions | undefined;
+  if (process.env["REPLAY_FIXTURES_DIR"]) {
+    fixtures = { mode: "replay", dir: process.env["REPLAY_FIXTURES_DIR"] };
+  } else if (process.env["RECORD_FIXTURES_DIR"]) {
+    fixtures = { mode: "record", dir: process.env["RECORD_FIXTURES_DIR"] };
+  }
+
+  // For remote agents (SIP/WebRTC) and fixture replay, skip local agent startup
   const isRemoteAgent =
+    fixtures?.mode === "replay" ||
     adapterType === "sip" ||
+    adapterType === "sip-direct" ||
+    adapterType === "twilio" ||
     adapterType === "webrtc" ||
+    adapterType === "openai-realtime" ||
     adapterType === "vapi" ||
     adapterType === "retell" ||
     adapterType === "elevenlabs" ||
@@ -117,6 +130,13 @@ async function main() {
     platform: platformConfig,
   };
 
+  // The worker stops the machine with SIGTERM when the run is cancelled
+  const cancel = new AbortController();
+  process.once("SIGTERM", () => {
+    console.log("Received SIGTERM — cancelling run");
+    cancel.abort();
+  });
+
   try {
     const totalTests =
       (testSpec.audio_tests?.length ?? 0) + (testSpec.conversation_tests?.length ?? 0);
@@ -126,6 +146,9 @@ async function main() {
       testSpec,
       channelConfig,
       audioTestThresholds,
+      signal: cancel.signal,
+      recordings: createRecordingSink(runId),
+      fixtures,
       onTestStart: (info) => {
         void reportRunEvent({
           run_id: runId,
@@ -8,7 +8,7 @@
 
 import type { LoadPattern, LoadTestResult, LoadTestTimepoint } from "@voiceci/shared";
 import { createAudioChannel, type AudioChannelConfig } from "@voiceci/adapters";
-import { synthesize } from "@voiceci/voice";
+import { synthesize, ttsConfigFromVoice } from "@voiceci/voice";
 import { collectUntilEndOfTurn } from "./audio-tests/helpers.js";
 
 export interface LoadTestOpts {
@@ -133,7 +133,7 @@ export async function runLoadTest(opts: LoadTestOpts): Promise<LoadTestResult> {
 
   // Pre-synthesize caller audio ONCE
   console.log("Pre-synthesizing caller audio...");
-  const preRecordedAudio = await synthesize(callerPrompt);
+  const preRecordedAudio = await synthesize(callerPrompt, ttsConfigFromVoice(channelConfig.voice));
   console.log(`Caller audio ready: ${Math.round(preRecordedAudio.length / 2 / 24000 * 1000)}ms`);
 
   const startTime = Date.now();
@@ -1,13 +1,57 @@
 /**
  * Transcript-level metrics — pure functions, no external deps.
+ *
+ * Filler words and reprompts are matched per language: each agent turn is
+ * read in the language the caller was speaking (ConversationTurn.language,
+ * English when unset). Languages without a word list get no filler rate.
  */
 
 import type { ConversationTurn, TranscriptMetrics } from "@voiceci/shared";
 
-const FILLER_WORDS = new Set([
-  "um", "uh", "erm", "er", "ah", "like", "hmm", "hm",
-  "you know", "i mean", "sort of", "kind of",
-]);
+const FILLER_WORDS: Record<string, Set<string>> = {
+  en: new Set([
+    "um", "uh", "erm", "er", "ah", "like", "hmm", "hm",
+    "you know", "i mean", "sort of", "kind of",
+  ]),
+  es: new Set([
+    "eh", "em", "este", "pues", "bueno", "mmm",
+    "o sea", "sabes", "digamos", "a ver",
+  ]),
+  fr: new Set([
+    "euh", "ben", "bah", "hein", "genre", "bref",
+    "en fait", "tu vois", "du coup", "disons",
+  ]),
+};
+
+const REPROMPT_PATTERNS: Record<string, RegExp[]> = {
+  en: [
+    /could you (please )?(repeat|say that again|rephrase)/i,
+    /i didn'?t (quite )?(catch|understand|get) that/i,
+    /can you (please )?(repeat|say that again)/i,
+    /sorry,? (what|could you)/i,
+    /one more time/i,
+    /pardon/i,
+  ],
+  es: [
+    /(puede|podría|podrías|puedes) (usted )?(repetir|repetirlo|decirlo otra vez)/i,
+    /no (le |te )?(entendí|escuché|he entendido)/i,
+    /c[oó]mo (dice|dijo)\s*\?/i,
+    /otra vez,? por favor/i,
+    /perd[oó]n,? ¿?(qu[eé]|c[oó]mo)/i,
+  ],
+  fr: [
+    /(pouvez|pourriez|peux|pourrais)[- ](vous|tu) (le )?(répéter|reformuler)/i,
+    /je n'?ai pas (bien )?(compris|entendu|saisi)/i,
+    /pardon,? (quoi|comment|vous dites)/i,
+    /une nouvelle fois/i,
+    /encore une fois/i,
+  ],
+};
+
+/** "fr-CA" → "fr"; unset means English */
+function baseLanguage(language: string | undefined): string {
+  return (language ?? "en").split("-")[0]!.toLowerCase();
+}
 
 /**
  * Word Error Rate via word-level Levenshtein distance.
@@ -79,22 +123,27 @@ export function computeRepetitionScore(agentTexts: string[]): number {
 }
 
 /**
- * Count filler words per 100 words in agent responses.
+ * Count filler words per 100 words in agent responses. Undefined for a
+ * language with no filler list.
  */
-export function computeFillerWordRate(agentTexts: string[]): number {
-  const allText = agentTexts.join(" ").toLowerCase();
-  const words = tokenize(allText);
+export function computeFillerWordRate(agentTexts: string[], language?: string): number | undefined {
+  const fillers = FILLER_WORDS[baseLanguage(language)];
+  if (!fillers) return undefined;
+  const words = tokenize(agentTexts.join(" "));
   if (words.length === 0) return 0;
+  return (countFillers(words, fillers) / words.length) * 100;
+}
 
+function countFillers(words: string[], fillers: Set<string>): number {
   let fillerCount = 0;
 
   // Single-word fillers
   for (const word of words) {
-    if (FILLER_WORDS.has(word)) fillerCount++;
+    if (fillers.has(word)) fillerCount++;
   }
 
   // Multi-word fillers
-  for (const filler of FILLER_WORDS) {
+  for (const filler of fillers) {
     if (!filler.includes(" ")) continue;
     const pattern = filler.split(" ");
     for (let i = 0; i <= words.length - pattern.length; i++) {
@@ -102,7 +151,7 @@ export function computeFillerWordRate(agentTexts: string[]): number {
     }
   }
 
-  return (fillerCount / words.length) * 100;
+  return fillerCount;
 }
 
 /**
@@ -130,15 +179,8 @@ export function computeWordsPerMinute(
 /**
  * Count how many times the agent asks the caller to repeat or rephrase.
  */
-export function computeRepromptCount(agentTexts: string[]): number {
-  const patterns = [
-    /could you (please )?(repeat|say that again|rephrase)/i,
-    /i didn'?t (quite )?(catch|understand|get) that/i,
-    /can you (please )?(repeat|say that again)/i,
-    /sorry,? (what|could you)/i,
-    /one more time/i,
-    /pardon/i,
-  ];
+export function computeRepromptCount(agentTexts: string[], language?: string): number {
+  const patterns = REPROMPT_PATTERNS[baseLanguage(language)] ?? [];
 
   let count = 0;
   for (const text of agentTexts) {
@@ -158,6 +200,31 @@ export function computeRepromptCount(agentTexts: string[]): number {
 export function computeTranscriptMetrics(turns: ConversationTurn[]): TranscriptMetrics {
   const agentTurns = turns.filter((t) => t.role === "agent");
   const agentTexts = agentTurns.map((t) => t.text);
+
+  // Agent turns grouped by the language the caller was speaking
+  const byLanguage = new Map<string, string[]>();
+  let language = "en";
+  for (const turn of turns) {
+    if (turn.role === "caller") {
+      language = baseLanguage(turn.language);
+    } else {
+      byLanguage.set(language, [...(byLanguage.get(language) ?? []), turn.text]);
+    }
+  }
+  let repromptCount = 0;
+  // Filler rate over the turns in languages that have a filler list
+  let fillerCount = 0;
+  let fillerWords = 0;
+  let fillerRated = byLanguage.size === 0;
+  for (const [lang, texts] of byLanguage) {
+    repromptCount += computeRepromptCount(texts, lang);
+    const fillers = FILLER_WORDS[lang];
+    if (!fillers) continue;
+    const words = tokenize(texts.join(" "));
+    fillerCount += countFillers(words, fillers);
+    fillerWords += words.length;
+    fillerRated = true;
+  }
   const totalAgentAudioMs = agentTurns.reduce((sum, t) => sum + (t.audio_duration_ms ?? 0), 0);
 
   // WER: average across consecutive caller→agent pairs
@@ -173,8 +240,8 @@ export function computeTranscriptMetrics(turns: ConversationTurn[]): TranscriptM
   return {
     wer: werPairs > 0 ? totalWer / werPairs : undefined,
     repetition_score: computeRepetitionScore(agentTexts),
-    reprompt_count: computeRepromptCount(agentTexts),
-    filler_word_rate: computeFillerWordRate(agentTexts),
+    reprompt_count: repromptCount,
+    filler_word_rate: fillerRated ? (fillerWords > 0 ? (fillerCount / fillerWords) * 100 : 0) : undefined,
     words_per_minute: totalAgentAudioMs > 0 ? computeWordsPerMinute(agentTexts, totalAgentAudioMs) : undefined,
     vocabulary_diversity: computeVocabularyDiversity(agentTexts),
   };
@@ -183,7 +250,7 @@ export function computeTranscriptMetrics(turns: ConversationTurn[]): TranscriptM
 function tokenize(text: string): string[] {
   return text
     .toLowerCase()
-    .replace(/[^\w\s]/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
     .split(/\s+/)
     .filter((w) => w.length > 0);
 }
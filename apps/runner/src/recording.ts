@@ -0,0 +1,109 @@
+/**
+ * Call recordings — every test attempt is captured as a stereo WAV (caller
+ * left, agent right) and uploaded to artifact storage.
+ *
+ * RecordingAudioChannel wraps the adapter's channel and taps both
+ * directions; the executor hands the finished WAV to a RecordingSink, which
+ * uploads it and returns a RecordingRef stored on the test result. The API
+ * turns those refs into `recording` artifacts when results come back.
+ */
+
+import type { ObservedToolCall, RecordingRef } from "@voiceci/shared";
+import { BaseAudioChannel, type AudioChannel } from "@voiceci/adapters";
+import { createStorageClient } from "@voiceci/artifacts";
+import { StereoRecorder, generateDtmf } from "@voiceci/voice";
+
+export interface RecordingSink {
+  /** Upload a WAV under `name` (unique within the run) and describe where it went. */
+  save(name: string, wav: Buffer, durationMs: number): Promise<RecordingRef>;
+}
+
+/** Taps every chunk sent to or received from the wrapped channel. */
+export class RecordingAudioChannel extends BaseAudioChannel {
+  readonly recorder = new StereoRecorder();
+  readonly getCallData?: () => Promise<ObservedToolCall[]>;
+
+  constructor(private readonly inner: AudioChannel) {
+    super();
+    inner.on("audio", (chunk) => {
+      this.recorder.push("agent", chunk);
+      this.emit("audio", chunk);
+    });
+    inner.on("dtmf", (digit) => this.emit("dtmf", digit));
+    inner.on("agent_state", (state) => this.emit("agent_state", state));
+    inner.on("transcription", (segment) => this.emit("transcription", segment));
+    inner.on("error", (err) => this.emit("error", err));
+    inner.on("disconnected", () => this.emit("disconnected"));
+    if (inner.getCallData) {
+      this.getCallData = () => inner.getCallData!();
+    }
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  sendAudio(pcm: Buffer): void {
+    this.recorder.push("caller", pcm);
+    this.inner.sendAudio(pcm);
+  }
+
+  sendDtmf(digits: string): Promise<void> {
+    // Out-of-band digits leave no audio of their own — record them as tones
+    this.recorder.push("caller", generateDtmf(digits));
+    return this.inner.sendDtmf(digits);
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  get connected(): boolean {
+    return this.inner.connected;
+  }
+}
+
+/**
+ * Upload and attach the recording to `result`. A failed upload is logged and
+ * otherwise ignored — a missing recording shouldn't fail the test.
+ */
+export async function attachRecording<T extends { recording?: RecordingRef }>(
+  result: T,
+  channel: RecordingAudioChannel,
+  sink: RecordingSink,
+  name: string,
+): Promise<T> {
+  if (!channel.recorder.hasAudio()) return result;
+  try {
+    const recording = await sink.save(name, channel.recorder.toWav(), channel.recorder.getDurationMs());
+    return { ...result, recording };
+  } catch (err) {
+    console.warn(`    Recording upload failed for ${name}: ${err instanceof Error ? err.message : err}`);
+    return result;
+  }
+}
+
+/** Object-key-safe version of a test name. */
+export function recordingName(...parts: string[]): string {
+  return parts
+    .map((p) => p.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60))
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * S3-backed sink writing to recordings/<run_id>/<name>.wav. Returns undefined
+ * when storage isn't configured (local runs), which disables recording.
+ */
+export function createRecordingSink(runId: string): RecordingSink | undefined {
+  if (!process.env["S3_ENDPOINT"]) return undefined;
+  const storage = createStorageClient();
+
+  return {
+    async save(name, wav, durationMs) {
+      const key = `recordings/${runId}/${name}.wav`;
+      await storage.upload(key, wav, "audio/wav");
+      return { key, content_type: "audio/wav", byte_size: wav.length, duration_ms: durationMs };
+    },
+  };
+}
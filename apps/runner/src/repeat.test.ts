@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AudioTestResult, ConversationTestResult } from "@voiceci/shared";
+import { combineAudioAttempts, combineConversationAttempts } from "./repeat.js";
+
+type AudioAttempt = NonNullable<AudioTestResult["attempts"]>[number];
+type ConversationAttempt = NonNullable<ConversationTestResult["attempts"]>[number];
+
+function audio(statuses: string): AudioAttempt[] {
+  return [...statuses].map((s, i) => ({
+    test_name: "ttfb",
+    status: s === "p" ? "pass" : "fail",
+    metrics: { attempt: i },
+    duration_ms: 100,
+  }));
+}
+
+function conversation(status: "pass" | "fail", evals: Array<[string, boolean | null]>): ConversationAttempt {
+  return {
+    name: "reschedule",
+    caller_prompt: "caller",
+    status,
+    transcript: [],
+    eval_results: evals.map(([question, passed]) => ({
+      question,
+      relevant: passed !== null,
+      passed: passed ?? false,
+      reasoning: "",
+    })),
+    duration_ms: 1000,
+    metrics: { turns: 1, mean_ttfb_ms: 500, total_duration_ms: 1000 },
+  };
+}
+
+test("the pass rate threshold compares attempt counts, not float ratios", () => {
+  // 0.1 * 7 is 0.7000000000000001, just above 7 / 10
+  assert.equal(combineAudioAttempts(audio("pppppppfff"), 0.1 * 7).status, "pass");
+  assert.equal(combineAudioAttempts(audio("ppppppffff"), 0.1 * 7).status, "fail");
+  // 0.1 * 3 is 0.30000000000000004: one pass in three is enough
+  assert.equal(combineAudioAttempts(audio("pff"), 0.1 * 3).status, "pass");
+  assert.equal(combineAudioAttempts(audio("fff"), 0.1 * 3).status, "fail");
+  // Default requires every attempt
+  assert.equal(combineAudioAttempts(audio("ppp")).status, "pass");
+  assert.equal(combineAudioAttempts(audio("ppf")).status, "fail");
+  assert.equal(combineAudioAttempts(audio("fff"), 0).status, "pass");
+});
+
+test("flakiness is 0 when attempts agree and 1 when they split evenly", () => {
+  const flakiness = (statuses: string) => combineAudioAttempts(audio(statuses)).repeat!.flakiness;
+  assert.equal(flakiness("pppp"), 0);
+  assert.equal(flakiness("ffff"), 0);
+  assert.equal(flakiness("ppff"), 1);
+  assert.equal(flakiness("pppf"), 0.5);
+
+  const repeat = combineAudioAttempts(audio("pfpf"), 0.5).repeat!;
+  assert.deepEqual(
+    { attempts: repeat.attempts, passed: repeat.passed, pass_rate: repeat.pass_rate, failed_attempts: repeat.failed_attempts },
+    { attempts: 4, passed: 2, pass_rate: 0.5, failed_attempts: [1, 3] },
+  );
+});
+
+test("the combined result mirrors the first failing attempt, else the first", () => {
+  const failing = combineAudioAttempts(audio("ppfpf"), 0.5);
+  assert.equal(failing.metrics["attempt"], 2);
+  assert.equal(failing.status, "pass");
+  assert.equal(failing.duration_ms, 500);
+  assert.equal(failing.attempts!.length, 5);
+
+  assert.equal(combineAudioAttempts(audio("ppp")).metrics["attempt"], 0);
+});
+
+test("eval variance counts only attempts where the question was relevant", () => {
+  const result = combineConversationAttempts(
+    [
+      conversation("pass", [["Confirms the time?", true], ["Offers a reminder?", null]]),
+      conversation("fail", [["Confirms the time?", false], ["Offers a reminder?", true]]),
+      conversation("pass", [["Confirms the time?", true], ["Offers a reminder?", true]]),
+    ],
+    0.6,
+  );
+
+  assert.equal(result.status, "pass");
+  assert.equal(result.eval_results[0]!.passed, false, "representative attempt is the failing one");
+  assert.deepEqual(result.repeat!.eval_variance, [
+    { question: "Confirms the time?", relevant_attempts: 3, pass_rate: 0.667, variance: 0.222 },
+    { question: "Offers a reminder?", relevant_attempts: 2, pass_rate: 1, variance: 0 },
+  ]);
+});
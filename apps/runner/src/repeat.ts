@@ -0,0 +1,110 @@
+/**
+ * Repeat-N aggregation — folds several attempts of the same test into one
+ * result with a pass rate, per-eval variance, and a flakiness score.
+ *
+ * The combined result keeps every attempt under `attempts`; its top-level
+ * fields mirror the first failing attempt (or the first attempt if all
+ * passed) so existing consumers still see a representative transcript.
+ */
+
+import type {
+  AudioTestResult,
+  ConversationTestResult,
+  EvalResult,
+  EvalVariance,
+  RepeatSummary,
+} from "@voiceci/shared";
+
+type AudioAttempt = NonNullable<AudioTestResult["attempts"]>[number];
+type ConversationAttempt = NonNullable<ConversationTestResult["attempts"]>[number];
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** 0 when every attempt agrees, rising to 1 when attempts split evenly. */
+function flakiness(passRate: number): number {
+  return round(1 - Math.abs(2 * passRate - 1));
+}
+
+function summarize(
+  statuses: Array<"pass" | "fail">,
+  minPassRate: number,
+): RepeatSummary {
+  const passed = statuses.filter((s) => s === "pass").length;
+  const passRate = statuses.length > 0 ? passed / statuses.length : 0;
+  return {
+    attempts: statuses.length,
+    passed,
+    pass_rate: round(passRate),
+    min_pass_rate: minPassRate,
+    flakiness: flakiness(passRate),
+    failed_attempts: statuses.flatMap((s, i) => (s === "fail" ? [i] : [])),
+  };
+}
+
+/**
+ * Whether enough attempts passed. Compares counts rather than the float
+ * ratio, so e.g. 0.7 of 10 attempts needs 7 passes, not 7.000000000000001.
+ */
+function meetsPassRate(repeat: RepeatSummary): boolean {
+  return repeat.passed >= Math.ceil(repeat.min_pass_rate * repeat.attempts - 1e-9);
+}
+
+/** Per-question pass rate and variance over the attempts where it was relevant. */
+function evalVariance(attempts: EvalResult[][]): EvalVariance[] {
+  const byQuestion = new Map<string, boolean[]>();
+  for (const results of attempts) {
+    for (const r of results) {
+      const outcomes = byQuestion.get(r.question) ?? [];
+      if (r.relevant) outcomes.push(r.passed);
+      byQuestion.set(r.question, outcomes);
+    }
+  }
+
+  return [...byQuestion].map(([question, outcomes]) => {
+    const passRate =
+      outcomes.length > 0 ? outcomes.filter(Boolean).length / outcomes.length : 0;
+    return {
+      question,
+      relevant_attempts: outcomes.length,
+      pass_rate: round(passRate),
+      variance: round(passRate * (1 - passRate)),
+    };
+  });
+}
+
+function representative<T extends { status: "pass" | "fail" }>(attempts: T[]): T {
+  return attempts.find((a) => a.status === "fail") ?? attempts[0]!;
+}
+
+export function combineAudioAttempts(
+  attempts: AudioAttempt[],
+  minPassRate: number = 1,
+): AudioTestResult {
+  const repeat = summarize(attempts.map((a) => a.status), minPassRate);
+  return {
+    ...representative(attempts),
+    status: meetsPassRate(repeat) ? "pass" : "fail",
+    duration_ms: attempts.reduce((sum, a) => sum + a.duration_ms, 0),
+    repeat,
+    attempts,
+  };
+}
+
+export function combineConversationAttempts(
+  attempts: ConversationAttempt[],
+  minPassRate: number = 1,
+): ConversationTestResult {
+  const repeat = summarize(attempts.map((a) => a.status), minPassRate);
+  repeat.eval_variance = evalVariance(
+    attempts.map((a) => [...a.eval_results, ...(a.tool_call_eval_results ?? [])]),
+  );
+  return {
+    ...representative(attempts),
+    status: meetsPassRate(repeat) ? "pass" : "fail",
+    duration_ms: attempts.reduce((sum, a) => sum + a.duration_ms, 0),
+    repeat,
+    attempts,
+  };
+}
@@ -61,11 +61,16 @@ export async function createMachine(config: MachineConfig): Promise<string> {
 export async function waitForMachine(
   appName: string,
   machineId: string,
-  timeoutMs: number = 300_000
+  timeoutMs: number = 300_000,
+  signal?: AbortSignal
 ): Promise<"stopped" | "destroyed"> {
   const deadline = Date.now() + timeoutMs;
 
   while (Date.now() < deadline) {
+    if (signal?.aborted) {
+      throw new Error(`Stopped waiting for machine ${machineId}: run cancelled`);
+    }
+
     const response = await fetch(
       `${FLY_API_BASE}/apps/${appName}/machines/${machineId}`,
       { headers: getHeaders() }
@@ -81,12 +86,36 @@ export async function waitForMachine(
       return machine.state as "stopped" | "destroyed";
     }
 
-    await new Promise((resolve) => setTimeout(resolve, 5_000));
+    await sleep(5_000, signal);
   }
 
   throw new Error(`Machine ${machineId} timed out after ${timeoutMs}ms`);
 }
 
+/**
+ * Ask a machine to stop gracefully: sends `signal` to the init process and
+ * waits up to `timeoutS` seconds before Fly kills it.
+ */
+export async function stopMachine(
+  appName: string,
+  machineId: string,
+  signal: string = "SIGTERM",
+  timeoutS: number = 10
+): Promise<void> {
+  const response = await fetch(
+    `${FLY_API_BASE}/apps/${appName}/machines/${machineId}/stop`,
+    {
+      method: "POST",
+      headers: getHeaders(),
+      body: JSON.stringify({ signal, timeout: `${timeoutS}s` }),
+    }
+  );
+
+  if (!response.ok && response.status !== 404) {
+    console.warn(`Failed to stop machine ${machineId}: ${response.status}`);
+  }
+}
+
 export async function destroyMachine(
   appName: string,
   machineId: string
@@ -103,3 +132,16 @@ export async function destroyMachine(
     console.warn(`Failed to destroy machine ${machineId}: ${response.status}`);
   }
 }
+
+/** setTimeout that resolves early when `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
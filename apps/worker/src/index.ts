@@ -1,7 +1,7 @@
 import { Worker } from "bullmq";
 import IORedis from "ioredis";
 import type { PlatformConfig } from "@voiceci/shared";
-import { executeRun } from "./jobs/run-executor.js";
+import { executeRun, cancelRun } from "./jobs/run-executor.js";
 
 const redisUrl = process.env["REDIS_URL"] ?? "redis://localhost:6379";
 const connection = new IORedis(redisUrl, { maxRetriesPerRequest: null });
@@ -75,11 +75,15 @@ async function start() {
   }
   console.log(`Discovered ${existingQueues.length} existing queue(s)`);
 
-  // Subscribe to pub/sub for new queues created at runtime
+  // Subscribe to pub/sub for new queues created at runtime and run cancellations
   const sub = connection.duplicate();
-  await sub.subscribe("voiceci:new-queue");
-  sub.on("message", (_channel, queueName) => {
-    createWorkerForQueue(queueName);
+  await sub.subscribe("voiceci:new-queue", "voiceci:run-cancel");
+  sub.on("message", (channel, message) => {
+    if (channel === "voiceci:run-cancel") {
+      cancelRun(message);
+    } else {
+      createWorkerForQueue(message);
+    }
   });
 
   console.log(`VoiceCI Worker started (per-user concurrency: ${perUserConcurrency}), listening for queues...`);
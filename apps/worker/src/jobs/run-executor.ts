@@ -1,7 +1,7 @@
-import { eq } from "drizzle-orm";
+import { eq, and } from "drizzle-orm";
 import { createDb, schema, type Database } from "@voiceci/db";
 import { createStorageClient } from "@voiceci/artifacts";
-import { DEFAULT_TIMEOUT_MS, RUNNER_CALLBACK_HEADER } from "@voiceci/shared";
+import { DEFAULT_TIMEOUT_MS, RUNNER_CALLBACK_HEADER, PROVIDER_KEY_ENV_NAMES } from "@voiceci/shared";
 import type {
   TestSpec,
   AudioTestThresholds,
@@ -11,7 +11,8 @@ import type {
 } from "@voiceci/shared";
 import type { AudioChannelConfig } from "@voiceci/adapters";
 import { executeTests } from "@voiceci/runner/executor";
-import { createMachine, waitForMachine, destroyMachine } from "../fly-machines.js";
+import { createRecordingSink } from "@voiceci/runner/recording";
+import { createMachine, waitForMachine, stopMachine, destroyMachine } from "../fly-machines.js";
 
 // ---------------------------------------------------------------------------
 // Event emission — writes to DB and notifies API for SSE/MCP broadcast
@@ -65,6 +66,40 @@ interface RunJob {
   platform?: PlatformConfig | null;
 }
 
+// ---------------------------------------------------------------------------
+// Cancellation — the API publishes run IDs on voiceci:run-cancel; the worker
+// index forwards them here. The run row is already marked cancelled by then.
+// ---------------------------------------------------------------------------
+
+const activeRuns = new Map<string, AbortController>();
+
+/** Abort an in-flight run on this worker. Returns false if it isn't running here. */
+export function cancelRun(runId: string): boolean {
+  const controller = activeRuns.get(runId);
+  if (!controller) return false;
+  console.log(`Cancelling run ${runId}`);
+  controller.abort();
+  return true;
+}
+
+/** The only worker env vars a config may have forwarded: provider credentials */
+const FORWARDABLE_ENV = new Set<string>(PROVIDER_KEY_ENV_NAMES);
+
+/**
+ * Env var names a config points at (voice.tts.api_key_env,
+ * telephony.auth_token_env, platform.api_key_env, ...), so the credentials
+ * it picked reach the runner machine along with the default ones. Names
+ * outside the provider-credential allowlist are dropped.
+ */
+function referencedEnvNames(config: unknown): string[] {
+  if (!config || typeof config !== "object") return [];
+  return Object.entries(config).flatMap(([key, value]) =>
+    key.endsWith("_env") && typeof value === "string"
+      ? FORWARDABLE_ENV.has(value) ? [value] : []
+      : referencedEnvNames(value)
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Image resolution: check for prebaked dep image, spawn builder if needed
 // ---------------------------------------------------------------------------
@@ -235,7 +270,7 @@ async function waitForDepImage(
 // Direct execution for already-deployed agents (SIP, WebRTC, agent_url)
 // ---------------------------------------------------------------------------
 
-async function executeRemoteRun(db: Database, job: RunJob): Promise<void> {
+async function executeRemoteRun(db: Database, job: RunJob, signal: AbortSignal): Promise<void> {
   const apiUrl = process.env["API_URL"] ?? "https://voiceci-api.fly.dev";
   const callbackSecret = process.env["RUNNER_CALLBACK_SECRET"] ?? "";
   const callbackUrl = `${apiUrl}/internal/runner-callback`;
@@ -267,6 +302,8 @@ async function executeRemoteRun(db: Database, job: RunJob): Promise<void> {
       testSpec,
       channelConfig,
       audioTestThresholds,
+      signal,
+      recordings: createRecordingSink(job.run_id),
     });
 
     // POST results to callback (stores in DB + triggers SSE push)
@@ -291,6 +328,12 @@ async function executeRemoteRun(db: Database, job: RunJob): Promise<void> {
 
     console.log(`Remote run ${job.run_id} completed: ${status}`);
   } catch (err) {
+    if (signal.aborted) {
+      console.log(`Remote run ${job.run_id} cancelled`);
+      await emitEvent(db, job.run_id, "cancelled", "Run cancelled — all calls hung up");
+      return;
+    }
+
     const errorMessage = err instanceof Error ? err.message : "Unknown error";
     console.error(`Remote run ${job.run_id} failed:`, errorMessage);
 
@@ -317,11 +360,28 @@ const db = createDb(process.env["DATABASE_URL"]!);
 
 export async function executeRun(job: RunJob): Promise<void> {
 
-  await db
+  // Only claim queued runs — a run cancelled while waiting in the queue is skipped
+  const [claimed] = await db
     .update(schema.runs)
     .set({ status: "running", started_at: new Date() })
-    .where(eq(schema.runs.id, job.run_id));
+    .where(and(eq(schema.runs.id, job.run_id), eq(schema.runs.status, "queued")))
+    .returning({ id: schema.runs.id });
 
+  if (!claimed) {
+    console.log(`Run ${job.run_id} is no longer queued, skipping`);
+    return;
+  }
+
+  const controller = new AbortController();
+  activeRuns.set(job.run_id, controller);
+  try {
+    await executeClaimedRun(job, controller.signal);
+  } finally {
+    activeRuns.delete(job.run_id);
+  }
+}
+
+async function executeClaimedRun(job: RunJob, signal: AbortSignal): Promise<void> {
   await emitEvent(db, job.run_id, "run_started", "Run started");
 
   // Already-deployed agents: run tests directly in worker process
@@ -333,11 +393,14 @@ export async function executeRun(job: RunJob): Promise<void> {
   const isRemote =
     isPlatformAdapter ||
     job.adapter === "sip" ||
+    job.adapter === "sip-direct" ||
+    job.adapter === "twilio" ||
     job.adapter === "webrtc" ||
+    job.adapter === "openai-realtime" ||
     !!job.agent_url;
   if (isRemote) {
     await emitEvent(db, job.run_id, "connecting", `Connecting to remote agent (${job.adapter ?? "ws-voice"})...`);
-    return executeRemoteRun(db, job);
+    return executeRemoteRun(db, job, signal);
   }
 
   // Bundled agents: provision a Fly Machine
@@ -388,9 +451,18 @@ export async function executeRun(job: RunJob): Promise<void> {
     const voiceEnv: Record<string, string> = {};
     const voiceKeys = [
       "ELEVENLABS_API_KEY",
+      "OPENAI_API_KEY",
+      "AZURE_SPEECH_KEY",
+      "AZURE_SPEECH_REGION",
+      "GOOGLE_TTS_API_KEY",
       "DEEPGRAM_API_KEY",
+      "ASSEMBLYAI_API_KEY",
       "PLIVO_AUTH_ID",
       "PLIVO_AUTH_TOKEN",
+      "TWILIO_ACCOUNT_SID",
+      "TWILIO_AUTH_TOKEN",
+      "SIP_USERNAME",
+      "SIP_PASSWORD",
       "LIVEKIT_URL",
       "LIVEKIT_API_KEY",
       "LIVEKIT_API_SECRET",
@@ -398,6 +470,8 @@ export async function executeRun(job: RunJob): Promise<void> {
       "RETELL_API_KEY",
       "BLAND_API_KEY",
       "RUNNER_PUBLIC_HOST",
+      ...referencedEnvNames(job.voice_config),
+      ...referencedEnvNames(job.platform),
     ];
     for (const key of voiceKeys) {
       if (process.env[key]) {
@@ -456,10 +530,11 @@ export async function executeRun(job: RunJob): Promise<void> {
     if (job.bundle_hash) machineEnv["BUNDLE_HASH"] = job.bundle_hash;
     if (bundleDownloadUrl) machineEnv["BUNDLE_DOWNLOAD_URL"] = bundleDownloadUrl;
 
-    // Dynamic machine sizing based on total test count
+    // Dynamic machine sizing based on total attempt count (tests × repeat)
+    const spec = job.test_spec as TestSpec | undefined;
     const testCount =
-      (Array.isArray(job.test_spec?.audio_tests) ? (job.test_spec.audio_tests as unknown[]).length : 0) +
-      (Array.isArray(job.test_spec?.conversation_tests) ? (job.test_spec.conversation_tests as unknown[]).length : 0);
+      (spec?.audio_tests?.length ?? 0) * (spec?.audio_repeat ?? 1) +
+      (spec?.conversation_tests ?? []).reduce((sum, t) => sum + (t.repeat ?? 1), 0);
 
     let cpuKind = "shared";
     let cpus = 1;
@@ -475,6 +550,8 @@ export async function executeRun(job: RunJob): Promise<void> {
       memoryMb = 2048;
     }
 
+    if (signal.aborted) throw new Error("Run cancelled");
+
     await emitEvent(db, job.run_id, "provisioning", "Provisioning runner machine...");
     machineId = await createMachine({
       appName,
@@ -493,10 +570,22 @@ export async function executeRun(job: RunJob): Promise<void> {
       10
     );
 
-    await waitForMachine(appName, machineId, timeoutMs);
+    await waitForMachine(appName, machineId, timeoutMs, signal);
     await emitEvent(db, job.run_id, "machine_complete", "Runner machine finished");
     console.log(`Machine ${machineId} finished for run ${job.run_id}`);
   } catch (err) {
+    if (signal.aborted) {
+      console.log(`Run ${job.run_id} cancelled`);
+      if (machineId) {
+        // SIGTERM lets the runner hang up its calls before the machine goes away
+        await stopMachine(appName, machineId, "SIGTERM", 10).catch(() => {});
+        await waitForMachine(appName, machineId, 15_000).catch(() => {});
+        await destroyMachine(appName, machineId).catch(() => {});
+      }
+      await emitEvent(db, job.run_id, "cancelled", "Run cancelled — runner machine destroyed");
+      return;
+    }
+
     const errorMessage =
       err instanceof Error ? err.message : "Unknown error";
     console.error(`Run ${job.run_id} failed:`, errorMessage);
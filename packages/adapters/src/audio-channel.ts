@@ -7,13 +7,46 @@
  *
  * All audio is 16-bit signed PCM, 24kHz, mono unless otherwise noted
  * in the adapter (transport-specific resampling happens internally).
+ *
+ * DTMF: telephony adapters send digits out-of-band (RFC 2833 events, or the
+ * provider's API); everything else falls back to in-band tones. Digits the
+ * agent sends out-of-band arrive as "dtmf" events.
+ *
+ * Agent frameworks that report on themselves (LiveKit Agents) also surface
+ * "agent_state" changes and "transcription" segments; other adapters never
+ * emit them.
+ *
+ * Lifecycle every adapter follows (checked by the conformance kit in
+ * ./conformance against mock platforms):
+ *   - connect() resolves once audio flows. If it fails it rejects (no "error"
+ *     event) and leaves nothing behind: not connected, no borrowed numbers.
+ *   - sendAudio() throws while not connected.
+ *   - "disconnected" fires once, when the far end hangs up — never for our
+ *     own disconnect().
+ *   - disconnect() is idempotent and safe before or after a failed connect.
+ *   - getCallData() resolves (never rejects) once disconnected.
  */
 
 import { EventEmitter } from "node:events";
-import type { ObservedToolCall } from "@voiceci/shared";
+import type { AgentState, ObservedToolCall } from "@voiceci/shared";
+import { generateDtmf } from "@voiceci/voice";
+
+/** A transcript segment reported by the agent itself. */
+export interface TranscriptionSegment {
+  id: string;
+  /** "agent": its own speech. "caller": what it heard us say. */
+  role: "agent" | "caller";
+  text: string;
+  /** Interim segments may be followed by a final one with the same id */
+  final: boolean;
+}
 
 export interface AudioChannelEvents {
   audio: (chunk: Buffer) => void;
+  /** One digit the agent sent out-of-band */
+  dtmf: (digit: string) => void;
+  agent_state: (state: AgentState) => void;
+  transcription: (segment: TranscriptionSegment) => void;
   error: (err: Error) => void;
   disconnected: () => void;
 }
@@ -22,6 +55,8 @@ export interface AudioChannel {
   connect(): Promise<void>;
   /** Send raw PCM audio to the agent (16-bit 24kHz mono) */
   sendAudio(pcm: Buffer): void;
+  /** Send DTMF digits (0-9, *, #, A-D; "," pauses 500ms) */
+  sendDtmf(digits: string): Promise<void>;
   disconnect(): Promise<void>;
   readonly connected: boolean;
 
@@ -39,4 +74,9 @@ export abstract class BaseAudioChannel extends EventEmitter implements AudioChan
   abstract sendAudio(pcm: Buffer): void;
   abstract disconnect(): Promise<void>;
   abstract get connected(): boolean;
+
+  /** In-band tones — adapters with an out-of-band DTMF path override this. */
+  async sendDtmf(digits: string): Promise<void> {
+    this.sendAudio(generateDtmf(digits));
+  }
 }
@@ -6,8 +6,8 @@
  *
  * Flow:
  *   1. connect()  — fetches agent config from GET /v1/inbound/{phone},
- *      sets up Plivo inbound, then asks Bland to call us via POST /v1/calls
- *      → call_id known immediately
+ *      sets up Plivo inbound, asks Bland to call us via POST /v1/calls
+ *      (call_id known immediately), then waits for the call's media stream
  *   2. sendAudio() / on("audio") — bidirectional PCM 24kHz over SIP
  *   3. disconnect() — hangs up the SIP call
  *   4. getCallData() — fetches tool calls from GET /v1/calls/{call_id}
@@ -21,8 +21,12 @@ export interface BlandAudioChannelConfig {
   apiKey: string;
   phoneNumber: string;
   sip: SipAudioChannelConfig;
+  /** REST base (default https://api.bland.ai) — pointed at a mock by the conformance kit */
+  apiBaseUrl?: string;
 }
 
+const BLAND_API = "https://api.bland.ai";
+
 interface BlandTranscriptEntry {
   id: string;
   created_at: string;
@@ -73,43 +77,21 @@ export class BlandAudioChannel extends BaseAudioChannel {
     // Fetch agent config from Bland's inbound number
     const agentConfig = await this.fetchInboundConfig();
 
-    // Start SIP in inbound mode — Plivo app created, number configured, waiting
-    this.sipChannel = new SipAudioChannel({ ...this.config.sip, mode: "inbound" });
-
-    this.sipChannel.on("audio", (chunk) => this.emit("audio", chunk));
-    this.sipChannel.on("error", (err) => this.emit("error", err));
-    this.sipChannel.on("disconnected", () => this.emit("disconnected"));
-
-    await this.sipChannel.connect();
-
-    // Ask Bland to call our Plivo number — call_id returned immediately
-    const callBody: Record<string, unknown> = {
-      phone_number: this.config.sip.fromNumber,
-    };
-
-    // Use pathway_id if available, otherwise fall back to task (prompt)
-    if (agentConfig.pathway_id) {
-      callBody.pathway_id = agentConfig.pathway_id;
-    } else if (agentConfig.prompt) {
-      callBody.task = agentConfig.prompt;
-    }
-
-    const res = await fetch("https://api.bland.ai/v1/calls", {
-      method: "POST",
-      headers: {
-        authorization: this.config.apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(callBody),
+    // SIP in inbound mode — once our Plivo number points at us, Bland dials it
+    const sipChannel = new SipAudioChannel({
+      ...this.config.sip,
+      mode: "inbound",
+      inbound: { ...this.config.sip.inbound, dial: () => this.sendCall(agentConfig) },
     });
 
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`Bland send-call failed (${res.status}): ${errorText}`);
-    }
+    sipChannel.on("audio", (chunk) => this.emit("audio", chunk));
+    sipChannel.on("dtmf", (digit) => this.emit("dtmf", digit));
+    sipChannel.on("error", (err) => this.emit("error", err));
+    sipChannel.on("disconnected", () => this.emit("disconnected"));
 
-    const data = (await res.json()) as BlandSendCallResponse;
-    this.callId = data.call_id;
+    // Cleans up after itself if the call never arrives
+    await sipChannel.connect();
+    this.sipChannel = sipChannel;
   }
 
   sendAudio(pcm: Buffer): void {
@@ -119,6 +101,13 @@ export class BlandAudioChannel extends BaseAudioChannel {
     this.sipChannel.sendAudio(pcm);
   }
 
+  async sendDtmf(digits: string): Promise<void> {
+    if (!this.sipChannel) {
+      throw new Error("Bland channel not connected");
+    }
+    await this.sipChannel.sendDtmf(digits);
+  }
+
   async disconnect(): Promise<void> {
     if (this.sipChannel) {
       await this.sipChannel.disconnect();
@@ -132,7 +121,7 @@ export class BlandAudioChannel extends BaseAudioChannel {
     // Wait for Bland to process the call data
     await sleep(3000);
 
-    const res = await fetch(`https://api.bland.ai/v1/calls/${this.callId}`, {
+    const res = await fetch(`${this.config.apiBaseUrl ?? BLAND_API}/v1/calls/${this.callId}`, {
       headers: { authorization: this.config.apiKey },
     });
 
@@ -142,9 +131,40 @@ export class BlandAudioChannel extends BaseAudioChannel {
     return this.parseToolCalls(data);
   }
 
+  /** Ask Bland to call our Plivo number — call_id returned immediately */
+  private async sendCall(agentConfig: BlandInboundConfig): Promise<void> {
+    const callBody: Record<string, unknown> = {
+      phone_number: this.config.sip.fromNumber,
+    };
+
+    // Use pathway_id if available, otherwise fall back to task (prompt)
+    if (agentConfig.pathway_id) {
+      callBody.pathway_id = agentConfig.pathway_id;
+    } else if (agentConfig.prompt) {
+      callBody.task = agentConfig.prompt;
+    }
+
+    const res = await fetch(`${this.config.apiBaseUrl ?? BLAND_API}/v1/calls`, {
+      method: "POST",
+      headers: {
+        authorization: this.config.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(callBody),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`Bland send-call failed (${res.status}): ${errorText}`);
+    }
+
+    const data = (await res.json()) as BlandSendCallResponse;
+    this.callId = data.call_id;
+  }
+
   private async fetchInboundConfig(): Promise<BlandInboundConfig> {
     const res = await fetch(
-      `https://api.bland.ai/v1/inbound/${encodeURIComponent(this.config.phoneNumber)}`,
+      `${this.config.apiBaseUrl ?? BLAND_API}/v1/inbound/${encodeURIComponent(this.config.phoneNumber)}`,
       { headers: { authorization: this.config.apiKey } },
     );
 
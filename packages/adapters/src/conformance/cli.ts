@@ -0,0 +1,42 @@
+/**
+ * Run the conformance suite against every adapter, or the ones named:
+ *
+ *   pnpm --filter @voiceci/adapters conformance [adapter...]
+ *
+ * Exits non-zero if any check fails.
+ */
+
+import { runConformanceSuite } from "./suite.js";
+import { CONFORMANCE_TARGETS } from "./targets.js";
+
+async function main(): Promise<void> {
+  const names = process.argv.slice(2);
+  const unknown = names.filter((name) => !CONFORMANCE_TARGETS.some((t) => t.adapter === name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown adapter: ${unknown.join(", ")} (known: ${CONFORMANCE_TARGETS.map((t) => t.adapter).join(", ")})`
+    );
+  }
+
+  const targets = names.length > 0
+    ? CONFORMANCE_TARGETS.filter((t) => names.includes(t.adapter))
+    : CONFORMANCE_TARGETS;
+
+  let failed = 0;
+  for (const target of targets) {
+    const report = await runConformanceSuite(target);
+    console.log(`${report.passed ? "PASS" : "FAIL"} ${report.adapter} (${(report.duration_ms / 1000).toFixed(1)}s)`);
+    for (const check of report.checks) {
+      console.log(`  ${check.passed ? "✓" : "✗"} ${check.name}${check.detail ? ` — ${check.detail}` : ""}`);
+    }
+    if (!report.passed) failed++;
+  }
+
+  console.log(`\n${targets.length - failed}/${targets.length} adapters conform`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("Conformance run failed:", err);
+  process.exit(1);
+});
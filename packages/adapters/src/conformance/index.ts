@@ -0,0 +1,24 @@
+/**
+ * Adapter conformance kit — mock platforms plus the suite that checks an
+ * AudioChannel against them. Run it with the `conformance` script, or
+ * import it to check an adapter that lives outside this package.
+ */
+
+export {
+  runConformanceSuite,
+  type ConformanceTarget,
+  type ConformanceCheck,
+  type ConformanceReport,
+} from "./suite.js";
+export { CONFORMANCE_TARGETS } from "./targets.js";
+export {
+  MOCK_TOOL_CALL,
+  startMockServer,
+  localUrl,
+  type MockPlatform,
+  type MockServer,
+} from "./mock-server.js";
+export { MockWsVoiceAgent, MockOpenAIRealtime } from "./mock-websocket-agents.js";
+export { MockVapi, MockElevenLabs, MockRetell, MockBland } from "./mock-hosted-platforms.js";
+export { MockPlivo, MockTwilio } from "./mock-telephony.js";
+export { MockSipServer } from "./mock-sip-server.js";
@@ -0,0 +1,259 @@
+/**
+ * Mocks for hosted agent platforms: Vapi and ElevenLabs (their own
+ * WebSocket transports), Retell and Bland (they dial a Plivo number, so
+ * each drives a MockPlivo for the audio). All of them serve the call's tool
+ * calls from their REST API in the platform's own shape.
+ */
+
+import type { WebSocket } from "ws";
+import { closeSocket, MOCK_TOOL_CALL, sendJson, startMockServer, unauthorized, type MockPlatform, type MockServer } from "./mock-server.js";
+import { MockPlivo } from "./mock-telephony.js";
+
+/** Vapi: POST /call returns a websocketCallUrl carrying binary PCM 16kHz. */
+export class MockVapi implements MockPlatform {
+  reject = false;
+  private server: MockServer | null = null;
+  private socket: WebSocket | null = null;
+  private callCount = 0;
+
+  get baseUrl(): string {
+    return this.server!.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    this.server = await startMockServer((req, res) => {
+      const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+      if (this.reject) {
+        unauthorized(res);
+      } else if (path === "/call" && req.method === "POST") {
+        const id = `vapi-call-${++this.callCount}`;
+        sendJson(res, 201, { id, transport: { websocketCallUrl: `${this.server!.wsUrl}/call/${id}/transport` } });
+      } else if (path.startsWith("/call/") && req.method === "GET") {
+        sendJson(res, 200, {
+          id: path.slice("/call/".length),
+          status: "ended",
+          artifact: {
+            messages: [
+              {
+                role: "tool_calls",
+                secondsFromStart: 1.5,
+                toolCalls: [{ id: "tc_1", function: { name: MOCK_TOOL_CALL.name, arguments: JSON.stringify(MOCK_TOOL_CALL.arguments) } }],
+              },
+              {
+                role: "tool_call_result",
+                secondsFromStart: 1.62,
+                results: [{ toolCallId: "tc_1", result: JSON.stringify(MOCK_TOOL_CALL.result) }],
+              },
+            ],
+          },
+        });
+      } else {
+        sendJson(res, 404, { message: "not found" });
+      }
+    });
+
+    this.server.wss.on("connection", (ws: WebSocket) => {
+      this.socket = ws;
+      ws.on("message", (data, isBinary) => {
+        if (isBinary) ws.send(data, { binary: true });
+      });
+    });
+  }
+
+  hangup(): void {
+    closeSocket(this.socket);
+  }
+
+  async close(): Promise<void> {
+    await this.server?.close();
+  }
+}
+
+/**
+ * ElevenLabs Conversational AI: initiation handshake, audio_event frames
+ * (base64 PCM 16kHz), and a ping the client must answer.
+ */
+export class MockElevenLabs implements MockPlatform {
+  reject = false;
+  private server: MockServer | null = null;
+  private socket: WebSocket | null = null;
+  private conversationCount = 0;
+
+  get baseUrl(): string {
+    return this.server!.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    this.server = await startMockServer(
+      (req, res) => {
+        const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+        const match = /^\/v1\/convai\/conversations\/([^/]+)$/.exec(path);
+        if (this.reject) {
+          unauthorized(res);
+        } else if (match && req.method === "GET") {
+          sendJson(res, 200, {
+            conversation_id: match[1],
+            status: "done",
+            transcript: [
+              {
+                role: "agent",
+                time_in_call_secs: 2,
+                tool_calls: [{ name: MOCK_TOOL_CALL.name, params: MOCK_TOOL_CALL.arguments, tool_call_id: "tc_1" }],
+              },
+              {
+                role: "agent",
+                time_in_call_secs: 2,
+                tool_results: [{ tool_call_id: "tc_1", result: MOCK_TOOL_CALL.result }],
+              },
+            ],
+          });
+        } else {
+          sendJson(res, 404, { detail: "not found" });
+        }
+      },
+      () => this.reject,
+    );
+
+    this.server.wss.on("connection", (ws: WebSocket) => {
+      this.socket = ws;
+      let eventId = 0;
+      const send = (msg: Record<string, unknown>) => ws.send(JSON.stringify(msg));
+
+      ws.on("message", (data) => {
+        let msg: { type?: string; user_audio_chunk?: string };
+        try {
+          msg = JSON.parse(data.toString()) as typeof msg;
+        } catch {
+          return;
+        }
+
+        if (msg.type === "conversation_initiation_client_data") {
+          send({
+            type: "conversation_initiation_metadata",
+            conversation_initiation_metadata_event: {
+              conversation_id: `conv-${++this.conversationCount}`,
+              agent_output_audio_format: "pcm_16000",
+              user_input_audio_format: "pcm_16000",
+            },
+          });
+          send({ type: "ping", ping_event: { event_id: ++eventId, ping_ms: 0 } });
+        } else if (msg.user_audio_chunk) {
+          send({ type: "audio", audio_event: { audio_base_64: msg.user_audio_chunk, event_id: ++eventId } });
+        }
+      });
+    });
+  }
+
+  hangup(): void {
+    closeSocket(this.socket);
+  }
+
+  async close(): Promise<void> {
+    await this.server?.close();
+  }
+}
+
+/** Retell: create-phone-call makes the agent dial our Plivo number. */
+export class MockRetell implements MockPlatform {
+  reject = false;
+  readonly plivo = new MockPlivo();
+  private server: MockServer | null = null;
+  private callCount = 0;
+
+  get baseUrl(): string {
+    return this.server!.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    await this.plivo.start();
+    this.server = await startMockServer((req, res, body) => {
+      const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+      if (this.reject) {
+        unauthorized(res);
+      } else if (path === "/v2/create-phone-call" && req.method === "POST") {
+        const { to_number } = JSON.parse(body) as { to_number: string };
+        const callId = `retell-call-${++this.callCount}`;
+        sendJson(res, 201, { call_id: callId, call_status: "registered" });
+        void this.plivo.dialInbound(to_number).catch(() => {});
+      } else if (path.startsWith("/v2/get-call/")) {
+        sendJson(res, 200, {
+          call_id: path.slice("/v2/get-call/".length),
+          call_status: "ended",
+          transcript_with_tool_calls: [
+            { role: "agent", content: "Let me check that order." },
+            {
+              role: "tool_call_invocation",
+              tool_call_id: "tc_1",
+              name: MOCK_TOOL_CALL.name,
+              arguments: JSON.stringify(MOCK_TOOL_CALL.arguments),
+            },
+            { role: "tool_call_result", tool_call_id: "tc_1", content: JSON.stringify(MOCK_TOOL_CALL.result), successful: true },
+          ],
+        });
+      } else {
+        sendJson(res, 404, { error_message: "not found" });
+      }
+    });
+  }
+
+  hangup(): void {
+    this.plivo.hangup();
+  }
+
+  async close(): Promise<void> {
+    await this.server?.close();
+    await this.plivo.close();
+  }
+}
+
+/** Bland: the inbound number's config is fetched, then POST /v1/calls makes the agent dial. */
+export class MockBland implements MockPlatform {
+  reject = false;
+  readonly plivo = new MockPlivo();
+  private server: MockServer | null = null;
+  private callCount = 0;
+
+  get baseUrl(): string {
+    return this.server!.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    await this.plivo.start();
+    this.server = await startMockServer((req, res, body) => {
+      const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+      if (this.reject) {
+        unauthorized(res);
+      } else if (path.startsWith("/v1/inbound/") && req.method === "GET") {
+        sendJson(res, 200, { prompt: "You are a helpful order-status agent." });
+      } else if (path === "/v1/calls" && req.method === "POST") {
+        const { phone_number } = JSON.parse(body) as { phone_number: string };
+        sendJson(res, 200, { status: "success", call_id: `bland-call-${++this.callCount}` });
+        void this.plivo.dialInbound(phone_number).catch(() => {});
+      } else if (path.startsWith("/v1/calls/") && req.method === "GET") {
+        sendJson(res, 200, {
+          call_id: path.slice("/v1/calls/".length),
+          status: "completed",
+          transcripts: [
+            {
+              id: "t_1",
+              created_at: new Date().toISOString(),
+              user: "agent-action",
+              text: JSON.stringify(MOCK_TOOL_CALL),
+            },
+          ],
+        });
+      } else {
+        sendJson(res, 404, { message: "not found" });
+      }
+    });
+  }
+
+  hangup(): void {
+    this.plivo.hangup();
+  }
+
+  async close(): Promise<void> {
+    await this.server?.close();
+    await this.plivo.close();
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Building blocks for the conformance kit's mock platforms: an HTTP server
+ * with an attached WebSocket server on a random local port, JSON helpers,
+ * and the canned agent behavior every mock plays (echo the caller's audio,
+ * report one tool call).
+ */
+
+import http from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocketServer, type WebSocket } from "ws";
+
+/** The tool call every mock agent makes, and every adapter must surface. */
+export const MOCK_TOOL_CALL = {
+  name: "lookup_order",
+  arguments: { order_id: "1234" },
+  result: { status: "shipped" },
+} as const;
+
+/** A fake platform for one adapter: serves its protocol and plays an echo agent. */
+export interface MockPlatform {
+  /** Refuse calls the way the platform would on bad credentials */
+  reject: boolean;
+  /** End the active call from the agent's side */
+  hangup(): void;
+  close(): Promise<void>;
+}
+
+export type MockRequestHandler = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body: string,
+) => void | Promise<void>;
+
+export interface MockServer {
+  /** http://127.0.0.1:<port> */
+  baseUrl: string;
+  /** ws://127.0.0.1:<port> */
+  wsUrl: string;
+  wss: WebSocketServer;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP + WebSocket server. Upgrades are refused with 401 while
+ * `refuseUpgrade()` returns true.
+ */
+export async function startMockServer(
+  handler: MockRequestHandler,
+  refuseUpgrade: () => boolean = () => false,
+): Promise<MockServer> {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      Promise.resolve(handler(req, res, body)).catch((err: Error) => {
+        if (!res.headersSent) sendJson(res, 500, { error: err.message });
+      });
+    });
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (req, socket: Duplex, head) => {
+    if (refuseUpgrade()) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n");
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    wsUrl: `ws://127.0.0.1:${port}`,
+    wss,
+    close: async () => {
+      for (const client of wss.clients) client.terminate();
+      wss.close();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function unauthorized(res: http.ServerResponse): void {
+  sendJson(res, 401, { error: "invalid credentials" });
+}
+
+/**
+ * Adapters advertise https:// and wss:// URLs for their public host; in the
+ * kit there is no TLS-terminating tunnel in front of them, so the mocks
+ * call the plain-text equivalents.
+ */
+export function localUrl(url: string): string {
+  return url.replace(/^https:/, "http:").replace(/^wss:/, "ws:");
+}
+
+/** Close a platform-side socket if it's still open. */
+export function closeSocket(ws: WebSocket | null): void {
+  if (ws && ws.readyState === ws.OPEN) ws.close();
+}
@@ -0,0 +1,176 @@
+/**
+ * Mock SIP user agent for the sip-direct adapter: answers INVITEs with a
+ * PCMU + telephone-event SDP answer, echoes every RTP packet back to the
+ * caller, and can hang up with a BYE of its own. With credentials it
+ * challenges each INVITE with an MD5 digest, as an authenticating trunk does.
+ */
+
+import { createHash } from "node:crypto";
+import dgram from "node:dgram";
+import {
+  header,
+  newBranch,
+  parseSipMessage,
+  randomToken,
+  serializeSipMessage,
+  tagOf,
+  uriOf,
+  type SipMessage,
+} from "../sip-message.js";
+import type { MockPlatform } from "./mock-server.js";
+
+interface MockDialog {
+  invite: SipMessage;
+  /** Where the caller's signaling came from */
+  peer: dgram.RemoteInfo;
+  localTag: string;
+}
+
+const REALM = "voiceci-mock";
+
+export class MockSipServer implements MockPlatform {
+  reject = false;
+  private sip: dgram.Socket | null = null;
+  private rtp: dgram.Socket | null = null;
+  private dialog: MockDialog | null = null;
+  private rtpPeer: { address: string; port: number } | null = null;
+  private nonce = randomToken();
+
+  constructor(private credentials?: { username: string; password: string }) {}
+
+  get uri(): string {
+    return `sip:agent@127.0.0.1:${this.sip!.address().port}`;
+  }
+
+  async start(): Promise<void> {
+    this.sip = await bind();
+    this.rtp = await bind();
+    this.sip.on("message", (data, rinfo) => this.handleSip(data.toString(), rinfo));
+    this.rtp.on("message", (packet) => {
+      if (this.rtpPeer) this.rtp?.send(packet, this.rtpPeer.port, this.rtpPeer.address);
+    });
+  }
+
+  hangup(): void {
+    if (!this.dialog || !this.sip) return;
+    const { invite, peer, localTag } = this.dialog;
+    this.dialog = null;
+    this.rtpPeer = null;
+
+    const raw = serializeSipMessage(`BYE ${uriOf(header(invite, "contact") ?? "")} SIP/2.0`, [
+      ["Via", `SIP/2.0/UDP 127.0.0.1:${this.sip.address().port};branch=${newBranch()}`],
+      ["Max-Forwards", "70"],
+      ["From", `${header(invite, "to")};tag=${localTag}`],
+      ["To", header(invite, "from") ?? ""],
+      ["Call-ID", header(invite, "call-id") ?? ""],
+      ["CSeq", "1 BYE"],
+    ]);
+    this.sip.send(raw, peer.port, peer.address);
+  }
+
+  async close(): Promise<void> {
+    this.sip?.close();
+    this.rtp?.close();
+    this.sip = null;
+    this.rtp = null;
+  }
+
+  private handleSip(raw: string, rinfo: dgram.RemoteInfo): void {
+    const msg = parseSipMessage(raw);
+    // Responses are to our own BYE — nothing to do
+    if (!msg || msg.status !== undefined) return;
+
+    switch (msg.method) {
+      case "INVITE": {
+        if (this.reject) {
+          this.respond(msg, rinfo, 403, "Forbidden", randomToken(4));
+          return;
+        }
+        if (this.credentials && !this.authorized(msg)) {
+          this.respond(msg, rinfo, 401, "Unauthorized", randomToken(4), [
+            ["WWW-Authenticate", `Digest realm="${REALM}", nonce="${this.nonce}", algorithm=MD5`],
+          ]);
+          return;
+        }
+        // Retransmission of the INVITE we're already in a dialog for
+        const localTag = this.dialog?.invite && header(this.dialog.invite, "call-id") === header(msg, "call-id")
+          ? this.dialog.localTag
+          : randomToken(4);
+        this.dialog = { invite: msg, peer: rinfo, localTag };
+        this.rtpPeer = {
+          address: /c=IN IP4 (\S+)/.exec(msg.body)?.[1] ?? rinfo.address,
+          port: Number(/m=audio (\d+)/.exec(msg.body)?.[1] ?? 0),
+        };
+
+        const rtpPort = this.rtp!.address().port;
+        const sdp = [
+          "v=0",
+          "o=- 1 1 IN IP4 127.0.0.1",
+          "s=-",
+          "c=IN IP4 127.0.0.1",
+          "t=0 0",
+          `m=audio ${rtpPort} RTP/AVP 0 101`,
+          "a=rtpmap:0 PCMU/8000",
+          "a=rtpmap:101 telephone-event/8000",
+          "a=fmtp:101 0-15",
+          "",
+        ].join("\r\n");
+        this.respond(msg, rinfo, 100, "Trying", localTag);
+        this.respond(msg, rinfo, 200, "OK", localTag, [
+          ["Contact", `<sip:agent@127.0.0.1:${this.sip!.address().port}>`],
+          ["Content-Type", "application/sdp"],
+        ], sdp);
+        break;
+      }
+      case "ACK":
+        break;
+      case "BYE":
+        this.respond(msg, rinfo, 200, "OK", this.dialog?.localTag ?? randomToken(4));
+        this.dialog = null;
+        this.rtpPeer = null;
+        break;
+      default:
+        this.respond(msg, rinfo, 200, "OK", this.dialog?.localTag ?? randomToken(4));
+    }
+  }
+
+  private authorized(invite: SipMessage): boolean {
+    const auth = header(invite, "authorization");
+    if (!auth) return false;
+    const param = (name: string) => new RegExp(`${name}="([^"]*)"`).exec(auth)?.[1];
+    const md5 = (s: string) => createHash("md5").update(s).digest("hex");
+    const { username, password } = this.credentials!;
+    const ha1 = md5(`${username}:${REALM}:${password}`);
+    const ha2 = md5(`INVITE:${param("uri")}`);
+    return param("username") === username && param("response") === md5(`${ha1}:${this.nonce}:${ha2}`);
+  }
+
+  private respond(
+    req: SipMessage,
+    rinfo: dgram.RemoteInfo,
+    status: number,
+    reason: string,
+    localTag: string,
+    extra: Array<[string, string]> = [],
+    body = "",
+  ): void {
+    const to = header(req, "to") ?? "";
+    const raw = serializeSipMessage(`SIP/2.0 ${status} ${reason}`, [
+      ...(req.headers.get("via") ?? []).map((v): [string, string] => ["Via", v]),
+      ["From", header(req, "from") ?? ""],
+      ["To", tagOf(to) ? to : `${to};tag=${localTag}`],
+      ["Call-ID", header(req, "call-id") ?? ""],
+      ["CSeq", header(req, "cseq") ?? ""],
+      ...extra,
+    ], body);
+    this.sip?.send(raw, rinfo.port, rinfo.address);
+  }
+}
+
+function bind(): Promise<dgram.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket("udp4");
+    socket.once("error", reject);
+    socket.bind(0, "127.0.0.1", () => resolve(socket));
+  });
+}
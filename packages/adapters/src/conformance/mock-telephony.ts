@@ -0,0 +1,203 @@
+/**
+ * Mocks for the telephony providers: Plivo (REST + Audio Streams) and
+ * Twilio (REST + Media Streams). Both "place" calls by fetching the
+ * adapter's answer document and connecting to the stream URL in it, as the
+ * real providers do, then echo the caller's audio back on the stream.
+ */
+
+import WebSocket from "ws";
+import { closeSocket, localUrl, MOCK_TOOL_CALL, sendJson, startMockServer, unauthorized, type MockPlatform, type MockServer } from "./mock-server.js";
+
+const PREVIOUS_APP_ID = "previous-app";
+
+/**
+ * Plivo: outbound calls via POST /Call/, inbound via the application
+ * assigned to a number (dialInbound, used by the Retell and Bland mocks).
+ * On outbound calls the agent also posts the tool call to the adapter's
+ * /tool-calls endpoint.
+ */
+export class MockPlivo implements MockPlatform {
+  reject = false;
+  private server: MockServer | null = null;
+  private socket: WebSocket | null = null;
+  /** app_id → answer_url */
+  private applications = new Map<string, string>();
+  /** number → app_id */
+  private numbers = new Map<string, string>();
+  private callCount = 0;
+
+  get baseUrl(): string {
+    return this.server!.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    this.server = await startMockServer((req, res, body) => {
+      const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+      const match = /^\/v1\/Account\/[^/]+\/([^/]+)\/(?:([^/]+)\/)?(?:([^/]+)\/)?$/.exec(path);
+      if (!match) {
+        sendJson(res, 404, { error: "not found" });
+        return;
+      }
+      if (this.reject) {
+        unauthorized(res);
+        return;
+      }
+
+      const [, resource, id, action] = match;
+      const payload = body ? (JSON.parse(body) as Record<string, string>) : {};
+
+      if (resource === "Call" && !id && req.method === "POST") {
+        const uuid = `call-${++this.callCount}`;
+        sendJson(res, 201, { message: "call fired", request_uuid: uuid });
+        void this.dial(payload.answer_url!, uuid, true).catch(() => {});
+      } else if (resource === "Call" && action === "DTMF") {
+        sendJson(res, 202, { message: "digits sent" });
+      } else if (resource === "Call" && req.method === "DELETE") {
+        this.hangup();
+        res.writeHead(204);
+        res.end();
+      } else if (resource === "Number" && id && req.method === "GET") {
+        const appId = this.numbers.get(id) ?? PREVIOUS_APP_ID;
+        sendJson(res, 200, { number: id, application: `/v1/Account/MOCK/Application/${appId}/` });
+      } else if (resource === "Number" && id && req.method === "POST") {
+        this.numbers.set(id, payload.app_id!);
+        sendJson(res, 202, { message: "changed" });
+      } else if (resource === "Application" && !id && req.method === "POST") {
+        const appId = `app-${this.applications.size + 1}`;
+        this.applications.set(appId, payload.answer_url!);
+        sendJson(res, 201, { message: "created", app_id: appId });
+      } else if (resource === "Application" && id && req.method === "DELETE") {
+        this.applications.delete(id);
+        res.writeHead(204);
+        res.end();
+      } else {
+        sendJson(res, 404, { error: "not found" });
+      }
+    });
+  }
+
+  /** Call `number` — whatever application it points at answers. */
+  async dialInbound(number: string): Promise<void> {
+    const answerUrl = this.applications.get(this.numbers.get(number) ?? "");
+    if (!answerUrl) throw new Error(`No application assigned to ${number}`);
+    await this.dial(answerUrl, `call-${++this.callCount}`, false);
+  }
+
+  hangup(): void {
+    closeSocket(this.socket);
+  }
+
+  async close(): Promise<void> {
+    closeSocket(this.socket);
+    await this.server?.close();
+  }
+
+  private async dial(answerUrl: string, callId: string, reportToolCall: boolean): Promise<void> {
+    const xml = await (await fetch(localUrl(answerUrl))).text();
+    const streamUrl = /<Stream[^>]*>([^<]+)<\/Stream>/.exec(xml)?.[1];
+    // Declined (<Hangup/>) — nothing to stream
+    if (!streamUrl) return;
+
+    const ws = new WebSocket(localUrl(streamUrl));
+    this.socket = ws;
+    ws.on("open", () => {
+      ws.send(JSON.stringify({ event: "start", start: { streamId: `stream-${callId}`, callId } }));
+      if (reportToolCall) {
+        void fetch(new URL("/tool-calls", localUrl(answerUrl)), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...MOCK_TOOL_CALL, successful: true, duration_ms: 120 }),
+        }).catch(() => {});
+      }
+    });
+    ws.on("message", (data) => {
+      let msg: { event?: string; media?: { payload?: string } };
+      try {
+        msg = JSON.parse(data.toString()) as { event?: string; media?: { payload?: string } };
+      } catch {
+        return;
+      }
+      if (msg.event === "playAudio" && msg.media?.payload) {
+        ws.send(JSON.stringify({ event: "media", media: { track: "inbound", payload: msg.media.payload } }));
+      }
+    });
+    ws.on("error", () => {});
+  }
+}
+
+/** Twilio: outbound calls with inline TwiML; Media Streams echo, marks acknowledged. */
+export class MockTwilio implements MockPlatform {
+  reject = false;
+  private server: MockServer | null = null;
+  private socket: WebSocket | null = null;
+  private streamSid: string | null = null;
+  private callCount = 0;
+
+  get baseUrl(): string {
+    return this.server!.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    this.server = await startMockServer((req, res, body) => {
+      const path = new URL(req.url ?? "/", this.baseUrl).pathname;
+      const match = /^\/2010-04-01\/Accounts\/[^/]+\/Calls(?:\/([^/.]+))?\.json$/.exec(path);
+      if (!match) {
+        sendJson(res, 404, { message: "not found" });
+        return;
+      }
+      if (this.reject) {
+        sendJson(res, 401, { code: 20003, message: "Authenticate" });
+        return;
+      }
+
+      const form = new URLSearchParams(body);
+      if (!match[1]) {
+        const callSid = `CA${String(++this.callCount).padStart(32, "0")}`;
+        sendJson(res, 201, { sid: callSid, status: "queued" });
+        const streamUrl = /<Stream url="([^"]+)"/.exec(form.get("Twiml") ?? "")?.[1];
+        if (streamUrl) this.connectStream(streamUrl, callSid);
+      } else {
+        if (form.get("Status") === "completed") this.hangup();
+        sendJson(res, 200, { sid: match[1], status: form.get("Status") ?? "in-progress" });
+      }
+    });
+  }
+
+  hangup(): void {
+    if (this.socket?.readyState === WebSocket.OPEN && this.streamSid) {
+      this.socket.send(JSON.stringify({ event: "stop", streamSid: this.streamSid }));
+    }
+    closeSocket(this.socket);
+  }
+
+  async close(): Promise<void> {
+    closeSocket(this.socket);
+    await this.server?.close();
+  }
+
+  private connectStream(streamUrl: string, callSid: string): void {
+    const streamSid = `MZ${callSid.slice(2)}`;
+    const ws = new WebSocket(localUrl(streamUrl));
+    this.socket = ws;
+    this.streamSid = streamSid;
+
+    ws.on("open", () => {
+      ws.send(JSON.stringify({ event: "connected", protocol: "Call", version: "1.0.0" }));
+      ws.send(JSON.stringify({ event: "start", streamSid, start: { streamSid, callSid } }));
+    });
+    ws.on("message", (data) => {
+      let msg: { event?: string; media?: { payload?: string }; mark?: { name: string } };
+      try {
+        msg = JSON.parse(data.toString()) as typeof msg;
+      } catch {
+        return;
+      }
+      if (msg.event === "media" && msg.media?.payload) {
+        ws.send(JSON.stringify({ event: "media", streamSid, media: { track: "inbound", payload: msg.media.payload } }));
+      } else if (msg.event === "mark" && msg.mark) {
+        ws.send(JSON.stringify({ event: "mark", streamSid, mark: msg.mark }));
+      }
+    });
+    ws.on("error", () => {});
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Mocks for agents the runner talks to directly over a WebSocket:
+ * ws-voice (binary PCM + JSON tool_call frames) and the OpenAI Realtime API.
+ */
+
+import type { WebSocket } from "ws";
+import { closeSocket, MOCK_TOOL_CALL, startMockServer, type MockPlatform, type MockServer } from "./mock-server.js";
+
+/** ws-voice default protocol: echoes binary frames, reports the tool call as a text frame. */
+export class MockWsVoiceAgent implements MockPlatform {
+  reject = false;
+  private server: MockServer | null = null;
+  private socket: WebSocket | null = null;
+
+  get url(): string {
+    return this.server!.wsUrl;
+  }
+
+  async start(): Promise<void> {
+    this.server = await startMockServer(
+      (_req, res) => {
+        res.writeHead(404);
+        res.end();
+      },
+      () => this.reject,
+    );
+
+    this.server.wss.on("connection", (ws: WebSocket) => {
+      this.socket = ws;
+      ws.send(JSON.stringify({ type: "tool_call", ...MOCK_TOOL_CALL, successful: true, duration_ms: 120 }));
+      ws.on("message", (data, isBinary) => {
+        if (isBinary) ws.send(data, { binary: true });
+      });
+    });
+  }
+
+  hangup(): void {
+    closeSocket(this.socket);
+  }
+
+  async close(): Promise<void> {
+    await this.server?.close();
+  }
+}
+
+/**
+ * OpenAI Realtime: session.created → session.update → session.updated, then
+ * one function call. Appended input audio comes straight back as
+ * response.audio.delta (both sides are pcm16 24kHz).
+ */
+export class MockOpenAIRealtime implements MockPlatform {
+  reject = false;
+  private server: MockServer | null = null;
+  private socket: WebSocket | null = null;
+
+  get url(): string {
+    return `${this.server!.wsUrl}/v1/realtime?model=mock`;
+  }
+
+  async start(): Promise<void> {
+    this.server = await startMockServer(
+      (_req, res) => {
+        res.writeHead(404);
+        res.end();
+      },
+      () => this.reject,
+    );
+
+    this.server.wss.on("connection", (ws: WebSocket) => {
+      this.socket = ws;
+      const send = (event: Record<string, unknown>) => ws.send(JSON.stringify(event));
+      send({ type: "session.created", session: {} });
+
+      ws.on("message", (data) => {
+        let event: { type?: string; audio?: string };
+        try {
+          event = JSON.parse(data.toString()) as { type?: string; audio?: string };
+        } catch {
+          return;
+        }
+
+        if (event.type === "session.update") {
+          send({ type: "session.updated", session: {} });
+          send({
+            type: "response.function_call_arguments.done",
+            call_id: "call_1",
+            name: MOCK_TOOL_CALL.name,
+            arguments: JSON.stringify(MOCK_TOOL_CALL.arguments),
+          });
+          send({ type: "response.done", response: {} });
+        } else if (event.type === "input_audio_buffer.append" && event.audio) {
+          send({ type: "response.audio.delta", delta: event.audio });
+        }
+      });
+    });
+  }
+
+  hangup(): void {
+    closeSocket(this.socket);
+  }
+
+  async close(): Promise<void> {
+    await this.server?.close();
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Adapter conformance suite — runs one adapter against its mock platform
+ * and checks the lifecycle every AudioChannel promises (see
+ * audio-channel.ts). Three calls per adapter:
+ *   1. refused: sendAudio/disconnect before connect, then the platform
+ *      rejects the call — connect must reject, cleanly
+ *   2. remote hangup: a 440Hz tone is echoed back by the mock agent and
+ *      must arrive as 24kHz PCM16; the agent hangs up; tool calls are read
+ *   3. local hangup: our own disconnect() must not look like a remote one
+ */
+
+import type { AudioChannel } from "../audio-channel.js";
+import { MOCK_TOOL_CALL, type MockPlatform } from "./mock-server.js";
+
+export interface ConformanceTarget {
+  adapter: string;
+  /** Whether the adapter reports tool calls through getCallData() */
+  toolCalls: boolean;
+  /** Start the adapter's mock platform and an adapter pointed at it */
+  setup(): Promise<{ channel: AudioChannel; platform: MockPlatform }>;
+}
+
+export interface ConformanceCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface ConformanceReport {
+  adapter: string;
+  passed: boolean;
+  checks: ConformanceCheck[];
+  duration_ms: number;
+}
+
+/** Generous: telephony adapters poll for their media stream */
+const CONNECT_TIMEOUT_MS = 45_000;
+const ECHO_TIMEOUT_MS = 5000;
+const HANGUP_TIMEOUT_MS = 5000;
+/** Hosted platforms wait a few seconds for call data to settle */
+const CALL_DATA_TIMEOUT_MS = 10_000;
+
+const SAMPLE_RATE = 24000;
+const TONE_HZ = 440;
+const TONE_MS = 1000;
+/** Echoed tone must land within these of what was sent */
+const FREQUENCY_TOLERANCE = 0.05;
+const DURATION_TOLERANCE = 0.2;
+
+type RecordCheck = (name: string, passed: boolean, detail?: string) => void;
+
+export async function runConformanceSuite(target: ConformanceTarget): Promise<ConformanceReport> {
+  const startTime = performance.now();
+  const checks: ConformanceCheck[] = [];
+  const record: RecordCheck = (name, passed, detail) => {
+    checks.push({ name, passed, ...(detail && { detail }) });
+  };
+
+  const scenarios = [
+    ["refused call", refusedCall],
+    ["remote hangup", remoteHangup],
+    ["local hangup", localHangup],
+  ] as const;
+  for (const [label, scenario] of scenarios) {
+    const { channel, platform } = await target.setup();
+    try {
+      await scenario(target, channel, platform, record);
+    } catch (err) {
+      record(`${label} call completes`, false, (err as Error).message);
+    } finally {
+      await channel.disconnect().catch(() => {});
+      await platform.close();
+    }
+  }
+
+  return {
+    adapter: target.adapter,
+    passed: checks.every((c) => c.passed),
+    checks,
+    duration_ms: Math.round(performance.now() - startTime),
+  };
+}
+
+async function refusedCall(
+  _target: ConformanceTarget,
+  channel: AudioChannel,
+  platform: MockPlatform,
+  record: RecordCheck,
+): Promise<void> {
+  const errors = collectErrors(channel);
+
+  record("sendAudio throws before connect", throws(() => channel.sendAudio(tone(20))));
+  record("disconnect before connect resolves", await resolves(channel.disconnect()));
+
+  platform.reject = true;
+  const outcome = await settle(channel.connect(), CONNECT_TIMEOUT_MS);
+  record(
+    "connect rejects when the platform refuses the call",
+    outcome.status === "rejected" && outcome.error instanceof Error,
+    outcome.status === "rejected" ? outcome.error.message : outcome.status,
+  );
+  record("a refused connect leaves the channel disconnected", !channel.connected);
+  record(
+    "a refused connect reports through the rejection, not \"error\"",
+    errors.length === 0,
+    errors.map((e) => e.message).join("; ") || undefined,
+  );
+  record("disconnect after a refused connect resolves", await resolves(channel.disconnect()));
+}
+
+async function remoteHangup(
+  target: ConformanceTarget,
+  channel: AudioChannel,
+  platform: MockPlatform,
+  record: RecordCheck,
+): Promise<void> {
+  const errors = collectErrors(channel);
+  const chunks: Buffer[] = [];
+  let disconnects = 0;
+  channel.on("audio", (chunk) => chunks.push(chunk));
+  channel.on("disconnected", () => disconnects++);
+
+  const outcome = await settle(channel.connect(), CONNECT_TIMEOUT_MS);
+  record("connect resolves", outcome.status === "fulfilled", outcome.status === "rejected" ? outcome.error.message : outcome.status);
+  if (outcome.status !== "fulfilled") return;
+  record("connected is true after connect", channel.connected);
+
+  channel.sendAudio(tone(TONE_MS));
+  await waitFor(() => analyzeTone(Buffer.concat(chunks)).durationMs >= TONE_MS * (1 - DURATION_TOLERANCE), ECHO_TIMEOUT_MS);
+  // Paced transports are still delivering the tail
+  await sleep(500);
+
+  const malformed = chunks.filter((c) => !Buffer.isBuffer(c) || c.length % 2 !== 0).length;
+  record(
+    "audio chunks are Buffers of whole 16-bit samples",
+    chunks.length > 0 && malformed === 0,
+    chunks.length === 0 ? "no audio received" : malformed > 0 ? `${malformed}/${chunks.length} malformed` : undefined,
+  );
+  const { frequencyHz, durationMs } = analyzeTone(Buffer.concat(chunks));
+  record(
+    "echoed audio is 24kHz mono PCM16",
+    Math.abs(frequencyHz - TONE_HZ) <= TONE_HZ * FREQUENCY_TOLERANCE &&
+      Math.abs(durationMs - TONE_MS) <= TONE_MS * DURATION_TOLERANCE,
+    `${TONE_HZ}Hz × ${TONE_MS}ms sent, ${Math.round(frequencyHz)}Hz × ${Math.round(durationMs)}ms received`,
+  );
+
+  platform.hangup();
+  await waitFor(() => disconnects > 0, HANGUP_TIMEOUT_MS);
+  // Long enough for a duplicate to show up
+  await sleep(500);
+  record("remote hangup emits \"disconnected\" once", disconnects === 1, `${disconnects} events`);
+  record("connected is false after remote hangup", !channel.connected);
+  record("sendAudio throws after remote hangup", throws(() => channel.sendAudio(tone(20))));
+
+  const first = await resolves(channel.disconnect());
+  const second = await resolves(channel.disconnect());
+  record("disconnect is idempotent", first && second && disconnects === 1);
+
+  if (target.toolCalls) {
+    const calls = await settle(channel.getCallData?.() ?? Promise.resolve([]), CALL_DATA_TIMEOUT_MS);
+    const found = calls.status === "fulfilled"
+      ? calls.value.find((c) => c.name === MOCK_TOOL_CALL.name)
+      : undefined;
+    record(
+      "getCallData returns the call's tool calls",
+      found !== undefined && JSON.stringify(found.arguments) === JSON.stringify(MOCK_TOOL_CALL.arguments),
+      calls.status === "fulfilled" ? `${calls.value.length} tool calls` : calls.status === "rejected" ? calls.error.message : calls.status,
+    );
+  }
+
+  record("no \"error\" events during the call", errors.length === 0, errors.map((e) => e.message).join("; ") || undefined);
+}
+
+async function localHangup(
+  target: ConformanceTarget,
+  channel: AudioChannel,
+  _platform: MockPlatform,
+  record: RecordCheck,
+): Promise<void> {
+  const errors = collectErrors(channel);
+  let disconnects = 0;
+  channel.on("disconnected", () => disconnects++);
+
+  const outcome = await settle(channel.connect(), CONNECT_TIMEOUT_MS);
+  if (outcome.status !== "fulfilled") {
+    record("connect resolves (second call)", false, outcome.status === "rejected" ? outcome.error.message : outcome.status);
+    return;
+  }
+
+  await channel.disconnect();
+  await sleep(1000);
+  record("our own disconnect does not emit \"disconnected\"", disconnects === 0, `${disconnects} events`);
+  record("connected is false after disconnect", !channel.connected);
+  record("no \"error\" events on our own hangup", errors.length === 0, errors.map((e) => e.message).join("; ") || undefined);
+
+  if (target.toolCalls) {
+    const calls = await settle(channel.getCallData?.() ?? Promise.resolve([]), CALL_DATA_TIMEOUT_MS);
+    record(
+      `getCallData resolves within ${CALL_DATA_TIMEOUT_MS / 1000}s of disconnect`,
+      calls.status === "fulfilled",
+      calls.status === "rejected" ? calls.error.message : calls.status,
+    );
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+type Settled<T> =
+  | { status: "fulfilled"; value: T }
+  | { status: "rejected"; error: Error }
+  | { status: "timed out" };
+
+async function settle<T>(promise: Promise<T>, timeoutMs: number): Promise<Settled<T>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Settled<T>>((resolve) => {
+    timer = setTimeout(() => resolve({ status: "timed out" }), timeoutMs);
+  });
+  try {
+    return await Promise.race([
+      promise.then(
+        (value): Settled<T> => ({ status: "fulfilled", value }),
+        (err: unknown): Settled<T> => ({
+          status: "rejected",
+          error: err instanceof Error ? err : new Error(String(err)),
+        }),
+      ),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function resolves(promise: Promise<unknown>): Promise<boolean> {
+  return (await settle(promise, CONNECT_TIMEOUT_MS)).status === "fulfilled";
+}
+
+function throws(fn: () => void): boolean {
+  try {
+    fn();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function collectErrors(channel: AudioChannel): Error[] {
+  const errors: Error[] = [];
+  channel.on("error", (err) => errors.push(err));
+  return errors;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<void> {
+  const start = Date.now();
+  while (!condition() && Date.now() - start < timeoutMs) {
+    await sleep(100);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** A sine at TONE_HZ, PCM16 24kHz mono */
+function tone(durationMs: number): Buffer {
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(8000 * Math.sin((2 * Math.PI * TONE_HZ * i) / SAMPLE_RATE)), i * 2);
+  }
+  return pcm;
+}
+
+/** Threshold for "tone present", and the hysteresis band for counting zero crossings */
+const TONE_LEVEL = 1000;
+const CROSSING_BAND = 300;
+
+/**
+ * Read received audio as 24kHz PCM16: how long the tone lasted (first to
+ * last loud sample) and its frequency. A wrong sample rate or byte order
+ * shows up as a shifted frequency or a stretched/garbled tone.
+ */
+function analyzeTone(pcm: Buffer): { frequencyHz: number; durationMs: number } {
+  const samples = Math.floor(pcm.length / 2);
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < samples; i++) {
+    if (Math.abs(pcm.readInt16LE(i * 2)) >= TONE_LEVEL) {
+      if (first === -1) first = i;
+      last = i;
+    }
+  }
+  if (first === -1 || last === first) return { frequencyHz: 0, durationMs: 0 };
+
+  let crossings = 0;
+  let positive = pcm.readInt16LE(first * 2) > 0;
+  for (let i = first; i <= last; i++) {
+    const sample = pcm.readInt16LE(i * 2);
+    if (positive && sample < -CROSSING_BAND) {
+      positive = false;
+      crossings++;
+    } else if (!positive && sample > CROSSING_BAND) {
+      positive = true;
+      crossings++;
+    }
+  }
+
+  const seconds = (last - first) / SAMPLE_RATE;
+  return { frequencyHz: crossings / 2 / seconds, durationMs: seconds * 1000 };
+}
@@ -0,0 +1,154 @@
+/**
+ * Every adapter, paired with its mock platform. A new adapter gets an entry
+ * here (and a mock for its protocol) so it runs against the same suite.
+ *
+ * Not covered: webrtc — its transport is a LiveKit SFU, which has no
+ * lightweight local stand-in.
+ */
+
+import { BlandAudioChannel } from "../bland-audio-channel.js";
+import { ElevenLabsAudioChannel } from "../elevenlabs-audio-channel.js";
+import { OpenAIRealtimeAudioChannel } from "../openai-realtime-audio-channel.js";
+import { RetellAudioChannel } from "../retell-audio-channel.js";
+import { SipAudioChannel, type SipAudioChannelConfig } from "../sip-audio-channel.js";
+import { SipDirectAudioChannel } from "../sip-direct-audio-channel.js";
+import { TwilioAudioChannel } from "../twilio-audio-channel.js";
+import { VapiAudioChannel } from "../vapi-audio-channel.js";
+import { WsAudioChannel } from "../ws-audio-channel.js";
+import { MockBland, MockElevenLabs, MockRetell, MockVapi } from "./mock-hosted-platforms.js";
+import { MOCK_TOOL_CALL } from "./mock-server.js";
+import { MockSipServer } from "./mock-sip-server.js";
+import { MockPlivo, MockTwilio } from "./mock-telephony.js";
+import { MockOpenAIRealtime, MockWsVoiceAgent } from "./mock-websocket-agents.js";
+import type { ConformanceTarget } from "./suite.js";
+
+const AGENT_NUMBER = "+15550100";
+const OUR_NUMBER = "+15550199";
+
+function plivoConfig(plivo: MockPlivo): SipAudioChannelConfig {
+  return {
+    phoneNumber: AGENT_NUMBER,
+    fromNumber: OUR_NUMBER,
+    authId: "MAMOCK",
+    authToken: "mock",
+    publicHost: "127.0.0.1",
+    apiBaseUrl: plivo.baseUrl,
+  };
+}
+
+export const CONFORMANCE_TARGETS: ConformanceTarget[] = [
+  {
+    adapter: "ws-voice",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockWsVoiceAgent();
+      await platform.start();
+      return { platform, channel: new WsAudioChannel({ wsUrl: platform.url }) };
+    },
+  },
+  {
+    adapter: "openai-realtime",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockOpenAIRealtime();
+      await platform.start();
+      const channel = new OpenAIRealtimeAudioChannel({
+        url: platform.url,
+        toolOutputs: { [MOCK_TOOL_CALL.name]: MOCK_TOOL_CALL.result },
+      });
+      return { platform, channel };
+    },
+  },
+  {
+    adapter: "elevenlabs",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockElevenLabs();
+      await platform.start();
+      const channel = new ElevenLabsAudioChannel({ apiKey: "mock", agentId: "agent-mock", apiBaseUrl: platform.baseUrl });
+      return { platform, channel };
+    },
+  },
+  {
+    adapter: "vapi",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockVapi();
+      await platform.start();
+      const channel = new VapiAudioChannel({ apiKey: "mock", assistantId: "assistant-mock", apiBaseUrl: platform.baseUrl });
+      return { platform, channel };
+    },
+  },
+  {
+    adapter: "sip",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockPlivo();
+      await platform.start();
+      return { platform, channel: new SipAudioChannel(plivoConfig(platform)) };
+    },
+  },
+  {
+    adapter: "twilio",
+    toolCalls: false,
+    async setup() {
+      const platform = new MockTwilio();
+      await platform.start();
+      const channel = new TwilioAudioChannel({
+        phoneNumber: AGENT_NUMBER,
+        fromNumber: OUR_NUMBER,
+        accountSid: "ACMOCK",
+        authToken: "mock",
+        publicHost: "127.0.0.1",
+        apiBaseUrl: platform.baseUrl,
+      });
+      return { platform, channel };
+    },
+  },
+  {
+    adapter: "retell",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockRetell();
+      await platform.start();
+      const channel = new RetellAudioChannel({
+        apiKey: "mock",
+        agentId: "agent-mock",
+        apiBaseUrl: platform.baseUrl,
+        sip: plivoConfig(platform.plivo),
+      });
+      return { platform, channel };
+    },
+  },
+  {
+    adapter: "bland",
+    toolCalls: true,
+    async setup() {
+      const platform = new MockBland();
+      await platform.start();
+      const channel = new BlandAudioChannel({
+        apiKey: "mock",
+        phoneNumber: AGENT_NUMBER,
+        apiBaseUrl: platform.baseUrl,
+        sip: plivoConfig(platform.plivo),
+      });
+      return { platform, channel };
+    },
+  },
+  {
+    adapter: "sip-direct",
+    toolCalls: false,
+    async setup() {
+      const credentials = { username: "voiceci", password: "mock" };
+      const platform = new MockSipServer(credentials);
+      await platform.start();
+      const channel = new SipDirectAudioChannel({
+        uri: platform.uri,
+        localIp: "127.0.0.1",
+        inviteTimeoutMs: 5000,
+        ...credentials,
+      });
+      return { platform, channel };
+    },
+  },
+];
@@ -6,6 +6,7 @@
  *
  * ElevenLabs uses 16kHz PCM audio encoded as base64 in JSON messages.
  * We convert between 24kHz (our standard) and 16kHz (ElevenLabs' format).
+ * The server pings periodically and drops clients that don't pong.
  */
 
 import WebSocket from "ws";
@@ -16,19 +17,35 @@ import { BaseAudioChannel } from "./audio-channel.js";
 export interface ElevenLabsAudioChannelConfig {
   apiKey: string;
   agentId: string;
+  /** REST base (default https://api.elevenlabs.io; the WebSocket uses its wss:// form) — pointed at a mock by the conformance kit */
+  apiBaseUrl?: string;
 }
 
 interface ElevenLabsServerMessage {
   type: string;
+  conversation_initiation_metadata_event?: {
+    conversation_id?: string;
+    agent_output_audio_format?: string;
+    user_input_audio_format?: string;
+  };
+  audio_event?: {
+    audio_base_64?: string;
+    event_id?: number;
+  };
+  ping_event?: {
+    event_id: number;
+    ping_ms?: number;
+  };
+  /** Older flat shapes */
   conversation_id?: string;
   audio?: {
     chunk?: string; // base64
     sample_rate?: number;
   };
-  agent_output_audio_format?: string;
-  user_input_audio_format?: string;
 }
 
+const ELEVENLABS_API = "https://api.elevenlabs.io";
+
 interface ElevenLabsConversationMessage {
   role: string;
   message?: string;
@@ -66,7 +83,8 @@ export class ElevenLabsAudioChannel extends BaseAudioChannel {
   }
 
   async connect(): Promise<void> {
-    const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${this.config.agentId}`;
+    const wsBase = (this.config.apiBaseUrl ?? ELEVENLABS_API).replace(/^http/, "ws");
+    const wsUrl = `${wsBase}/v1/convai/conversation?agent_id=${this.config.agentId}`;
 
     return new Promise((resolve, reject) => {
       const ws = new WebSocket(wsUrl, {
@@ -74,10 +92,19 @@ export class ElevenLabsAudioChannel extends BaseAudioChannel {
           "xi-api-key": this.config.apiKey,
         },
       });
+      let ready = false;
 
-      const timeout = setTimeout(() => {
+      const fail = (err: Error) => {
+        if (ready) return;
+        ready = true;
+        clearTimeout(timeout);
+        this.ws = null;
         ws.close();
-        reject(new Error("ElevenLabs WebSocket connection timed out"));
+        reject(err);
+      };
+
+      const timeout = setTimeout(() => {
+        fail(new Error("ElevenLabs WebSocket connection timed out"));
       }, 30_000);
 
       ws.on("open", () => {
@@ -88,38 +115,46 @@ export class ElevenLabsAudioChannel extends BaseAudioChannel {
           type: "conversation_initiation_client_data",
           conversation_config_override: {},
         }));
+      });
 
-        ws.on("message", (data: WebSocket.RawData) => {
-          const text = data.toString();
-          try {
-            const msg = JSON.parse(text) as ElevenLabsServerMessage;
-            this.handleServerMessage(msg);
-
-            // Resolve once we get the conversation metadata
-            if (msg.type === "conversation_initiation_metadata" && msg.conversation_id) {
-              this.conversationId = msg.conversation_id;
-              clearTimeout(timeout);
-              resolve();
-            }
-          } catch {
-            // Ignore malformed messages
-          }
-        });
-
-        ws.on("error", (err) => {
+      ws.on("message", (data: WebSocket.RawData) => {
+        let msg: ElevenLabsServerMessage;
+        try {
+          msg = JSON.parse(data.toString()) as ElevenLabsServerMessage;
+        } catch {
+          // Ignore malformed messages
+          return;
+        }
+        this.handleServerMessage(msg);
+
+        // Resolve once we get the conversation metadata
+        const conversationId =
+          msg.conversation_initiation_metadata_event?.conversation_id ?? msg.conversation_id;
+        if (!ready && msg.type === "conversation_initiation_metadata" && conversationId) {
+          ready = true;
+          this.conversationId = conversationId;
           clearTimeout(timeout);
-          this.emit("error", err);
-        });
-
-        ws.on("close", () => {
-          this.ws = null;
-          this.emit("disconnected");
-        });
+          resolve();
+        }
       });
 
       ws.on("error", (err) => {
-        clearTimeout(timeout);
-        reject(new Error(`ElevenLabs WebSocket connection failed: ${err.message}`));
+        if (!ready) {
+          fail(new Error(`ElevenLabs WebSocket connection failed: ${err.message}`));
+          return;
+        }
+        this.emit("error", err);
+      });
+
+      ws.on("close", () => {
+        if (!ready) {
+          fail(new Error("ElevenLabs WebSocket closed before the conversation started"));
+          return;
+        }
+        // disconnect() already let go of it — our own hangup isn't a remote one
+        if (this.ws !== ws) return;
+        this.ws = null;
+        this.emit("disconnected");
       });
     });
   }
@@ -152,7 +187,7 @@ export class ElevenLabsAudioChannel extends BaseAudioChannel {
     await sleep(2000);
 
     const res = await fetch(
-      `https://api.elevenlabs.io/v1/convai/conversations/${this.conversationId}`,
+      `${this.config.apiBaseUrl ?? ELEVENLABS_API}/v1/convai/conversations/${this.conversationId}`,
       {
         headers: { "xi-api-key": this.config.apiKey },
       },
@@ -165,11 +200,15 @@ export class ElevenLabsAudioChannel extends BaseAudioChannel {
   }
 
   private handleServerMessage(msg: ElevenLabsServerMessage): void {
-    if (msg.type === "audio" && msg.audio?.chunk) {
+    if (msg.type === "audio") {
+      const chunk = msg.audio_event?.audio_base_64 ?? msg.audio?.chunk;
+      if (!chunk) return;
       // Decode base64 audio and resample 16kHz → 24kHz
-      const pcm16k = Buffer.from(msg.audio.chunk, "base64");
+      const pcm16k = Buffer.from(chunk, "base64");
       const pcm24k = resample(pcm16k, 16000, 24000);
       this.emit("audio", pcm24k);
+    } else if (msg.type === "ping" && msg.ping_event) {
+      this.ws?.send(JSON.stringify({ type: "pong", event_id: msg.ping_event.event_id }));
     }
   }
 
@@ -0,0 +1,179 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { NetworkImpairment } from "@voiceci/shared";
+import { BaseAudioChannel } from "./audio-channel.js";
+import {
+  degradeForBitrate,
+  ImpairedAudioChannel,
+  NETWORK_PROFILES,
+  resolveNetworkProfile,
+} from "./impaired-audio-channel.js";
+
+const PACKET_BYTES = 960;
+
+/** Records what reaches the agent; `receive` plays agent audio back. */
+class FakeChannel extends BaseAudioChannel {
+  sent: Buffer[] = [];
+  private open = false;
+
+  get connected(): boolean {
+    return this.open;
+  }
+  async connect(): Promise<void> {
+    this.open = true;
+  }
+  sendAudio(pcm: Buffer): void {
+    this.sent.push(pcm);
+  }
+  async disconnect(): Promise<void> {
+    this.open = false;
+  }
+  receive(pcm: Buffer): void {
+    this.emit("audio", pcm);
+  }
+}
+
+/** `count` packets, each filled with its own index so order survives the trip */
+function packets(count: number): Buffer {
+  const out = Buffer.alloc(count * PACKET_BYTES);
+  for (let i = 0; i < count; i++) out.fill(i + 1, i * PACKET_BYTES, (i + 1) * PACKET_BYTES);
+  return out;
+}
+
+/** Packet index (1-based) of each delivered packet; 0 for silence */
+const ids = (delivered: Buffer[]) => delivered.map((p) => p[0]!);
+
+async function impaired(impairment: NetworkImpairment) {
+  const inner = new FakeChannel();
+  const channel = new ImpairedAudioChannel(inner, { seed: 42, ...impairment });
+  await channel.connect();
+  return { inner, channel };
+}
+
+test("unimpaired audio is packetized and delivered in order", async () => {
+  const { inner, channel } = await impaired({});
+  // Outbound sends the trailing partial packet too
+  channel.sendAudio(Buffer.concat([packets(3), Buffer.alloc(100, 9)]));
+  assert.deepEqual(inner.sent.map((p) => p.length), [960, 960, 960, 100]);
+  assert.deepEqual(ids(inner.sent), [1, 2, 3, 9]);
+
+  // Inbound holds a partial packet until the rest arrives
+  const received: Buffer[] = [];
+  channel.on("audio", (chunk) => received.push(chunk));
+  const agent = packets(2);
+  inner.receive(agent.subarray(0, 1000));
+  assert.equal(received.length, 1);
+  inner.receive(agent.subarray(1000));
+  assert.deepEqual(ids(received), [1, 2]);
+  assert.deepEqual(Buffer.concat(received), agent);
+
+  await channel.disconnect();
+  assert.throws(() => channel.sendAudio(packets(1)), /not connected/);
+});
+
+test("loss follows the configured rate and burst length", async () => {
+  const { inner, channel } = await impaired({ loss: 0.2, loss_burst: 3 });
+  channel.sendAudio(packets(200));
+  channel.sendAudio(packets(200));
+  channel.sendAudio(packets(200));
+  channel.sendAudio(packets(200));
+  channel.sendAudio(packets(200));
+
+  const lost = ids(inner.sent).map((id) => id === 0);
+  const lossRate = lost.filter(Boolean).length / lost.length;
+  const bursts = lost.filter((l, i) => l && !lost[i - 1]).length;
+  const meanBurst = lost.filter(Boolean).length / bursts;
+  assert.ok(Math.abs(lossRate - 0.2) < 0.04, `loss rate ${lossRate}`);
+  assert.ok(Math.abs(meanBurst - 3) < 0.6, `mean burst ${meanBurst}`);
+
+  // Lost packets keep their length, so timing is preserved
+  assert.ok(inner.sent.every((p) => p.length === PACKET_BYTES));
+
+  // Same seed, same losses
+  const replay = await impaired({ loss: 0.2, loss_burst: 3 });
+  for (let i = 0; i < 5; i++) replay.channel.sendAudio(packets(200));
+  assert.deepEqual(ids(replay.inner.sent), ids(inner.sent));
+
+  const { inner: dead, channel: cut } = await impaired({ loss: 1 });
+  cut.sendAudio(packets(5));
+  assert.deepEqual(ids(dead.sent), [0, 0, 0, 0, 0]);
+});
+
+test("reordered packets arrive after their successors", async () => {
+  const { inner, channel } = await impaired({ reorder: 0.3 });
+  channel.sendAudio(packets(40));
+  await sleep(60);
+
+  const order = ids(inner.sent);
+  assert.deepEqual([...order].sort((a, b) => a - b), Array.from({ length: 40 }, (_, i) => i + 1));
+  assert.notDeepEqual(order, [...order].sort((a, b) => a - b));
+  // Packets that weren't held back still go out in order
+  const prompt = order.slice(0, order.findIndex((id, i) => i > 0 && id < order[i - 1]!));
+  assert.deepEqual(prompt, [...prompt].sort((a, b) => a - b));
+});
+
+test("duplicated packets are delivered twice", async () => {
+  const { inner, channel } = await impaired({ duplicate: 1 });
+  channel.sendAudio(packets(3));
+  await sleep(20);
+  assert.deepEqual([...ids(inner.sent)].sort(), [1, 1, 2, 2, 3, 3]);
+});
+
+test("latency delays delivery and disconnect drops packets in flight", async () => {
+  const { inner, channel } = await impaired({ latency_ms: 30 });
+  channel.sendAudio(packets(3));
+  assert.equal(inner.sent.length, 0);
+  await sleep(60);
+  assert.deepEqual(ids(inner.sent), [1, 2, 3]);
+
+  channel.sendAudio(packets(3));
+  await channel.disconnect();
+  await sleep(60);
+  assert.equal(inner.sent.length, 3);
+});
+
+test("signaling events pass through unimpaired", async () => {
+  const { inner, channel } = await impaired({ loss: 1, latency_ms: 500 });
+  const seen: unknown[] = [];
+  channel.on("dtmf", (digit) => seen.push(digit));
+  channel.on("disconnected", () => seen.push("disconnected"));
+  inner.emit("dtmf", "5");
+  inner.emit("disconnected");
+  assert.deepEqual(seen, ["5", "disconnected"]);
+  await channel.disconnect();
+});
+
+/** Error energy a codec at `bitrateKbps` adds to a 24kHz tone, relative to the tone */
+function distortion(frequency: number, bitrateKbps: number): number {
+  const pcm = Buffer.alloc(24000 * 2);
+  for (let i = 0; i < 24000; i++) pcm.writeInt16LE(Math.round(8000 * Math.sin((2 * Math.PI * frequency * i) / 24000)), i * 2);
+  const out = degradeForBitrate(pcm, bitrateKbps);
+  let error = 0;
+  let signal = 0;
+  for (let i = 0; i < pcm.length; i += 2) {
+    error += (out.readInt16LE(i) - pcm.readInt16LE(i)) ** 2;
+    signal += pcm.readInt16LE(i) ** 2;
+  }
+  return error / signal;
+}
+
+test("low bitrates band-limit and quantize the audio", () => {
+  const pcm = packets(2);
+  assert.equal(degradeForBitrate(pcm, 256), pcm);
+  assert.equal(degradeForBitrate(pcm, 24).length, pcm.length);
+
+  // Fewer mu-law bits, more quantization noise on a speech-band tone
+  assert.ok(distortion(440, 128) < distortion(440, 48));
+  assert.ok(distortion(440, 48) < distortion(440, 24));
+  assert.ok(distortion(440, 24) < 0.05);
+  // 6kHz is lost at narrowband rates but carried by wideband ones
+  assert.ok(distortion(6000, 24) > 1);
+  assert.ok(distortion(6000, 128) < 0.5);
+});
+
+test("named network profiles resolve to their settings", () => {
+  assert.equal(resolveNetworkProfile("3g"), NETWORK_PROFILES["3g"]);
+  const custom = { latency_ms: 80 };
+  assert.equal(resolveNetworkProfile(custom), custom);
+});
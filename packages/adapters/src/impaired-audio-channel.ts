@@ -0,0 +1,225 @@
+/**
+ * Network Impairment Audio Channel
+ *
+ * Wraps any AudioChannel and degrades audio in both directions the way a bad
+ * network would. Audio is cut into 20ms packets, and each packet is
+ * independently:
+ *   - lost (Gilbert burst model) — replaced with silence, as a jitter buffer
+ *     would conceal it
+ *   - delayed by latency ± jitter (packets never overtake each other unless
+ *     reordered)
+ *   - reordered behind its successor, or duplicated
+ *   - band-limited and quantized to approximate a low-bitrate codec
+ *
+ * Randomness comes from a seeded PRNG, so a run with a fixed seed sees the
+ * same losses every time.
+ */
+
+import type { NetworkImpairment, NetworkProfileName } from "@voiceci/shared";
+import { pcmToMulaw, mulawToPcm, resample } from "@voiceci/voice";
+import { BaseAudioChannel, type AudioChannel } from "./audio-channel.js";
+
+/** One-way figures for typical bad networks. */
+export const NETWORK_PROFILES: Record<NetworkProfileName, NetworkImpairment> = {
+  "3g": { latency_ms: 150, jitter_ms: 40, loss: 0.02, loss_burst: 2, reorder: 0.01, bitrate_kbps: 24 },
+  "lossy-wifi": { latency_ms: 20, jitter_ms: 30, loss: 0.05, loss_burst: 3, reorder: 0.02, duplicate: 0.01 },
+  satellite: { latency_ms: 300, jitter_ms: 20, loss: 0.01, loss_burst: 2, bitrate_kbps: 32 },
+};
+
+export function resolveNetworkProfile(
+  profile: NetworkProfileName | NetworkImpairment,
+): NetworkImpairment {
+  return typeof profile === "string" ? NETWORK_PROFILES[profile] : profile;
+}
+
+const SAMPLE_RATE = 24000;
+const PACKET_BYTES = (SAMPLE_RATE / 50) * 2; // 20ms of PCM16
+
+type Direction = "outbound" | "inbound";
+
+/** mulberry32 — small, fast, and good enough for simulation. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Approximate a codec capped at `bitrateKbps`: narrowband (8kHz) below
+ * 64kbps, wideband (16kHz) below 256kbps, then mu-law with fewer bits the
+ * lower the bitrate goes.
+ */
+export function degradeForBitrate(pcm: Buffer, bitrateKbps: number): Buffer {
+  if (bitrateKbps >= 256) return pcm;
+
+  const rate = bitrateKbps < 64 ? 8000 : 16000;
+  const bits = Math.max(4, Math.min(8, 4 + Math.floor(bitrateKbps / 16)));
+  const mulaw = pcmToMulaw(resample(pcm, SAMPLE_RATE, rate));
+
+  if (bits < 8) {
+    // Drop low mantissa bits, landing mid-step to avoid a DC bias
+    const mask = (0xff << (8 - bits)) & 0xff;
+    const half = 1 << (7 - bits);
+    for (let i = 0; i < mulaw.length; i++) {
+      mulaw[i] = (mulaw[i]! & mask) | half;
+    }
+  }
+
+  return resample(mulawToPcm(mulaw), rate, SAMPLE_RATE);
+}
+
+/** Per-direction packet scheduler state. */
+interface DirectionState {
+  /** Gilbert model: currently inside a loss burst */
+  bursting: boolean;
+  /** Earliest time the next in-order packet may be delivered */
+  lastDeliveryAt: number;
+  /** Bytes carried over until a full packet is available */
+  remainder: Buffer;
+}
+
+export class ImpairedAudioChannel extends BaseAudioChannel {
+  readonly impairment: NetworkImpairment;
+  readonly getCallData?: AudioChannel["getCallData"];
+  private inner: AudioChannel;
+  private random: () => number;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private directions: Record<Direction, DirectionState> = {
+    outbound: { bursting: false, lastDeliveryAt: 0, remainder: Buffer.alloc(0) },
+    inbound: { bursting: false, lastDeliveryAt: 0, remainder: Buffer.alloc(0) },
+  };
+
+  constructor(inner: AudioChannel, impairment: NetworkImpairment) {
+    super();
+    this.inner = inner;
+    this.impairment = impairment;
+    this.random = createRandom(impairment.seed ?? Date.now());
+
+    inner.on("audio", (chunk) => this.transmit("inbound", chunk));
+    inner.on("dtmf", (digit) => this.emit("dtmf", digit));
+    // Signaling, not media — it travels unimpaired
+    inner.on("agent_state", (state) => this.emit("agent_state", state));
+    inner.on("transcription", (segment) => this.emit("transcription", segment));
+    inner.on("error", (err) => this.emit("error", err));
+    inner.on("disconnected", () => this.emit("disconnected"));
+    if (inner.getCallData) {
+      this.getCallData = () => inner.getCallData!();
+    }
+  }
+
+  get connected(): boolean {
+    return this.inner.connected;
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  sendAudio(pcm: Buffer): void {
+    if (!this.inner.connected) {
+      throw new Error("Impaired channel not connected");
+    }
+    this.transmit("outbound", pcm);
+  }
+
+  /** Out-of-band or not, DTMF is left to the wrapped channel */
+  sendDtmf(digits: string): Promise<void> {
+    return this.inner.sendDtmf(digits);
+  }
+
+  async disconnect(): Promise<void> {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    await this.inner.disconnect();
+  }
+
+  /** Packetize a chunk and schedule each packet's (possibly impaired) delivery. */
+  private transmit(direction: Direction, chunk: Buffer): void {
+    const state = this.directions[direction];
+    let audio = Buffer.concat([state.remainder, chunk]);
+
+    // Whole packets only; a trailing partial waits for the next chunk, except
+    // on outbound where sendAudio calls are complete utterances
+    const whole = audio.length - (audio.length % PACKET_BYTES);
+    if (direction === "inbound") {
+      state.remainder = audio.subarray(whole);
+      audio = audio.subarray(0, whole);
+    }
+
+    for (let offset = 0; offset < audio.length; offset += PACKET_BYTES) {
+      this.schedulePacket(direction, audio.subarray(offset, offset + PACKET_BYTES));
+    }
+  }
+
+  private schedulePacket(direction: Direction, packet: Buffer): void {
+    const state = this.directions[direction];
+    const {
+      latency_ms = 0,
+      jitter_ms = 0,
+      reorder = 0,
+      duplicate = 0,
+      bitrate_kbps,
+    } = this.impairment;
+
+    let payload = this.isLost(state) ? Buffer.alloc(packet.length) : packet;
+    if (bitrate_kbps !== undefined) payload = degradeForBitrate(payload, bitrate_kbps);
+
+    const now = Date.now();
+    const jitter = (this.random() * 2 - 1) * jitter_ms;
+    let deliverAt = Math.max(now + latency_ms + jitter, state.lastDeliveryAt);
+
+    if (this.random() < reorder) {
+      // Held back one packet time; the next packet goes out first
+      deliverAt += 20;
+    } else {
+      state.lastDeliveryAt = deliverAt;
+    }
+
+    this.deliverAt(direction, payload, deliverAt);
+    if (this.random() < duplicate) {
+      this.deliverAt(direction, payload, deliverAt + 1);
+    }
+  }
+
+  /** Two-state Gilbert model: good (no loss) ↔ bad (all lost). */
+  private isLost(state: DirectionState): boolean {
+    const { loss = 0, loss_burst = 1 } = this.impairment;
+    if (loss <= 0) return false;
+    if (loss >= 1) return true;
+
+    const leaveBad = 1 / loss_burst;
+    const enterBad = (loss * leaveBad) / (1 - loss);
+    state.bursting = state.bursting ? this.random() >= leaveBad : this.random() < enterBad;
+    return state.bursting;
+  }
+
+  private deliverAt(direction: Direction, payload: Buffer, at: number): void {
+    const deliver = () => {
+      if (direction === "inbound") {
+        this.emit("audio", payload);
+      } else if (this.inner.connected) {
+        this.inner.sendAudio(payload);
+      }
+    };
+
+    const delay = at - Date.now();
+    if (delay <= 0) {
+      deliver();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      try {
+        deliver();
+      } catch (err) {
+        this.emit("error", err instanceof Error ? err : new Error(String(err)));
+      }
+    }, delay);
+    this.timers.add(timer);
+  }
+}
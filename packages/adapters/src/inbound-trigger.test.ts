@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { assertPublicHttpsUrl, fireInboundTrigger, isNonPublicAddress } from "./inbound-trigger.js";
+
+test("private, loopback, and link-local addresses are non-public", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:a00:1"]) {
+    assert.ok(isNonPublicAddress(address), address);
+  }
+  for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700:4700::1111"]) {
+    assert.ok(!isNonPublicAddress(address), address);
+  }
+});
+
+test("webhook URLs must be https on a public host", async () => {
+  await assert.rejects(assertPublicHttpsUrl("http://8.8.8.8/dial"), /https/);
+  await assert.rejects(assertPublicHttpsUrl("https://127.0.0.1/dial"), /public host/);
+  await assert.rejects(assertPublicHttpsUrl("https://[::1]:8443/dial"), /public host/);
+  await assert.rejects(assertPublicHttpsUrl("https://169.254.169.254/latest/meta-data"), /public host/);
+  await assert.rejects(assertPublicHttpsUrl("https://localhost/dial"), /public host/);
+  await assert.rejects(assertPublicHttpsUrl("not a url"), /invalid/);
+  await assertPublicHttpsUrl("https://8.8.8.8/dial");
+});
+
+test("the trigger refuses internal webhooks before sending anything", async () => {
+  await assert.rejects(
+    fireInboundTrigger({ type: "webhook", url: "https://10.0.0.7/dial?to={{phone_number}}" }, "+14155550100"),
+    /public host/,
+  );
+});
@@ -0,0 +1,105 @@
+/**
+ * Inbound-call trigger — tells an outbound-calling agent to dial the number
+ * VoiceCI is listening on by calling a webhook.
+ *
+ * The webhook URL comes from the test config and is fetched from inside the
+ * worker, so it must be https and resolve only to public addresses; redirects
+ * are refused rather than followed somewhere unchecked.
+ */
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { InboundCallTrigger } from "@voiceci/shared";
+
+/** Loopback, private, link-local, CGNAT, and other non-public ranges */
+const NON_PUBLIC = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, "ipv4");
+}
+// BlockList checks IPv4-mapped IPv6 (::ffff:a00:1) against the IPv4 ranges
+for (const [net, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, "ipv6");
+}
+
+/** Settings shared by the telephony channels when answering an inbound call. */
+export interface InboundAnswerOptions {
+  trigger?: InboundCallTrigger;
+  /** Used instead of `trigger` by adapters that ask the agent's platform to dial (Retell, Bland) */
+  dial?: () => Promise<void>;
+  /** How long to wait for the call to arrive (default 120s) */
+  timeoutMs?: number;
+  /** Rings (~6s each) before answering or declining */
+  rings?: number;
+  /** Reject the call as busy instead of answering */
+  decline?: boolean;
+}
+
+/** One US ring cycle: 2s on, 4s off */
+export const RING_MS = 6000;
+
+function substitute(value: string, phoneNumber: string): string {
+  return value.replace(/\{\{phone_number\}\}/g, phoneNumber);
+}
+
+function substituteDeep(value: unknown, phoneNumber: string): unknown {
+  if (typeof value === "string") return substitute(value, phoneNumber);
+  if (Array.isArray(value)) return value.map((v) => substituteDeep(v, phoneNumber));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, substituteDeep(v, phoneNumber)])
+    );
+  }
+  return value;
+}
+
+/** Whether an IP address is outside the public internet */
+export function isNonPublicAddress(address: string): boolean {
+  return NON_PUBLIC.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/** Rejects unless the URL is https and its host resolves only to public addresses */
+export async function assertPublicHttpsUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Inbound trigger webhook URL is invalid: ${url}`);
+  }
+  if (parsed.protocol !== "https:") {
+    throw new Error(`Inbound trigger webhook must use https: ${parsed.origin}`);
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new Error(`Inbound trigger webhook must point at a public host: ${parsed.hostname}`);
+  }
+}
+
+/** Fire the trigger; rejects if the URL is not public https or the webhook returns an error status. */
+export async function fireInboundTrigger(
+  trigger: InboundCallTrigger,
+  phoneNumber: string,
+): Promise<void> {
+  const url = substitute(trigger.url, encodeURIComponent(phoneNumber));
+  await assertPublicHttpsUrl(url);
+
+  const method = trigger.method ?? "POST";
+  const headers = Object.fromEntries(
+    Object.entries(trigger.headers ?? {}).map(([k, v]) => [k, substitute(v, phoneNumber)])
+  );
+  const body = substituteDeep(trigger.body ?? { phone_number: "{{phone_number}}" }, phoneNumber);
+
+  const res = await fetch(url, {
+    method,
+    headers: method === "POST" ? { "Content-Type": "application/json", ...headers } : headers,
+    body: method === "POST" ? JSON.stringify(body) : undefined,
+    redirect: "error",
+  });
+  if (!res.ok) {
+    const errorText = await res.text().catch(() => "");
+    throw new Error(`Inbound trigger webhook failed (${res.status}): ${errorText}`);
+  }
+}
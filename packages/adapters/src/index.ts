@@ -1,22 +1,45 @@
-import type { AdapterType, PlatformConfig, VoiceConfig } from "@voiceci/shared";
+import type { AdapterType, CalleeBehavior, PlatformConfig, VoiceConfig } from "@voiceci/shared";
 import type { AudioChannel } from "./audio-channel.js";
 import { WsAudioChannel } from "./ws-audio-channel.js";
 import { WebRtcAudioChannel } from "./webrtc-audio-channel.js";
 import { SipAudioChannel } from "./sip-audio-channel.js";
+import { TwilioAudioChannel } from "./twilio-audio-channel.js";
+import { SipDirectAudioChannel } from "./sip-direct-audio-channel.js";
+import { OpenAIRealtimeAudioChannel } from "./openai-realtime-audio-channel.js";
 import { VapiAudioChannel } from "./vapi-audio-channel.js";
 import { ElevenLabsAudioChannel } from "./elevenlabs-audio-channel.js";
 import { RetellAudioChannel } from "./retell-audio-channel.js";
 import { BlandAudioChannel } from "./bland-audio-channel.js";
+import { ImpairedAudioChannel, resolveNetworkProfile } from "./impaired-audio-channel.js";
+import type { InboundAnswerOptions } from "./inbound-trigger.js";
 
-export type { AudioChannel, AudioChannelEvents } from "./audio-channel.js";
+export type { AudioChannel, AudioChannelEvents, TranscriptionSegment } from "./audio-channel.js";
 export { BaseAudioChannel } from "./audio-channel.js";
 export { WsAudioChannel } from "./ws-audio-channel.js";
 export { WebRtcAudioChannel } from "./webrtc-audio-channel.js";
 export { SipAudioChannel } from "./sip-audio-channel.js";
+export { TwilioAudioChannel } from "./twilio-audio-channel.js";
+export { SipDirectAudioChannel, type SipDirectAudioChannelConfig } from "./sip-direct-audio-channel.js";
+export { OpenAIRealtimeAudioChannel, type OpenAIRealtimeAudioChannelConfig } from "./openai-realtime-audio-channel.js";
+export {
+  ReplayAudioChannel,
+  readAudioFixture,
+  writeAudioFixture,
+  type ReplayAudioChannelConfig,
+  type AudioFixture,
+  type AudioFixtureEvent,
+} from "./replay-audio-channel.js";
 export { VapiAudioChannel } from "./vapi-audio-channel.js";
 export { RetellAudioChannel } from "./retell-audio-channel.js";
 export { ElevenLabsAudioChannel } from "./elevenlabs-audio-channel.js";
 export { BlandAudioChannel } from "./bland-audio-channel.js";
+export { fireInboundTrigger, RING_MS, type InboundAnswerOptions } from "./inbound-trigger.js";
+export {
+  ImpairedAudioChannel,
+  NETWORK_PROFILES,
+  resolveNetworkProfile,
+  degradeForBitrate,
+} from "./impaired-audio-channel.js";
 
 export interface AudioChannelConfig {
   adapter: AdapterType;
@@ -24,15 +47,38 @@ export interface AudioChannelConfig {
   targetPhoneNumber?: string;
   voice?: VoiceConfig;
   platform?: PlatformConfig;
+  /** Inbound mode (sip, twilio): how this test's callee answers */
+  callee?: CalleeBehavior;
 }
 
+/**
+ * Create the adapter's channel. With voice.network_profile set, the channel
+ * is wrapped in an ImpairedAudioChannel so every test runs under it.
+ */
 export function createAudioChannel(config: AudioChannelConfig): AudioChannel {
+  const channel = createTransportChannel(config);
+  const profile = config.voice?.network_profile;
+  return profile ? new ImpairedAudioChannel(channel, resolveNetworkProfile(profile)) : channel;
+}
+
+function inboundOptions(config: AudioChannelConfig): InboundAnswerOptions {
+  const telephony = config.voice?.telephony;
+  return {
+    trigger: telephony?.trigger,
+    timeoutMs: telephony?.inbound_timeout_ms,
+    rings: config.callee?.rings,
+    decline: config.callee?.action === "decline",
+  };
+}
+
+function createTransportChannel(config: AudioChannelConfig): AudioChannel {
   const agentUrl = config.agentUrl ?? "http://localhost:3001";
 
   switch (config.adapter) {
     case "ws-voice":
       return new WsAudioChannel({
         wsUrl: agentUrl.replace(/^http/, "ws"),
+        protocol: config.voice?.ws_protocol,
       });
 
     case "webrtc": {
@@ -62,8 +108,9 @@ export function createAudioChannel(config: AudioChannelConfig): AudioChannel {
       const authToken =
         process.env[telephony?.auth_token_env ?? "PLIVO_AUTH_TOKEN"] ?? "";
       const publicHost = process.env["RUNNER_PUBLIC_HOST"] ?? "localhost";
+      const mode = telephony?.mode ?? "outbound";
 
-      if (!config.targetPhoneNumber) {
+      if (mode === "outbound" && !config.targetPhoneNumber) {
         throw new Error("SIP adapter requires targetPhoneNumber");
       }
       if (!telephony?.from_number) {
@@ -71,11 +118,84 @@ export function createAudioChannel(config: AudioChannelConfig): AudioChannel {
       }
 
       return new SipAudioChannel({
-        phoneNumber: config.targetPhoneNumber,
+        phoneNumber: config.targetPhoneNumber ?? "",
         fromNumber: telephony.from_number,
         authId,
         authToken,
         publicHost,
+        mode,
+        inbound: mode === "inbound" ? inboundOptions(config) : undefined,
+      });
+    }
+
+    case "sip-direct": {
+      const sip = config.voice?.sip;
+      if (!sip?.uri) {
+        throw new Error("sip-direct adapter requires voice.sip.uri");
+      }
+      const username = process.env[sip.username_env ?? "SIP_USERNAME"];
+      const password = process.env[sip.password_env ?? "SIP_PASSWORD"];
+
+      return new SipDirectAudioChannel({
+        uri: sip.uri,
+        username,
+        password,
+        register: sip.register,
+        registrar: sip.registrar,
+        codecs: sip.codecs,
+        localIp: sip.local_ip,
+      });
+    }
+
+    case "twilio": {
+      const telephony = config.voice?.telephony;
+      const accountSid =
+        process.env[telephony?.auth_id_env ?? "TWILIO_ACCOUNT_SID"] ?? "";
+      const authToken =
+        process.env[telephony?.auth_token_env ?? "TWILIO_AUTH_TOKEN"] ?? "";
+      const publicHost = process.env["RUNNER_PUBLIC_HOST"] ?? "localhost";
+      const mode = telephony?.mode ?? "outbound";
+
+      if (!accountSid || !authToken) {
+        throw new Error("Twilio adapter requires credentials (set TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN or voice.telephony.auth_id_env/auth_token_env)");
+      }
+      if (mode === "outbound" && !config.targetPhoneNumber) {
+        throw new Error("Twilio adapter requires targetPhoneNumber");
+      }
+      if (!telephony?.from_number) {
+        throw new Error("Twilio adapter requires voice.telephony.from_number");
+      }
+
+      return new TwilioAudioChannel({
+        phoneNumber: config.targetPhoneNumber ?? "",
+        fromNumber: telephony.from_number,
+        accountSid,
+        authToken,
+        publicHost,
+        mode,
+        inbound: mode === "inbound" ? inboundOptions(config) : undefined,
+      });
+    }
+
+    case "openai-realtime": {
+      const realtime = config.voice?.realtime;
+      const baseUrl = realtime?.url ?? "wss://api.openai.com/v1/realtime";
+      const model = realtime?.model ?? "gpt-4o-realtime-preview";
+      const url = new URL(baseUrl);
+      // The server's key only goes to OpenAI; a custom URL gets the key supplied with it, if any
+      const official = url.protocol === "wss:" && url.hostname === "api.openai.com";
+      const apiKey = official ? process.env[realtime?.api_key_env ?? "OPENAI_API_KEY"] : realtime?.api_key;
+      if (!apiKey && official) {
+        throw new Error("openai-realtime adapter requires an API key (set OPENAI_API_KEY or voice.realtime.api_key_env)");
+      }
+
+      if (!url.searchParams.has("model")) url.searchParams.set("model", model);
+
+      return new OpenAIRealtimeAudioChannel({
+        url: url.toString(),
+        apiKey,
+        session: realtime?.session,
+        toolOutputs: realtime?.tool_outputs,
       });
     }
 
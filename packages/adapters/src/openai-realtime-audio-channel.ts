@@ -0,0 +1,249 @@
+/**
+ * OpenAI Realtime Audio Channel
+ *
+ * Talks to an agent built directly on the OpenAI Realtime API. Opens the
+ * realtime WebSocket, applies the agent's session config via session.update,
+ * then streams caller audio as input_audio_buffer.append and emits
+ * response.audio.delta chunks as agent audio.
+ *
+ * The Realtime API's native format is pcm16 24kHz mono, so no resampling.
+ *
+ * Function calls: the client is responsible for executing tools, so we act
+ * as the tool runtime — every completed function call is recorded as an
+ * ObservedToolCall and answered with a canned output (from tool_outputs).
+ * Once the response that made the calls is done we send response.create so
+ * the model continues speaking with the results.
+ */
+
+import WebSocket from "ws";
+import type { ObservedToolCall } from "@voiceci/shared";
+import { BaseAudioChannel } from "./audio-channel.js";
+
+/** Error codes after which the session produces no more audio */
+const FATAL_ERROR_CODES = new Set(["session_expired", "insufficient_quota", "rate_limit_exceeded"]);
+
+export interface OpenAIRealtimeAudioChannelConfig {
+  /** Realtime endpoint, including the model query param */
+  url: string;
+  /** Omitted for local mock servers */
+  apiKey?: string;
+  /** Session fields sent as session.update (instructions, voice, tools, turn_detection, ...) */
+  session?: Record<string, unknown>;
+  /** Canned function_call_output keyed by tool name. Unlisted tools get { ok: true }. */
+  toolOutputs?: Record<string, unknown>;
+}
+
+interface RealtimeFunctionCallItem {
+  type: "function_call";
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+interface RealtimeServerEvent {
+  type: string;
+  /** response.audio.delta / response.output_audio.delta */
+  delta?: string;
+  /** response.function_call_arguments.done */
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  /** response.output_item.done */
+  item?: { type: string } & Partial<RealtimeFunctionCallItem>;
+  error?: { type?: string; code?: string; message?: string };
+}
+
+export class OpenAIRealtimeAudioChannel extends BaseAudioChannel {
+  private config: OpenAIRealtimeAudioChannelConfig;
+  private ws: WebSocket | null = null;
+  private toolCalls: ObservedToolCall[] = [];
+  /** call_ids already recorded — the call is announced by two different events */
+  private seenCallIds = new Set<string>();
+  /** Function outputs were submitted during the current response */
+  private awaitingFollowUp = false;
+  private connectTimestamp = 0;
+
+  constructor(config: OpenAIRealtimeAudioChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  get connected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.config.url, {
+        headers: {
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+          "OpenAI-Beta": "realtime=v1",
+        },
+      });
+      let settled = false;
+
+      const fail = (err: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        ws.close();
+        reject(err);
+      };
+
+      const timeout = setTimeout(() => {
+        fail(new Error("OpenAI Realtime session setup timed out"));
+      }, 30_000);
+
+      ws.on("open", () => {
+        this.ws = ws;
+        this.connectTimestamp = Date.now();
+        this.toolCalls = [];
+        this.seenCallIds.clear();
+        this.awaitingFollowUp = false;
+      });
+
+      ws.on("message", (data: WebSocket.RawData) => {
+        let event: RealtimeServerEvent;
+        try {
+          event = JSON.parse(data.toString()) as RealtimeServerEvent;
+        } catch {
+          return;
+        }
+
+        if (!settled) {
+          // session.created → apply the agent config; session.updated → ready
+          if (event.type === "session.created") {
+            this.send({
+              type: "session.update",
+              session: {
+                ...this.config.session,
+                input_audio_format: "pcm16",
+                output_audio_format: "pcm16",
+              },
+            });
+          } else if (event.type === "session.updated") {
+            settled = true;
+            clearTimeout(timeout);
+            resolve();
+          } else if (event.type === "error") {
+            fail(new Error(`OpenAI Realtime session setup failed: ${event.error?.message ?? "unknown error"}`));
+          }
+          return;
+        }
+
+        this.handleServerEvent(event);
+      });
+
+      ws.on("error", (err) => {
+        if (!settled) {
+          fail(new Error(`OpenAI Realtime WebSocket connection failed: ${err.message}`));
+          return;
+        }
+        this.emit("error", err);
+      });
+
+      ws.on("close", () => {
+        if (!settled) {
+          fail(new Error("OpenAI Realtime WebSocket closed during session setup"));
+          return;
+        }
+        if (this.ws !== ws) return;
+        this.ws = null;
+        this.emit("disconnected");
+      });
+    });
+  }
+
+  sendAudio(pcm: Buffer): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error("OpenAI Realtime WebSocket not connected");
+    }
+    // Turn detection is server-side (server_vad by default), so no explicit commit
+    this.send({ type: "input_audio_buffer.append", audio: pcm.toString("base64") });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  async getCallData(): Promise<ObservedToolCall[]> {
+    return this.toolCalls;
+  }
+
+  private send(event: Record<string, unknown>): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(event));
+    }
+  }
+
+  private handleServerEvent(event: RealtimeServerEvent): void {
+    switch (event.type) {
+      // Beta and GA names for the same event
+      case "response.audio.delta":
+      case "response.output_audio.delta":
+        if (event.delta) this.emit("audio", Buffer.from(event.delta, "base64"));
+        break;
+
+      case "response.function_call_arguments.done":
+        if (event.call_id && event.name) {
+          this.handleFunctionCall(event.call_id, event.name, event.arguments ?? "{}");
+        }
+        break;
+
+      case "response.output_item.done":
+        if (event.item?.type === "function_call" && event.item.call_id && event.item.name) {
+          this.handleFunctionCall(event.item.call_id, event.item.name, event.item.arguments ?? "{}");
+        }
+        break;
+
+      case "response.done":
+        if (this.awaitingFollowUp) {
+          this.awaitingFollowUp = false;
+          this.send({ type: "response.create" });
+        }
+        break;
+
+      // Request errors (e.g. committing an empty buffer) don't end the session;
+      // server failures, quota, and an expired session leave the agent silent
+      case "error":
+        if (event.error?.type === "server_error" || FATAL_ERROR_CODES.has(event.error?.code ?? "")) {
+          this.emit("error", new Error(`OpenAI Realtime error: ${event.error?.message ?? event.error?.code ?? "unknown error"}`));
+        }
+        break;
+    }
+  }
+
+  private handleFunctionCall(callId: string, name: string, rawArguments: string): void {
+    if (this.seenCallIds.has(callId)) return;
+    this.seenCallIds.add(callId);
+
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(rawArguments) as Record<string, unknown>;
+    } catch {
+      // keep empty
+    }
+
+    const output = this.config.toolOutputs?.[name] ?? { ok: true };
+    this.toolCalls.push({
+      name,
+      arguments: args,
+      result: output,
+      successful: true,
+      timestamp_ms: Date.now() - this.connectTimestamp,
+    });
+
+    this.send({
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: callId,
+        output: typeof output === "string" ? output : JSON.stringify(output),
+      },
+    });
+    this.awaitingFollowUp = true;
+  }
+}
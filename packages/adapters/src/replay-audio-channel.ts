@@ -0,0 +1,241 @@
+/**
+ * Record-and-replay Audio Channel
+ *
+ * record: wraps any AudioChannel and captures every chunk in both directions
+ * with its offset from connect, plus the call's tool calls, then writes them
+ * to a JSON fixture on disconnect.
+ *
+ * replay: stands in for the agent using a fixture — no network, no platform
+ * minutes. Agent audio is anchored to the caller utterance that preceded it:
+ * audio recorded 400ms after the 2nd sendAudio replays 400ms after the 2nd
+ * sendAudio of the replay, regardless of how long the caller side took to
+ * produce it. Caller DTMF counts as an utterance too. A new utterance
+ * cancels whatever the previous anchor still had scheduled (the recorded
+ * agent had already moved on by then). Tool calls, agent DTMF, reported agent
+ * state and transcriptions, and remote hangups replay from the fixture too.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { AgentState, ObservedToolCall } from "@voiceci/shared";
+import { BaseAudioChannel, type AudioChannel, type TranscriptionSegment } from "./audio-channel.js";
+
+export type AudioFixtureEvent =
+  | { t_ms: number; type: "caller_audio"; audio: string }
+  | { t_ms: number; type: "caller_dtmf"; digits: string }
+  | { t_ms: number; type: "agent_audio"; audio: string }
+  | { t_ms: number; type: "agent_dtmf"; digit: string }
+  | { t_ms: number; type: "agent_state"; state: AgentState }
+  | { t_ms: number; type: "transcription"; segment: TranscriptionSegment }
+  | { t_ms: number; type: "disconnected" };
+
+export interface AudioFixture {
+  version: 1;
+  /** Always 24000 — fixtures store the channel's internal PCM format */
+  sample_rate: number;
+  recorded_at: string;
+  duration_ms: number;
+  events: AudioFixtureEvent[];
+  tool_calls: ObservedToolCall[];
+}
+
+export type ReplayAudioChannelConfig =
+  | { mode: "record"; inner: AudioChannel; fixturePath: string }
+  | { mode: "replay"; fixturePath: string };
+
+export async function readAudioFixture(path: string): Promise<AudioFixture> {
+  const fixture = JSON.parse(await readFile(path, "utf8")) as AudioFixture;
+  if (fixture.version !== 1 || !Array.isArray(fixture.events)) {
+    throw new Error(`Unsupported audio fixture: ${path}`);
+  }
+  return fixture;
+}
+
+export async function writeAudioFixture(path: string, fixture: AudioFixture): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture));
+}
+
+/** An agent-side event, timed from the caller utterance it followed. */
+interface ReplayEvent {
+  delayMs: number;
+  event: AudioFixtureEvent;
+}
+
+export class ReplayAudioChannel extends BaseAudioChannel {
+  private config: ReplayAudioChannelConfig;
+
+  // record mode
+  private events: AudioFixtureEvent[] = [];
+  private toolCalls: ObservedToolCall[] = [];
+  private startedAt = 0;
+
+  // replay mode
+  private fixture: AudioFixture | null = null;
+  private anchors: ReplayEvent[][] = [];
+  private sendCount = 0;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private replayConnected = false;
+
+  constructor(config: ReplayAudioChannelConfig) {
+    super();
+    this.config = config;
+
+    if (config.mode === "record") {
+      const { inner } = config;
+      inner.on("audio", (chunk) => {
+        this.capture({ t_ms: this.elapsed(), type: "agent_audio", audio: chunk.toString("base64") });
+        this.emit("audio", chunk);
+      });
+      inner.on("dtmf", (digit) => {
+        this.capture({ t_ms: this.elapsed(), type: "agent_dtmf", digit });
+        this.emit("dtmf", digit);
+      });
+      inner.on("agent_state", (state) => {
+        this.capture({ t_ms: this.elapsed(), type: "agent_state", state });
+        this.emit("agent_state", state);
+      });
+      inner.on("transcription", (segment) => {
+        this.capture({ t_ms: this.elapsed(), type: "transcription", segment });
+        this.emit("transcription", segment);
+      });
+      inner.on("error", (err) => this.emit("error", err));
+      inner.on("disconnected", () => {
+        this.capture({ t_ms: this.elapsed(), type: "disconnected" });
+        this.emit("disconnected");
+      });
+    }
+  }
+
+  get connected(): boolean {
+    return this.config.mode === "record" ? this.config.inner.connected : this.replayConnected;
+  }
+
+  async connect(): Promise<void> {
+    if (this.config.mode === "record") {
+      await this.config.inner.connect();
+      this.startedAt = Date.now();
+      this.events = [];
+      this.toolCalls = [];
+      return;
+    }
+
+    this.fixture = await readAudioFixture(this.config.fixturePath);
+    this.anchors = buildAnchors(this.fixture.events);
+    this.sendCount = 0;
+    this.replayConnected = true;
+    this.schedule(0);
+  }
+
+  sendAudio(pcm: Buffer): void {
+    if (this.config.mode === "record") {
+      this.capture({ t_ms: this.elapsed(), type: "caller_audio", audio: pcm.toString("base64") });
+      this.config.inner.sendAudio(pcm);
+      return;
+    }
+
+    if (!this.replayConnected) {
+      throw new Error("Replay channel not connected");
+    }
+    this.schedule(++this.sendCount);
+  }
+
+  async sendDtmf(digits: string): Promise<void> {
+    if (this.config.mode === "record") {
+      this.capture({ t_ms: this.elapsed(), type: "caller_dtmf", digits });
+      return this.config.inner.sendDtmf(digits);
+    }
+
+    if (!this.replayConnected) {
+      throw new Error("Replay channel not connected");
+    }
+    this.schedule(++this.sendCount);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.config.mode === "record") {
+      const startedAt = this.startedAt;
+      const durationMs = this.elapsed();
+      // Stop capturing first — our own hangup is not a remote disconnect
+      this.startedAt = 0;
+      await this.config.inner.disconnect();
+      if (startedAt === 0) return;
+      await writeAudioFixture(this.config.fixturePath, {
+        version: 1,
+        sample_rate: 24000,
+        recorded_at: new Date(startedAt).toISOString(),
+        duration_ms: durationMs,
+        events: this.events,
+        tool_calls: this.toolCalls,
+      });
+      return;
+    }
+
+    this.clearTimers();
+    this.replayConnected = false;
+  }
+
+  async getCallData(): Promise<ObservedToolCall[]> {
+    if (this.config.mode === "replay") {
+      return this.fixture?.tool_calls ?? [];
+    }
+    this.toolCalls = (await this.config.inner.getCallData?.()) ?? [];
+    return this.toolCalls;
+  }
+
+  private elapsed(): number {
+    return this.startedAt === 0 ? 0 : Date.now() - this.startedAt;
+  }
+
+  private capture(event: AudioFixtureEvent): void {
+    if (this.startedAt !== 0) this.events.push(event);
+  }
+
+  /** Play everything the recorded agent did after caller utterance `anchor`. */
+  private schedule(anchor: number): void {
+    this.clearTimers();
+    for (const { delayMs, event } of this.anchors[anchor] ?? []) {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        if (!this.replayConnected) return;
+        if (event.type === "agent_audio") {
+          this.emit("audio", Buffer.from(event.audio, "base64"));
+        } else if (event.type === "agent_dtmf") {
+          this.emit("dtmf", event.digit);
+        } else if (event.type === "agent_state") {
+          this.emit("agent_state", event.state);
+        } else if (event.type === "transcription") {
+          this.emit("transcription", event.segment);
+        } else if (event.type === "disconnected") {
+          this.clearTimers();
+          this.replayConnected = false;
+          this.emit("disconnected");
+        }
+      }, delayMs);
+      this.timers.add(timer);
+    }
+  }
+
+  private clearTimers(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+}
+
+/**
+ * Split agent events by the number of caller utterances sent before them,
+ * with delays relative to that utterance (or to connect, for anchor 0).
+ */
+function buildAnchors(events: AudioFixtureEvent[]): ReplayEvent[][] {
+  const anchors: ReplayEvent[][] = [[]];
+  let anchorTime = 0;
+  for (const event of events) {
+    if (event.type === "caller_audio" || event.type === "caller_dtmf") {
+      anchorTime = event.t_ms;
+      anchors.push([]);
+    } else {
+      anchors[anchors.length - 1]!.push({ delayMs: Math.max(0, event.t_ms - anchorTime), event });
+    }
+  }
+  return anchors;
+}
@@ -5,8 +5,9 @@
  * with Retell's REST API for call creation and tool call extraction.
  *
  * Flow:
- *   1. connect()  — sets up Plivo inbound, then asks Retell to call us
- *      via POST /v2/create-phone-call → call_id known immediately
+ *   1. connect()  — sets up Plivo inbound, asks Retell to call us via
+ *      POST /v2/create-phone-call (call_id known immediately), then waits
+ *      for the call's media stream
  *   2. sendAudio() / on("audio") — bidirectional PCM 24kHz over SIP
  *   3. disconnect() — hangs up the SIP call
  *   4. getCallData() — fetches tool calls from GET /v2/get-call/{call_id}
@@ -20,8 +21,12 @@ export interface RetellAudioChannelConfig {
   apiKey: string;
   agentId: string;
   sip: SipAudioChannelConfig;
+  /** REST base (default https://api.retellai.com) — pointed at a mock by the conformance kit */
+  apiBaseUrl?: string;
 }
 
+const RETELL_API = "https://api.retellai.com";
+
 interface RetellToolCallInvocation {
   role: "tool_call_invocation";
   tool_call_id: string;
@@ -75,36 +80,21 @@ export class RetellAudioChannel extends BaseAudioChannel {
   }
 
   async connect(): Promise<void> {
-    // Start SIP in inbound mode — Plivo app created, number configured, waiting
-    this.sipChannel = new SipAudioChannel({ ...this.config.sip, mode: "inbound" });
-
-    this.sipChannel.on("audio", (chunk) => this.emit("audio", chunk));
-    this.sipChannel.on("error", (err) => this.emit("error", err));
-    this.sipChannel.on("disconnected", () => this.emit("disconnected"));
-
-    // Start the SIP server and configure Plivo number for inbound
-    await this.sipChannel.connect();
-
-    // Ask Retell to call our Plivo number — call_id returned immediately
-    const res = await fetch("https://api.retellai.com/v2/create-phone-call", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from_number: this.config.sip.phoneNumber,
-        to_number: this.config.sip.fromNumber,
-      }),
+    // SIP in inbound mode — once our Plivo number points at us, Retell dials it
+    const sipChannel = new SipAudioChannel({
+      ...this.config.sip,
+      mode: "inbound",
+      inbound: { ...this.config.sip.inbound, dial: () => this.createPhoneCall() },
     });
 
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`Retell create-phone-call failed (${res.status}): ${errorText}`);
-    }
+    sipChannel.on("audio", (chunk) => this.emit("audio", chunk));
+    sipChannel.on("dtmf", (digit) => this.emit("dtmf", digit));
+    sipChannel.on("error", (err) => this.emit("error", err));
+    sipChannel.on("disconnected", () => this.emit("disconnected"));
 
-    const data = (await res.json()) as RetellCreateCallResponse;
-    this.callId = data.call_id;
+    // Cleans up after itself if the call never arrives
+    await sipChannel.connect();
+    this.sipChannel = sipChannel;
   }
 
   sendAudio(pcm: Buffer): void {
@@ -114,6 +104,13 @@ export class RetellAudioChannel extends BaseAudioChannel {
     this.sipChannel.sendAudio(pcm);
   }
 
+  async sendDtmf(digits: string): Promise<void> {
+    if (!this.sipChannel) {
+      throw new Error("Retell channel not connected");
+    }
+    await this.sipChannel.sendDtmf(digits);
+  }
+
   async disconnect(): Promise<void> {
     if (this.sipChannel) {
       await this.sipChannel.disconnect();
@@ -127,7 +124,7 @@ export class RetellAudioChannel extends BaseAudioChannel {
     // Wait for Retell to process the call data
     await sleep(2000);
 
-    const res = await fetch(`https://api.retellai.com/v2/get-call/${this.callId}`, {
+    const res = await fetch(`${this.config.apiBaseUrl ?? RETELL_API}/v2/get-call/${this.callId}`, {
       headers: { Authorization: `Bearer ${this.config.apiKey}` },
     });
 
@@ -137,6 +134,29 @@ export class RetellAudioChannel extends BaseAudioChannel {
     return this.parseToolCalls(data);
   }
 
+  /** Ask Retell to call our Plivo number — call_id returned immediately */
+  private async createPhoneCall(): Promise<void> {
+    const res = await fetch(`${this.config.apiBaseUrl ?? RETELL_API}/v2/create-phone-call`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.config.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from_number: this.config.sip.phoneNumber,
+        to_number: this.config.sip.fromNumber,
+      }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`Retell create-phone-call failed (${res.status}): ${errorText}`);
+    }
+
+    const data = (await res.json()) as RetellCreateCallResponse;
+    this.callId = data.call_id;
+  }
+
   private parseToolCalls(data: RetellCallResponse): ObservedToolCall[] {
     const entries = data.transcript_with_tool_calls ?? [];
     const toolCalls: ObservedToolCall[] = [];
@@ -7,7 +7,9 @@
  * Supports two modes:
  *   - outbound (default): Places an outbound call via Plivo to phoneNumber
  *   - inbound: Creates a temporary Plivo Application, assigns it to
- *     fromNumber, then waits for an incoming call from the voice platform
+ *     fromNumber (restoring the previous one on disconnect), fires the
+ *     trigger that tells the agent to dial, then waits for its call. The
+ *     call can ring a few times first, or be declined as busy.
  *
  * Extracted from sip-voice-adapter.ts — no TTS/STT/silence logic.
  */
@@ -17,6 +19,7 @@ import http from "node:http";
 import { pcmToMulaw, mulawToPcm, resample } from "@voiceci/voice";
 import type { ObservedToolCall } from "@voiceci/shared";
 import { BaseAudioChannel } from "./audio-channel.js";
+import { fireInboundTrigger, RING_MS, type InboundAnswerOptions } from "./inbound-trigger.js";
 
 export interface SipAudioChannelConfig {
   phoneNumber: string;
@@ -26,13 +29,21 @@ export interface SipAudioChannelConfig {
   publicHost: string;
   /** "outbound" (default): Plivo dials phoneNumber. "inbound": wait for incoming call on fromNumber. */
   mode?: "inbound" | "outbound";
+  /** inbound only: trigger, timeout, and how to answer */
+  inbound?: InboundAnswerOptions;
+  /** Plivo REST base (default https://api.plivo.com) — pointed at a mock by the conformance kit */
+  apiBaseUrl?: string;
 }
 
 interface PlivoStreamMessage {
   event: string;
   start?: { streamId: string; callId: string };
+  media?: { track?: string; payload: string };
+  dtmf?: { digit: string };
 }
 
+const PLIVO_API = "https://api.plivo.com";
+
 export class SipAudioChannel extends BaseAudioChannel {
   private config: SipAudioChannelConfig;
   private server: http.Server | null = null;
@@ -41,9 +52,15 @@ export class SipAudioChannel extends BaseAudioChannel {
   private streamId: string | null = null;
   private port = 0;
   private callUuid: string | null = null;
+  /** Call UUID reported by the stream — known in both modes, unlike callUuid */
+  private streamCallId: string | null = null;
   private toolCalls: ObservedToolCall[] = [];
   private connectTimestamp = 0;
   private appId: string | null = null;
+  /** Inbound mode: the application fromNumber pointed at before we borrowed it */
+  private previousAppId: string | null = null;
+  /** Inbound mode: Plivo fetched our answer URL, i.e. the agent's call arrived */
+  private callReceived = false;
 
   constructor(config: SipAudioChannelConfig) {
     super();
@@ -66,13 +83,30 @@ export class SipAudioChannel extends BaseAudioChannel {
 
     console.log(`SIP tool call endpoint: ${this.toolCallEndpointUrl}`);
 
-    if (this.config.mode === "inbound") {
-      await this.setupInbound();
-    } else {
-      await this.placeOutboundCall();
-    }
+    try {
+      if (this.config.mode === "inbound") {
+        await this.setupInbound();
+        const { trigger, dial, decline } = this.config.inbound ?? {};
+        if (dial) {
+          await dial();
+        } else if (trigger) {
+          await fireInboundTrigger(trigger, this.config.fromNumber);
+        }
+        if (decline) {
+          // Nothing to stream — the call is rejected once it has rung out
+          await this.waitForIncomingCall();
+          return;
+        }
+      } else {
+        await this.placeOutboundCall();
+      }
 
-    await this.waitForMediaConnection();
+      await this.waitForMediaConnection();
+    } catch (err) {
+      // Give back the number and stop the server before reporting the failure
+      await this.disconnect();
+      throw err;
+    }
   }
 
   sendAudio(pcm: Buffer): void {
@@ -102,6 +136,31 @@ export class SipAudioChannel extends BaseAudioChannel {
     }
   }
 
+  /** Plivo plays the digits as RFC 2833 events on the call leg; A-D have no Plivo form, so go in-band */
+  async sendDtmf(digits: string): Promise<void> {
+    const callId = this.streamCallId ?? this.callUuid;
+    if (!callId || /[A-D]/i.test(digits)) {
+      return super.sendDtmf(digits);
+    }
+
+    const res = await fetch(
+      `${this.accountUrl}/Call/${callId}/DTMF/`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${this.plivoAuthHeader()}`,
+          "Content-Type": "application/json",
+        },
+        // Plivo's pause character is "w" (500ms)
+        body: JSON.stringify({ digits: digits.replace(/,/g, "w"), leg: "aleg" }),
+      }
+    );
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`Plivo DTMF failed (${res.status}): ${errorText}`);
+    }
+  }
+
   async getCallData(): Promise<ObservedToolCall[]> {
     return this.toolCalls;
   }
@@ -111,7 +170,7 @@ export class SipAudioChannel extends BaseAudioChannel {
 
     if (this.callUuid) {
       await fetch(
-        `https://api.plivo.com/v1/Account/${this.config.authId}/Call/${this.callUuid}/`,
+        `${this.accountUrl}/Call/${this.callUuid}/`,
         {
           method: "DELETE",
           headers: { Authorization: `Basic ${authHeader}` },
@@ -121,9 +180,25 @@ export class SipAudioChannel extends BaseAudioChannel {
       this.callUuid = null;
     }
 
+    if (this.previousAppId) {
+      await fetch(
+        `${this.accountUrl}/Number/${this.config.fromNumber}/`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${authHeader}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ app_id: this.previousAppId }),
+        }
+      ).catch(() => {});
+
+      this.previousAppId = null;
+    }
+
     if (this.appId) {
       await fetch(
-        `https://api.plivo.com/v1/Account/${this.config.authId}/Application/${this.appId}/`,
+        `${this.accountUrl}/Application/${this.appId}/`,
         {
           method: "DELETE",
           headers: { Authorization: `Basic ${authHeader}` },
@@ -160,7 +235,7 @@ export class SipAudioChannel extends BaseAudioChannel {
     const authHeader = this.plivoAuthHeader();
 
     const res = await fetch(
-      `https://api.plivo.com/v1/Account/${this.config.authId}/Call/`,
+      `${this.accountUrl}/Call/`,
       {
         method: "POST",
         headers: {
@@ -191,9 +266,24 @@ export class SipAudioChannel extends BaseAudioChannel {
     const authHeader = this.plivoAuthHeader();
     const answerUrl = `https://${this.config.publicHost}:${this.port}/answer`;
 
+    // Remember the number's current application so it can be restored
+    const currentRes = await fetch(
+      `${this.accountUrl}/Number/${this.config.fromNumber}/`,
+      { headers: { Authorization: `Basic ${authHeader}` } }
+    );
+    if (!currentRes.ok) {
+      const errorText = await currentRes.text();
+      throw new Error(
+        `Plivo number lookup failed (${currentRes.status}): ${errorText}`
+      );
+    }
+    const current = (await currentRes.json()) as { application?: string | null };
+    // e.g. "/v1/Account/MA.../Application/29986316244302815/"
+    this.previousAppId = /\/Application\/([^/]+)\/?$/.exec(current.application ?? "")?.[1] ?? null;
+
     // Create a temporary Plivo Application with our answer_url
     const appRes = await fetch(
-      `https://api.plivo.com/v1/Account/${this.config.authId}/Application/`,
+      `${this.accountUrl}/Application/`,
       {
         method: "POST",
         headers: {
@@ -220,7 +310,7 @@ export class SipAudioChannel extends BaseAudioChannel {
 
     // Assign the application to our Plivo number
     const numRes = await fetch(
-      `https://api.plivo.com/v1/Account/${this.config.authId}/Number/${this.config.fromNumber}/`,
+      `${this.accountUrl}/Number/${this.config.fromNumber}/`,
       {
         method: "POST",
         headers: {
@@ -239,6 +329,10 @@ export class SipAudioChannel extends BaseAudioChannel {
     }
   }
 
+  private get accountUrl(): string {
+    return `${this.config.apiBaseUrl ?? PLIVO_API}/v1/Account/${this.config.authId}`;
+  }
+
   private plivoAuthHeader(): string {
     return Buffer.from(
       `${this.config.authId}:${this.config.authToken}`
@@ -249,16 +343,9 @@ export class SipAudioChannel extends BaseAudioChannel {
     return new Promise((resolve) => {
       this.server = http.createServer((req, res) => {
         if (req.url?.startsWith("/answer")) {
-          const wsUrl = `wss://${this.config.publicHost}:${this.port}/stream`;
-          const xml = [
-            '<?xml version="1.0" encoding="UTF-8"?>',
-            "<Response>",
-            `  <Stream bidirectional="true" keepCallAlive="true" contentType="audio/x-mulaw;rate=8000">${wsUrl}</Stream>`,
-            "</Response>",
-          ].join("\n");
-
+          this.callReceived = true;
           res.writeHead(200, { "Content-Type": "application/xml" });
-          res.end(xml);
+          res.end(this.answerXml());
         } else if (req.url?.startsWith("/tool-calls")) {
           if (req.method === "OPTIONS") {
             res.writeHead(204, {
@@ -300,6 +387,11 @@ export class SipAudioChannel extends BaseAudioChannel {
               const msg = JSON.parse(buf.toString()) as PlivoStreamMessage;
               if (msg.event === "start" && msg.start?.streamId) {
                 this.streamId = msg.start.streamId;
+                this.streamCallId = msg.start.callId ?? null;
+              } else if (msg.event === "media" && msg.media?.payload) {
+                this.emitMulaw(Buffer.from(msg.media.payload, "base64"));
+              } else if (msg.event === "dtmf" && msg.dtmf?.digit) {
+                this.emit("dtmf", msg.dtmf.digit);
               }
             } catch {
               // Ignore
@@ -307,13 +399,11 @@ export class SipAudioChannel extends BaseAudioChannel {
             return;
           }
 
-          // Raw mulaw audio → PCM 24kHz
-          const pcm8k = mulawToPcm(buf);
-          const pcm24k = resample(pcm8k, 8000, 24000);
-          this.emit("audio", pcm24k);
+          this.emitMulaw(buf);
         });
 
         ws.on("close", () => {
+          if (this.mediaWs !== ws) return;
           this.mediaWs = null;
           this.emit("disconnected");
         });
@@ -333,6 +423,12 @@ export class SipAudioChannel extends BaseAudioChannel {
     });
   }
 
+  /** mulaw 8kHz → PCM 24kHz */
+  private emitMulaw(mulaw: Buffer): void {
+    const pcm8k = mulawToPcm(mulaw);
+    this.emit("audio", resample(pcm8k, 8000, 24000));
+  }
+
   private handleToolCallPost(req: http.IncomingMessage, res: http.ServerResponse): void {
     let body = "";
     let aborted = false;
@@ -384,8 +480,46 @@ export class SipAudioChannel extends BaseAudioChannel {
     });
   }
 
+  private answerXml(): string {
+    const wsUrl = `wss://${this.config.publicHost}:${this.port}/stream`;
+    const inbound = this.config.mode === "inbound" ? this.config.inbound : undefined;
+    const rings = inbound?.rings ?? 0;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      "<Response>",
+      // Early media keeps the call unanswered while it "rings"
+      ...(rings > 0
+        ? [`  <PreAnswer><Wait length="${(rings * RING_MS) / 1000}"/></PreAnswer>`]
+        : []),
+      inbound?.decline
+        ? '  <Hangup reason="busy"/>'
+        : `  <Stream bidirectional="true" keepCallAlive="true" contentType="audio/x-mulaw;rate=8000">${wsUrl}</Stream>`,
+      "</Response>",
+    ].join("\n");
+  }
+
+  /** Inbound mode: how long to wait for the agent's call, plus time spent ringing */
+  private get inboundWaitMs(): number {
+    const { timeoutMs = 120_000, rings = 0 } = this.config.inbound ?? {};
+    return timeoutMs + rings * RING_MS;
+  }
+
+  private async waitForIncomingCall(): Promise<void> {
+    const maxWait = this.inboundWaitMs;
+    const start = Date.now();
+
+    while (!this.callReceived && Date.now() - start < maxWait) {
+      await sleep(500);
+    }
+
+    if (!this.callReceived) {
+      throw new Error(`No inbound call to ${this.config.fromNumber} within ${Math.round(maxWait / 1000)}s`);
+    }
+  }
+
   private async waitForMediaConnection(): Promise<void> {
-    const maxWait = 30_000;
+    const maxWait = this.config.mode === "inbound" ? this.inboundWaitMs : 30_000;
     const start = Date.now();
 
     while (!this.mediaWs && Date.now() - start < maxWait) {
@@ -393,7 +527,11 @@ export class SipAudioChannel extends BaseAudioChannel {
     }
 
     if (!this.mediaWs) {
-      throw new Error("Plivo media stream connection timed out");
+      throw new Error(
+        this.config.mode === "inbound" && !this.callReceived
+          ? `No inbound call to ${this.config.fromNumber} within ${Math.round(maxWait / 1000)}s`
+          : "Plivo media stream connection timed out"
+      );
     }
 
     while (!this.streamId && Date.now() - start < maxWait) {
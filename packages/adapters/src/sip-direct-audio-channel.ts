@@ -0,0 +1,697 @@
+/**
+ * Direct SIP Audio Channel (native SIP UA + G.711 RTP)
+ *
+ * Calls a SIP URI directly — no telephony provider, public host, or PSTN
+ * leg. Suited to agents behind your own SIP trunk/PBX, or a local SIP
+ * server in CI.
+ *
+ * - Signaling: SIP over UDP with RFC 3261 retransmission timers, optional
+ *   REGISTER (refreshed until disconnect), and digest auth (401/407) on
+ *   both REGISTER and INVITE.
+ * - Media: G.711 µ-law or A-law, negotiated from our SDP offer. RTP is sent
+ *   as a continuous 20ms stream (silence when idle) so PBX RTP timeouts and
+ *   NAT bindings behave as they would with a real phone.
+ * - DTMF: RFC 4733 telephone-events when the answer accepts them (sent in
+ *   the same paced stream, received as "dtmf" events), in-band tones otherwise.
+ * - PCM 24kHz <-> G.711 8kHz conversion happens internally.
+ */
+
+import dgram from "node:dgram";
+import { pcmToMulaw, mulawToPcm, pcmToAlaw, alawToPcm, resample } from "@voiceci/voice";
+import { BaseAudioChannel } from "./audio-channel.js";
+import {
+  type DigestChallenge,
+  type G711Codec,
+  type SdpAnswer,
+  type SipMessage,
+  buildSdpOffer,
+  digestAuthorization,
+  header,
+  newBranch,
+  parseDigestChallenge,
+  parseSdpAnswer,
+  parseSipMessage,
+  parseSipUri,
+  randomToken,
+  serializeSipMessage,
+  tagOf,
+  uriOf,
+} from "./sip-message.js";
+
+export interface SipDirectAudioChannelConfig {
+  /** Who to call, e.g. sip:agent@pbx.example.com:5060 */
+  uri: string;
+  /** Digest credentials — used for REGISTER and to answer INVITE challenges */
+  username?: string;
+  password?: string;
+  /** REGISTER before calling (default false) */
+  register?: boolean;
+  /** Registrar URI (default: the host of `uri`) */
+  registrar?: string;
+  /** User part of our From/Contact (default: username, else "voiceci") */
+  fromUser?: string;
+  /** Codecs to offer, in preference order (default PCMU, PCMA) */
+  codecs?: G711Codec[];
+  /** Address advertised in Via/Contact/SDP (default: auto-detected route to the server) */
+  localIp?: string;
+  /** How long to wait for the call to be answered (default 30s) */
+  inviteTimeoutMs?: number;
+}
+
+interface SipDestination {
+  host: string;
+  port: number;
+}
+
+interface PendingTransaction {
+  resolve: (msg: SipMessage) => void;
+  reject: (err: Error) => void;
+  /** Set once any 1xx arrives — INVITE stops retransmitting */
+  provisional: boolean;
+  timers: NodeJS.Timeout[];
+}
+
+/** RFC 3261 timer T1/T2 and the non-INVITE transaction timeout (64·T1). */
+const T1 = 500;
+const T2 = 4000;
+const TRANSACTION_TIMEOUT = 64 * T1;
+const REGISTER_EXPIRES = 300;
+/** 20ms of G.711 at 8kHz */
+const FRAME_BYTES = 160;
+const SILENCE_BYTE: Record<G711Codec, number> = { PCMU: 0xff, PCMA: 0xd5 };
+/** RFC 4733 event codes, indexed by key */
+const DTMF_EVENTS = "0123456789*#ABCD";
+/** Telephone-event packets per digit (100ms tone), then 60ms of silence */
+const DTMF_TONE_PACKETS = 5;
+const DTMF_GAP_FRAMES = 3;
+/** The end packet is sent three times (RFC 4733 §2.5.1.4) */
+const DTMF_END_REPEATS = 3;
+
+/** A queued telephone-event packet — one 20ms slot in the send stream. */
+interface DtmfFrame {
+  event: number;
+  /** Duration so far, in 8kHz timestamp units */
+  duration: number;
+  /** First packet of the event: marker bit set, event timestamp fixed */
+  start: boolean;
+  end: boolean;
+}
+
+export class SipDirectAudioChannel extends BaseAudioChannel {
+  private config: SipDirectAudioChannelConfig;
+  private codecs: G711Codec[];
+  /** Where requests go: the host of the called URI (also acts as outbound proxy) */
+  private server: SipDestination;
+  private sipSocket: dgram.Socket | null = null;
+  private rtpSocket: dgram.Socket | null = null;
+  private localIp = "";
+  private sipPort = 0;
+  private rtpPort = 0;
+  private transactions = new Map<string, PendingTransaction>();
+
+  // Dialog state
+  private callId = "";
+  private localTag = randomToken(4);
+  private remoteTag: string | undefined;
+  private remoteTarget = "";
+  private routeSet: string[] = [];
+  private cseq = 0;
+  private inviteBranch: string | null = null;
+  private inviteCseq = 0;
+  private ackRaw: string | null = null;
+  private established = false;
+  private registered = false;
+  private registerTimer: NodeJS.Timeout | null = null;
+  private challenges = new Map<string, { challenge: DigestChallenge; nc: number }>();
+
+  // Media state
+  private media: SdpAnswer | null = null;
+  private sendQueue: Array<Buffer | DtmfFrame> = [];
+  private rtpTimer: NodeJS.Timeout | null = null;
+  private rtpSeq = Math.floor(Math.random() * 0xffff);
+  private rtpTimestamp = Math.floor(Math.random() * 0xffffffff);
+  private rtpSsrc = Math.floor(Math.random() * 0xffffffff);
+  private rtpMarker = true;
+  private nextFrameAt = 0;
+  private dtmfTimestamp = 0;
+  private lastReceivedDtmf: number | null = null;
+
+  constructor(config: SipDirectAudioChannelConfig) {
+    super();
+    this.config = config;
+    this.codecs = config.codecs?.length ? config.codecs : ["PCMU", "PCMA"];
+    const target = parseSipUri(config.uri);
+    this.server = { host: target.host, port: target.port };
+  }
+
+  get connected(): boolean {
+    return this.established;
+  }
+
+  /** Codec chosen by the far end, once the call is up. */
+  get negotiatedCodec(): G711Codec | null {
+    return this.media?.codec ?? null;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.sipSocket = await bindUdp();
+      this.rtpSocket = await bindUdp();
+      this.sipPort = this.sipSocket.address().port;
+      this.rtpPort = this.rtpSocket.address().port;
+      this.localIp = this.config.localIp ?? (await detectLocalIp(this.server.host, this.server.port));
+
+      this.sipSocket.on("message", (data, rinfo) => this.handleSipPacket(data.toString(), rinfo));
+      this.rtpSocket.on("message", (data) => this.handleRtpPacket(data));
+      this.sipSocket.on("error", (err) => this.emit("error", err));
+
+      if (this.config.register) {
+        await this.register(REGISTER_EXPIRES);
+      }
+      await this.invite();
+    } catch (err) {
+      // Unregister and release the sockets before reporting the failure
+      await this.disconnect();
+      throw err;
+    }
+    this.startRtp();
+  }
+
+  sendAudio(pcm: Buffer): void {
+    if (!this.established || !this.media) {
+      throw new Error("SIP call not established");
+    }
+
+    // PCM 24kHz → 8kHz → G.711, queued as 20ms frames for the pacer
+    const pcm8k = resample(pcm, 24000, 8000);
+    const encoded = this.media.codec === "PCMA" ? pcmToAlaw(pcm8k) : pcmToMulaw(pcm8k);
+    for (let offset = 0; offset < encoded.length; offset += FRAME_BYTES) {
+      const frame = Buffer.alloc(FRAME_BYTES, SILENCE_BYTE[this.media.codec]);
+      encoded.copy(frame, 0, offset, Math.min(offset + FRAME_BYTES, encoded.length));
+      this.sendQueue.push(frame);
+    }
+  }
+
+  async sendDtmf(digits: string): Promise<void> {
+    if (!this.established || !this.media) {
+      throw new Error("SIP call not established");
+    }
+    if (this.media.dtmfPayloadType === undefined) {
+      return super.sendDtmf(digits);
+    }
+
+    const silence = () => Buffer.alloc(FRAME_BYTES, SILENCE_BYTE[this.media!.codec]);
+    for (const digit of digits.toUpperCase()) {
+      if (digit === ",") {
+        for (let i = 0; i < 25; i++) this.sendQueue.push(silence());
+        continue;
+      }
+      const event = DTMF_EVENTS.indexOf(digit);
+      if (event === -1) {
+        throw new Error(`Invalid DTMF digit: ${digit}`);
+      }
+      for (let i = 1; i <= DTMF_TONE_PACKETS; i++) {
+        this.sendQueue.push({ event, duration: i * FRAME_BYTES, start: i === 1, end: false });
+      }
+      const last = this.sendQueue[this.sendQueue.length - 1] as DtmfFrame;
+      last.end = true;
+      for (let i = 1; i < DTMF_END_REPEATS; i++) this.sendQueue.push({ ...last, start: false });
+      for (let i = 0; i < DTMF_GAP_FRAMES; i++) this.sendQueue.push(silence());
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopRtp();
+
+    if (this.established) {
+      this.established = false;
+      await this.sendInDialog("BYE").catch(() => {});
+    } else if (this.inviteBranch) {
+      await this.cancelInvite().catch(() => {});
+    }
+
+    if (this.registerTimer) {
+      clearTimeout(this.registerTimer);
+      this.registerTimer = null;
+    }
+    if (this.registered) {
+      await this.register(0).catch(() => {});
+    }
+
+    for (const tx of this.transactions.values()) {
+      tx.timers.forEach(clearTimeout);
+      tx.reject(new Error("SIP channel closed"));
+    }
+    this.transactions.clear();
+
+    this.sipSocket?.close();
+    this.rtpSocket?.close();
+    this.sipSocket = null;
+    this.rtpSocket = null;
+  }
+
+  // ============================================================
+  // Signaling
+  // ============================================================
+
+  private get domain(): string {
+    return parseSipUri(this.config.registrar ?? this.config.uri).host;
+  }
+
+  private get fromUser(): string {
+    return this.config.fromUser ?? this.config.username ?? "voiceci";
+  }
+
+  private get contact(): string {
+    return `<sip:${this.fromUser}@${this.localIp}:${this.sipPort}>`;
+  }
+
+  private async register(expires: number): Promise<void> {
+    const registrar = this.config.registrar ?? `sip:${this.server.host}:${this.server.port}`;
+    const aor = `<sip:${this.fromUser}@${this.domain}>`;
+    const callId = `${randomToken()}@${this.localIp}`;
+    const tag = randomToken(4);
+
+    const res = await this.requestWithAuth(
+      "REGISTER",
+      registrar,
+      () => [
+        ["From", `${aor};tag=${tag}`],
+        ["To", aor],
+        ["Call-ID", callId],
+        ["CSeq", `${++this.cseq} REGISTER`],
+        ["Contact", this.contact],
+        ["Expires", String(expires)],
+      ],
+      "",
+      TRANSACTION_TIMEOUT,
+      parseSipUri(registrar),
+    );
+    if (res.status !== 200) {
+      throw new Error(`SIP registration failed: ${res.status} ${res.reason}`);
+    }
+
+    this.registered = expires > 0;
+    if (this.registered) {
+      // Refresh before the binding lapses; the server may shorten our expiry
+      const granted = Number(header(res, "expires") ?? expires) || expires;
+      this.registerTimer = setTimeout(() => {
+        void this.register(expires).catch((err: Error) => this.emit("error", err));
+      }, granted * 800);
+      this.registerTimer.unref();
+    }
+  }
+
+  private async invite(): Promise<void> {
+    this.callId = `${randomToken()}@${this.localIp}`;
+    const sdp = buildSdpOffer(this.localIp, this.rtpPort, this.codecs, Date.now() % 1_000_000_000);
+
+    const res = await this.requestWithAuth(
+      "INVITE",
+      this.config.uri,
+      () => {
+        this.inviteCseq = ++this.cseq;
+        return [
+          ["From", `<sip:${this.fromUser}@${this.domain}>;tag=${this.localTag}`],
+          ["To", `<${this.config.uri}>`],
+          ["Call-ID", this.callId],
+          ["CSeq", `${this.inviteCseq} INVITE`],
+          ["Contact", this.contact],
+          ["Allow", "INVITE, ACK, CANCEL, BYE, OPTIONS"],
+          ["Content-Type", "application/sdp"],
+        ];
+      },
+      sdp,
+      this.config.inviteTimeoutMs ?? 30_000,
+    );
+    this.inviteBranch = null;
+
+    if (res.status === undefined || res.status >= 300) {
+      throw new Error(`SIP call failed: ${res.status} ${res.reason}`);
+    }
+
+    this.remoteTag = tagOf(header(res, "to"));
+    this.remoteTarget = uriOf(header(res, "contact") ?? this.config.uri);
+    this.routeSet = (res.headers.get("record-route") ?? []).flatMap((v) => v.split(",")).map((v) => v.trim()).reverse();
+
+    // A 2xx is always ACKed, even one we hang up on straight away
+    this.ackRaw = this.buildInDialogRequest("ACK", this.inviteCseq);
+    this.sendRaw(this.ackRaw);
+
+    try {
+      this.media = parseSdpAnswer(res.body, this.codecs);
+    } catch (err) {
+      // The far end thinks the call is up — end it rather than leave it open
+      await this.sendInDialog("BYE").catch(() => {});
+      throw err;
+    }
+    this.established = true;
+  }
+
+  private async cancelInvite(): Promise<void> {
+    const raw = serializeSipMessage(`CANCEL ${this.config.uri} SIP/2.0`, [
+      ["Via", `SIP/2.0/UDP ${this.localIp}:${this.sipPort};branch=${this.inviteBranch};rport`],
+      ["Max-Forwards", "70"],
+      ["From", `<sip:${this.fromUser}@${this.domain}>;tag=${this.localTag}`],
+      ["To", `<${this.config.uri}>`],
+      ["Call-ID", this.callId],
+      ["CSeq", `${this.inviteCseq} CANCEL`],
+    ]);
+    await this.transact("CANCEL", this.inviteBranch!, raw, TRANSACTION_TIMEOUT);
+  }
+
+  private async sendInDialog(method: string): Promise<SipMessage> {
+    const cseq = ++this.cseq;
+    const raw = this.buildInDialogRequest(method, cseq);
+    const branch = /branch=([^;\s]+)/.exec(raw)![1]!;
+    return this.transact(method, branch, raw, TRANSACTION_TIMEOUT);
+  }
+
+  private buildInDialogRequest(method: string, cseq: number): string {
+    const to = `<${this.config.uri}>${this.remoteTag ? `;tag=${this.remoteTag}` : ""}`;
+    return serializeSipMessage(`${method} ${this.remoteTarget} SIP/2.0`, [
+      ["Via", `SIP/2.0/UDP ${this.localIp}:${this.sipPort};branch=${newBranch()};rport`],
+      ["Max-Forwards", "70"],
+      ...this.routeSet.map((r): [string, string] => ["Route", r]),
+      ["From", `<sip:${this.fromUser}@${this.domain}>;tag=${this.localTag}`],
+      ["To", to],
+      ["Call-ID", this.callId],
+      ["CSeq", `${cseq} ${method}`],
+      ["Contact", this.contact],
+      ["User-Agent", "VoiceCI"],
+    ]);
+  }
+
+  /**
+   * Send a request, answering one digest challenge per realm if the server
+   * asks. `buildHeaders` is called per attempt so CSeq can advance.
+   */
+  private async requestWithAuth(
+    method: string,
+    uri: string,
+    buildHeaders: () => Array<[string, string]>,
+    body = "",
+    timeoutMs = TRANSACTION_TIMEOUT,
+    dest: SipDestination = this.server,
+  ): Promise<SipMessage> {
+    let authHeader: [string, string] | null = null;
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const branch = newBranch();
+      if (method === "INVITE") this.inviteBranch = branch;
+      const headers = buildHeaders();
+      const raw = serializeSipMessage(`${method} ${uri} SIP/2.0`, [
+        ["Via", `SIP/2.0/UDP ${this.localIp}:${this.sipPort};branch=${branch};rport`],
+        ["Max-Forwards", "70"],
+        ...headers,
+        ...(authHeader ? [authHeader] : []),
+        ["User-Agent", "VoiceCI"],
+      ], body);
+
+      const res = await this.transact(method, branch, raw, timeoutMs, dest);
+      if (method === "INVITE" && res.status! >= 300) {
+        // The INVITE is over, so there is nothing left to CANCEL
+        this.inviteBranch = null;
+        // Non-2xx final responses are ACKed within the INVITE transaction
+        this.sendRaw(serializeSipMessage(`ACK ${uri} SIP/2.0`, [
+          ["Via", `SIP/2.0/UDP ${this.localIp}:${this.sipPort};branch=${branch};rport`],
+          ["Max-Forwards", "70"],
+          ["From", headers.find(([n]) => n === "From")![1]],
+          ["To", header(res, "to") ?? `<${uri}>`],
+          ["Call-ID", header(res, "call-id") ?? ""],
+          ["CSeq", `${this.inviteCseq} ACK`],
+        ]));
+      }
+
+      if (res.status !== 401 && res.status !== 407) return res;
+      if (!this.config.username || this.config.password === undefined) {
+        throw new Error(`SIP ${method} requires authentication but no credentials are configured`);
+      }
+
+      const challengeHeader = header(res, res.status === 401 ? "www-authenticate" : "proxy-authenticate");
+      const challenge = challengeHeader ? parseDigestChallenge(challengeHeader) : null;
+      if (!challenge) throw new Error(`SIP ${method}: unsupported auth challenge`);
+
+      // A stale or repeated nonce after we already answered means bad credentials
+      const previous = this.challenges.get(challenge.realm);
+      if (authHeader && previous?.challenge.nonce === challenge.nonce) {
+        throw new Error(`SIP ${method} rejected: invalid credentials for realm "${challenge.realm}"`);
+      }
+      const nc = previous?.challenge.nonce === challenge.nonce ? previous.nc + 1 : 1;
+      this.challenges.set(challenge.realm, { challenge, nc });
+
+      authHeader = [
+        res.status === 401 ? "Authorization" : "Proxy-Authorization",
+        digestAuthorization(challenge, this.config.username, this.config.password, method, uri, nc),
+      ];
+    }
+
+    throw new Error(`SIP ${method}: authentication failed`);
+  }
+
+  /** Run one client transaction: send with retransmissions, resolve on a final response. */
+  private transact(
+    method: string,
+    branch: string,
+    raw: string,
+    timeoutMs: number,
+    dest: SipDestination = this.server,
+  ): Promise<SipMessage> {
+    return new Promise((resolve, reject) => {
+      const key = `${branch}:${method}`;
+      const finish = () => {
+        tx.timers.forEach(clearTimeout);
+        this.transactions.delete(key);
+      };
+      const tx: PendingTransaction = {
+        resolve: (msg) => { finish(); resolve(msg); },
+        reject: (err) => { finish(); reject(err); },
+        provisional: false,
+        timers: [],
+      };
+
+      let interval = T1;
+      const retransmit = () => {
+        // INVITE stops retransmitting once the far end has responded at all
+        if (method === "INVITE" && tx.provisional) return;
+        this.sendRaw(raw, dest);
+        interval = method === "INVITE" ? interval * 2 : Math.min(interval * 2, T2);
+        tx.timers.push(setTimeout(retransmit, interval));
+      };
+      tx.timers.push(setTimeout(() => {
+        tx.reject(new Error(`SIP ${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs));
+
+      this.transactions.set(key, tx);
+      retransmit();
+    });
+  }
+
+  private sendRaw(raw: string, dest: SipDestination = this.server): void {
+    this.sipSocket?.send(raw, dest.port, dest.host);
+  }
+
+  private handleSipPacket(raw: string, rinfo: dgram.RemoteInfo): void {
+    const msg = parseSipMessage(raw);
+    if (!msg) return;
+
+    if (msg.status !== undefined) {
+      this.handleResponse(msg);
+    } else {
+      this.handleRequest(msg, rinfo);
+    }
+  }
+
+  private handleResponse(msg: SipMessage): void {
+    const branch = /branch=([^;\s,]+)/.exec(header(msg, "via") ?? "")?.[1];
+    const method = header(msg, "cseq")?.split(/\s+/)[1];
+    if (!branch || !method) return;
+
+    const tx = this.transactions.get(`${branch}:${method}`);
+    if (!tx) {
+      // Retransmitted 200 OK to INVITE: our ACK was lost, resend it
+      if (method === "INVITE" && msg.status === 200 && this.ackRaw) this.sendRaw(this.ackRaw);
+      return;
+    }
+
+    if (msg.status! < 200) {
+      tx.provisional = true;
+      return;
+    }
+    tx.resolve(msg);
+  }
+
+  private handleRequest(msg: SipMessage, rinfo: dgram.RemoteInfo): void {
+    switch (msg.method) {
+      case "BYE":
+        this.respond(msg, 200, "OK", rinfo);
+        if (this.established) {
+          this.established = false;
+          this.stopRtp();
+          this.emit("disconnected");
+        }
+        break;
+      case "INVITE": {
+        // Re-INVITE (session refresh / hold): keep our media as is
+        const sdp = buildSdpOffer(this.localIp, this.rtpPort, this.media ? [this.media.codec] : this.codecs, Date.now() % 1_000_000_000);
+        this.respond(msg, 200, "OK", rinfo, [["Contact", this.contact], ["Content-Type", "application/sdp"]], sdp);
+        break;
+      }
+      case "ACK":
+        break;
+      case "OPTIONS":
+      case "INFO":
+      case "NOTIFY":
+      case "UPDATE":
+        this.respond(msg, 200, "OK", rinfo);
+        break;
+      case "CANCEL":
+        this.respond(msg, 481, "Call/Transaction Does Not Exist", rinfo);
+        break;
+      default:
+        this.respond(msg, 405, "Method Not Allowed", rinfo, [["Allow", "INVITE, ACK, CANCEL, BYE, OPTIONS"]]);
+    }
+  }
+
+  private respond(
+    req: SipMessage,
+    status: number,
+    reason: string,
+    rinfo: dgram.RemoteInfo,
+    extra: Array<[string, string]> = [],
+    body = "",
+  ): void {
+    const to = header(req, "to") ?? "";
+    const raw = serializeSipMessage(`SIP/2.0 ${status} ${reason}`, [
+      ...(req.headers.get("via") ?? []).map((v): [string, string] => ["Via", v]),
+      ["From", header(req, "from") ?? ""],
+      ["To", tagOf(to) ? to : `${to};tag=${this.localTag}`],
+      ["Call-ID", header(req, "call-id") ?? ""],
+      ["CSeq", header(req, "cseq") ?? ""],
+      ...extra,
+    ], body);
+    // Reply where the request came from (rport-style), which also works behind NAT
+    this.sipSocket?.send(raw, rinfo.port, rinfo.address);
+  }
+
+  // ============================================================
+  // Media
+  // ============================================================
+
+  private startRtp(): void {
+    this.nextFrameAt = performance.now();
+    // Tick faster than the frame interval and send whatever is due, so timer jitter doesn't accumulate
+    this.rtpTimer = setInterval(() => {
+      const now = performance.now();
+      while (this.nextFrameAt <= now) {
+        this.sendRtpFrame();
+        this.nextFrameAt += 20;
+      }
+    }, 10);
+  }
+
+  private stopRtp(): void {
+    if (this.rtpTimer) {
+      clearInterval(this.rtpTimer);
+      this.rtpTimer = null;
+    }
+    this.sendQueue = [];
+  }
+
+  private sendRtpFrame(): void {
+    if (!this.media || !this.rtpSocket || this.media.address === "0.0.0.0") return;
+
+    const next = this.sendQueue.shift() ?? Buffer.alloc(FRAME_BYTES, SILENCE_BYTE[this.media.codec]);
+    let payload: Buffer;
+    let payloadType = this.media.payloadType;
+    let timestamp = this.rtpTimestamp;
+    let marker = this.rtpMarker;
+
+    if (Buffer.isBuffer(next)) {
+      payload = next;
+    } else {
+      // Every packet of an event carries the timestamp of its first packet
+      if (next.start) this.dtmfTimestamp = this.rtpTimestamp;
+      payload = Buffer.alloc(4);
+      payload[0] = next.event;
+      payload[1] = (next.end ? 0x80 : 0) | 10; // volume -10 dBm0
+      payload.writeUInt16BE(next.duration, 2);
+      payloadType = this.media.dtmfPayloadType ?? payloadType;
+      timestamp = this.dtmfTimestamp;
+      marker = next.start;
+    }
+
+    const packet = Buffer.alloc(12 + payload.length);
+    packet[0] = 0x80; // V=2, no padding/extension/CSRC
+    packet[1] = (marker ? 0x80 : 0) | payloadType;
+    packet.writeUInt16BE(this.rtpSeq, 2);
+    packet.writeUInt32BE(timestamp >>> 0, 4);
+    packet.writeUInt32BE(this.rtpSsrc >>> 0, 8);
+    payload.copy(packet, 12);
+
+    this.rtpMarker = false;
+    this.rtpSeq = (this.rtpSeq + 1) & 0xffff;
+    this.rtpTimestamp = (this.rtpTimestamp + FRAME_BYTES) >>> 0;
+    this.rtpSocket.send(packet, this.media.port, this.media.address);
+  }
+
+  private handleRtpPacket(packet: Buffer): void {
+    if (packet.length < 12 || packet[0]! >> 6 !== 2 || !this.media) return;
+
+    const csrcCount = packet[0]! & 0x0f;
+    const hasExtension = (packet[0]! & 0x10) !== 0;
+    const hasPadding = (packet[0]! & 0x20) !== 0;
+    const payloadType = packet[1]! & 0x7f;
+
+    let offset = 12 + csrcCount * 4;
+    if (hasExtension && packet.length >= offset + 4) {
+      offset += 4 + packet.readUInt16BE(offset + 2) * 4;
+    }
+    const end = hasPadding ? packet.length - packet[packet.length - 1]! : packet.length;
+    if (offset >= end) return;
+
+    if (payloadType === this.media.dtmfPayloadType) {
+      // One digit per event — retransmits and duration updates share its timestamp
+      const timestamp = packet.readUInt32BE(4);
+      const digit = DTMF_EVENTS[packet[offset]!];
+      if (digit && timestamp !== this.lastReceivedDtmf) {
+        this.lastReceivedDtmf = timestamp;
+        this.emit("dtmf", digit);
+      }
+      return;
+    }
+
+    // Otherwise only G.711 audio — comfort noise etc. are ignored
+    let pcm8k: Buffer;
+    if (payloadType === 0) pcm8k = mulawToPcm(packet.subarray(offset, end));
+    else if (payloadType === 8) pcm8k = alawToPcm(packet.subarray(offset, end));
+    else return;
+
+    this.emit("audio", resample(pcm8k, 8000, 24000));
+  }
+}
+
+function bindUdp(): Promise<dgram.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket("udp4");
+    socket.once("error", reject);
+    socket.bind(0, () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+  });
+}
+
+/** The local address the OS would route from to reach `host` (no packets are sent). */
+async function detectLocalIp(host: string, port: number): Promise<string> {
+  const probe = dgram.createSocket("udp4");
+  try {
+    await new Promise<void>((resolve, reject) => {
+      probe.once("error", reject);
+      probe.connect(port, host, () => resolve());
+    });
+    return probe.address().address;
+  } finally {
+    probe.close();
+  }
+}
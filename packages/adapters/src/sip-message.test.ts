@@ -0,0 +1,177 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import {
+  buildSdpOffer,
+  digestAuthorization,
+  header,
+  parseDigestChallenge,
+  parseSdpAnswer,
+  parseSipMessage,
+  parseSipUri,
+  serializeSipMessage,
+  tagOf,
+  uriOf,
+} from "./sip-message.js";
+
+const md5 = (s: string) => createHash("md5").update(s).digest("hex");
+const sha256 = (s: string) => createHash("sha256").update(s).digest("hex");
+
+/** Parameters of an Authorization header value */
+function authParams(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const m of value.slice(7).matchAll(/(\w+)=(?:"([^"]*)"|([^,\s]+))/g)) params[m[1]!] = m[2] ?? m[3]!;
+  return params;
+}
+
+test("requests and responses parse with compact and repeated headers", () => {
+  const invite = parseSipMessage(
+    [
+      "INVITE sip:agent@10.0.0.5:5080 SIP/2.0",
+      "v: SIP/2.0/UDP 10.0.0.1;branch=z9hG4bK1",
+      "Via: SIP/2.0/UDP 10.0.0.2;branch=z9hG4bK2",
+      'f: "Caller" <sip:caller@10.0.0.1>;tag=abc',
+      "To: <sip:agent@10.0.0.5>",
+      "i: call-1",
+      "Content-Type: application/sdp",
+      "",
+      "v=0\r\n",
+    ].join("\r\n"),
+  )!;
+  assert.equal(invite.method, "INVITE");
+  assert.equal(invite.uri, "sip:agent@10.0.0.5:5080");
+  assert.deepEqual(invite.headers.get("via"), ["SIP/2.0/UDP 10.0.0.1;branch=z9hG4bK1", "SIP/2.0/UDP 10.0.0.2;branch=z9hG4bK2"]);
+  assert.equal(header(invite, "Call-ID"), "call-1");
+  assert.equal(tagOf(header(invite, "from")), "abc");
+  assert.equal(tagOf(header(invite, "to")), undefined);
+  assert.equal(invite.body, "v=0\r\n");
+
+  const ringing = parseSipMessage("SIP/2.0 180 Ringing\r\nTo: <sip:a@b>;tag=x\r\n\r\n")!;
+  assert.deepEqual([ringing.status, ringing.reason, ringing.method], [180, "Ringing", undefined]);
+  assert.equal(parseSipMessage("SIP/2.0 200\r\n\r\n")!.reason, "");
+
+  assert.equal(parseSipMessage(""), null);
+  assert.equal(parseSipMessage("HTTP/1.1 200 OK\r\n\r\n"), null);
+});
+
+test("serialization recomputes Content-Length in bytes and round-trips", () => {
+  const raw = serializeSipMessage(
+    "MESSAGE sip:agent@example.com SIP/2.0",
+    [["Call-ID", "c1"], ["Content-Length", "999"]],
+    "héllo",
+  );
+  const parsed = parseSipMessage(raw)!;
+  assert.deepEqual(parsed.headers.get("content-length"), ["6"]);
+  assert.equal(parsed.body, "héllo");
+  assert.equal(header(parsed, "call-id"), "c1");
+});
+
+test("name-addrs and SIP URIs yield their parts", () => {
+  assert.equal(uriOf('"Bob" <sip:bob@host:5070;transport=udp>;tag=x'), "sip:bob@host:5070;transport=udp");
+  assert.equal(uriOf("sip:bob@host;tag=x"), "sip:bob@host");
+  assert.deepEqual(parseSipUri("sip:bob@pbx.example.com:5070;transport=udp"), { user: "bob", host: "pbx.example.com", port: 5070 });
+  assert.deepEqual(parseSipUri("sips:10.0.0.9"), { user: undefined, host: "10.0.0.9", port: 5060 });
+  assert.throws(() => parseSipUri("tel:+15550001"), /Invalid SIP URI/);
+});
+
+test("digest challenges parse quoted and bare parameters", () => {
+  assert.deepEqual(
+    parseDigestChallenge('Digest realm="asterisk", nonce="n0nce", qop="auth,auth-int", opaque="op", algorithm=SHA-256'),
+    { realm: "asterisk", nonce: "n0nce", algorithm: "SHA-256", qop: "auth", opaque: "op" },
+  );
+  assert.deepEqual(
+    parseDigestChallenge('Digest realm="asterisk",nonce=abc'),
+    { realm: "asterisk", nonce: "abc", algorithm: "MD5", qop: undefined, opaque: undefined },
+  );
+  // Only auth-int offered: answered without qop
+  assert.equal(parseDigestChallenge('Digest realm="r", nonce="n", qop="auth-int"')!.qop, undefined);
+  assert.equal(parseDigestChallenge('Basic realm="r"'), null);
+  assert.equal(parseDigestChallenge('Digest nonce="n"'), null);
+});
+
+test("digest responses match RFC 2617 with and without qop", () => {
+  const uri = "sip:agent@pbx.example.com";
+  const ha1 = md5("alice:asterisk:s3cret");
+  const ha2 = md5(`INVITE:${uri}`);
+
+  const legacy = authParams(
+    digestAuthorization({ realm: "asterisk", nonce: "n1", algorithm: "MD5" }, "alice", "s3cret", "INVITE", uri),
+  );
+  assert.equal(legacy["response"], md5(`${ha1}:n1:${ha2}`));
+  assert.equal(legacy["qop"], undefined);
+  assert.equal(legacy["cnonce"], undefined);
+
+  const value = digestAuthorization(
+    { realm: "asterisk", nonce: "n2", algorithm: "MD5", qop: "auth", opaque: "op" },
+    "alice",
+    "s3cret",
+    "INVITE",
+    uri,
+    3,
+  );
+  const params = authParams(value);
+  assert.ok(value.startsWith("Digest "));
+  assert.deepEqual(
+    { username: params["username"], realm: params["realm"], uri: params["uri"], nc: params["nc"], qop: params["qop"], opaque: params["opaque"] },
+    { username: "alice", realm: "asterisk", uri, nc: "00000003", qop: "auth", opaque: "op" },
+  );
+  assert.equal(params["response"], md5(`${ha1}:n2:00000003:${params["cnonce"]}:auth:${ha2}`));
+});
+
+test("SHA-256 challenges are answered with SHA-256 (RFC 8760)", () => {
+  const uri = "sip:agent@pbx.example.com";
+  const params = authParams(
+    digestAuthorization({ realm: "r", nonce: "n", algorithm: "SHA-256", qop: "auth" }, "alice", "pw", "REGISTER", uri),
+  );
+  const ha1 = sha256("alice:r:pw");
+  const ha2 = sha256(`REGISTER:${uri}`);
+  assert.equal(params["algorithm"], "SHA-256");
+  assert.equal(params["response"], sha256(`${ha1}:n:00000001:${params["cnonce"]}:auth:${ha2}`));
+});
+
+test("an offer parses back to its first codec and telephone-event", () => {
+  const offer = buildSdpOffer("10.0.0.1", 40000, ["PCMU", "PCMA"], 42);
+  assert.match(offer, /^m=audio 40000 RTP\/AVP 0 8 101$/m);
+  assert.deepEqual(parseSdpAnswer(offer, ["PCMU", "PCMA"]), {
+    address: "10.0.0.1",
+    port: 40000,
+    codec: "PCMU",
+    payloadType: 0,
+    dtmfPayloadType: 101,
+  });
+});
+
+test("answers use media-level addresses, rtpmap names, and skip other media", () => {
+  const answer = [
+    "v=0",
+    "o=pbx 1 1 IN IP4 192.0.2.1",
+    "c=IN IP4 192.0.2.1",
+    "t=0 0",
+    "m=video 50000 RTP/AVP 96",
+    "c=IN IP4 192.0.2.99",
+    "a=rtpmap:96 PCMU/8000",
+    "m=audio 30000 RTP/AVP 18 8 96",
+    "c=IN IP4 192.0.2.7",
+    "a=rtpmap:18 G729/8000",
+    "a=rtpmap:8 PCMA/8000",
+    "a=rtpmap:96 telephone-event/8000",
+  ].join("\n");
+
+  assert.deepEqual(parseSdpAnswer(answer, ["PCMU", "PCMA"]), {
+    address: "192.0.2.7",
+    port: 30000,
+    codec: "PCMA",
+    payloadType: 8,
+    dtmfPayloadType: 96,
+  });
+  // No rtpmap for a static type, no telephone-event
+  const bare = "v=0\r\nc=IN IP4 192.0.2.1\r\nm=audio 30000 RTP/AVP 0\r\n";
+  assert.deepEqual(parseSdpAnswer(bare, ["PCMU"]), {
+    address: "192.0.2.1",
+    port: 30000,
+    codec: "PCMU",
+    payloadType: 0,
+    dtmfPayloadType: undefined,
+  });
+  assert.throws(() => parseSdpAnswer(bare, ["PCMA"]), /No common codec in SDP answer \(offered PCMA\)/);
+});
@@ -0,0 +1,260 @@
+/**
+ * Minimal SIP message handling for the sip-direct adapter: parsing and
+ * serializing requests/responses (RFC 3261), digest authentication
+ * (RFC 2617 / RFC 8760), and the small slice of SDP (RFC 4566) needed to
+ * negotiate a single G.711 audio stream plus RFC 4733 telephone-events.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+
+export interface SipMessage {
+  /** Set for requests */
+  method?: string;
+  uri?: string;
+  /** Set for responses */
+  status?: number;
+  reason?: string;
+  /** Header names are lower-cased; repeated headers keep every value */
+  headers: Map<string, string[]>;
+  body: string;
+}
+
+/** Compact header forms (RFC 3261 §7.3.3) mapped to their long names. */
+const COMPACT_HEADERS: Record<string, string> = {
+  v: "via",
+  f: "from",
+  t: "to",
+  i: "call-id",
+  m: "contact",
+  l: "content-length",
+  c: "content-type",
+};
+
+export function parseSipMessage(raw: string): SipMessage | null {
+  const split = raw.indexOf("\r\n\r\n");
+  const head = split === -1 ? raw : raw.slice(0, split);
+  const body = split === -1 ? "" : raw.slice(split + 4);
+  const [startLine, ...lines] = head.split("\r\n");
+  if (!startLine) return null;
+
+  const headers = new Map<string, string[]>();
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    let name = line.slice(0, colon).trim().toLowerCase();
+    name = COMPACT_HEADERS[name] ?? name;
+    const values = headers.get(name) ?? [];
+    values.push(line.slice(colon + 1).trim());
+    headers.set(name, values);
+  }
+
+  const status = /^SIP\/2\.0 (\d{3}) ?(.*)$/.exec(startLine);
+  if (status) {
+    return { status: Number(status[1]), reason: status[2] ?? "", headers, body };
+  }
+  const request = /^([A-Z]+) (\S+) SIP\/2\.0$/.exec(startLine);
+  if (request) {
+    return { method: request[1], uri: request[2], headers, body };
+  }
+  return null;
+}
+
+export function header(msg: SipMessage, name: string): string | undefined {
+  return msg.headers.get(name.toLowerCase())?.[0];
+}
+
+/** Serialize a request or response. Content-Length is always recomputed. */
+export function serializeSipMessage(
+  startLine: string,
+  headers: Array<[string, string]>,
+  body = "",
+): string {
+  const lines = [startLine];
+  for (const [name, value] of headers) {
+    if (name.toLowerCase() !== "content-length") lines.push(`${name}: ${value}`);
+  }
+  lines.push(`Content-Length: ${Buffer.byteLength(body)}`);
+  return `${lines.join("\r\n")}\r\n\r\n${body}`;
+}
+
+export function randomToken(bytes = 8): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+/** RFC 3261 magic-cookie branch so proxies treat us as a compliant UA. */
+export function newBranch(): string {
+  return `z9hG4bK${randomToken()}`;
+}
+
+/** Value of a `;tag=` parameter in a From/To header. */
+export function tagOf(value: string | undefined): string | undefined {
+  return value ? /;\s*tag=([^;>\s]+)/i.exec(value)?.[1] : undefined;
+}
+
+/** The URI inside a name-addr (`"Bob" <sip:bob@host>;tag=x` → `sip:bob@host`). */
+export function uriOf(value: string): string {
+  const angled = /<([^>]+)>/.exec(value);
+  return (angled ? angled[1]! : value.split(";")[0]!).trim();
+}
+
+export interface SipUri {
+  user?: string;
+  host: string;
+  port: number;
+}
+
+export function parseSipUri(uri: string): SipUri {
+  const match = /^sips?:(?:([^@]+)@)?([^:;>]+)(?::(\d+))?/i.exec(uri.trim());
+  if (!match) throw new Error(`Invalid SIP URI: ${uri}`);
+  return {
+    user: match[1],
+    host: match[2]!,
+    port: match[3] ? Number(match[3]) : 5060,
+  };
+}
+
+// ============================================================
+// Digest authentication
+// ============================================================
+
+export interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  algorithm: string;
+  qop?: string;
+  opaque?: string;
+}
+
+export function parseDigestChallenge(value: string): DigestChallenge | null {
+  if (!/^Digest\s/i.test(value)) return null;
+  const params: Record<string, string> = {};
+  for (const m of value.slice(7).matchAll(/(\w+)\s*=\s*(?:"([^"]*)"|([^,\s]+))/g)) {
+    params[m[1]!.toLowerCase()] = m[2] ?? m[3] ?? "";
+  }
+  if (!params["realm"] || !params["nonce"]) return null;
+  return {
+    realm: params["realm"],
+    nonce: params["nonce"],
+    algorithm: params["algorithm"] ?? "MD5",
+    // Servers may offer "auth,auth-int" — we only do "auth"
+    qop: params["qop"]?.split(",").map((q) => q.trim()).includes("auth") ? "auth" : undefined,
+    opaque: params["opaque"],
+  };
+}
+
+/**
+ * Build an Authorization / Proxy-Authorization header value answering
+ * `challenge` for `method uri`. `nc` is the nonce count for this nonce.
+ */
+export function digestAuthorization(
+  challenge: DigestChallenge,
+  username: string,
+  password: string,
+  method: string,
+  uri: string,
+  nc = 1,
+): string {
+  const algorithm = challenge.algorithm.toUpperCase() === "SHA-256" ? "sha256" : "md5";
+  const hash = (s: string) => createHash(algorithm).update(s).digest("hex");
+
+  const ha1 = hash(`${username}:${challenge.realm}:${password}`);
+  const ha2 = hash(`${method}:${uri}`);
+  const ncValue = nc.toString(16).padStart(8, "0");
+  const cnonce = randomToken();
+  const response = challenge.qop
+    ? hash(`${ha1}:${challenge.nonce}:${ncValue}:${cnonce}:${challenge.qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const parts = [
+    `username="${username}"`,
+    `realm="${challenge.realm}"`,
+    `nonce="${challenge.nonce}"`,
+    `uri="${uri}"`,
+    `response="${response}"`,
+    `algorithm=${challenge.algorithm}`,
+  ];
+  if (challenge.qop) parts.push(`qop=${challenge.qop}`, `nc=${ncValue}`, `cnonce="${cnonce}"`);
+  if (challenge.opaque !== undefined) parts.push(`opaque="${challenge.opaque}"`);
+  return `Digest ${parts.join(", ")}`;
+}
+
+// ============================================================
+// SDP
+// ============================================================
+
+export type G711Codec = "PCMU" | "PCMA";
+
+/** Static RTP payload types (RFC 3551). */
+export const G711_PAYLOAD_TYPES: Record<G711Codec, number> = { PCMU: 0, PCMA: 8 };
+
+/** Dynamic payload type we offer for telephone-event (DTMF) */
+export const TELEPHONE_EVENT_PAYLOAD_TYPE = 101;
+
+export function buildSdpOffer(
+  localIp: string,
+  rtpPort: number,
+  codecs: G711Codec[],
+  sessionId: number,
+): string {
+  const payloads = [...codecs.map((c) => G711_PAYLOAD_TYPES[c]), TELEPHONE_EVENT_PAYLOAD_TYPE];
+  return [
+    "v=0",
+    `o=voiceci ${sessionId} ${sessionId} IN IP4 ${localIp}`,
+    "s=VoiceCI",
+    `c=IN IP4 ${localIp}`,
+    "t=0 0",
+    `m=audio ${rtpPort} RTP/AVP ${payloads.join(" ")}`,
+    ...codecs.map((c) => `a=rtpmap:${G711_PAYLOAD_TYPES[c]} ${c}/8000`),
+    `a=rtpmap:${TELEPHONE_EVENT_PAYLOAD_TYPE} telephone-event/8000`,
+    `a=fmtp:${TELEPHONE_EVENT_PAYLOAD_TYPE} 0-15`,
+    "a=ptime:20",
+    "a=sendrecv",
+    "",
+  ].join("\r\n");
+}
+
+export interface SdpAnswer {
+  address: string;
+  port: number;
+  codec: G711Codec;
+  payloadType: number;
+  /** Set when the answer accepted telephone-event */
+  dtmfPayloadType?: number;
+}
+
+/**
+ * Pick the first audio payload in the answer that we offered. Payload types
+ * are static for G.711, but rtpmap names are honored when present.
+ */
+export function parseSdpAnswer(sdp: string, offered: G711Codec[]): SdpAnswer {
+  const lines = sdp.split(/\r?\n/);
+  let address = "";
+  let port = 0;
+  let payloads: number[] = [];
+  const rtpmap = new Map<number, string>();
+  let inAudio = false;
+
+  for (const line of lines) {
+    if (line.startsWith("m=")) {
+      inAudio = line.startsWith("m=audio ");
+      if (inAudio) {
+        const [, portStr, , ...pts] = line.slice(2).split(" ");
+        port = Number(portStr);
+        payloads = pts.map(Number);
+      }
+    } else if (line.startsWith("c=IN IP4 ") && (inAudio || !address)) {
+      address = line.slice(9).trim();
+    } else if (inAudio && line.startsWith("a=rtpmap:")) {
+      const m = /^a=rtpmap:(\d+) ([\w-]+)\//.exec(line);
+      if (m) rtpmap.set(Number(m[1]), m[2]!.toUpperCase());
+    }
+  }
+
+  const dtmfPayloadType = payloads.find((pt) => rtpmap.get(pt) === "TELEPHONE-EVENT");
+  for (const pt of payloads) {
+    const name = rtpmap.get(pt) ?? (pt === 0 ? "PCMU" : pt === 8 ? "PCMA" : "");
+    const codec = offered.find((c) => c === name);
+    if (codec) return { address, port, codec, payloadType: pt, dtmfPayloadType };
+  }
+  throw new Error(`No common codec in SDP answer (offered ${offered.join(", ")})`);
+}
@@ -0,0 +1,371 @@
+/**
+ * Twilio Audio Channel (Twilio Media Streams)
+ *
+ * Streams bidirectional audio through a Twilio <Connect><Stream> over
+ * WebSocket. Handles PCM 24kHz <-> mulaw 8kHz conversion internally.
+ *
+ * Supports two modes:
+ *   - outbound (default): Places a call via the Twilio REST API to
+ *     phoneNumber with inline TwiML pointing at our stream endpoint
+ *   - inbound: Points fromNumber's voice URL at our TwiML endpoint, fires
+ *     the trigger that tells the agent to dial, waits for its call, and
+ *     restores the URL on disconnect. Ringing is simulated by holding the
+ *     TwiML response (Twilio gives up after 15s, so at most 2 rings);
+ *     declined calls get <Reject reason="busy">.
+ *
+ * Media Streams events handled: connected, start, media, mark, dtmf, stop.
+ * Media Streams can't send DTMF, so outgoing digits are in-band tones.
+ */
+
+import { WebSocketServer, WebSocket } from "ws";
+import http from "node:http";
+import { pcmToMulaw, mulawToPcm, resample } from "@voiceci/voice";
+import { BaseAudioChannel } from "./audio-channel.js";
+import { fireInboundTrigger, RING_MS, type InboundAnswerOptions } from "./inbound-trigger.js";
+
+export interface TwilioAudioChannelConfig {
+  phoneNumber: string;
+  fromNumber: string;
+  accountSid: string;
+  authToken: string;
+  publicHost: string;
+  /** "outbound" (default): Twilio dials phoneNumber. "inbound": wait for incoming call on fromNumber. */
+  mode?: "inbound" | "outbound";
+  /** inbound only: trigger, timeout, and how to answer */
+  inbound?: InboundAnswerOptions;
+  /** REST base (default https://api.twilio.com) — pointed at a mock by the conformance kit */
+  apiBaseUrl?: string;
+}
+
+interface TwilioStreamMessage {
+  event: "connected" | "start" | "media" | "mark" | "dtmf" | "stop";
+  streamSid?: string;
+  start?: { streamSid: string; callSid: string };
+  media?: { track?: string; payload: string };
+  mark?: { name: string };
+  dtmf?: { track?: string; digit: string };
+}
+
+interface IncomingNumber {
+  sid: string;
+  voice_url: string;
+  voice_method: string;
+}
+
+const TWILIO_API = "https://api.twilio.com";
+/** Longest we can hold a TwiML webhook before Twilio times it out (15s) */
+const MAX_RING_HOLD_MS = 14_000;
+
+export class TwilioAudioChannel extends BaseAudioChannel {
+  private config: TwilioAudioChannelConfig;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private mediaWs: WebSocket | null = null;
+  private streamSid: string | null = null;
+  private port = 0;
+  private callSid: string | null = null;
+  /** Inbound mode: the number we repointed, and its original voice URL */
+  private borrowedNumber: IncomingNumber | null = null;
+  /** Marks sent after each sendAudio, cleared as Twilio finishes playing them */
+  private pendingMarks = new Set<string>();
+  private markCounter = 0;
+  /** Inbound mode: Twilio fetched our TwiML, i.e. the agent's call arrived */
+  private callReceived = false;
+
+  constructor(config: TwilioAudioChannelConfig) {
+    super();
+    this.config = config;
+  }
+
+  get connected(): boolean {
+    return this.mediaWs !== null;
+  }
+
+  /** True while caller audio is still queued on Twilio's side. */
+  get playing(): boolean {
+    return this.pendingMarks.size > 0;
+  }
+
+  async connect(): Promise<void> {
+    await this.startServer();
+
+    try {
+      if (this.config.mode === "inbound") {
+        await this.setupInbound();
+        const { trigger, dial, decline } = this.config.inbound ?? {};
+        if (dial) {
+          await dial();
+        } else if (trigger) {
+          await fireInboundTrigger(trigger, this.config.fromNumber);
+        }
+        if (decline) {
+          await this.waitForIncomingCall();
+          return;
+        }
+      } else {
+        await this.placeOutboundCall();
+      }
+
+      await this.waitForMediaConnection();
+    } catch (err) {
+      // Restore the number and stop the server before reporting the failure
+      await this.disconnect();
+      throw err;
+    }
+  }
+
+  sendAudio(pcm: Buffer): void {
+    if (!this.mediaWs || !this.streamSid) {
+      throw new Error("Twilio media stream not connected");
+    }
+
+    // PCM 24kHz → 8kHz → mulaw → base64 media events
+    const pcm8k = resample(pcm, 24000, 8000);
+    const mulaw = pcmToMulaw(pcm8k);
+
+    const CHUNK_SIZE = 160; // 20ms at 8kHz mulaw
+    for (let offset = 0; offset < mulaw.length; offset += CHUNK_SIZE) {
+      const chunk = mulaw.subarray(
+        offset,
+        Math.min(offset + CHUNK_SIZE, mulaw.length)
+      );
+      this.mediaWs.send(JSON.stringify({
+        event: "media",
+        streamSid: this.streamSid,
+        media: { payload: chunk.toString("base64") },
+      }));
+    }
+
+    // Twilio echoes the mark back once everything before it has played
+    const name = `voiceci-${++this.markCounter}`;
+    this.pendingMarks.add(name);
+    this.mediaWs.send(JSON.stringify({
+      event: "mark",
+      streamSid: this.streamSid,
+      mark: { name },
+    }));
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.callSid) {
+      await this.twilioRequest(`/Calls/${this.callSid}.json`, { Status: "completed" }).catch(() => {});
+      this.callSid = null;
+    }
+
+    if (this.borrowedNumber) {
+      const { sid, voice_url, voice_method } = this.borrowedNumber;
+      await this.twilioRequest(`/IncomingPhoneNumbers/${sid}.json`, {
+        VoiceUrl: voice_url,
+        VoiceMethod: voice_method,
+      }).catch(() => {});
+      this.borrowedNumber = null;
+    }
+
+    if (this.mediaWs) {
+      this.mediaWs.close();
+      this.mediaWs = null;
+    }
+    if (this.wss) {
+      this.wss.close();
+      this.wss = null;
+    }
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+    this.streamSid = null;
+    this.pendingMarks.clear();
+  }
+
+  private get streamUrl(): string {
+    return `wss://${this.config.publicHost}:${this.port}/stream`;
+  }
+
+  private twiml(): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      "<Response>",
+      "  <Connect>",
+      `    <Stream url="${this.streamUrl}" />`,
+      "  </Connect>",
+      "</Response>",
+    ].join("\n");
+  }
+
+  private async placeOutboundCall(): Promise<void> {
+    const call = await this.twilioRequest<{ sid: string }>("/Calls.json", {
+      To: this.config.phoneNumber,
+      From: this.config.fromNumber,
+      Twiml: this.twiml(),
+    });
+    this.callSid = call.sid;
+  }
+
+  private async setupInbound(): Promise<void> {
+    const list = await this.twilioRequest<{ incoming_phone_numbers: IncomingNumber[] }>(
+      `/IncomingPhoneNumbers.json?PhoneNumber=${encodeURIComponent(this.config.fromNumber)}`
+    );
+    const number = list.incoming_phone_numbers[0];
+    if (!number) {
+      throw new Error(`Twilio number ${this.config.fromNumber} not found on this account`);
+    }
+
+    await this.twilioRequest(`/IncomingPhoneNumbers/${number.sid}.json`, {
+      VoiceUrl: `https://${this.config.publicHost}:${this.port}/twiml`,
+      VoiceMethod: "POST",
+    });
+    this.borrowedNumber = number;
+  }
+
+  /** GET when `form` is omitted, otherwise POST form-encoded (Twilio's REST convention). */
+  private async twilioRequest<T>(path: string, form?: Record<string, string>): Promise<T> {
+    const auth = Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString("base64");
+    const base = `${this.config.apiBaseUrl ?? TWILIO_API}/2010-04-01`;
+    const res = await fetch(`${base}/Accounts/${this.config.accountSid}${path}`, {
+      method: form ? "POST" : "GET",
+      headers: {
+        Authorization: `Basic ${auth}`,
+        ...(form ? { "Content-Type": "application/x-www-form-urlencoded" } : {}),
+      },
+      body: form ? new URLSearchParams(form).toString() : undefined,
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      throw new Error(`Twilio request ${path.split("?")[0]} failed (${res.status}): ${errorText}`);
+    }
+    return (await res.json()) as T;
+  }
+
+  private async startServer(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server = http.createServer((req, res) => {
+        if (req.url?.startsWith("/twiml")) {
+          this.callReceived = true;
+          const rings = this.config.inbound?.rings ?? 0;
+          setTimeout(() => {
+            res.writeHead(200, { "Content-Type": "application/xml" });
+            res.end(this.config.inbound?.decline ? REJECT_TWIML : this.twiml());
+          }, Math.min(rings * RING_MS, MAX_RING_HOLD_MS));
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+
+      this.wss = new WebSocketServer({ server: this.server });
+
+      this.wss.on("connection", (ws) => {
+        this.mediaWs = ws;
+
+        ws.on("message", (data) => {
+          let msg: TwilioStreamMessage;
+          try {
+            msg = JSON.parse(data.toString()) as TwilioStreamMessage;
+          } catch {
+            return;
+          }
+          this.handleStreamMessage(msg);
+        });
+
+        ws.on("close", () => {
+          if (this.mediaWs !== ws) return;
+          this.mediaWs = null;
+          this.emit("disconnected");
+        });
+
+        ws.on("error", (err) => {
+          this.emit("error", err);
+        });
+      });
+
+      this.server.listen(0, () => {
+        const addr = this.server!.address();
+        if (addr && typeof addr !== "string") {
+          this.port = addr.port;
+        }
+        resolve();
+      });
+    });
+  }
+
+  private handleStreamMessage(msg: TwilioStreamMessage): void {
+    switch (msg.event) {
+      case "start":
+        this.streamSid = msg.start?.streamSid ?? msg.streamSid ?? null;
+        // Inbound calls are created by the caller — learn the SID here so we can hang up
+        this.callSid ??= msg.start?.callSid ?? null;
+        break;
+
+      case "media": {
+        if (!msg.media?.payload || (msg.media.track && msg.media.track !== "inbound")) return;
+        // mulaw 8kHz → PCM 24kHz
+        const pcm8k = mulawToPcm(Buffer.from(msg.media.payload, "base64"));
+        this.emit("audio", resample(pcm8k, 8000, 24000));
+        break;
+      }
+
+      case "mark":
+        if (msg.mark?.name) this.pendingMarks.delete(msg.mark.name);
+        break;
+
+      case "dtmf":
+        if (msg.dtmf?.digit) this.emit("dtmf", msg.dtmf.digit);
+        break;
+
+      case "stop":
+        // The call ended on Twilio's side (remote hangup or call completed)
+        this.callSid = null;
+        this.streamSid = null;
+        this.pendingMarks.clear();
+        this.mediaWs?.close();
+        break;
+
+      case "connected":
+        break;
+    }
+  }
+
+  private async waitForIncomingCall(): Promise<void> {
+    const maxWait = this.config.inbound?.timeoutMs ?? 120_000;
+    const start = Date.now();
+
+    while (!this.callReceived && Date.now() - start < maxWait) {
+      await sleep(200);
+    }
+
+    if (!this.callReceived) {
+      throw new Error(`No inbound call to ${this.config.fromNumber} within ${Math.round(maxWait / 1000)}s`);
+    }
+  }
+
+  private async waitForMediaConnection(): Promise<void> {
+    const maxWait = this.config.mode === "inbound"
+      ? (this.config.inbound?.timeoutMs ?? 120_000) + MAX_RING_HOLD_MS
+      : 30_000;
+    const start = Date.now();
+
+    while (!this.streamSid && Date.now() - start < maxWait) {
+      await sleep(200);
+    }
+
+    if (!this.streamSid) {
+      throw new Error(
+        this.config.mode === "inbound" && !this.callReceived
+          ? `No inbound call to ${this.config.fromNumber} within ${Math.round(maxWait / 1000)}s`
+          : "Twilio media stream connection timed out"
+      );
+    }
+  }
+}
+
+const REJECT_TWIML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  "<Response>",
+  '  <Reject reason="busy" />',
+  "</Response>",
+].join("\n");
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
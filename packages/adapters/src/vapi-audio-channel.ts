@@ -16,8 +16,12 @@ import { BaseAudioChannel } from "./audio-channel.js";
 export interface VapiAudioChannelConfig {
   apiKey: string;
   assistantId: string;
+  /** REST base (default https://api.vapi.ai) — pointed at a mock by the conformance kit */
+  apiBaseUrl?: string;
 }
 
+const VAPI_API = "https://api.vapi.ai";
+
 interface VapiCreateCallResponse {
   id: string;
   transport?: {
@@ -66,7 +70,7 @@ export class VapiAudioChannel extends BaseAudioChannel {
 
   async connect(): Promise<void> {
     // Create call via Vapi API with WebSocket transport
-    const res = await fetch("https://api.vapi.ai/call", {
+    const res = await fetch(`${this.config.apiBaseUrl ?? VAPI_API}/call`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${this.config.apiKey}`,
@@ -124,7 +128,7 @@ export class VapiAudioChannel extends BaseAudioChannel {
     // Wait briefly for Vapi to process the call data
     await sleep(2000);
 
-    const res = await fetch(`https://api.vapi.ai/call/${this.callId}`, {
+    const res = await fetch(`${this.config.apiBaseUrl ?? VAPI_API}/call/${this.callId}`, {
       headers: { Authorization: `Bearer ${this.config.apiKey}` },
     });
 
@@ -154,6 +158,7 @@ export class VapiAudioChannel extends BaseAudioChannel {
 
         ws.on("error", (err) => this.emit("error", err));
         ws.on("close", () => {
+          if (this.ws !== ws) return;
           this.ws = null;
           this.emit("disconnected");
         });
@@ -7,7 +7,14 @@
  *
  * Supports tool call capture via DataChannel on topic "voiceci:tool-calls".
  * Agents emit JSON tool call events via publishData() or sendText(),
- * and this adapter collects them for getCallData().
+ * and this adapter collects them for getCallData(). Besides our own
+ * tool_call shape, LiveKit Agents chat items (function_call /
+ * function_call_output, paired by call_id) are accepted as-is.
+ *
+ * LiveKit Agents also report on themselves, and we surface that:
+ *   - the "lk.agent.state" participant attribute → "agent_state" events
+ *   - "lk.transcription" text streams → "transcription" events (the agent's
+ *     own speech, and what it heard from us)
  *
  * Extracted from webrtc-voice-adapter.ts — no TTS/STT/silence logic.
  */
@@ -24,12 +31,13 @@ import {
   type RemoteTrack,
   type RemoteTrackPublication,
   type RemoteParticipant,
+  type Participant,
   dispose,
 } from "@livekit/rtc-node";
 import { AccessToken } from "livekit-server-sdk";
 import { resample } from "@voiceci/voice";
-import type { ObservedToolCall } from "@voiceci/shared";
-import { BaseAudioChannel } from "./audio-channel.js";
+import type { AgentState, ObservedToolCall } from "@voiceci/shared";
+import { BaseAudioChannel, type TranscriptionSegment } from "./audio-channel.js";
 
 interface WsToolCallEvent {
   type: "tool_call";
@@ -40,6 +48,37 @@ interface WsToolCallEvent {
   duration_ms?: number;
 }
 
+/** LiveKit Agents ChatContext items, as serialized by model_dump_json() / JSON.stringify() */
+interface LiveKitFunctionCall {
+  type: "function_call";
+  call_id: string;
+  name: string;
+  /** JSON-encoded */
+  arguments: string;
+}
+
+interface LiveKitFunctionCallOutput {
+  type: "function_call_output";
+  call_id: string;
+  name?: string;
+  output: string;
+  is_error?: boolean;
+}
+
+type ToolCallMessage = WsToolCallEvent | LiveKitFunctionCall | LiveKitFunctionCallOutput;
+
+const AGENT_STATE_ATTRIBUTE = "lk.agent.state";
+const TRANSCRIPTION_TOPIC = "lk.transcription";
+const AGENT_STATES: readonly string[] = ["initializing", "idle", "listening", "thinking", "speaking"];
+
+function parseJsonOr(text: string, fallback: unknown): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+}
+
 export interface WebRtcAudioChannelConfig {
   livekitUrl: string;
   apiKey: string;
@@ -49,6 +88,8 @@ export interface WebRtcAudioChannelConfig {
   livekitSampleRate?: number;
 }
 
+const IDENTITY = "voiceci-tester";
+
 export class WebRtcAudioChannel extends BaseAudioChannel {
   private static readonly TOOL_CALL_TOPIC = "voiceci:tool-calls";
 
@@ -59,7 +100,12 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
   private livekitSampleRate: number;
   private collecting = false;
   private toolCalls: ObservedToolCall[] = [];
+  /** LiveKit function calls awaiting their output, by call_id */
+  private pendingFunctionCalls = new Map<string, ObservedToolCall>();
   private connectTimestamp = 0;
+  private agentState: AgentState | null = null;
+  private localTrackSid: string | null = null;
+  private transcriptions: TranscriptionSegment[] = [];
 
   constructor(config: WebRtcAudioChannelConfig) {
     super();
@@ -71,11 +117,21 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
     return this.room !== null;
   }
 
+  /** Latest state the agent reported, or null if it doesn't report one */
+  get reportedAgentState(): AgentState | null {
+    return this.agentState;
+  }
+
+  /** Every transcription segment the agent has published this call */
+  get reportedTranscriptions(): readonly TranscriptionSegment[] {
+    return this.transcriptions;
+  }
+
   async connect(): Promise<void> {
     const token = new AccessToken(
       this.config.apiKey,
       this.config.apiSecret,
-      { identity: "voiceci-tester" }
+      { identity: IDENTITY }
     );
     token.addGrant({
       roomJoin: true,
@@ -91,6 +147,9 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
     this.collecting = true;
     this.connectTimestamp = Date.now();
     this.toolCalls = [];
+    this.pendingFunctionCalls.clear();
+    this.agentState = null;
+    this.transcriptions = [];
 
     // Subscribe to DataChannel for tool call events
     this.room.on(
@@ -108,19 +167,36 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
       this.handleToolCallText(text);
     });
 
+    // LiveKit Agents self-reporting: state attribute and transcription streams
+    this.room.on(
+      RoomEvent.ParticipantAttributesChanged,
+      (changed: Record<string, string>, participant: Participant) => {
+        if (participant.identity !== IDENTITY && changed[AGENT_STATE_ATTRIBUTE]) {
+          this.handleAgentState(changed[AGENT_STATE_ATTRIBUTE]);
+        }
+      }
+    );
+    this.room.registerTextStreamHandler(TRANSCRIPTION_TOPIC, async (reader, participantInfo) => {
+      const text = await reader.readAll();
+      this.handleTranscription(text, reader.info.attributes ?? {}, participantInfo.identity);
+    });
+
     // Set up audio source for publishing
     this.audioSource = new AudioSource(this.livekitSampleRate, 1);
     this.localTrack = LocalAudioTrack.createAudioTrack(
       "voiceci-tester",
       this.audioSource
     );
-    await this.room.localParticipant!.publishTrack(
+    const publication = await this.room.localParticipant!.publishTrack(
       this.localTrack,
       new TrackPublishOptions()
     );
+    this.localTrackSid = publication.sid ?? null;
 
     // Subscribe to existing remote audio tracks
     for (const participant of this.room.remoteParticipants.values()) {
+      const state = participant.attributes[AGENT_STATE_ATTRIBUTE];
+      if (state) this.handleAgentState(state);
       for (const pub of participant.trackPublications.values()) {
         if (pub.track && pub.kind === TrackKind.KIND_AUDIO) {
           this.startReadingTrack(pub.track as RemoteTrack);
@@ -137,6 +213,15 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
         }
       }
     );
+
+    // The room closing under us (deleted, or we were removed) ends the call;
+    // disconnect() stops collecting first, so our own leave doesn't count
+    this.room.on(RoomEvent.Disconnected, () => {
+      if (!this.collecting) return;
+      this.collecting = false;
+      this.room = null;
+      this.emit("disconnected");
+    });
   }
 
   sendAudio(pcm: Buffer): void {
@@ -164,6 +249,7 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
     this.collecting = false;
     if (this.room) {
       this.room.unregisterTextStreamHandler(WebRtcAudioChannel.TOOL_CALL_TOPIC);
+      this.room.unregisterTextStreamHandler(TRANSCRIPTION_TOPIC);
     }
     if (this.audioSource) {
       await this.audioSource.close();
@@ -181,7 +267,8 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
   }
 
   async getCallData(): Promise<ObservedToolCall[]> {
-    return this.toolCalls;
+    // Calls whose output never arrived still happened
+    return [...this.toolCalls, ...this.pendingFunctionCalls.values()];
   }
 
   private handleToolCallData(payload: Uint8Array): void {
@@ -194,23 +281,66 @@ export class WebRtcAudioChannel extends BaseAudioChannel {
   }
 
   private handleToolCallText(text: string): void {
+    let event: ToolCallMessage;
     try {
-      const event = JSON.parse(text) as WsToolCallEvent;
-      if (event.type === "tool_call" && event.name) {
-        this.toolCalls.push({
-          name: event.name,
-          arguments: event.arguments ?? {},
-          result: event.result,
-          successful: event.successful,
-          timestamp_ms: Date.now() - this.connectTimestamp,
-          latency_ms: event.duration_ms,
-        });
-      }
+      event = JSON.parse(text) as ToolCallMessage;
     } catch {
       // Ignore malformed JSON
+      return;
+    }
+
+    const now = Date.now() - this.connectTimestamp;
+    if (event.type === "tool_call" && event.name) {
+      this.toolCalls.push({
+        name: event.name,
+        arguments: event.arguments ?? {},
+        result: event.result,
+        successful: event.successful,
+        timestamp_ms: now,
+        latency_ms: event.duration_ms,
+      });
+    } else if (event.type === "function_call" && event.name) {
+      this.pendingFunctionCalls.set(event.call_id, {
+        name: event.name,
+        arguments: parseJsonOr(event.arguments, { raw: event.arguments }) as Record<string, unknown>,
+        timestamp_ms: now,
+      });
+    } else if (event.type === "function_call_output") {
+      const call = this.pendingFunctionCalls.get(event.call_id);
+      if (!call && !event.name) return;
+      this.pendingFunctionCalls.delete(event.call_id);
+      this.toolCalls.push({
+        ...(call ?? { name: event.name!, arguments: {}, timestamp_ms: now }),
+        result: parseJsonOr(event.output, event.output),
+        successful: !event.is_error,
+        latency_ms: call?.timestamp_ms !== undefined ? now - call.timestamp_ms : undefined,
+      });
     }
   }
 
+  private handleAgentState(value: string): void {
+    if (!AGENT_STATES.includes(value) || value === this.agentState) return;
+    this.agentState = value as AgentState;
+    this.emit("agent_state", this.agentState);
+  }
+
+  private handleTranscription(text: string, attributes: Record<string, string>, sender: string): void {
+    // Agents transcribe our track too; it names the track it transcribed
+    const transcribedTrack = attributes["lk.transcribed_track_id"];
+    const role =
+      sender === IDENTITY || (transcribedTrack !== undefined && transcribedTrack === this.localTrackSid)
+        ? "caller"
+        : "agent";
+    const segment: TranscriptionSegment = {
+      id: attributes["lk.segment_id"] ?? `${this.transcriptions.length}`,
+      role,
+      text,
+      final: attributes["lk.transcription_final"] !== "false",
+    };
+    this.transcriptions.push(segment);
+    this.emit("transcription", segment);
+  }
+
   private startReadingTrack(track: RemoteTrack): void {
     const stream = new AudioStream(track, this.livekitSampleRate, 1);
     const reader = stream.getReader();
@@ -1,23 +1,39 @@
 /**
  * WebSocket Audio Channel
  *
- * Raw bidirectional PCM audio over WebSocket.
- * Supports JSON text frames for tool call events alongside binary audio.
+ * Bidirectional audio over WebSocket, with JSON text frames for tool call
+ * events alongside the audio.
  *
- * Binary frames → audio (PCM 16-bit 24kHz mono)
- * Text frames   → JSON events (tool_call, etc.)
+ * Default protocol:
+ *   Binary frames → audio (PCM 16-bit 24kHz mono)
+ *   Text frames   → JSON events (tool_call, etc.)
+ *
+ * With a ws_protocol config the framing is configurable (see ws-framing.ts):
+ * audio may instead travel as base64 inside JSON frames, at another sample
+ * rate or encoding, and a start message / ready handshake can be required.
  */
 
 import WebSocket from "ws";
-import type { ObservedToolCall } from "@voiceci/shared";
+import type { ObservedToolCall, WsProtocolConfig } from "@voiceci/shared";
 import { BaseAudioChannel } from "./audio-channel.js";
+import {
+  createWsAudioCodec,
+  getPath,
+  renderTemplate,
+  resolveWsProtocol,
+  setPath,
+  templateVars,
+  type ResolvedWsProtocol,
+  type WsAudioCodec,
+  type WsTemplateVars,
+} from "./ws-framing.js";
 
 export interface WsAudioChannelConfig {
   wsUrl: string;
+  protocol?: WsProtocolConfig;
 }
 
 interface WsToolCallEvent {
-  type: "tool_call";
   name: string;
   arguments?: Record<string, unknown>;
   result?: unknown;
@@ -28,12 +44,16 @@ interface WsToolCallEvent {
 export class WsAudioChannel extends BaseAudioChannel {
   private ws: WebSocket | null = null;
   private config: WsAudioChannelConfig;
+  private protocol: ResolvedWsProtocol;
+  private codec: WsAudioCodec | null = null;
+  private vars: WsTemplateVars | null = null;
   private toolCalls: ObservedToolCall[] = [];
   private connectTimestamp = 0;
 
   constructor(config: WsAudioChannelConfig) {
     super();
     this.config = config;
+    this.protocol = resolveWsProtocol(config.protocol);
   }
 
   get connected(): boolean {
@@ -41,9 +61,22 @@ export class WsAudioChannel extends BaseAudioChannel {
   }
 
   async connect(): Promise<void> {
+    this.codec = await createWsAudioCodec(this.protocol);
+    this.vars = templateVars(this.protocol);
+    const { startMessage, readyEvent } = this.protocol;
+
     return new Promise((resolve, reject) => {
       const ws = new WebSocket(this.config.wsUrl);
       ws.binaryType = "nodebuffer";
+      let ready = false;
+      let readyTimeout: ReturnType<typeof setTimeout> | undefined;
+
+      const markReady = () => {
+        if (ready) return;
+        ready = true;
+        clearTimeout(readyTimeout);
+        resolve();
+      };
 
       ws.on("open", () => {
         this.ws = ws;
@@ -54,9 +87,10 @@ export class WsAudioChannel extends BaseAudioChannel {
           if (isBinary) {
             const chunk =
               data instanceof Buffer ? data : Buffer.from(data as ArrayBuffer);
-            this.emit("audio", chunk);
+            this.emit("audio", this.codec!.decode(chunk));
           } else {
-            this.handleTextFrame(data.toString());
+            const event = this.handleTextFrame(data.toString());
+            if (readyEvent && event === readyEvent) markReady();
           }
         });
 
@@ -65,24 +99,55 @@ export class WsAudioChannel extends BaseAudioChannel {
         });
 
         ws.on("close", () => {
+          if (!ready) {
+            this.ws = null;
+            clearTimeout(readyTimeout);
+            reject(new Error("WebSocket closed before the agent was ready"));
+            return;
+          }
+          // disconnect() already let go of it — our own hangup isn't a remote one
+          if (this.ws !== ws) return;
           this.ws = null;
           this.emit("disconnected");
         });
 
-        resolve();
+        if (startMessage) {
+          ws.send(JSON.stringify(renderTemplate(startMessage, this.vars!)));
+        }
+
+        if (!readyEvent) {
+          markReady();
+        } else {
+          readyTimeout = setTimeout(() => {
+            ws.close();
+            reject(new Error(`Agent did not send "${readyEvent}" within 30s`));
+          }, 30_000);
+        }
       });
 
       ws.on("error", (err) => {
-        reject(new Error(`WebSocket connection failed: ${err.message}`));
+        if (!ready) reject(new Error(`WebSocket connection failed: ${err.message}`));
       });
     });
   }
 
   sendAudio(pcm: Buffer): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.codec) {
       throw new Error("WebSocket not connected");
     }
-    this.ws.send(pcm);
+
+    for (const payload of this.codec.encode(pcm)) {
+      if (this.protocol.framing === "binary") {
+        this.ws.send(payload);
+        continue;
+      }
+      const frame = this.protocol.audioMessage
+        ? renderTemplate(this.protocol.audioMessage, this.vars!)
+        : {};
+      setPath(frame, this.protocol.eventField, this.protocol.audioEvent);
+      setPath(frame, this.protocol.audioField, payload.toString("base64"));
+      this.ws.send(JSON.stringify(frame));
+    }
   }
 
   async disconnect(): Promise<void> {
@@ -96,21 +161,38 @@ export class WsAudioChannel extends BaseAudioChannel {
     return this.toolCalls;
   }
 
-  private handleTextFrame(text: string): void {
+  /** Handle a JSON frame and return its event name, if any. */
+  private handleTextFrame(text: string): string | undefined {
+    let frame: unknown;
     try {
-      const event = JSON.parse(text) as WsToolCallEvent;
-      if (event.type === "tool_call" && event.name) {
+      frame = JSON.parse(text);
+    } catch {
+      // Ignore malformed JSON
+      return undefined;
+    }
+
+    const eventName = getPath(frame, this.protocol.eventField);
+    const event = typeof eventName === "string" ? eventName : undefined;
+
+    if (this.protocol.framing === "json" && event === this.protocol.audioEvent) {
+      const payload = getPath(frame, this.protocol.audioField);
+      if (typeof payload === "string" && payload.length > 0) {
+        this.emit("audio", this.codec!.decode(Buffer.from(payload, "base64")));
+      }
+    } else if (event === this.protocol.toolCallEvent) {
+      const toolCall = frame as WsToolCallEvent;
+      if (toolCall.name) {
         this.toolCalls.push({
-          name: event.name,
-          arguments: event.arguments ?? {},
-          result: event.result,
-          successful: event.successful,
+          name: toolCall.name,
+          arguments: toolCall.arguments ?? {},
+          result: toolCall.result,
+          successful: toolCall.successful,
           timestamp_ms: Date.now() - this.connectTimestamp,
-          latency_ms: event.duration_ms,
+          latency_ms: toolCall.duration_ms,
         });
       }
-    } catch {
-      // Ignore malformed JSON
     }
+
+    return event;
   }
 }
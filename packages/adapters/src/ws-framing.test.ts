@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createWsAudioCodec,
+  getPath,
+  renderTemplate,
+  resolveWsProtocol,
+  setPath,
+  type WsTemplateVars,
+} from "./ws-framing.js";
+
+/** 440Hz tone at 24kHz */
+function sine(ms: number, amplitude = 8000): Buffer {
+  const samples = (24000 * ms) / 1000;
+  const out = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) out.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * 440 * i) / 24000)), i * 2);
+  return out;
+}
+
+/** Normalized correlation of two equal-rate PCM buffers over their common length */
+function correlation(a: Buffer, b: Buffer): number {
+  let ab = 0;
+  let aa = 0;
+  let bb = 0;
+  for (let i = 0; i + 1 < Math.min(a.length, b.length); i += 2) {
+    const x = a.readInt16LE(i);
+    const y = b.readInt16LE(i);
+    ab += x * y;
+    aa += x * x;
+    bb += y * y;
+  }
+  return ab / Math.sqrt(aa * bb);
+}
+
+test("no protocol config means binary pcm16 at 24kHz", () => {
+  assert.deepEqual(resolveWsProtocol(undefined), {
+    framing: "binary",
+    encoding: "pcm16",
+    sampleRate: 24000,
+    eventField: "type",
+    audioEvent: "media",
+    audioField: "payload",
+    toolCallEvent: "tool_call",
+    audioMessage: undefined,
+    startMessage: undefined,
+    readyEvent: undefined,
+  });
+  assert.equal(resolveWsProtocol({ encoding: "mulaw" }).sampleRate, 8000);
+  assert.equal(resolveWsProtocol({ encoding: "opus" }).sampleRate, 48000);
+  assert.equal(resolveWsProtocol({ encoding: "mulaw", sample_rate: 16000 }).sampleRate, 16000);
+});
+
+test("pcm16 passes 24kHz through and resamples other rates both ways", async () => {
+  const pcm = sine(100);
+  const native = await createWsAudioCodec(resolveWsProtocol(undefined));
+  assert.equal(native.encode(pcm)[0], pcm);
+  assert.equal(native.decode(pcm), pcm);
+
+  const wide = await createWsAudioCodec(resolveWsProtocol({ sample_rate: 16000 }));
+  const [wire] = wide.encode(pcm);
+  assert.equal(wire!.length, 3200);
+  const back = wide.decode(wire!);
+  assert.equal(back.length, pcm.length);
+  assert.ok(correlation(pcm, back) > 0.95);
+});
+
+test("mulaw encodes one byte per 8kHz sample and decodes close to the source", async () => {
+  const codec = await createWsAudioCodec(resolveWsProtocol({ encoding: "mulaw" }));
+  const pcm = sine(100);
+  const [wire] = codec.encode(pcm);
+  assert.equal(wire!.length, 800);
+  const back = codec.decode(wire!);
+  assert.equal(back.length, pcm.length);
+  assert.ok(correlation(pcm, back) > 0.95);
+});
+
+test("opus emits whole 20ms packets and carries the remainder", async () => {
+  const codec = await createWsAudioCodec(resolveWsProtocol({ encoding: "opus" }));
+  assert.equal(codec.encode(sine(30)).length, 1);
+  // The leftover 10ms completes the next packet
+  const packets = codec.encode(sine(10));
+  assert.equal(packets.length, 1);
+  assert.equal(codec.encode(sine(10)).length, 0);
+
+  // A decoded packet is 20ms of 24kHz audio
+  assert.equal(codec.decode(packets[0]!).length, 960);
+
+  await assert.rejects(createWsAudioCodec(resolveWsProtocol({ encoding: "opus", sample_rate: 44100 })), /Opus does not support 44100Hz/);
+});
+
+test("dotted paths read and write nested fields", () => {
+  const message = { event: "media", media: { payload: "AAA", track: null } };
+  assert.equal(getPath(message, "media.payload"), "AAA");
+  assert.equal(getPath(message, "media.track.id"), undefined);
+  assert.equal(getPath(message, "missing.deeply"), undefined);
+  assert.equal(getPath("text", "length"), undefined);
+
+  const out: Record<string, unknown> = { media: "replace me" };
+  setPath(out, "media.payload", "BBB");
+  setPath(out, "meta.session.id", "s1");
+  setPath(out, "event", "media");
+  assert.deepEqual(out, { media: { payload: "BBB" }, meta: { session: { id: "s1" } }, event: "media" });
+});
+
+test("templates substitute variables and keep whole-placeholder types", () => {
+  const vars: WsTemplateVars = { sample_rate: 16000, encoding: "mulaw", session_id: "abc" };
+  const template = {
+    event: "start",
+    start: {
+      format: { rate: "{{sample_rate}}", encoding: "{{encoding}}" },
+      label: "session {{session_id}} at {{sample_rate}}Hz",
+      unknown: "{{nope}}",
+      tracks: ["inbound", "{{session_id}}"],
+      count: 1,
+      flag: null,
+    },
+  };
+  assert.deepEqual(renderTemplate(template, vars), {
+    event: "start",
+    start: {
+      format: { rate: 16000, encoding: "mulaw" },
+      label: "session abc at 16000Hz",
+      unknown: "{{nope}}",
+      tracks: ["inbound", "abc"],
+      count: 1,
+      flag: null,
+    },
+  });
+  // The template itself is left untouched
+  assert.equal(template.start.format.rate, "{{sample_rate}}");
+});
@@ -0,0 +1,179 @@
+/**
+ * Configurable framing for the ws-voice adapter.
+ *
+ * Translates between our internal audio (PCM 16-bit 24kHz mono) and whatever
+ * the agent's WebSocket protocol expects: raw binary frames or base64 audio
+ * inside JSON text frames, at any sample rate, encoded as pcm16, mulaw, or
+ * opus. Field names are dotted paths so nested shapes like
+ * `{ event: "media", media: { payload } }` can be described.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { WsProtocolConfig } from "@voiceci/shared";
+import type OpusScript from "opusscript";
+import { pcmToMulaw, mulawToPcm, resample } from "@voiceci/voice";
+
+export type WsAudioEncoding = NonNullable<WsProtocolConfig["encoding"]>;
+
+/** Converts between internal PCM and wire-format audio payloads. */
+export interface WsAudioCodec {
+  /** One wire payload per frame to send */
+  encode(pcm: Buffer): Buffer[];
+  decode(payload: Buffer): Buffer;
+}
+
+export interface ResolvedWsProtocol {
+  framing: "binary" | "json";
+  encoding: WsAudioEncoding;
+  sampleRate: number;
+  eventField: string;
+  audioEvent: string;
+  audioField: string;
+  toolCallEvent: string;
+  audioMessage?: Record<string, unknown>;
+  startMessage?: Record<string, unknown>;
+  readyEvent?: string;
+}
+
+const DEFAULT_SAMPLE_RATES: Record<WsAudioEncoding, number> = {
+  pcm16: 24000,
+  mulaw: 8000,
+  opus: 48000,
+};
+
+/** Fill in defaults. No config at all means the original protocol: binary pcm16 24kHz. */
+export function resolveWsProtocol(config: WsProtocolConfig | undefined): ResolvedWsProtocol {
+  const encoding = config?.encoding ?? "pcm16";
+  return {
+    framing: config?.audio_framing ?? "binary",
+    encoding,
+    sampleRate: config?.sample_rate ?? DEFAULT_SAMPLE_RATES[encoding],
+    eventField: config?.event_field ?? "type",
+    audioEvent: config?.audio_event ?? "media",
+    audioField: config?.audio_field ?? "payload",
+    toolCallEvent: config?.tool_call_event ?? "tool_call",
+    audioMessage: config?.audio_message,
+    startMessage: config?.start_message,
+    readyEvent: config?.ready_event,
+  };
+}
+
+// ============================================================
+// Codecs
+// ============================================================
+
+type OpusSampleRate = ConstructorParameters<typeof OpusScript>[0];
+
+const OPUS_SAMPLE_RATES: OpusSampleRate[] = [8000, 12000, 16000, 24000, 48000];
+
+function isOpusSampleRate(rate: number): rate is OpusSampleRate {
+  return (OPUS_SAMPLE_RATES as number[]).includes(rate);
+}
+
+/** Build the codec for a protocol. Async because the opus encoder is loaded on demand. */
+export async function createWsAudioCodec(protocol: ResolvedWsProtocol): Promise<WsAudioCodec> {
+  const rate = protocol.sampleRate;
+  const toWire = (pcm: Buffer) => (rate === 24000 ? pcm : resample(pcm, 24000, rate));
+  const fromWire = (pcm: Buffer) => (rate === 24000 ? pcm : resample(pcm, rate, 24000));
+
+  switch (protocol.encoding) {
+    case "pcm16":
+      return {
+        encode: (pcm) => [toWire(pcm)],
+        decode: (payload) => fromWire(payload),
+      };
+
+    case "mulaw":
+      return {
+        encode: (pcm) => [pcmToMulaw(toWire(pcm))],
+        decode: (payload) => fromWire(mulawToPcm(payload)),
+      };
+
+    case "opus": {
+      if (!isOpusSampleRate(rate)) {
+        throw new Error(`Opus does not support ${rate}Hz (use one of ${OPUS_SAMPLE_RATES.join(", ")})`);
+      }
+      // Loaded on first use so only opus agents pay for the WASM build
+      const { default: Opus } = await import("opusscript");
+      const opus = new Opus(rate, 1, Opus.Application.VOIP);
+      const frameSamples = rate / 50; // 20ms packets
+      const frameBytes = frameSamples * 2;
+      let pending = Buffer.alloc(0);
+
+      return {
+        encode(pcm) {
+          // Opus packets are fixed-duration — carry the remainder into the next call
+          pending = Buffer.concat([pending, toWire(pcm)]);
+          const packets: Buffer[] = [];
+          while (pending.length >= frameBytes) {
+            packets.push(Buffer.from(opus.encode(pending.subarray(0, frameBytes), frameSamples)));
+            pending = pending.subarray(frameBytes);
+          }
+          return packets;
+        },
+        decode: (payload) => fromWire(Buffer.from(opus.decode(payload))),
+      };
+    }
+  }
+}
+
+// ============================================================
+// JSON frames
+// ============================================================
+
+export function getPath(obj: unknown, path: string): unknown {
+  let current = obj;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+export function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (next === null || typeof next !== "object") {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]!] = value;
+}
+
+/** Template variables available in start_message and audio_message strings. */
+export interface WsTemplateVars {
+  sample_rate: number;
+  encoding: WsAudioEncoding;
+  session_id: string;
+}
+
+export function templateVars(protocol: ResolvedWsProtocol): WsTemplateVars {
+  return { sample_rate: protocol.sampleRate, encoding: protocol.encoding, session_id: randomUUID() };
+}
+
+/**
+ * Deep-copy a template, replacing `{{var}}` in strings. A string that is
+ * exactly one placeholder takes the variable's type (so sample rates stay numbers).
+ */
+export function renderTemplate<T>(template: T, vars: WsTemplateVars): T {
+  const lookup = vars as unknown as Record<string, unknown>;
+  if (typeof template === "string") {
+    const whole = /^\{\{(\w+)\}\}$/.exec(template);
+    if (whole && whole[1]! in lookup) return lookup[whole[1]!] as T;
+    return template.replace(/\{\{(\w+)\}\}/g, (m, name: string) =>
+      name in lookup ? String(lookup[name]) : m
+    ) as T;
+  }
+  if (Array.isArray(template)) {
+    return template.map((v) => renderTemplate(v, vars)) as T;
+  }
+  if (template !== null && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([k, v]) => [k, renderTemplate(v, vars)])
+    ) as T;
+  }
+  return template;
+}
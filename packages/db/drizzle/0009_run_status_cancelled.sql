@@ -0,0 +1 @@
+ALTER TYPE "public"."run_status" ADD VALUE 'cancelled';
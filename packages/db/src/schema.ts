@@ -14,6 +14,7 @@ export const runStatusEnum = pgEnum("run_status", [
   "running",
   "pass",
   "fail",
+  "cancelled",
 ]);
 
 export const sourceTypeEnum = pgEnum("source_type", ["bundle", "remote"]);
@@ -32,6 +33,7 @@ export const runs = pgTable("runs", {
   source_type: sourceTypeEnum("source_type").notNull(),
   bundle_key: text("bundle_key"),
   bundle_hash: text("bundle_hash"),
+  agent_key: text("agent_key"),
   created_at: timestamp("created_at", { withTimezone: true })
     .notNull()
     .defaultNow(),
@@ -5,4 +5,7 @@ export const DEFAULT_POLL_INTERVAL_MS = 3_000;
 export const DEFAULT_AGENT_PORT = 3001;
 export const DEFAULT_API_PORT = 3000;
 
+export const SUITE_FILE_VERSION = 1;
+export const SUITE_FILE_NAMES = ["voiceci.yaml", "voiceci.yml", "voiceci.json"] as const;
+
 export const RUNNER_CALLBACK_HEADER = "x-runner-secret";
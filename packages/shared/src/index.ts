@@ -2,3 +2,4 @@ export * from "./types.js";
 export * from "./constants.js";
 export * from "./schemas.js";
 export * from "./retry.js";
+export * from "./suite.js";
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_REGEX_PATTERN_LENGTH, ResponseMatcherSchema } from "./schemas.js";
+
+const regex = (pattern: string, flags?: string) => ResponseMatcherSchema.safeParse({ type: "regex", pattern, flags });
+
+test("regex matchers are compiled with their flags", () => {
+  assert.ok(regex("\\bTuesday\\b").success);
+  assert.ok(regex("\\d{5}", "gi").success);
+  assert.ok(!regex("(unclosed").success);
+  // Valid without u, invalid with it
+  assert.ok(regex("\\-").success);
+  assert.ok(!regex("\\-", "u").success);
+});
+
+test("regex matchers reject duplicate flags and oversized patterns", () => {
+  assert.ok(!regex("a", "gg").success);
+  assert.ok(!regex("a", "x").success);
+  assert.ok(regex("a".repeat(MAX_REGEX_PATTERN_LENGTH)).success);
+  assert.ok(!regex("a".repeat(MAX_REGEX_PATTERN_LENGTH + 1)).success);
+});
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { AUDIO_TEST_NAMES } from "./types.js";
+import { AUDIO_TEST_NAMES, TTS_PROVIDER_NAMES, STT_PROVIDER_NAMES, NETWORK_PROFILE_NAMES, SPEECH_PROFILE_NAMES, PROVIDER_KEY_ENV_NAMES } from "./types.js";
+import { SUITE_FILE_VERSION } from "./constants.js";
 
 // ============================================================
 // V2 Schemas — Dynamic voice agent testing
@@ -7,26 +8,231 @@ import { AUDIO_TEST_NAMES } from "./types.js";
 
 export const AudioTestNameSchema = z.enum(AUDIO_TEST_NAMES);
 
-export const ConversationTestSpecSchema = z.object({
-  name: z.string().optional(),
-  caller_prompt: z.string().min(1),
-  max_turns: z.number().int().min(1).max(50).default(10),
-  eval: z.array(z.string().min(1)).min(1),
-  tool_call_eval: z.array(z.string().min(1)).optional(),
-  silence_threshold_ms: z.number().int().min(200).max(10000).optional(),
+/** A `*_env` field: names one of the provider credential variables */
+export const ProviderKeyEnvSchema = z.enum(PROVIDER_KEY_ENV_NAMES);
+
+/** Regex matchers run on the shared worker — keep them small */
+export const MAX_REGEX_PATTERN_LENGTH = 500;
+
+export const ResponseMatcherSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("contains"),
+    value: z.string().min(1),
+    case_sensitive: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("regex"),
+    pattern: z.string().min(1).max(MAX_REGEX_PATTERN_LENGTH),
+    flags: z.string().regex(/^[dgimsuy]*$/).optional(),
+  }),
+  z.object({
+    type: z.literal("semantic"),
+    criterion: z.string().min(1),
+  }),
+]).superRefine((matcher, ctx) => {
+  if (matcher.type !== "regex") return;
+  const flags = matcher.flags ?? "i";
+  if (new Set(flags).size !== flags.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["flags"], message: "Duplicate regex flags" });
+    return;
+  }
+  // Compiled as the runner will, flags included (u changes what a pattern may contain)
+  try {
+    new RegExp(matcher.pattern, flags);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: "Invalid regular expression" });
+  }
+});
+
+export const ScriptedTurnSchema = z.object({
+  say: z.string().min(1),
+  expect: ResponseMatcherSchema.optional(),
+});
+
+export const CalleeBehaviorSchema = z.object({
+  action: z.enum(["answer", "decline", "silent", "voicemail"]).optional(),
+  rings: z.number().int().min(0).max(20).optional(),
+  greeting: z.string().min(1).optional(),
 });
 
+export const InterruptionBehaviorSchema = z
+  .object({
+    trigger: z.enum(["after_ms", "random", "keyword"]),
+    after_ms: z.number().int().min(0).max(30000).optional(),
+    probability: z.number().min(0).max(1).optional(),
+    keywords: z.array(z.string().min(1)).min(1).optional(),
+    max_interruptions: z.number().int().min(1).optional(),
+  })
+  .refine((d) => d.trigger !== "keyword" || d.keywords !== undefined, {
+    message: "keywords is required for the keyword trigger",
+  });
+
+const LanguageTagSchema = z.string().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Expected a BCP-47 language tag, e.g. es or fr-CA");
+
+export const SpeechProfileSchema = z.object({
+  rate: z.number().min(0.5).max(2).optional(),
+  disfluency: z.number().min(0).max(1).optional(),
+  pause_rate: z.number().min(0).max(1).optional(),
+  pause_ms: z.number().int().min(200).max(10000).optional(),
+  gain_db: z.number().min(-40).max(20).optional(),
+  volume_variation_db: z.number().min(0).max(20).optional(),
+  clipping_db: z.number().min(0).max(30).optional(),
+  reverb: z.number().min(0).max(1).optional(),
+  accent: LanguageTagSchema.optional(),
+  seed: z.number().int().optional(),
+});
+
+export const SpeechProfileInputSchema = z.union([z.enum(SPEECH_PROFILE_NAMES), SpeechProfileSchema]);
+
+/** A callee that declines, stays silent, or lets it go to voicemail has no lines to speak */
+const speaksAsCallee = (callee: z.infer<typeof CalleeBehaviorSchema> | undefined) =>
+  (callee?.action ?? "answer") === "answer";
+
+export const ConversationTestSpecSchema = z
+  .object({
+    name: z.string().optional(),
+    caller_prompt: z.string().min(1).optional(),
+    script: z.array(ScriptedTurnSchema).min(1).optional(),
+    max_turns: z.number().int().min(1).max(50).default(10),
+    eval: z.array(z.string().min(1)).default([]),
+    tool_call_eval: z.array(z.string().min(1)).optional(),
+    silence_threshold_ms: z.number().int().min(200).max(10000).optional(),
+    max_hold_ms: z.number().int().min(1000).max(600000).optional(),
+    language: LanguageTagSchema.optional(),
+    switch_language_at_turn: z
+      .object({ turn: z.number().int().min(1), language: LanguageTagSchema })
+      .optional(),
+    interruption: InterruptionBehaviorSchema.optional(),
+    speech_profile: SpeechProfileInputSchema.optional(),
+    repeat: z.number().int().min(1).max(20).optional(),
+    min_pass_rate: z.number().min(0).max(1).optional(),
+    callee: CalleeBehaviorSchema.optional(),
+  })
+  .refine((d) => d.caller_prompt !== undefined || d.script !== undefined || !speaksAsCallee(d.callee), {
+    message: "Either caller_prompt or script is required",
+  })
+  .refine(
+    (d) =>
+      d.eval.length > 0 ||
+      (d.script?.some((t) => t.expect) ?? false) ||
+      (!speaksAsCallee(d.callee) && (d.tool_call_eval?.length ?? 0) > 0),
+    { message: "At least one eval question or scripted expect is required" }
+  )
+  .refine((d) => (d.script?.length ?? 0) <= d.max_turns, {
+    message: "script has more steps than max_turns — raise max_turns so every scripted step runs",
+  })
+  .refine((d) => d.switch_language_at_turn === undefined || d.switch_language_at_turn.turn < d.max_turns, {
+    message: "switch_language_at_turn.turn must be less than max_turns",
+  });
+
 export const TestSpecSchema = z
   .object({
     audio_tests: z.array(AudioTestNameSchema).optional(),
     conversation_tests: z.array(ConversationTestSpecSchema).optional(),
+    audio_repeat: z.number().int().min(1).max(20).optional(),
+    audio_min_pass_rate: z.number().min(0).max(1).optional(),
+    audio_speech_profiles: z.record(AudioTestNameSchema, SpeechProfileInputSchema).optional(),
   })
   .refine(
     (d) => (d.audio_tests?.length ?? 0) + (d.conversation_tests?.length ?? 0) > 0,
     { message: "At least one audio_test or conversation_test is required" }
   );
 
-export const AdapterTypeSchema = z.enum(["ws-voice", "sip", "webrtc", "vapi", "retell", "elevenlabs", "bland"]);
+export const AdapterTypeSchema = z.enum(["ws-voice", "sip", "sip-direct", "twilio", "webrtc", "openai-realtime", "vapi", "retell", "elevenlabs", "bland"]);
+
+export const TTSProviderNameSchema = z.enum(TTS_PROVIDER_NAMES);
+
+export const STTProviderNameSchema = z.enum(STT_PROVIDER_NAMES);
+
+export const NetworkImpairmentSchema = z.object({
+  latency_ms: z.number().min(0).max(5000).optional(),
+  jitter_ms: z.number().min(0).max(2000).optional(),
+  loss: z.number().min(0).max(1).optional(),
+  loss_burst: z.number().min(1).optional(),
+  reorder: z.number().min(0).max(1).optional(),
+  duplicate: z.number().min(0).max(1).optional(),
+  bitrate_kbps: z.number().min(4).optional(),
+  seed: z.number().int().optional(),
+});
+
+export const NetworkProfileSchema = z.union([z.enum(NETWORK_PROFILE_NAMES), NetworkImpairmentSchema]);
+
+export const InboundCallTriggerSchema = z.object({
+  type: z.literal("webhook"),
+  url: z.string().url().refine((url) => url.startsWith("https://"), { message: "trigger url must be https" }),
+  method: z.enum(["GET", "POST"]).optional(),
+  headers: z.record(z.string()).optional(),
+  body: z.record(z.unknown()).optional(),
+});
+
+export const WsProtocolConfigSchema = z.object({
+  audio_framing: z.enum(["binary", "json"]).optional(),
+  encoding: z.enum(["pcm16", "mulaw", "opus"]).optional(),
+  sample_rate: z.number().int().min(8000).max(48000).optional(),
+  event_field: z.string().min(1).optional(),
+  audio_event: z.string().min(1).optional(),
+  audio_field: z.string().min(1).optional(),
+  tool_call_event: z.string().min(1).optional(),
+  audio_message: z.record(z.unknown()).optional(),
+  start_message: z.record(z.unknown()).optional(),
+  ready_event: z.string().min(1).optional(),
+});
+
+export const VoiceConfigSchema = z.object({
+  tts: z.object({
+    provider: TTSProviderNameSchema.optional(),
+    voice_id: z.string().optional(),
+    api_key_env: ProviderKeyEnvSchema.optional(),
+    model: z.string().optional(),
+    region: z.string().optional(),
+  }).optional(),
+  stt: z.object({
+    provider: STTProviderNameSchema.optional(),
+    api_key_env: ProviderKeyEnvSchema.optional(),
+    model: z.string().optional(),
+    base_url: z.string().url().optional(),
+    api_key: z.string().min(1).optional(),
+  }).optional(),
+  silence_threshold_ms: z.number().optional(),
+  network_profile: NetworkProfileSchema.optional(),
+  speech_profile: SpeechProfileInputSchema.optional(),
+  ws_protocol: WsProtocolConfigSchema.optional(),
+  hermetic: z.object({
+    enabled: z.boolean().optional(),
+    known_phrases: z.array(z.string()).optional(),
+  }).optional(),
+  telephony: z.object({
+    auth_id_env: ProviderKeyEnvSchema.optional(),
+    auth_token_env: ProviderKeyEnvSchema.optional(),
+    from_number: z.string().optional(),
+    mode: z.enum(["outbound", "inbound"]).optional(),
+    trigger: InboundCallTriggerSchema.optional(),
+    inbound_timeout_ms: z.number().int().min(5000).max(600_000).optional(),
+  }).optional(),
+  sip: z.object({
+    uri: z.string().regex(/^sips?:/i, "sip.uri must be a SIP URI (sip:user@host[:port])"),
+    username_env: ProviderKeyEnvSchema.optional(),
+    password_env: ProviderKeyEnvSchema.optional(),
+    register: z.boolean().optional(),
+    registrar: z.string().optional(),
+    codecs: z.array(z.enum(["PCMU", "PCMA"])).min(1).optional(),
+    local_ip: z.string().optional(),
+  }).optional(),
+  realtime: z.object({
+    url: z.string().regex(/^wss?:\/\//i, "realtime.url must be a ws:// or wss:// URL").optional(),
+    model: z.string().optional(),
+    api_key_env: ProviderKeyEnvSchema.optional(),
+    api_key: z.string().min(1).optional(),
+    session: z.record(z.unknown()).optional(),
+    tool_outputs: z.record(z.unknown()).optional(),
+  }).optional(),
+  webrtc: z.object({
+    livekit_url_env: ProviderKeyEnvSchema.optional(),
+    api_key_env: ProviderKeyEnvSchema.optional(),
+    api_secret_env: ProviderKeyEnvSchema.optional(),
+    room: z.string().optional(),
+  }).optional(),
+});
 
 // ============================================================
 // Tool call schemas
@@ -51,7 +257,7 @@ export const ToolCallMetricsSchema = z.object({
 
 export const PlatformConfigSchema = z.object({
   provider: z.enum(["vapi", "retell", "elevenlabs", "bland"]),
-  api_key_env: z.string(),
+  api_key_env: ProviderKeyEnvSchema,
   agent_id: z.string().optional(),
 });
 
@@ -96,18 +302,52 @@ export const AudioTestThresholdsSchema = z.object({
     min_duration_ms: z.number().min(0).optional(),
     min_energy_consistency: z.number().min(0).max(1).optional(),
   }).optional(),
+  voicemail_detection: z.object({
+    max_message_duration_ms: z.number().min(0).optional(),
+    hangup_timeout_ms: z.number().min(0).optional(),
+    max_pre_beep_speech_ms: z.number().min(0).optional(),
+    require_message: z.boolean().optional(),
+  }).optional(),
   audio_analysis_grade: AudioAnalysisGradeThresholdsSchema,
 }).optional();
 
+export const TranscriptWordSchema = z.object({
+  word: z.string(),
+  start_ms: z.number(),
+  end_ms: z.number(),
+  confidence: z.number().optional(),
+});
+
 export const ConversationTurnSchema = z.object({
   role: z.enum(["caller", "agent"]),
   text: z.string(),
   timestamp_ms: z.number(),
   audio_duration_ms: z.number().optional(),
   ttfb_ms: z.number().optional(),
+  ttfw_ms: z.number().optional(),
   stt_confidence: z.number().optional(),
+  words: z.array(TranscriptWordSchema).optional(),
   tts_ms: z.number().optional(),
   stt_ms: z.number().optional(),
+  dtmf: z.string().optional(),
+  language: z.string().optional(),
+  interruption: z
+    .object({
+      heard_text: z.string(),
+      heard_ms: z.number(),
+      overlapped: z.boolean(),
+      overlap_ms: z.number(),
+      stop_latency_ms: z.number().optional(),
+    })
+    .optional(),
+  reported_text: z.string().optional(),
+});
+
+export const CallEventSchema = z.object({
+  type: z.enum(["hold_music", "ringback", "transfer", "remote_hangup"]),
+  timestamp_ms: z.number(),
+  duration_ms: z.number().optional(),
+  detail: z.string().optional(),
 });
 
 export const EvalResultSchema = z.object({
@@ -200,24 +440,73 @@ export const ConversationMetricsSchema = z.object({
   harness_overhead: HarnessOverheadSchema.optional(),
 });
 
-export const AudioTestResultSchema = z.object({
+export const EvalVarianceSchema = z.object({
+  question: z.string(),
+  relevant_attempts: z.number(),
+  pass_rate: z.number(),
+  variance: z.number(),
+});
+
+export const RepeatSummarySchema = z.object({
+  attempts: z.number(),
+  passed: z.number(),
+  pass_rate: z.number(),
+  min_pass_rate: z.number(),
+  flakiness: z.number(),
+  failed_attempts: z.array(z.number()),
+  eval_variance: z.array(EvalVarianceSchema).optional(),
+});
+
+const RecordingRefSchema = z.object({
+  key: z.string(),
+  content_type: z.string(),
+  byte_size: z.number(),
+  duration_ms: z.number(),
+});
+
+const AudioTestAttemptSchema = z.object({
   test_name: AudioTestNameSchema,
   status: z.enum(["pass", "fail"]),
   metrics: z.record(z.union([z.number(), z.boolean()])),
   duration_ms: z.number(),
   error: z.string().optional(),
+  recording: RecordingRefSchema.optional(),
 });
 
-export const ConversationTestResultSchema = z.object({
+const ConversationTestAttemptSchema = z.object({
   name: z.string().optional(),
   caller_prompt: z.string(),
   status: z.enum(["pass", "fail"]),
   transcript: z.array(ConversationTurnSchema),
   eval_results: z.array(EvalResultSchema),
+  script_results: z
+    .array(
+      z.object({
+        step: z.number(),
+        say: z.string(),
+        expect: ResponseMatcherSchema,
+        agent_text: z.string(),
+        passed: z.boolean(),
+        reasoning: z.string(),
+      })
+    )
+    .optional(),
   tool_call_eval_results: z.array(EvalResultSchema).optional(),
   observed_tool_calls: z.array(ObservedToolCallSchema).optional(),
+  call_events: z.array(CallEventSchema).optional(),
   duration_ms: z.number(),
   metrics: ConversationMetricsSchema,
+  recording: RecordingRefSchema.optional(),
+});
+
+export const AudioTestResultSchema = AudioTestAttemptSchema.extend({
+  repeat: RepeatSummarySchema.optional(),
+  attempts: z.array(AudioTestAttemptSchema).optional(),
+});
+
+export const ConversationTestResultSchema = ConversationTestAttemptSchema.extend({
+  repeat: RepeatSummarySchema.optional(),
+  attempts: z.array(ConversationTestAttemptSchema).optional(),
 });
 
 export const RunAggregateV2Schema = z.object({
@@ -243,6 +532,39 @@ export const RunnerCallbackV2Schema = z.object({
   error_text: z.string().optional(),
 });
 
+export const RegressionTolerancesSchema = z.object({
+  latency_ms: z.number().min(0).optional(),
+  latency_pct: z.number().min(0).optional(),
+  behavioral_score: z.number().min(0).max(1).optional(),
+  transcript_pct: z.number().min(0).optional(),
+});
+
+// ============================================================
+// Suite file schemas (voiceci.yaml / voiceci.json)
+// ============================================================
+
+export const SuiteFileSchema = z
+  .object({
+    version: z.literal(SUITE_FILE_VERSION),
+    name: z.string().optional(),
+    adapter: AdapterTypeSchema,
+    agent_url: z.string().optional(),
+    target_phone_number: z.string().optional(),
+    platform: PlatformConfigSchema.optional(),
+    voice: VoiceConfigSchema.optional(),
+    audio_tests: z.array(AudioTestNameSchema).optional(),
+    conversation_tests: z.array(ConversationTestSpecSchema).optional(),
+    audio_repeat: z.number().int().min(1).max(20).optional(),
+    audio_min_pass_rate: z.number().min(0).max(1).optional(),
+    audio_speech_profiles: z.record(AudioTestNameSchema, SpeechProfileInputSchema).optional(),
+    audio_test_thresholds: AudioTestThresholdsSchema,
+  })
+  .strict()
+  .refine(
+    (d) => (d.audio_tests?.length ?? 0) + (d.conversation_tests?.length ?? 0) > 0,
+    { message: "At least one audio_test or conversation_test is required" }
+  );
+
 // ============================================================
 // Load testing schemas
 // ============================================================
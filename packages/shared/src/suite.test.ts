@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { expandSuite, parseSuiteFile } from "./suite.js";
+
+const YAML_SUITE = `
+version: 1
+name: booking
+adapter: ws-voice
+agent_url: wss://agent.example.com/ws
+audio_tests: [echo, ttfb]
+audio_repeat: 3
+conversation_tests:
+  - name: reschedule
+    caller_prompt: You want to move your appointment to Tuesday.
+    max_turns: 6
+    eval: [Does the agent confirm the new time?]
+  - name: greeting
+    script:
+      - say: Hi, is this the dental office?
+        expect: { type: contains, value: dental }
+audio_test_thresholds:
+  ttfb:
+    p95_threshold_ms: 1200
+`;
+
+test("suites parse from YAML, JSON, and decoded objects alike", () => {
+  const fromYaml = parseSuiteFile(YAML_SUITE);
+  assert.deepEqual(parseSuiteFile(JSON.stringify(fromYaml)), fromYaml);
+  assert.deepEqual(parseSuiteFile(fromYaml), fromYaml);
+  // An explicit format wins over sniffing
+  assert.throws(() => parseSuiteFile(YAML_SUITE, "json"), /Invalid suite file \(json\)/);
+});
+
+test("schema defaults fill only the fields a test omits", () => {
+  const [reschedule, greeting] = parseSuiteFile(YAML_SUITE).conversation_tests!;
+  assert.equal(reschedule!.max_turns, 6);
+  assert.deepEqual(reschedule!.eval, ["Does the agent confirm the new time?"]);
+  assert.equal(greeting!.max_turns, 10);
+  assert.deepEqual(greeting!.eval, []);
+});
+
+test("expansion splits a suite into spec, thresholds, and channel config", () => {
+  const expanded = expandSuite(parseSuiteFile(YAML_SUITE));
+
+  assert.equal(expanded.name, "booking");
+  assert.deepEqual(expanded.channelConfig, {
+    adapter: "ws-voice",
+    agentUrl: "wss://agent.example.com/ws",
+    targetPhoneNumber: undefined,
+    voice: undefined,
+    platform: undefined,
+  });
+  assert.deepEqual(expanded.testSpec.audio_tests, ["echo", "ttfb"]);
+  assert.equal(expanded.testSpec.audio_repeat, 3);
+  assert.deepEqual(expanded.testSpec.conversation_tests!.map((t) => t.name), ["reschedule", "greeting"]);
+  assert.deepEqual(expanded.audioTestThresholds, { ttfb: { p95_threshold_ms: 1200 } });
+
+  const { audio_test_thresholds: _, ...bare } = parseSuiteFile(YAML_SUITE);
+  assert.equal(expandSuite(bare).audioTestThresholds, null);
+});
+
+test("unsupported versions are rejected", () => {
+  assert.throws(() => parseSuiteFile(YAML_SUITE.replace("version: 1", "version: 2")), /version/);
+  assert.throws(() => parseSuiteFile(YAML_SUITE.replace("version: 1\n", "")), /version/);
+});
+
+test("invalid documents report every issue by path", () => {
+  assert.throws(() => parseSuiteFile("adapter: [unclosed"), /Invalid suite file \(yaml\)/);
+  assert.throws(() => parseSuiteFile('{"version": 1,'), /Invalid suite file \(json\)/);
+  assert.throws(() => parseSuiteFile("just a string"), /\(root\)/);
+
+  const err = (() => {
+    try {
+      parseSuiteFile(`${YAML_SUITE}\nadaptor: sip\naudio_repeat: 0\n`.replace("audio_repeat: 3\n", ""));
+    } catch (e) {
+      return (e as Error).message;
+    }
+    assert.fail("expected the suite to be rejected");
+  })();
+  assert.match(err, /Unrecognized key\(s\) in object: 'adaptor'/);
+  assert.match(err, /audio_repeat:/);
+
+  assert.throws(
+    () => parseSuiteFile({ version: 1, adapter: "ws-voice", audio_tests: [] }),
+    /At least one audio_test or conversation_test is required/,
+  );
+});
@@ -0,0 +1,57 @@
+import { parse as parseYaml } from "yaml";
+import type { ExpandedSuite, SuiteFile } from "./types.js";
+import { SuiteFileSchema } from "./schemas.js";
+
+export type SuiteFileFormat = "yaml" | "json";
+
+/**
+ * Parse and validate a suite document (voiceci.yaml / voiceci.json).
+ * Accepts raw text or an already-decoded object. When no format is given,
+ * text starting with "{" is treated as JSON and everything else as YAML
+ * (YAML is a superset of JSON, so this only matters for error messages).
+ */
+export function parseSuiteFile(source: string | unknown, format?: SuiteFileFormat): SuiteFile {
+  let raw: unknown = source;
+
+  if (typeof source === "string") {
+    const resolved = format ?? (source.trimStart().startsWith("{") ? "json" : "yaml");
+    try {
+      raw = resolved === "json" ? JSON.parse(source) : parseYaml(source);
+    } catch (err) {
+      throw new Error(
+        `Invalid suite file (${resolved}): ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  const parsed = SuiteFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `  - ${i.path.length > 0 ? i.path.join(".") : "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new Error(`Invalid suite file:\n${issues}`);
+  }
+  return parsed.data;
+}
+
+/** Split a validated suite into the test spec, thresholds, and channel config used by the runner. */
+export function expandSuite(suite: SuiteFile): ExpandedSuite {
+  return {
+    name: suite.name,
+    testSpec: {
+      audio_tests: suite.audio_tests,
+      conversation_tests: suite.conversation_tests,
+      audio_repeat: suite.audio_repeat,
+      audio_min_pass_rate: suite.audio_min_pass_rate,
+      audio_speech_profiles: suite.audio_speech_profiles,
+    },
+    audioTestThresholds: suite.audio_test_thresholds ?? null,
+    channelConfig: {
+      adapter: suite.adapter,
+      agentUrl: suite.agent_url,
+      targetPhoneNumber: suite.target_phone_number,
+      voice: suite.voice,
+      platform: suite.platform,
+    },
+  };
+}
@@ -1,19 +1,202 @@
-export type RunStatus = "queued" | "running" | "pass" | "fail";
+export type RunStatus = "queued" | "running" | "pass" | "fail" | "cancelled";
 export type SourceType = "bundle" | "remote";
 
+export const TTS_PROVIDER_NAMES = ["elevenlabs", "openai", "azure", "google", "local", "mock"] as const;
+
+export type TTSProviderName = (typeof TTS_PROVIDER_NAMES)[number];
+
+export const STT_PROVIDER_NAMES = ["deepgram", "whisper", "assemblyai", "mock"] as const;
+
+export type STTProviderName = (typeof STT_PROVIDER_NAMES)[number];
+
+export const NETWORK_PROFILE_NAMES = ["3g", "lossy-wifi", "satellite"] as const;
+
+export type NetworkProfileName = (typeof NETWORK_PROFILE_NAMES)[number];
+
+export const SPEECH_PROFILE_NAMES = ["elderly", "hesitant", "fast-talker", "far-field", "quiet", "clipping"] as const;
+
+export type SpeechProfileName = (typeof SPEECH_PROFILE_NAMES)[number];
+
+/**
+ * Server env vars a config's `*_env` fields may name: provider credentials
+ * only, so a config can never read (or forward) the server's own secrets.
+ */
+export const PROVIDER_KEY_ENV_NAMES = [
+  "ELEVENLABS_API_KEY",
+  "OPENAI_API_KEY",
+  "AZURE_SPEECH_KEY",
+  "GOOGLE_TTS_API_KEY",
+  "DEEPGRAM_API_KEY",
+  "ASSEMBLYAI_API_KEY",
+  "TWILIO_ACCOUNT_SID",
+  "TWILIO_AUTH_TOKEN",
+  "PLIVO_AUTH_ID",
+  "PLIVO_AUTH_TOKEN",
+  "SIP_USERNAME",
+  "SIP_PASSWORD",
+  "LIVEKIT_URL",
+  "LIVEKIT_API_KEY",
+  "LIVEKIT_API_SECRET",
+  "VAPI_API_KEY",
+  "RETELL_API_KEY",
+  "BLAND_API_KEY",
+] as const;
+
+export type ProviderKeyEnvName = (typeof PROVIDER_KEY_ENV_NAMES)[number];
+
+/** How the simulated caller talks — applied to every caller utterance on top of the TTS voice. */
+export interface SpeechProfile {
+  /** Speaking rate, 0.5-2 (1 = as synthesized). Time-stretched, so pitch is kept. */
+  rate?: number;
+  /** Fraction of utterances with a filler ("um", "uh") or a restart ("I want, I want to..."), 0-1 */
+  disfluency?: number;
+  /** Fraction of utterances with a long mid-sentence pause, 0-1 */
+  pause_rate?: number;
+  /** Length of those pauses (default 1500ms) */
+  pause_ms?: number;
+  /** Loudness change (dB; negative is quieter) */
+  gain_db?: number;
+  /** Random ± loudness change per utterance (dB) */
+  volume_variation_db?: number;
+  /** Overdrive the mic this many dB past full scale (hard clipping) */
+  clipping_db?: number;
+  /** Far-field room reverb, 0-1 (wet mix) */
+  reverb?: number;
+  /** Accent as a locale, e.g. en-IN or en-GB. Picks a regional voice on azure, google, openai, and local. */
+  accent?: string;
+  /** PRNG seed so the same line always gets the same disfluencies and loudness */
+  seed?: number;
+}
+
+/** Network conditions applied to both directions of a call. */
+export interface NetworkImpairment {
+  /** Added one-way delay per packet (ms) */
+  latency_ms?: number;
+  /** Uniform random ± variation on top of latency_ms (ms) */
+  jitter_ms?: number;
+  /** Long-run fraction of 20ms packets lost, 0-1. Lost packets become silence. */
+  loss?: number;
+  /** Mean length of a loss burst in packets (Gilbert model; default 1 = independent losses) */
+  loss_burst?: number;
+  /** Probability a packet arrives after its successor, 0-1 */
+  reorder?: number;
+  /** Probability a packet is delivered twice, 0-1 */
+  duplicate?: number;
+  /** Codec bitrate cap (kbps). Audio is band-limited and quantized to approximate it. */
+  bitrate_kbps?: number;
+  /** PRNG seed so an impaired run can be reproduced exactly */
+  seed?: number;
+}
+
+/** ws-voice wire protocol. Omit for raw binary PCM 16-bit 24kHz frames. */
+export interface WsProtocolConfig {
+  /** "binary" (default): audio in binary frames. "json": base64 audio inside JSON text frames. */
+  audio_framing?: "binary" | "json";
+  /** Audio encoding on the wire (default pcm16) */
+  encoding?: "pcm16" | "mulaw" | "opus";
+  /** Wire sample rate in Hz (default 24000 for pcm16, 8000 for mulaw, 48000 for opus) */
+  sample_rate?: number;
+  /** Dotted path of the event name in JSON frames (default "type") */
+  event_field?: string;
+  /** json framing: event name of audio frames (default "media") */
+  audio_event?: string;
+  /** json framing: dotted path of the base64 audio payload (default "payload") */
+  audio_field?: string;
+  /** Event name of tool call frames (default "tool_call") */
+  tool_call_event?: string;
+  /** json framing: extra fields for outgoing audio frames, e.g. { "streamSid": "{{session_id}}" } */
+  audio_message?: Record<string, unknown>;
+  /** Sent once after connecting. Strings support {{sample_rate}}, {{encoding}} and {{session_id}}. */
+  start_message?: Record<string, unknown>;
+  /** Wait for a frame with this event name before the connection counts as ready */
+  ready_event?: string;
+}
+
 export interface VoiceConfig {
-  tts?: { voice_id?: string; api_key_env?: string };
-  stt?: { api_key_env?: string };
+  tts?: {
+    /** Caller voice engine (default: elevenlabs) */
+    provider?: TTSProviderName;
+    voice_id?: string;
+    api_key_env?: ProviderKeyEnvName;
+    /** Provider model, e.g. eleven_multilingual_v2, gpt-4o-mini-tts */
+    model?: string;
+    /** Azure Speech region (default: env AZURE_SPEECH_REGION) */
+    region?: string;
+  };
+  stt?: {
+    /** Agent-audio transcription engine (default: deepgram) */
+    provider?: STTProviderName;
+    api_key_env?: ProviderKeyEnvName;
+    /** Provider model, e.g. nova-2, whisper-1 */
+    model?: string;
+    /** Base URL for Whisper-compatible endpoints (default: https://api.openai.com/v1) */
+    base_url?: string;
+    /** Key for a custom base_url — server keys are only ever sent to the default one */
+    api_key?: string;
+  };
   silence_threshold_ms?: number;
+  /** Simulated network conditions for every call: a named profile or custom impairment */
+  network_profile?: NetworkProfileName | NetworkImpairment;
+  /** How the caller talks in every test: a named profile or custom settings (tests can override) */
+  speech_profile?: SpeechProfileName | SpeechProfile;
+  /** ws-voice only: framing, encoding, and field names of the agent's WebSocket protocol */
+  ws_protocol?: WsProtocolConfig;
+  /**
+   * Offline mode: mock TTS/STT and rule-based caller/judge, no network calls.
+   * Presence of the block enables it unless enabled is false.
+   */
+  hermetic?: {
+    enabled?: boolean;
+    /** Phrases the mock STT should recognize when synthesized by another process (e.g. a mock agent) */
+    known_phrases?: string[];
+  };
   telephony?: {
-    auth_id_env?: string;
-    auth_token_env?: string;
+    /** Env var holding the Plivo auth ID (sip) or Twilio account SID (twilio) */
+    auth_id_env?: ProviderKeyEnvName;
+    auth_token_env?: ProviderKeyEnvName;
     from_number?: string;
+    /** sip and twilio: "outbound" (default) dials the agent; "inbound" waits for the agent to call from_number */
+    mode?: "outbound" | "inbound";
+    /** inbound only: tells the agent to dial from_number (otherwise it must call on its own) */
+    trigger?: InboundCallTrigger;
+    /** inbound only: how long to wait for the agent's call to arrive (default 120000) */
+    inbound_timeout_ms?: number;
+  };
+  /** sip-direct only: native SIP UA settings */
+  sip?: {
+    /** SIP URI to call, e.g. sip:agent@pbx.example.com:5060 */
+    uri: string;
+    /** Env vars holding digest credentials (default SIP_USERNAME / SIP_PASSWORD) */
+    username_env?: ProviderKeyEnvName;
+    password_env?: ProviderKeyEnvName;
+    /** REGISTER with the registrar before calling (default false) */
+    register?: boolean;
+    /** Registrar URI (default: the host of uri) */
+    registrar?: string;
+    /** G.711 codecs to offer, in preference order (default ["PCMU", "PCMA"]) */
+    codecs?: Array<"PCMU" | "PCMA">;
+    /** Address to advertise in SDP/Contact when auto-detection picks the wrong interface */
+    local_ip?: string;
+  };
+  /** openai-realtime only: the Realtime API session that is the agent under test */
+  realtime?: {
+    /** WebSocket endpoint (default wss://api.openai.com/v1/realtime). Point at a mock server in CI. */
+    url?: string;
+    /** Model query param (default gpt-4o-realtime-preview) */
+    model?: string;
+    /** Env var holding the OpenAI API key (default OPENAI_API_KEY) — sent only to api.openai.com */
+    api_key_env?: ProviderKeyEnvName;
+    /** Key for a custom url; the server's key is never sent there */
+    api_key?: string;
+    /** Sent as session.update on connect: instructions, voice, tools, turn_detection, ... */
+    session?: Record<string, unknown>;
+    /** Canned function_call_output per tool name (default { ok: true }) */
+    tool_outputs?: Record<string, unknown>;
   };
   webrtc?: {
-    livekit_url_env?: string;
-    api_key_env?: string;
-    api_secret_env?: string;
+    livekit_url_env?: ProviderKeyEnvName;
+    api_key_env?: ProviderKeyEnvName;
+    api_secret_env?: ProviderKeyEnvName;
     room?: string;
   };
 }
@@ -32,19 +215,126 @@ export const AUDIO_TEST_NAMES = [
   "noise_resilience",
   "endpointing",
   "audio_quality",
+  "voicemail_detection",
 ] as const;
 
 export type AudioTestName = (typeof AUDIO_TEST_NAMES)[number];
 
-export type AdapterType = "ws-voice" | "sip" | "webrtc" | "vapi" | "retell" | "elevenlabs" | "bland";
+export type AdapterType = "ws-voice" | "sip" | "sip-direct" | "twilio" | "webrtc" | "openai-realtime" | "vapi" | "retell" | "elevenlabs" | "bland";
+
+/** Checks a single agent reply against an expectation. */
+export type ResponseMatcher =
+  | { type: "contains"; value: string; case_sensitive?: boolean }
+  | { type: "regex"; pattern: string; flags?: string }
+  | { type: "semantic"; criterion: string };
+
+/** One deterministic caller line, optionally with an expected agent reply. */
+export interface ScriptedTurn {
+  say: string;
+  expect?: ResponseMatcher;
+}
 
 export interface ConversationTestSpec {
   name?: string;
-  caller_prompt: string;
+  /** Persona for LLM-driven turns. Optional when `script` is given. */
+  caller_prompt?: string;
+  /** Caller lines spoken verbatim, in order, before the persona takes over. */
+  script?: ScriptedTurn[];
   max_turns: number;
   eval: string[];
   tool_call_eval?: string[];
   silence_threshold_ms?: number;
+  /** How long the caller waits on hold or through ringback for someone to pick up (default 120000ms). */
+  max_hold_ms?: number;
+  /** Language the caller speaks, as a BCP-47 tag such as "es" or "fr-CA" (default English). */
+  language?: string;
+  /** Code-switching: from this caller turn (0-based) on, the caller speaks `language` instead. */
+  switch_language_at_turn?: LanguageSwitch;
+  /** Have the caller cut the agent off mid-reply (barge-in) instead of waiting for it to finish. */
+  interruption?: InterruptionBehavior;
+  /** How the caller talks in this test (overrides voice.speech_profile). */
+  speech_profile?: SpeechProfileName | SpeechProfile;
+  /** Run the conversation this many times on independent channels (default 1). */
+  repeat?: number;
+  /** Fraction of attempts that must pass for the test to pass (default 1). */
+  min_pass_rate?: number;
+  /** Inbound mode only: how the simulated callee answers the agent's call. */
+  callee?: CalleeBehavior;
+}
+
+export interface LanguageSwitch {
+  turn: number;
+  language: string;
+}
+
+/**
+ * When the caller barges in on the agent. The caller answers only what it
+ * heard before cutting in, and its next line is sent while the agent is
+ * still talking.
+ */
+export interface InterruptionBehavior {
+  /**
+   * after_ms: once the agent has spoken for `after_ms`.
+   * random: on a `probability` share of agent turns, 0.5–3s into its speech.
+   * keyword: when the agent says one of `keywords`.
+   */
+  trigger: "after_ms" | "random" | "keyword";
+  /** after_ms only: agent speech before cutting in (default 1500ms) */
+  after_ms?: number;
+  /** random only: chance of cutting in on each agent turn (default 0.5) */
+  probability?: number;
+  /** keyword only: words or phrases that make the caller cut in (case-insensitive) */
+  keywords?: string[];
+  /** Most interruptions per conversation (default: no limit) */
+  max_interruptions?: number;
+}
+
+/** How an interrupted agent turn played out (ConversationTurn.interruption) */
+export interface TurnInterruption {
+  /** What the caller heard before its audio went out (its line answers only the part up to the trigger) */
+  heard_text: string;
+  /** Agent audio before the caller's audio went out (ms) — the trigger plus the caller's generation and TTS time */
+  heard_ms: number;
+  /** Whether the agent was still talking when the caller's audio started */
+  overlapped: boolean;
+  /** Time both sides were talking (ms) */
+  overlap_ms: number;
+  /** Time from the caller's audio starting to the agent going quiet (ms); absent if it kept talking */
+  stop_latency_ms?: number;
+}
+
+/**
+ * What the callee does when the agent under test calls in (telephony mode
+ * "inbound"). Anything but "answer" needs no caller_prompt or script.
+ */
+export interface CalleeBehavior {
+  /**
+   * answer (default): pick up and converse as caller_prompt/script.
+   * decline: reject the call as busy.
+   * silent: pick up and say nothing.
+   * voicemail: play a voicemail greeting and beep, then listen to the message.
+   */
+  action?: "answer" | "decline" | "silent" | "voicemail";
+  /** Let the call ring this many times (~6s each) before answering or declining (default 0) */
+  rings?: number;
+  /** voicemail only: greeting spoken before the beep */
+  greeting?: string;
+}
+
+/**
+ * Inbound mode: how VoiceCI tells the agent under test to place its call
+ * once the number is listening. `{{phone_number}}` in the url, headers, or
+ * body is replaced with the number to dial (telephony.from_number).
+ */
+export interface InboundCallTrigger {
+  type: "webhook";
+  /** Public https endpoint */
+  url: string;
+  /** Default POST */
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  /** JSON body (default `{ "phone_number": "{{phone_number}}" }`) */
+  body?: Record<string, unknown>;
 }
 
 // ============================================================
@@ -70,7 +360,7 @@ export interface ToolCallMetrics {
 
 export interface PlatformConfig {
   provider: "vapi" | "retell" | "elevenlabs" | "bland";
-  api_key_env: string;
+  api_key_env: ProviderKeyEnvName;
   agent_id?: string;
 }
 
@@ -97,6 +387,13 @@ export interface AudioTestThresholds {
     min_duration_ms?: number;
     min_energy_consistency?: number;
   };
+  voicemail_detection?: {
+    max_message_duration_ms?: number;
+    hangup_timeout_ms?: number;
+    max_pre_beep_speech_ms?: number;
+    /** Fail agents that hang up on voicemail without leaving a message (default true) */
+    require_message?: boolean;
+  };
   audio_analysis_grade?: AudioAnalysisGradeThresholds;
 }
 
@@ -121,6 +418,43 @@ export interface AudioAnalysisWarning {
 export interface TestSpec {
   audio_tests?: AudioTestName[];
   conversation_tests?: ConversationTestSpec[];
+  /** Run every audio test this many times on independent channels (default 1). */
+  audio_repeat?: number;
+  /** Fraction of audio test attempts that must pass (default 1). */
+  audio_min_pass_rate?: number;
+  /** Caller speech profile per audio test (overrides voice.speech_profile). */
+  audio_speech_profiles?: Partial<Record<AudioTestName, SpeechProfileName | SpeechProfile>>;
+}
+
+/** How one eval question behaved across repeated attempts. */
+export interface EvalVariance {
+  question: string;
+  /** Attempts where the judge found the question relevant */
+  relevant_attempts: number;
+  pass_rate: number;
+  /** Bernoulli variance p(1-p): 0 = consistent, 0.25 = coin flip */
+  variance: number;
+}
+
+/** Outcome of a test run with repeat > 1. */
+export interface RepeatSummary {
+  attempts: number;
+  passed: number;
+  pass_rate: number;
+  min_pass_rate: number;
+  /** 0 when every attempt agrees, 1 when attempts split 50/50 */
+  flakiness: number;
+  /** Indices (0-based) of attempts that failed */
+  failed_attempts: number[];
+  eval_variance?: EvalVariance[];
+}
+
+/** Stereo call recording (caller left, agent right) uploaded to artifact storage. */
+export interface RecordingRef {
+  key: string;
+  content_type: string;
+  byte_size: number;
+  duration_ms: number;
 }
 
 export interface AudioTestResult {
@@ -129,19 +463,63 @@ export interface AudioTestResult {
   metrics: Record<string, number | boolean>;
   duration_ms: number;
   error?: string;
+  recording?: RecordingRef;
+  repeat?: RepeatSummary;
+  /** Every attempt when repeat > 1; top-level fields mirror the first failing (else first) attempt */
+  attempts?: Omit<AudioTestResult, "repeat" | "attempts">[];
+}
+
+export interface TranscriptWord {
+  word: string;
+  /** Offset from the start of the turn's audio (ms) */
+  start_ms: number;
+  end_ms: number;
+  confidence?: number;
 }
 
+/** Conversation state an agent framework reports about itself (LiveKit Agents' lk.agent.state). */
+export type AgentState = "initializing" | "idle" | "listening" | "thinking" | "speaking";
+
 export interface ConversationTurn {
   role: "caller" | "agent";
   text: string;
   timestamp_ms: number;
   audio_duration_ms?: number;
+  /** Time to the agent's first audio — or, when it reports state, to when it started speaking (ms) */
   ttfb_ms?: number;
+  /** Time from caller audio sent to the agent's first transcribed word (ms) */
+  ttfw_ms?: number;
   stt_confidence?: number;
+  /** Per-word timings from STT, relative to the start of the agent's audio */
+  words?: TranscriptWord[];
   /** Harness TTS synthesis time for this turn's caller audio (ms) */
   tts_ms?: number;
   /** Harness STT transcription time for this turn's agent audio (ms) */
   stt_ms?: number;
+  /** DTMF digits pressed during this turn (caller [DTMF:] tags, or detected from the agent) */
+  dtmf?: string;
+  /** Language the caller spoke in this turn (caller turns of tests with a language) */
+  language?: string;
+  /** Agent turns the caller cut into: `text` is all the agent said, `heard_text` what the caller heard */
+  interruption?: TurnInterruption;
+  /**
+   * The agent's own transcript of this turn, where the transport reports one
+   * (LiveKit Agents): what it said on agent turns, what it heard on caller turns
+   */
+  reported_text?: string;
+}
+
+export type CallEventType = "hold_music" | "ringback" | "transfer" | "remote_hangup";
+
+/** A call-flow event detected on the line during a conversation test. */
+export interface CallEvent {
+  type: CallEventType;
+  /** When it started, relative to the start of the test (ms) */
+  timestamp_ms: number;
+  /** How long hold music or ringback lasted (ms) */
+  duration_ms?: number;
+  /** What gave it away, e.g. the voice change behind a transfer */
+  detail?: string;
 }
 
 export interface EvalResult {
@@ -176,9 +554,9 @@ export interface LatencyMetrics {
 }
 
 export interface HarnessOverhead {
-  /** Per-turn TTS synthesis time (ms) — our ElevenLabs call duration */
+  /** Per-turn TTS synthesis time (ms) — our caller TTS provider call duration */
   tts_per_turn_ms: number[];
-  /** Per-turn STT transcription time (ms) — our Deepgram call duration */
+  /** Per-turn STT transcription time (ms) — our STT provider call duration */
   stt_per_turn_ms: number[];
   mean_tts_ms: number;
   mean_stt_ms: number;
@@ -241,16 +619,35 @@ export interface ConversationMetrics {
   harness_overhead?: HarnessOverhead;
 }
 
+export interface ScriptStepResult {
+  /** Index into spec.script */
+  step: number;
+  say: string;
+  expect: ResponseMatcher;
+  agent_text: string;
+  passed: boolean;
+  reasoning: string;
+}
+
 export interface ConversationTestResult {
   name?: string;
   caller_prompt: string;
   status: "pass" | "fail";
   transcript: ConversationTurn[];
   eval_results: EvalResult[];
+  script_results?: ScriptStepResult[];
   tool_call_eval_results?: EvalResult[];
   observed_tool_calls?: ObservedToolCall[];
+  /** Hold music, ringback, transfers, and the agent hanging up, in time order */
+  call_events?: CallEvent[];
   duration_ms: number;
   metrics: ConversationMetrics;
+  /** Why the call failed outright (the channel reported an error) */
+  error?: string;
+  recording?: RecordingRef;
+  repeat?: RepeatSummary;
+  /** Every attempt when repeat > 1; top-level fields mirror the first failing (else first) attempt */
+  attempts?: Omit<ConversationTestResult, "repeat" | "attempts">[];
 }
 
 export interface RunAggregateV2 {
@@ -268,6 +665,41 @@ export interface RunnerCallbackPayloadV2 {
   error_text?: string;
 }
 
+// ============================================================
+// Suite file types (voiceci.yaml / voiceci.json)
+// ============================================================
+
+export interface SuiteFile {
+  version: 1;
+  name?: string;
+  adapter: AdapterType;
+  agent_url?: string;
+  target_phone_number?: string;
+  platform?: PlatformConfig;
+  voice?: VoiceConfig;
+  audio_tests?: AudioTestName[];
+  conversation_tests?: ConversationTestSpec[];
+  audio_repeat?: number;
+  audio_min_pass_rate?: number;
+  audio_speech_profiles?: Partial<Record<AudioTestName, SpeechProfileName | SpeechProfile>>;
+  audio_test_thresholds?: AudioTestThresholds;
+}
+
+/** A suite file expanded into the shapes the runner consumes. */
+export interface ExpandedSuite {
+  name?: string;
+  testSpec: TestSpec;
+  audioTestThresholds: AudioTestThresholds | null;
+  /** Structurally matches AudioChannelConfig from @voiceci/adapters */
+  channelConfig: {
+    adapter: AdapterType;
+    agentUrl?: string;
+    targetPhoneNumber?: string;
+    voice?: VoiceConfig;
+    platform?: PlatformConfig;
+  };
+}
+
 // ============================================================
 // Load testing types
 // ============================================================
@@ -302,4 +734,64 @@ export interface LoadTestResult {
     mean_call_duration_ms: number;
   };
   duration_ms: number;
-}
\ No newline at end of file
+}
+
+// ============================================================
+// Run comparison types
+// ============================================================
+
+/** How far a metric may worsen before it counts as a regression. */
+export interface RegressionTolerances {
+  /** Allowed TTFB increase in ms (default 250). Both ms and pct must be exceeded. */
+  latency_ms?: number;
+  /** Allowed TTFB increase in percent of the baseline (default 20). */
+  latency_pct?: number;
+  /** Allowed drop in a 0-1 behavioral score (default 0.15). */
+  behavioral_score?: number;
+  /** Allowed relative worsening of a transcript metric in percent (default 25). */
+  transcript_pct?: number;
+}
+
+export type TestChange = "regressed" | "fixed" | "unchanged" | "added" | "removed";
+
+export type EvalVerdict = "pass" | "fail" | "not_relevant";
+
+export interface EvalChange {
+  question: string;
+  baseline: EvalVerdict | null;
+  candidate: EvalVerdict | null;
+  regression: boolean;
+}
+
+export interface MetricDelta {
+  /** Dotted path, e.g. "latency.p95_ttfb_ms" or "behavioral.empathy_score" */
+  metric: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+  /** Relative change vs baseline, in percent (null when baseline is 0) */
+  delta_pct: number | null;
+  better: "lower" | "higher";
+  regression: boolean;
+}
+
+export interface TestComparison {
+  name: string;
+  test_type: "audio" | "conversation";
+  baseline_status: "pass" | "fail" | null;
+  candidate_status: "pass" | "fail" | null;
+  change: TestChange;
+  eval_changes: EvalChange[];
+  metric_deltas: MetricDelta[];
+  /** Human-readable reasons this test regressed (empty if it didn't) */
+  regressions: string[];
+}
+
+export interface RunComparison {
+  run_id: string;
+  baseline_run_id: string;
+  regressed: boolean;
+  summary: Record<TestChange, number> & { metric_regressions: number; eval_regressions: number };
+  tolerances: Required<RegressionTolerances>;
+  tests: TestComparison[];
+}
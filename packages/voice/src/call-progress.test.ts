@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectCallProgress, estimatePitch } from "./call-progress.js";
+
+const RATE = 24000;
+
+/** A stretch of audio: summed sines at fixed frequencies, or silence */
+type Segment = { ms: number; tones?: number[]; amplitude?: number };
+
+function render(segments: Segment[], rate = RATE): Buffer {
+  const total = segments.reduce((sum, s) => sum + Math.round((s.ms * rate) / 1000), 0);
+  const out = Buffer.alloc(total * 2);
+  let offset = 0;
+  for (const { ms, tones = [], amplitude = 6000 } of segments) {
+    const count = Math.round((ms * rate) / 1000);
+    for (let i = 0; i < count; i++) {
+      const t = (offset + i) / rate;
+      const sample = tones.reduce((sum, f) => sum + amplitude * Math.sin(2 * Math.PI * f * t), 0);
+      out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample))), (offset + i) * 2);
+    }
+    offset += count;
+  }
+  return out;
+}
+
+/** Voiced speech: syllables whose pitch glides from `f0` up 40%, with gaps between words */
+function speech(f0: number, syllables: number): Buffer {
+  const out: Buffer[] = [];
+  for (let s = 0; s < syllables; s++) {
+    const samples = RATE / 4;
+    const syllable = Buffer.alloc(samples * 2);
+    let phase = 0;
+    for (let i = 0; i < samples; i++) {
+      phase += (2 * Math.PI * f0 * (1 + (0.4 * i) / samples)) / RATE;
+      const sample = 4000 * (Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.3 * Math.sin(3 * phase));
+      syllable.writeInt16LE(Math.round(sample), i * 2);
+    }
+    out.push(syllable, render([{ ms: 150 }]));
+  }
+  return Buffer.concat(out);
+}
+
+/** Hold music: a melody of 500ms notes, each with fading harmonics */
+function music(notes: number[]): Buffer {
+  const samples = RATE / 2;
+  const out = Buffer.alloc(notes.length * samples * 2);
+  notes.forEach((f, n) => {
+    for (let i = 0; i < samples; i++) {
+      const t = (n * samples + i) / RATE;
+      const sample = 3000 * (Math.sin(2 * Math.PI * f * t) + 0.5 * Math.sin(4 * Math.PI * f * t) + 0.25 * Math.sin(6 * Math.PI * f * t));
+      out.writeInt16LE(Math.round(sample), (n * samples + i) * 2);
+    }
+  });
+  return out;
+}
+
+test("North American ringback cadence is one span across its silences", () => {
+  const ring = { ms: 2000, tones: [440, 480] };
+  const pcm = render([ring, { ms: 4000 }, ring, { ms: 4000 }, ring]);
+  assert.deepEqual(detectCallProgress(pcm), [{ kind: "ringback", startMs: 0, endMs: 14000 }]);
+});
+
+test("UK and European ringback tones are recognized", () => {
+  const uk = { ms: 400, tones: [400, 450] };
+  const gap = { ms: 200 };
+  const pause = { ms: 2000 };
+  assert.deepEqual(
+    detectCallProgress(render([uk, gap, uk, pause, uk, gap, uk])).map((s) => s.kind),
+    ["ringback"],
+  );
+
+  const europe = { ms: 1000, tones: [425] };
+  assert.deepEqual(detectCallProgress(render([{ ms: 500 }, europe, { ms: 4000 }, europe])), [
+    { kind: "ringback", startMs: 500, endMs: 6500 },
+  ]);
+});
+
+test("short beeps and other tones are not ringback", () => {
+  // Under the 800ms a ringback needs in total
+  assert.deepEqual(detectCallProgress(render([{ ms: 600, tones: [440, 480] }, { ms: 3000 }])), []);
+  // Ringback separated by longer than the 4.5s cadence gap
+  const ring = { ms: 600, tones: [440, 480] };
+  assert.deepEqual(detectCallProgress(render([ring, { ms: 5000 }, ring])), []);
+  // A busy signal's tones
+  assert.deepEqual(detectCallProgress(render([{ ms: 500, tones: [480, 620] }, { ms: 500 }, { ms: 500, tones: [480, 620] }])), []);
+});
+
+test("steady, continuous melody is hold music", () => {
+  const melody = [262, 330, 392, 523, 392, 330, 262, 294, 349, 440, 349, 294];
+  const spans = detectCallProgress(Buffer.concat([speech(120, 4), music(melody), speech(120, 4)]));
+  assert.equal(spans.length, 1);
+  assert.equal(spans[0]!.kind, "hold_music");
+  // Whole 1s windows inside the 1.6s of speech + 6s of music
+  assert.ok(spans[0]!.startMs >= 1000 && spans[0]!.startMs <= 2000, `starts at ${spans[0]!.startMs}`);
+  assert.ok(spans[0]!.endMs >= 7000 && spans[0]!.endMs <= 8000, `ends at ${spans[0]!.endMs}`);
+
+  // Under the 3s minimum
+  assert.deepEqual(detectCallProgress(music(melody.slice(0, 4))), []);
+});
+
+test("speech and silence are neither ringback nor hold music", () => {
+  assert.deepEqual(detectCallProgress(speech(120, 30)), []);
+  assert.deepEqual(detectCallProgress(speech(210, 30)), []);
+  assert.deepEqual(detectCallProgress(render([{ ms: 10000 }])), []);
+});
+
+test("continuous ringback is reported once, not also as music", () => {
+  assert.deepEqual(detectCallProgress(render([{ ms: 5000, tones: [440, 480] }])), [
+    { kind: "ringback", startMs: 0, endMs: 5000 },
+  ]);
+});
+
+test("other sample rates are analyzed at the same timings", () => {
+  const ring = { ms: 2000, tones: [440, 480] };
+  const pcm = render([ring, { ms: 4000 }, ring], 8000);
+  assert.deepEqual(detectCallProgress(pcm, 8000), [{ kind: "ringback", startMs: 0, endMs: 8000 }]);
+});
+
+test("pitch estimates tell a low voice from a high one", () => {
+  const low = estimatePitch(speech(110, 8))!;
+  const high = estimatePitch(speech(200, 8))!;
+  // Median of a glide from f0 to 1.4 f0
+  assert.ok(low > 110 && low < 160, `low voice at ${low}Hz`);
+  assert.ok(high > 200 && high < 290, `high voice at ${high}Hz`);
+  assert.ok(high / low > 1.2);
+
+  assert.equal(estimatePitch(render([{ ms: 2000 }])), null);
+  assert.equal(estimatePitch(render([{ ms: 2000, tones: [150], amplitude: 100 }])), null);
+});
@@ -0,0 +1,229 @@
+/**
+ * Call-progress audio analysis — finds ringback and hold music in what the
+ * far end sends, and estimates a speaker's pitch so a different voice after
+ * a hold can be told apart from the agent coming back.
+ *
+ * Ringback is a Goertzel check over 50ms blocks for the common ringback
+ * tones (North America 440+480Hz, UK 400+450Hz, most of Europe 425Hz).
+ * Hold music is judged per 1s window: its energy is continuous (speech
+ * drops between syllables and words) and its strongest note holds steady
+ * for a beat, where speech pitch glides.
+ *
+ * All audio is 16-bit signed PCM, 24kHz mono unless a sample rate is given.
+ */
+
+import { resample } from "./format.js";
+
+export type CallProgressKind = "ringback" | "hold_music";
+
+export interface CallProgressSpan {
+  kind: CallProgressKind;
+  startMs: number;
+  endMs: number;
+}
+
+const ANALYSIS_RATE = 8000;
+const BLOCK_MS = 50;
+const BLOCK_SAMPLES = (ANALYSIS_RATE * BLOCK_MS) / 1000;
+/** Blocks quieter than this RMS are treated as silence */
+const MIN_RMS = 200;
+
+/** Ringback tone pairs, and the single-tone variant */
+const RINGBACK_PAIRS: Array<[number, number]> = [[440, 480], [400, 450]];
+const RINGBACK_SINGLE = 425;
+/** Fraction of block energy the ringback tone(s) must hold */
+const MIN_RINGBACK_FRACTION = 0.6;
+const MIN_PAIR_TONE_FRACTION = 0.15;
+/** Shortest tone burst that counts (cadences run 0.4s–2s on) */
+const MIN_RING_BURST_MS = 400;
+/** Longest silence between bursts of one ringback (US cadence: 4s off) */
+const MAX_RING_GAP_MS = 4500;
+/** Tone time a ringback needs in total */
+const MIN_RINGBACK_MS = 800;
+
+const WINDOW_BLOCKS = 20;
+/** Music never drops below this fraction of its median block level within a window */
+const MIN_CONTINUITY_RATIO = 0.3;
+/** Semitone bank for note tracking: A2 (110Hz) to C6 (1047Hz) */
+const NOTE_FREQUENCIES = Array.from({ length: 40 }, (_, i) => 110 * Math.pow(2, i / 12));
+/** Fraction of a window's blocks whose strongest note matches the previous block */
+const MIN_NOTE_STABILITY = 0.5;
+/** Shortest stretch of hold music worth reporting */
+const MIN_HOLD_MUSIC_MS = 3000;
+
+/** Find ringback and hold music in a buffer, in time order. */
+export function detectCallProgress(pcm: Buffer, sampleRate = 24000): CallProgressSpan[] {
+  const samples = toFloat(sampleRate === ANALYSIS_RATE ? pcm : resample(pcm, sampleRate, ANALYSIS_RATE));
+  const blockCount = Math.floor(samples.length / BLOCK_SAMPLES);
+  const blocks: Float32Array[] = [];
+  for (let b = 0; b < blockCount; b++) {
+    blocks.push(samples.subarray(b * BLOCK_SAMPLES, (b + 1) * BLOCK_SAMPLES));
+  }
+
+  const ringback = findRingback(blocks);
+  // Ringback is steady and tonal too — don't report it twice
+  const music = findHoldMusic(blocks).filter(
+    (m) => !ringback.some((r) => r.startMs < m.endMs && m.startMs < r.endMs),
+  );
+  return [...ringback, ...music].sort((a, b) => a.startMs - b.startMs);
+}
+
+/**
+ * Median fundamental frequency (Hz) of the voiced parts of a buffer, by
+ * autocorrelation over 40ms frames. Null when nothing in it is voiced.
+ */
+export function estimatePitch(pcm: Buffer, sampleRate = 24000): number | null {
+  const samples = toFloat(sampleRate === ANALYSIS_RATE ? pcm : resample(pcm, sampleRate, ANALYSIS_RATE));
+  const frame = Math.round(ANALYSIS_RATE * 0.04);
+  const minLag = Math.floor(ANALYSIS_RATE / 400);
+  const maxLag = Math.ceil(ANALYSIS_RATE / 70);
+  const pitches: number[] = [];
+
+  for (let start = 0; start + frame + maxLag <= samples.length; start += frame) {
+    let energy = 0;
+    for (let i = start; i < start + frame; i++) energy += samples[i]! * samples[i]!;
+    if (Math.sqrt(energy / frame) < MIN_RMS) continue;
+
+    let bestLag = 0;
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let corr = 0;
+      let lagEnergy = 0;
+      for (let i = start; i < start + frame; i++) {
+        corr += samples[i]! * samples[i + lag]!;
+        lagEnergy += samples[i + lag]! * samples[i + lag]!;
+      }
+      const normalized = corr / Math.sqrt(energy * lagEnergy || 1);
+      if (normalized > best) {
+        best = normalized;
+        bestLag = lag;
+      }
+    }
+    // Voiced frames correlate strongly with themselves one period later
+    if (best >= 0.6) pitches.push(ANALYSIS_RATE / bestLag);
+  }
+
+  if (pitches.length === 0) return null;
+  pitches.sort((a, b) => a - b);
+  return pitches[Math.floor(pitches.length / 2)]!;
+}
+
+function findRingback(blocks: Float32Array[]): CallProgressSpan[] {
+  // Tone bursts, as [first block, last block]
+  const bursts: Array<[number, number]> = [];
+  let burstStart = -1;
+  for (let b = 0; b <= blocks.length; b++) {
+    const ringing = b < blocks.length && isRingbackBlock(blocks[b]!);
+    if (ringing && burstStart === -1) burstStart = b;
+    if (!ringing && burstStart !== -1) {
+      if ((b - burstStart) * BLOCK_MS >= MIN_RING_BURST_MS) bursts.push([burstStart, b - 1]);
+      burstStart = -1;
+    }
+  }
+
+  const spans: CallProgressSpan[] = [];
+  let toneMs = 0;
+  let current: CallProgressSpan | null = null;
+  for (const [first, last] of bursts) {
+    const startMs = first * BLOCK_MS;
+    const endMs = (last + 1) * BLOCK_MS;
+    if (current && startMs - current.endMs <= MAX_RING_GAP_MS) {
+      current.endMs = endMs;
+    } else {
+      if (current && toneMs >= MIN_RINGBACK_MS) spans.push(current);
+      current = { kind: "ringback", startMs, endMs };
+      toneMs = 0;
+    }
+    toneMs += endMs - startMs;
+  }
+  if (current && toneMs >= MIN_RINGBACK_MS) spans.push(current);
+  return spans;
+}
+
+function isRingbackBlock(block: Float32Array): boolean {
+  const energy = blockEnergy(block);
+  if (Math.sqrt(energy / block.length) < MIN_RMS) return false;
+
+  for (const [low, high] of RINGBACK_PAIRS) {
+    const a = toneFraction(block, energy, low);
+    const b = toneFraction(block, energy, high);
+    if (a >= MIN_PAIR_TONE_FRACTION && b >= MIN_PAIR_TONE_FRACTION && a + b >= MIN_RINGBACK_FRACTION) {
+      return true;
+    }
+  }
+  return toneFraction(block, energy, RINGBACK_SINGLE) >= MIN_RINGBACK_FRACTION;
+}
+
+function findHoldMusic(blocks: Float32Array[]): CallProgressSpan[] {
+  const spans: CallProgressSpan[] = [];
+  let current: CallProgressSpan | null = null;
+
+  for (let w = 0; w + WINDOW_BLOCKS <= blocks.length; w += WINDOW_BLOCKS) {
+    const window = blocks.slice(w, w + WINDOW_BLOCKS);
+    const startMs = w * BLOCK_MS;
+    const endMs = (w + WINDOW_BLOCKS) * BLOCK_MS;
+
+    if (isMusicWindow(window)) {
+      if (current && current.endMs === startMs) current.endMs = endMs;
+      else current = { kind: "hold_music", startMs, endMs };
+      continue;
+    }
+    if (current && current.endMs - current.startMs >= MIN_HOLD_MUSIC_MS) spans.push(current);
+    current = null;
+  }
+  if (current && current.endMs - current.startMs >= MIN_HOLD_MUSIC_MS) spans.push(current);
+  return spans;
+}
+
+function isMusicWindow(window: Float32Array[]): boolean {
+  const levels = window.map((block) => Math.sqrt(blockEnergy(block) / block.length));
+  const sorted = [...levels].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)]!;
+  if (median < MIN_RMS) return false;
+  if (sorted[0]! < median * MIN_CONTINUITY_RATIO) return false;
+
+  let steady = 0;
+  let previous = -1;
+  for (const block of window) {
+    const energy = blockEnergy(block);
+    let note = 0;
+    let strongest = 0;
+    for (let n = 0; n < NOTE_FREQUENCIES.length; n++) {
+      const fraction = toneFraction(block, energy, NOTE_FREQUENCIES[n]!);
+      if (fraction > strongest) {
+        strongest = fraction;
+        note = n;
+      }
+    }
+    if (note === previous) steady++;
+    previous = note;
+  }
+  return steady / (window.length - 1) >= MIN_NOTE_STABILITY;
+}
+
+function blockEnergy(block: Float32Array): number {
+  let energy = 0;
+  for (const s of block) energy += s * s;
+  return energy;
+}
+
+/** Goertzel power at `freq`, as a fraction of the block's energy */
+function toneFraction(block: Float32Array, energy: number, freq: number): number {
+  if (energy === 0) return 0;
+  const coeff = 2 * Math.cos((2 * Math.PI * freq) / ANALYSIS_RATE);
+  let s1 = 0;
+  let s2 = 0;
+  for (const x of block) {
+    const s0 = x + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+  return (2 * power) / (block.length * energy);
+}
+
+function toFloat(pcm: Buffer): Float32Array {
+  const out = new Float32Array(Math.floor(pcm.length / 2));
+  for (let i = 0; i < out.length; i++) out[i] = pcm.readInt16LE(i * 2);
+  return out;
+}
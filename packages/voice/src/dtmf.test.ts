@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DtmfDetector, detectDtmf, generateDtmf, isDtmfSequence } from "./dtmf.js";
+
+const ALL_KEYS = "123A456B789C*0#D";
+
+/** Deterministic uniform noise in [-1, 1) */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return (state / 2147483648) * 2 - 1;
+  };
+}
+
+/** Two tones with independent amplitudes plus optional noise, 120ms at 24kHz */
+function tone(low: number, high: number, lowAmp: number, highAmp: number, noiseAmp = 0): Buffer {
+  const samples = 2880;
+  const rand = noise(7);
+  const out = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const t = i / 24000;
+    const sample =
+      lowAmp * Math.sin(2 * Math.PI * low * t) + highAmp * Math.sin(2 * Math.PI * high * t) + noiseAmp * rand();
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample))), i * 2);
+  }
+  return out;
+}
+
+test("every key survives a generate/detect round trip", () => {
+  assert.equal(detectDtmf(generateDtmf(ALL_KEYS)), ALL_KEYS);
+  assert.equal(detectDtmf(generateDtmf(ALL_KEYS.toLowerCase())), ALL_KEYS);
+  assert.equal(detectDtmf(generateDtmf(ALL_KEYS, { sampleRate: 8000 }), 8000), ALL_KEYS);
+  // Shortest tone the two-block rule can still see
+  assert.equal(detectDtmf(generateDtmf(ALL_KEYS, { toneMs: 60, gapMs: 40 })), ALL_KEYS);
+});
+
+test("a comma inserts a 500ms pause and repeated keys are reported again", () => {
+  const plain = generateDtmf("11");
+  const paused = generateDtmf("1,1");
+  assert.equal(paused.length - plain.length, 24000);
+  assert.equal(detectDtmf(paused), "11");
+  assert.equal(detectDtmf(plain), "11");
+  assert.equal(detectDtmf(generateDtmf(",")), "");
+});
+
+test("streamed chunks detect the same digits as one buffer", () => {
+  const pcm = generateDtmf("9*0#");
+  const detector = new DtmfDetector();
+  const digits: string[] = [];
+  // Chunks that don't line up with the 614-sample detection blocks
+  for (let i = 0; i < pcm.length; i += 330) digits.push(...detector.push(pcm.subarray(i, i + 330)));
+  assert.equal(digits.join(""), "9*0#");
+});
+
+test("tones with too much twist are rejected", () => {
+  // 3dB apart: within the 8dB limit
+  assert.equal(detectDtmf(tone(697, 1209, 8000, 5657)), "1");
+  assert.equal(detectDtmf(tone(697, 1209, 5657, 8000)), "1");
+  // 12dB apart either way
+  assert.equal(detectDtmf(tone(697, 1209, 8000, 2000)), "");
+  assert.equal(detectDtmf(tone(697, 1209, 2000, 8000)), "");
+  // A single tone is not a digit
+  assert.equal(detectDtmf(tone(697, 1209, 8000, 0)), "");
+});
+
+test("noise and speech-band energy are not mistaken for digits", () => {
+  const rand = noise(1);
+  const white = Buffer.alloc(48000);
+  for (let i = 0; i < white.length; i += 2) white.writeInt16LE(Math.round(rand() * 12000), i);
+  assert.equal(detectDtmf(white), "");
+
+  // Clean enough tones still pass; a tone buried in noise does not
+  assert.equal(detectDtmf(tone(852, 1477, 8000, 8000, 3000)), "9");
+  assert.equal(detectDtmf(tone(852, 1477, 4000, 4000, 16000)), "");
+  // Off-grid frequencies between two keys
+  assert.equal(detectDtmf(tone(733, 1270, 8000, 8000)), "");
+  // Below the silence floor
+  assert.equal(detectDtmf(tone(697, 1209, 100, 100)), "");
+});
+
+test("invalid sequences are refused", () => {
+  assert.ok(isDtmfSequence("12,3#"));
+  assert.ok(!isDtmfSequence("12E"));
+  assert.ok(!isDtmfSequence(""));
+  assert.throws(() => generateDtmf("1-2"), /Invalid DTMF sequence/);
+});
@@ -0,0 +1,177 @@
+/**
+ * DTMF (touch-tone) generation and detection.
+ *
+ * Generation produces in-band dual tones for transports with no out-of-band
+ * DTMF. Detection runs a Goertzel filter per DTMF frequency over ~25ms
+ * blocks; a digit is reported once it has been present for two consecutive
+ * blocks, and not again until the tone stops.
+ *
+ * All audio is 16-bit signed PCM, 24kHz mono unless a sample rate is given.
+ */
+
+const ROW_FREQUENCIES = [697, 770, 852, 941];
+const COL_FREQUENCIES = [1209, 1336, 1477, 1633];
+const KEYPAD = ["123A", "456B", "789C", "*0#D"];
+
+/** Characters accepted by generateDtmf — the 16 keys plus "," for a 500ms pause. */
+const DTMF_PATTERN = /^[0-9A-D*#,]+$/;
+
+export function isDtmfSequence(digits: string): boolean {
+  return DTMF_PATTERN.test(digits.toUpperCase());
+}
+
+function frequenciesFor(digit: string): [number, number] {
+  for (let row = 0; row < KEYPAD.length; row++) {
+    const col = KEYPAD[row]!.indexOf(digit);
+    if (col !== -1) return [ROW_FREQUENCIES[row]!, COL_FREQUENCIES[col]!];
+  }
+  throw new Error(`Invalid DTMF digit: ${digit}`);
+}
+
+export interface DtmfToneOptions {
+  /** Tone length per digit (default 100ms) */
+  toneMs?: number;
+  /** Silence after each digit (default 60ms) */
+  gapMs?: number;
+  /** Peak amplitude of each of the two tones (default 8000) */
+  amplitude?: number;
+  sampleRate?: number;
+}
+
+/** Render a digit string as in-band DTMF tones. */
+export function generateDtmf(digits: string, options: DtmfToneOptions = {}): Buffer {
+  const { toneMs = 100, gapMs = 60, amplitude = 8000, sampleRate = 24000 } = options;
+  const normalized = digits.toUpperCase();
+  if (!isDtmfSequence(normalized)) {
+    throw new Error(`Invalid DTMF sequence: ${digits}`);
+  }
+
+  const toneSamples = Math.round((sampleRate * toneMs) / 1000);
+  const gapSamples = Math.round((sampleRate * gapMs) / 1000);
+  const pauseSamples = Math.round(sampleRate / 2);
+  const chunks: Buffer[] = [];
+
+  for (const digit of normalized) {
+    if (digit === ",") {
+      chunks.push(Buffer.alloc(pauseSamples * 2));
+      continue;
+    }
+    const [low, high] = frequenciesFor(digit);
+    const tone = Buffer.alloc((toneSamples + gapSamples) * 2);
+    for (let i = 0; i < toneSamples; i++) {
+      const t = i / sampleRate;
+      const sample = amplitude * (Math.sin(2 * Math.PI * low * t) + Math.sin(2 * Math.PI * high * t));
+      tone.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample))), i * 2);
+    }
+    chunks.push(tone);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/** Fraction of block energy a row + column pair must hold to count as a tone. */
+const MIN_TONE_ENERGY_FRACTION = 0.6;
+/** Each tone must individually hold at least this much */
+const MIN_SINGLE_TONE_FRACTION = 0.15;
+/** Allowed level difference between the two tones (8dB) */
+const MAX_TWIST = 6.3;
+/** Blocks quieter than this RMS are treated as silence */
+const MIN_RMS = 200;
+
+export class DtmfDetector {
+  private sampleRate: number;
+  private blockSize: number;
+  private rowCoeffs: number[];
+  private colCoeffs: number[];
+  private pending: number[] = [];
+  private candidate: string | null = null;
+  private candidateBlocks = 0;
+  private reported = false;
+
+  constructor(sampleRate = 24000) {
+    this.sampleRate = sampleRate;
+    // 25.6ms blocks — the classic 205 samples at 8kHz
+    this.blockSize = Math.round(sampleRate * 0.0256);
+    const coeff = (f: number) => 2 * Math.cos((2 * Math.PI * f) / this.sampleRate);
+    this.rowCoeffs = ROW_FREQUENCIES.map(coeff);
+    this.colCoeffs = COL_FREQUENCIES.map(coeff);
+  }
+
+  /** Feed audio; returns the digits that started in it, in order. */
+  push(pcm: Buffer): string[] {
+    const digits: string[] = [];
+    for (let i = 0; i + 1 < pcm.length; i += 2) {
+      this.pending.push(pcm.readInt16LE(i));
+      if (this.pending.length === this.blockSize) {
+        const digit = this.processBlock(this.pending);
+        this.pending = [];
+        if (digit) digits.push(digit);
+      }
+    }
+    return digits;
+  }
+
+  reset(): void {
+    this.pending = [];
+    this.candidate = null;
+    this.candidateBlocks = 0;
+    this.reported = false;
+  }
+
+  private processBlock(block: number[]): string | null {
+    const digit = this.classify(block);
+
+    if (digit !== this.candidate) {
+      this.candidate = digit;
+      this.candidateBlocks = digit ? 1 : 0;
+      this.reported = false;
+      return null;
+    }
+    if (!digit) return null;
+
+    this.candidateBlocks++;
+    if (this.candidateBlocks >= 2 && !this.reported) {
+      this.reported = true;
+      return digit;
+    }
+    return null;
+  }
+
+  private classify(block: number[]): string | null {
+    let energy = 0;
+    for (const s of block) energy += s * s;
+    const n = block.length;
+    if (Math.sqrt(energy / n) < MIN_RMS) return null;
+
+    // Goertzel power normalized to the fraction of block energy at each frequency
+    const fraction = (coeff: number) => {
+      let s1 = 0;
+      let s2 = 0;
+      for (const x of block) {
+        const s0 = x + coeff * s1 - s2;
+        s2 = s1;
+        s1 = s0;
+      }
+      const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+      return (2 * power) / (n * energy);
+    };
+
+    const rows = this.rowCoeffs.map(fraction);
+    const cols = this.colCoeffs.map(fraction);
+    const row = rows.indexOf(Math.max(...rows));
+    const col = cols.indexOf(Math.max(...cols));
+    const rowPower = rows[row]!;
+    const colPower = cols[col]!;
+
+    if (rowPower < MIN_SINGLE_TONE_FRACTION || colPower < MIN_SINGLE_TONE_FRACTION) return null;
+    if (rowPower + colPower < MIN_TONE_ENERGY_FRACTION) return null;
+    if (rowPower / colPower > MAX_TWIST || colPower / rowPower > MAX_TWIST) return null;
+
+    return KEYPAD[row]![col]!;
+  }
+}
+
+/** Detect every DTMF digit in a complete buffer. */
+export function detectDtmf(pcm: Buffer, sampleRate = 24000): string {
+  return new DtmfDetector(sampleRate).push(pcm).join("");
+}
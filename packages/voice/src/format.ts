@@ -1,6 +1,7 @@
 /**
  * Audio format conversion utilities.
- * Handles mulaw ↔ linear16 and sample rate conversion for Twilio Media Streams.
+ * Handles mulaw/alaw ↔ linear16 and sample rate conversion for telephony
+ * transports (Twilio Media Streams, Plivo, G.711 RTP).
  */
 
 // mulaw encoding/decoding tables
@@ -67,6 +68,61 @@ export function mulawToPcm(mulaw: Buffer): Buffer {
   return pcm;
 }
 
+/**
+ * Encode a PCM 16-bit signed sample to G.711 A-law 8-bit.
+ */
+function encodeAlawSample(sample: number): number {
+  let mask = 0xd5;
+  if (sample < 0) {
+    mask = 0x55;
+    sample = -sample - 1;
+  }
+  if (sample > MULAW_MAX) sample = MULAW_MAX;
+
+  let exponent = 7;
+  for (let expMask = 0x4000; (sample & expMask) === 0 && exponent > 0; exponent--, expMask >>= 1) {
+    /* find exponent */
+  }
+  const mantissa = exponent === 0 ? (sample >> 4) & 0x0f : (sample >> (exponent + 3)) & 0x0f;
+  return ((exponent << 4) | mantissa) ^ mask;
+}
+
+/**
+ * Decode a G.711 A-law 8-bit sample to PCM 16-bit signed.
+ */
+function decodeAlawSample(alaw: number): number {
+  alaw ^= 0x55;
+  const sign = alaw & 0x80;
+  const exponent = (alaw >> 4) & 0x07;
+  const mantissa = alaw & 0x0f;
+  let sample = exponent === 0
+    ? (mantissa << 4) + 8
+    : ((mantissa << 4) + 0x108) << (exponent - 1);
+  return sign !== 0 ? sample : -sample;
+}
+
+/**
+ * Convert PCM 16-bit linear buffer to A-law 8-bit buffer.
+ */
+export function pcmToAlaw(pcm: Buffer): Buffer {
+  const alaw = Buffer.alloc(pcm.length / 2);
+  for (let i = 0; i < alaw.length; i++) {
+    alaw[i] = encodeAlawSample(pcm.readInt16LE(i * 2));
+  }
+  return alaw;
+}
+
+/**
+ * Convert A-law 8-bit buffer to PCM 16-bit linear buffer.
+ */
+export function alawToPcm(alaw: Buffer): Buffer {
+  const pcm = Buffer.alloc(alaw.length * 2);
+  for (let i = 0; i < alaw.length; i++) {
+    pcm.writeInt16LE(decodeAlawSample(alaw[i]!), i * 2);
+  }
+  return pcm;
+}
+
 /**
  * Resample PCM 16-bit mono from one sample rate to another using linear interpolation.
  */
@@ -99,3 +155,79 @@ export function resample(
 
   return output;
 }
+
+export interface DecodedWav {
+  pcm: Buffer;
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * Extract PCM 16-bit samples from a RIFF/WAVE buffer.
+ * Multi-channel input is downmixed to mono by keeping the first channel.
+ */
+export function decodeWav(wav: Buffer): DecodedWav {
+  if (wav.length < 12 || wav.toString("ascii", 0, 4) !== "RIFF" || wav.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Not a RIFF/WAVE buffer");
+  }
+
+  let sampleRate = 0;
+  let channels = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString("ascii", offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === "fmt ") {
+      channels = wav.readUInt16LE(body + 2);
+      sampleRate = wav.readUInt32LE(body + 4);
+      bitsPerSample = wav.readUInt16LE(body + 14);
+    } else if (chunkId === "data") {
+      if (bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+      }
+      // Streaming encoders write 0 or 0xFFFFFFFF when the length is unknown
+      const end = chunkSize === 0 ? wav.length : Math.min(body + chunkSize, wav.length);
+      const data = wav.subarray(body, end);
+      if (channels <= 1) {
+        return { pcm: Buffer.from(data), sampleRate, channels: 1 };
+      }
+      const frames = Math.floor(data.length / (2 * channels));
+      const mono = Buffer.alloc(frames * 2);
+      for (let i = 0; i < frames; i++) {
+        mono.writeInt16LE(data.readInt16LE(i * 2 * channels), i * 2);
+      }
+      return { pcm: mono, sampleRate, channels };
+    }
+
+    // Chunks are word-aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("WAV buffer has no data chunk");
+}
+
+/**
+ * Wrap PCM 16-bit samples in a 44-byte RIFF/WAVE header. Multi-channel
+ * input must already be interleaved.
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number, channels: number = 1): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16); // PCM fmt chunk size
+  header.writeUInt16LE(1, 20); // audio format: PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2 * channels, 28); // byte rate
+  header.writeUInt16LE(2 * channels, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
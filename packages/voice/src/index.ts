@@ -2,8 +2,20 @@ export * from "./types.js";
 export * from "./tts.js";
 export * from "./stt.js";
 export { SilenceDetector, type SilenceDetectorConfig } from "./silence.js";
-export { AudioRecorder } from "./recorder.js";
-export { pcmToMulaw, mulawToPcm, resample } from "./format.js";
+export { AudioRecorder, StereoRecorder, type RecordingSide } from "./recorder.js";
+export { pcmToMulaw, mulawToPcm, pcmToAlaw, alawToPcm, resample, decodeWav, encodeWav, type DecodedWav } from "./format.js";
 export { VoiceActivityDetector, type VoiceActivityDetectorConfig, type VADState } from "./vad.js";
 export { BatchVAD, type SpeechSegment } from "./batch-vad.js";
+export { generateDtmf, detectDtmf, isDtmfSequence, DtmfDetector, type DtmfToneOptions } from "./dtmf.js";
+export { detectCallProgress, estimatePitch, type CallProgressKind, type CallProgressSpan } from "./call-progress.js";
 export { generateWhiteNoise, generateBabbleNoise, generatePinkNoise, mixAudio } from "./noise.js";
+export {
+  SPEECH_PROFILES,
+  resolveSpeechProfile,
+  planUtterance,
+  shapeSpeech,
+  timeStretch,
+  type UtteranceSegment,
+} from "./speech-profile.js";
+export { MULTILINGUAL, primaryLanguage, isEnglish, localeFor } from "./language.js";
+export { synthesizeMockSpeech, recognizeMockSpeech, registerMockPhrases, isHermetic } from "./mock-speech.js";
@@ -0,0 +1,40 @@
+/**
+ * Language tags for TTS/STT — callers pass BCP-47 tags ("es", "fr-CA");
+ * providers that need a full locale or a bare language code derive it here.
+ */
+
+/** Region used when a provider needs a locale and the tag has none */
+const DEFAULT_REGIONS: Record<string, string> = {
+  en: "US",
+  es: "ES",
+  fr: "FR",
+  de: "DE",
+  it: "IT",
+  pt: "BR",
+  nl: "NL",
+  ja: "JP",
+  ko: "KR",
+  zh: "CN",
+  hi: "IN",
+  ar: "SA",
+};
+
+/** STT hint for calls that switch languages: let the provider detect each turn's language. */
+export const MULTILINGUAL = "multi";
+
+/** "fr-CA" → "fr" */
+export function primaryLanguage(tag: string): string {
+  return tag.split("-")[0]!.toLowerCase();
+}
+
+export function isEnglish(tag: string | undefined): boolean {
+  return tag === undefined || primaryLanguage(tag) === "en";
+}
+
+/** "fr" → "fr-FR", "fr-CA" → "fr-CA" */
+export function localeFor(tag: string): string {
+  const [language, region] = tag.split("-");
+  const lang = language!.toLowerCase();
+  const resolved = region ?? DEFAULT_REGIONS[lang];
+  return resolved ? `${lang}-${resolved.toUpperCase()}` : lang;
+}
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { synthesizeMockSpeech, recognizeMockSpeech, registerMockPhrases, isHermetic } from "./mock-speech.js";
+import { synthesize, ttsConfigFromVoice } from "./tts.js";
+import { transcribe, sttConfigFromVoice } from "./stt.js";
+
+test("mock speech is deterministic", () => {
+  const a = synthesizeMockSpeech("Same text, same audio.");
+  const b = synthesizeMockSpeech("Same text, same audio.");
+  assert.ok(a.length > 0);
+  assert.ok(a.equals(b));
+  assert.ok(!a.equals(synthesizeMockSpeech("Different text entirely.")));
+});
+
+test("mock speech round-trips through recognition with word timings", () => {
+  const text = "I need to reschedule my appointment for Tuesday.";
+  const result = recognizeMockSpeech(synthesizeMockSpeech(text));
+  assert.equal(result.text, text);
+  assert.equal(result.confidence, 1);
+  assert.equal(result.words?.length, 8);
+  for (const [i, word] of result.words!.entries()) {
+    assert.ok(word.end_ms > word.start_ms);
+    if (i > 0) assert.ok(word.start_ms > result.words![i - 1]!.end_ms);
+  }
+});
+
+test("unregistered audio is inaudible", () => {
+  const noise = Buffer.alloc(24000 * 2);
+  for (let i = 0; i < noise.length / 2; i++) noise.writeInt16LE(((i * 7919) % 2000) - 1000 || 1, i * 2);
+  const result = recognizeMockSpeech(noise);
+  assert.equal(result.text, "[inaudible]");
+  assert.equal(result.confidence, 0);
+});
+
+test("registered phrases are recognized in audio joined with silence", () => {
+  registerMockPhrases(["Thanks for calling Acme."]);
+  const audio = Buffer.concat([
+    Buffer.alloc(4800),
+    synthesizeMockSpeech("Thanks for calling Acme."),
+    Buffer.alloc(4800),
+    synthesizeMockSpeech("Goodbye."),
+  ]);
+  assert.equal(recognizeMockSpeech(audio).text, "Thanks for calling Acme. Goodbye.");
+});
+
+test("hermetic voice config routes synthesize and transcribe to the mocks", async () => {
+  const voice = { hermetic: {} };
+  assert.ok(isHermetic(voice));
+  assert.ok(!isHermetic({ hermetic: { enabled: false } }));
+  assert.ok(!isHermetic(undefined));
+
+  const audio = await synthesize("Can you help me?", ttsConfigFromVoice(voice));
+  const { text } = await transcribe(audio, sttConfigFromVoice(voice));
+  assert.equal(text, "Can you help me?");
+});
@@ -0,0 +1,227 @@
+/**
+ * Deterministic offline speech stand-in for hermetic runs.
+ *
+ * synthesizeMockSpeech() renders each word as a seeded, phoneme-shaped burst
+ * (noise onset + formant-filtered glottal pulses), with exact digital silence
+ * between words. The same text always yields the same PCM, in any process.
+ *
+ * recognizeMockSpeech() splits audio on those silences and looks each word
+ * up by fingerprint. Words are registered when synthesized, or up front via
+ * registerMockPhrases() for audio produced elsewhere (e.g. a mock agent).
+ * The lexicon keeps the most recently used MAX_LEXICON_WORDS words, so a
+ * long-lived worker doesn't grow it without bound.
+ */
+
+import { createHash } from "node:crypto";
+import type { TranscriptWord, VoiceConfig } from "@voiceci/shared";
+import type { TranscriptionResult } from "./types.js";
+
+const SAMPLE_RATE = 24000;
+const SYLLABLE_MS = 140;
+const ONSET_MS = 25;
+const WORD_GAP_MS = 90;
+const SENTENCE_GAP_MS = 250;
+const AMPLITUDE = 9000;
+/** Zero runs at least this long separate words when recognizing. */
+const MIN_GAP_SAMPLES = Math.round((WORD_GAP_MS * 0.8 * SAMPLE_RATE) / 1000);
+const UNKNOWN_WORD = "[inaudible]";
+/** Enough for every word of a large suite; older words are evicted first. */
+const MAX_LEXICON_WORDS = 10_000;
+
+/** Vowel formants (F1, F2) in Hz — a, e, i, o, u. F3 is fixed at 2500 Hz. */
+const VOWELS: Array<[number, number]> = [
+  [730, 1090],
+  [530, 1840],
+  [270, 2290],
+  [570, 840],
+  [300, 870],
+];
+
+/** fingerprint → word, in least-recently-used order (Map keeps insertion order) */
+const lexicon = new Map<string, string>();
+
+function remember(key: string, token: string): void {
+  lexicon.delete(key);
+  lexicon.set(key, token);
+  if (lexicon.size > MAX_LEXICON_WORDS) lexicon.delete(lexicon.keys().next().value!);
+}
+
+function lookup(key: string): string | undefined {
+  const token = lexicon.get(key);
+  if (token !== undefined) remember(key, token);
+  return token;
+}
+
+/** Hermetic mode is on when VoiceConfig.hermetic is present and not explicitly disabled. */
+export function isHermetic(voice?: VoiceConfig): boolean {
+  return !!voice?.hermetic && voice.hermetic.enabled !== false;
+}
+
+function hashString(text: string): number {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Two-pole resonator coefficients for a formant at `freq` Hz. */
+function resonator(freq: number, bandwidth: number): { a1: number; a2: number; gain: number } {
+  const r = Math.exp((-Math.PI * bandwidth) / SAMPLE_RATE);
+  const theta = (2 * Math.PI * freq) / SAMPLE_RATE;
+  return { a1: 2 * r * Math.cos(theta), a2: -r * r, gain: 1 - r };
+}
+
+function renderWord(token: string): Float32Array {
+  const rand = mulberry32(hashString(token));
+  const letters = token.replace(/[^\p{L}\p{N}]/gu, "");
+  const syllables = Math.max(1, Math.ceil(letters.length / 3));
+  const syllableSamples = Math.round((SYLLABLE_MS * SAMPLE_RATE) / 1000);
+  const onsetSamples = Math.round((ONSET_MS * SAMPLE_RATE) / 1000);
+  const out = new Float32Array(syllables * syllableSamples);
+  const f0Base = 105 + rand() * 60;
+
+  for (let s = 0; s < syllables; s++) {
+    const vowel = VOWELS[Math.floor(rand() * VOWELS.length)]!;
+    const formants = [
+      resonator(vowel[0], 80),
+      resonator(vowel[1], 100),
+      resonator(2500, 150),
+    ];
+    const weights = [1, 0.7, 0.3];
+    const state = formants.map(() => [0, 0]);
+    const f0 = f0Base * (1 + (rand() - 0.5) * 0.2);
+    const offset = s * syllableSamples;
+    let phase = 0;
+    let period = SAMPLE_RATE / f0;
+
+    for (let i = 0; i < syllableSamples; i++) {
+      // Consonant-like noise onset, then a Rosenberg glottal pulse train with slight jitter
+      let excitation: number;
+      if (i < onsetSamples) {
+        excitation = (rand() * 2 - 1) * 0.4;
+      } else {
+        const t = phase / period;
+        if (t < 0.4) excitation = 0.5 * (1 - Math.cos((Math.PI * t) / 0.4));
+        else if (t < 0.6) excitation = Math.cos((Math.PI * (t - 0.4)) / 0.4);
+        else excitation = 0;
+        phase++;
+        if (phase >= period) {
+          phase = 0;
+          period = (SAMPLE_RATE / f0) * (1 + (rand() - 0.5) * 0.04);
+        }
+      }
+
+      let y = 0;
+      for (let f = 0; f < formants.length; f++) {
+        const { a1, a2, gain } = formants[f]!;
+        const st = state[f]!;
+        const v = gain * excitation + a1 * st[0]! + a2 * st[1]!;
+        st[1] = st[0]!;
+        st[0] = v;
+        y += weights[f]! * v;
+      }
+      // Raised-cosine syllable envelope
+      const env = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i + 1)) / (syllableSamples + 1));
+      out[offset + i] = y * env;
+    }
+  }
+
+  let peak = 0;
+  for (const v of out) peak = Math.max(peak, Math.abs(v));
+  return out.map((v) => (peak > 0 ? v / peak : 0));
+}
+
+function toPcm(samples: Float32Array): Buffer {
+  const buf = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    let v = Math.round(samples[i]! * AMPLITUDE);
+    // Keep speech free of exact zeros so only inter-word gaps are digital silence
+    if (v === 0) v = i % 2 === 0 ? 1 : -1;
+    buf.writeInt16LE(v, i * 2);
+  }
+  return buf;
+}
+
+function fingerprint(pcm: Buffer): string {
+  return createHash("sha1").update(pcm).digest("hex");
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter((t) => t.length > 0);
+}
+
+/**
+ * Render text to deterministic PCM 16-bit 24kHz mono, registering each word
+ * so recognizeMockSpeech() can transcribe it later.
+ */
+export function synthesizeMockSpeech(text: string): Buffer {
+  const parts: Buffer[] = [];
+  for (const token of tokenize(text)) {
+    const word = toPcm(renderWord(token));
+    remember(fingerprint(word), token);
+    parts.push(word);
+    const gapMs = /[.!?]$/.test(token) ? SENTENCE_GAP_MS : WORD_GAP_MS;
+    parts.push(Buffer.alloc(Math.round((gapMs * SAMPLE_RATE) / 1000) * 2));
+  }
+  return Buffer.concat(parts);
+}
+
+/** Pre-register phrases whose audio will be synthesized by another process. */
+export function registerMockPhrases(phrases: string[]): void {
+  for (const phrase of phrases) synthesizeMockSpeech(phrase);
+}
+
+/**
+ * Transcribe audio produced by synthesizeMockSpeech(). Unregistered word
+ * segments come back as "[inaudible]" with zero confidence.
+ */
+export function recognizeMockSpeech(audio: Buffer): TranscriptionResult {
+  const sampleCount = Math.floor(audio.length / 2);
+  const words: TranscriptWord[] = [];
+  let segStart = -1;
+  let zeroRun = 0;
+
+  const flush = (end: number) => {
+    if (segStart < 0) return;
+    const pcm = audio.subarray(segStart * 2, end * 2);
+    const token = lookup(fingerprint(pcm));
+    words.push({
+      word: token ?? UNKNOWN_WORD,
+      start_ms: Math.round((segStart / SAMPLE_RATE) * 1000),
+      end_ms: Math.round((end / SAMPLE_RATE) * 1000),
+      confidence: token ? 1 : 0,
+    });
+    segStart = -1;
+  };
+
+  for (let i = 0; i < sampleCount; i++) {
+    if (audio.readInt16LE(i * 2) === 0) {
+      zeroRun++;
+      if (zeroRun === MIN_GAP_SAMPLES) flush(i - zeroRun + 1);
+    } else {
+      if (segStart < 0) segStart = i;
+      zeroRun = 0;
+    }
+  }
+  flush(zeroRun > 0 ? sampleCount - zeroRun : sampleCount);
+
+  const known = words.filter((w) => w.confidence === 1).length;
+  return {
+    text: words.map((w) => w.word).join(" "),
+    confidence: words.length > 0 ? known / words.length : 0,
+    words,
+  };
+}
@@ -1,8 +1,10 @@
 /**
  * AudioRecorder — accumulates PCM audio chunks and tracks timing.
+ * StereoRecorder — time-aligned two-party call recording.
  */
 
-import { BYTES_PER_SECOND } from "./types.js";
+import { BYTES_PER_SECOND, DEFAULT_AUDIO_CONFIG } from "./types.js";
+import { encodeWav } from "./format.js";
 
 export class AudioRecorder {
   private chunks: Buffer[] = [];
@@ -49,3 +51,64 @@ export class AudioRecorder {
     this.startTime = performance.now();
   }
 }
+
+export type RecordingSide = "caller" | "agent";
+
+interface PlacedChunk {
+  /** Start position on the track, in samples */
+  at: number;
+  pcm: Buffer;
+}
+
+/**
+ * StereoRecorder — lays caller and agent audio on a shared clock and
+ * renders a two-channel WAV (caller left, agent right).
+ *
+ * Chunks are placed at the wall-clock time they were sent/received. Audio
+ * that arrives faster than real time (a whole utterance written at once, or
+ * TTS streamed in bursts) is queued behind the previous chunk on the same
+ * track, which is how it would actually play out on the line.
+ */
+export class StereoRecorder {
+  private tracks: Record<RecordingSide, PlacedChunk[]> = { caller: [], agent: [] };
+  private cursors: Record<RecordingSide, number> = { caller: 0, agent: 0 };
+  /** Clock starts at the first chunk on either side, so connect time isn't recorded */
+  private startTime: number | null = null;
+
+  constructor(private readonly sampleRate: number = DEFAULT_AUDIO_CONFIG.sampleRate) {}
+
+  push(side: RecordingSide, pcm: Buffer): void {
+    if (pcm.length === 0) return;
+    const now = performance.now();
+    this.startTime ??= now;
+    const elapsed = Math.round(((now - this.startTime) / 1000) * this.sampleRate);
+    const at = Math.max(elapsed, this.cursors[side]);
+    this.tracks[side].push({ at, pcm });
+    this.cursors[side] = at + Math.floor(pcm.length / 2);
+  }
+
+  hasAudio(): boolean {
+    return this.startTime !== null;
+  }
+
+  getDurationMs(): number {
+    const samples = Math.max(this.cursors.caller, this.cursors.agent);
+    return Math.round((samples / this.sampleRate) * 1000);
+  }
+
+  /** Render both tracks as an interleaved 16-bit stereo WAV. */
+  toWav(): Buffer {
+    const frames = Math.max(this.cursors.caller, this.cursors.agent);
+    const interleaved = Buffer.alloc(frames * 4);
+    const sides: RecordingSide[] = ["caller", "agent"];
+    sides.forEach((side, channel) => {
+      for (const { at, pcm } of this.tracks[side]) {
+        const samples = Math.floor(pcm.length / 2);
+        for (let i = 0; i < samples; i++) {
+          interleaved.writeInt16LE(pcm.readInt16LE(i * 2), (at + i) * 4 + channel * 2);
+        }
+      }
+    });
+    return encodeWav(interleaved, this.sampleRate, 2);
+  }
+}
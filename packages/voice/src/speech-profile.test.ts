@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { planUtterance, shapeSpeech, speechRandom, timeStretch, type UtteranceSegment } from "./speech-profile.js";
+import { recognizeMockSpeech } from "./mock-speech.js";
+import { synthesize } from "./tts.js";
+
+const LINE = "I would like to move my appointment to next Tuesday afternoon please.";
+
+/** Plans for a line under many seeds */
+function plans(profile: Parameters<typeof planUtterance>[1], language?: string, text = LINE): UtteranceSegment[][] {
+  return Array.from({ length: 200 }, (_, seed) => planUtterance(text, profile, speechRandom({ ...profile, seed }, text), language));
+}
+
+function sine(samples: number, amplitude: number): Float32Array {
+  const out = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) out[i] = amplitude * Math.sin((2 * Math.PI * 220 * i) / 24000);
+  return out;
+}
+
+function peak(pcm: Buffer): number {
+  let max = 0;
+  for (let i = 0; i < pcm.length; i += 2) max = Math.max(max, Math.abs(pcm.readInt16LE(i)));
+  return max;
+}
+
+test("time-stretch scales length by 1/rate", () => {
+  const input = sine(24000, 10000);
+  for (const rate of [0.8, 1.3]) {
+    const out = timeStretch(input, rate);
+    assert.ok(Math.abs(out.length - input.length / rate) <= 1, `rate ${rate}: ${out.length}`);
+  }
+  const short = sine(100, 10000);
+  assert.equal(timeStretch(short, 1.5), short);
+});
+
+test("plans are deterministic for a seeded profile", () => {
+  const profile = { disfluency: 0.7, pause_rate: 0.5, seed: 7 };
+  assert.deepEqual(
+    planUtterance(LINE, profile, speechRandom(profile, LINE)),
+    planUtterance(LINE, profile, speechRandom(profile, LINE)),
+  );
+});
+
+test("plans add fillers and restarts and split at pauses", () => {
+  const all = plans({ disfluency: 1, pause_rate: 1, pause_ms: 900 });
+  for (const plan of all) {
+    assert.equal(plan.length, 3);
+    assert.deepEqual(plan[1], { pauseMs: 900 });
+  }
+  const lines = all.map((plan) => plan.filter((s) => typeof s === "string").join(" "));
+  assert.ok(lines.some((line) => /\b(um|uh|er|hmm),/.test(line)));
+  assert.ok(lines.some((line) => line.startsWith("I would, I would like")));
+
+  // Short lines and undisturbed profiles are left alone
+  assert.deepEqual(planUtterance("Yes please.", { disfluency: 1, pause_rate: 1 }, () => 0), ["Yes please."]);
+  assert.deepEqual(planUtterance(LINE, {}, () => 0), [LINE]);
+});
+
+test("restarts skip an opening exclamation", () => {
+  const text = "Hi! I need to cancel my order.";
+  // disfluency hit, restart branch, then no pause
+  const rolls = [0, 0.9, 0.9];
+  assert.deepEqual(planUtterance(text, { disfluency: 1 }, () => rolls.shift()!), ["Hi! I need, I need to cancel my order."]);
+});
+
+test("fillers follow the caller's language", () => {
+  const linesIn = (language: string, text: string) =>
+    plans({ disfluency: 1 }, language, text).map((plan) => plan.join(" "));
+
+  const spanish = linesIn("es-MX", "Quiero cambiar mi cita para el martes.");
+  assert.ok(spanish.some((line) => /\b(eh|este|pues|mmm),/.test(line)));
+  assert.ok(!spanish.some((line) => /\b(um|uh|er|hmm),/.test(line)));
+
+  const french = linesIn("fr", "Je voudrais déplacer mon rendez-vous à mardi.");
+  assert.ok(french.some((line) => /\b(euh|ben|bah|hein),/.test(line)));
+
+  // No filler list: restarts only
+  const german = linesIn("de", "Ich möchte meinen Termin verschieben.");
+  assert.ok(german.every((line) => line.startsWith("Ich möchte, Ich möchte")));
+});
+
+test("shaping applies gain and clips at the rails", () => {
+  const pcm = Buffer.alloc(48000);
+  const tone = sine(24000, 8000);
+  for (let i = 0; i < tone.length; i++) pcm.writeInt16LE(Math.round(tone[i]!), i * 2);
+
+  const quieter = shapeSpeech(pcm, { gain_db: -6 }, () => 0.5);
+  assert.ok(Math.abs(peak(quieter) / peak(pcm) - 0.5) < 0.01);
+
+  const clipped = shapeSpeech(pcm, { clipping_db: 12 }, () => 0.5);
+  assert.ok(peak(clipped) >= 32767);
+  let railed = 0;
+  for (let i = 0; i < clipped.length; i += 2) if (Math.abs(clipped.readInt16LE(i)) >= 32767) railed++;
+  assert.ok(railed > clipped.length / 2 / 4, "a quarter or more of the waveform sits on the rails");
+});
+
+test("mock TTS ignores speech profiles so mock STT still recognizes it", async () => {
+  const audio = await synthesize(LINE, {
+    provider: "mock",
+    speechProfile: { rate: 0.8, disfluency: 1, pause_rate: 1, gain_db: -6 },
+  });
+  assert.equal(recognizeMockSpeech(audio).text, LINE);
+});
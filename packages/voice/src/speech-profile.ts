@@ -0,0 +1,255 @@
+/**
+ * Caller speech profiles — how the simulated caller talks, on top of the TTS
+ * voice. All audio is 16-bit signed PCM, 24kHz mono.
+ *
+ * Applied per utterance by synthesize() in two steps:
+ * 1. planUtterance() rewrites the text with disfluencies — a filler in the
+ *    caller's language ("um", "euh", "este") or a restart of the opening
+ *    words — and splits it where a long pause goes. Each text segment is
+ *    synthesized separately.
+ * 2. shapeSpeech() processes the joined audio: time-stretch to the speaking
+ *    rate (WSOLA, so pitch is kept), far-field reverb, mic clipping, then
+ *    loudness.
+ *
+ * Randomness is seeded from profile.seed and the text, so a seeded profile
+ * gives the same line the same treatment every time.
+ *
+ * The mock TTS of hermetic mode skips both steps: the mock STT recognizes
+ * its audio by fingerprint, which reshaped or split audio would not match.
+ */
+
+import type { SpeechProfile, SpeechProfileName } from "@voiceci/shared";
+
+const SAMPLE_RATE = 24000;
+const MAX_SAMPLE = 32767;
+const MIN_SAMPLE = -32768;
+const DEFAULT_PAUSE_MS = 1500;
+
+export const SPEECH_PROFILES: Record<SpeechProfileName, SpeechProfile> = {
+  elderly: { rate: 0.8, disfluency: 0.5, pause_rate: 0.4, pause_ms: 1800, gain_db: -6, volume_variation_db: 3 },
+  hesitant: { disfluency: 0.7, pause_rate: 0.5, pause_ms: 1200 },
+  "fast-talker": { rate: 1.3 },
+  "far-field": { reverb: 0.5, gain_db: -10 },
+  quiet: { gain_db: -15 },
+  clipping: { clipping_db: 12 },
+};
+
+export function resolveSpeechProfile(profile: SpeechProfileName | SpeechProfile): SpeechProfile {
+  return typeof profile === "string" ? SPEECH_PROFILES[profile] : profile;
+}
+
+/** Text to synthesize, or silence (ms) between synthesized segments */
+export type UtteranceSegment = string | { pauseMs: number };
+
+/** Fillers by base language; other languages only get restarts */
+const FILLERS: Record<string, string[]> = {
+  en: ["um", "uh", "er", "hmm"],
+  es: ["eh", "este", "pues", "mmm"],
+  fr: ["euh", "ben", "bah", "hein"],
+};
+
+/** mulberry32 seeded from profile.seed and the text (FNV-1a) */
+export function speechRandom(profile: SpeechProfile, text: string): () => number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  let state = ((profile.seed ?? Math.floor(Math.random() * 0xffffffff)) ^ h) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Add the profile's disfluencies to a line spoken in `language` (BCP-47,
+ * default English) and split it at its long pause. Lines under three words
+ * are left alone.
+ */
+export function planUtterance(
+  text: string,
+  profile: SpeechProfile,
+  random: () => number,
+  language = "en",
+): UtteranceSegment[] {
+  const words = text.trim().split(/\s+/);
+  if (words.length < 3) return [text];
+
+  if (random() < (profile.disfluency ?? 0)) {
+    const fillers = FILLERS[language.split("-")[0]!.toLowerCase()];
+    if (random() < 0.5 && fillers) {
+      // Filler after a word in the first half: "I, um, want to cancel"
+      const at = 1 + Math.floor(random() * Math.max(1, Math.floor(words.length / 2)));
+      const filler = fillers[Math.floor(random() * fillers.length)]!;
+      const before = words[at - 1]!;
+      words[at - 1] = /[!?]$/.test(before) ? before : before.replace(/[,.;:]?$/, ",");
+      words.splice(at, 0, `${filler},`);
+    } else {
+      // Restart: "I want, I want to cancel" — past an opening "Hi!" or "Okay."
+      let start = 0;
+      while (start < words.length - 2 && /[.!?]$/.test(words[start]!)) start++;
+      const restart = words.slice(start, start + 2).join(" ").replace(/[,.!?]$/, "");
+      words.splice(start, 0, `${restart},`);
+    }
+  }
+
+  if (random() < (profile.pause_rate ?? 0)) {
+    const at = 1 + Math.floor(random() * (words.length - 1));
+    return [
+      words.slice(0, at).join(" "),
+      { pauseMs: profile.pause_ms ?? DEFAULT_PAUSE_MS },
+      words.slice(at).join(" "),
+    ];
+  }
+  return [words.join(" ")];
+}
+
+/** Apply the profile's rate, reverb, clipping, and loudness to synthesized speech */
+export function shapeSpeech(pcm: Buffer, profile: SpeechProfile, random: () => number): Buffer {
+  let samples = toFloat(pcm);
+  if (profile.rate !== undefined && profile.rate !== 1) samples = timeStretch(samples, profile.rate);
+  if (profile.reverb) samples = addReverb(samples, profile.reverb);
+
+  if (profile.clipping_db) {
+    // Normalize to full scale, then overdrive into the rails
+    let peak = 0;
+    for (const s of samples) peak = Math.max(peak, Math.abs(s));
+    if (peak > 0) {
+      const drive = (MAX_SAMPLE / peak) * dbToGain(profile.clipping_db);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.max(MIN_SAMPLE, Math.min(MAX_SAMPLE, samples[i]! * drive));
+      }
+    }
+  }
+
+  const variation = profile.volume_variation_db ?? 0;
+  const gainDb = (profile.gain_db ?? 0) + (random() * 2 - 1) * variation;
+  if (gainDb !== 0) {
+    const gain = dbToGain(gainDb);
+    for (let i = 0; i < samples.length; i++) samples[i] = samples[i]! * gain;
+  }
+
+  return toPcm(samples);
+}
+
+/** Silence of the given length, for pauses between segments */
+export function silence(ms: number): Buffer {
+  return Buffer.alloc(Math.round((SAMPLE_RATE * ms) / 1000) * 2);
+}
+
+/**
+ * WSOLA time-stretch: 20ms Hann frames overlap-added at a fixed output hop,
+ * each taken from near its nominal input position where it best continues
+ * the previous frame. rate > 1 is faster (shorter), < 1 slower.
+ */
+export function timeStretch(input: Float32Array, rate: number): Float32Array {
+  const win = 480;
+  const synthesisHop = win / 2;
+  const analysisHop = synthesisHop * rate;
+  const tolerance = 120;
+  if (input.length < win + tolerance) return input;
+
+  const window = new Float32Array(win);
+  for (let i = 0; i < win; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / win);
+
+  const outLength = Math.ceil(input.length / rate) + win;
+  const out = new Float32Array(outLength);
+  const norm = new Float32Array(outLength);
+
+  let prev = 0;
+  for (let k = 0; ; k++) {
+    const nominal = Math.round(k * analysisHop);
+    const outPos = k * synthesisHop;
+    if (nominal + win + tolerance > input.length || outPos + win > outLength) break;
+
+    let pos = nominal;
+    // The input that would naturally follow the previous frame
+    const natural = prev + synthesisHop;
+    if (k > 0 && natural + win <= input.length) {
+      let best = -Infinity;
+      for (let d = -tolerance; d <= tolerance; d += 2) {
+        const candidate = nominal + d;
+        if (candidate < 0) continue;
+        let corr = 0;
+        for (let i = 0; i < win; i += 2) corr += input[natural + i]! * input[candidate + i]!;
+        if (corr > best) {
+          best = corr;
+          pos = candidate;
+        }
+      }
+    }
+
+    for (let i = 0; i < win; i++) {
+      out[outPos + i]! += input[pos + i]! * window[i]!;
+      norm[outPos + i]! += window[i]!;
+    }
+    prev = pos;
+  }
+
+  const length = Math.min(outLength, Math.round(input.length / rate));
+  const result = new Float32Array(length);
+  for (let i = 0; i < length; i++) result[i] = norm[i]! > 1e-3 ? out[i]! / norm[i]! : 0;
+  return result;
+}
+
+/**
+ * Far-field room: a Schroeder reverb (four damped combs into two allpasses,
+ * ~0.6s decay) mixed with a duller direct path. Adds a 400ms tail.
+ */
+function addReverb(input: Float32Array, wet: number): Float32Array {
+  const length = input.length + Math.round(SAMPLE_RATE * 0.4);
+  const dry = new Float32Array(length);
+  dry.set(input);
+
+  const combs = [847, 880, 811, 774].map((delay) => ({ buf: new Float32Array(delay), i: 0, store: 0 }));
+  const allpasses = [302, 122].map((delay) => ({ buf: new Float32Array(delay), i: 0 }));
+  const feedback = 0.8;
+  const damping = 0.3;
+
+  const out = new Float32Array(length);
+  let lowpass = 0;
+  for (let n = 0; n < length; n++) {
+    const x = dry[n]!;
+    let y = 0;
+    for (const c of combs) {
+      const delayed = c.buf[c.i]!;
+      c.store = delayed * (1 - damping) + c.store * damping;
+      c.buf[c.i] = x + c.store * feedback;
+      c.i = (c.i + 1) % c.buf.length;
+      y += delayed;
+    }
+    y /= combs.length;
+    for (const a of allpasses) {
+      const delayed = a.buf[a.i]!;
+      a.buf[a.i] = y + delayed * 0.5;
+      a.i = (a.i + 1) % a.buf.length;
+      y = delayed - y * 0.5;
+    }
+    // The far-off direct path loses its highs
+    lowpass += 0.5 * (x - lowpass);
+    out[n] = lowpass * (1 - wet * 0.6) + y * wet * 1.5;
+  }
+  return out;
+}
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+function toFloat(pcm: Buffer): Float32Array {
+  const samples = new Float32Array(Math.floor(pcm.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = pcm.readInt16LE(i * 2);
+  return samples;
+}
+
+function toPcm(samples: Float32Array): Buffer {
+  const buf = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    buf.writeInt16LE(Math.max(MIN_SAMPLE, Math.min(MAX_SAMPLE, Math.round(samples[i]!))), i * 2);
+  }
+  return buf;
+}
@@ -0,0 +1,122 @@
+/**
+ * AssemblyAI STT — upload, create transcript, then poll until complete.
+ * A MULTILINGUAL hint turns on automatic language detection.
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { STTConfig, STTProvider } from "../stt.js";
+import type { TranscriptionResult } from "../types.js";
+import { encodeWav } from "../format.js";
+import { MULTILINGUAL, primaryLanguage } from "../language.js";
+
+const ASSEMBLYAI_BASE_URL = "https://api.assemblyai.com/v2";
+const POLL_INTERVAL_MS = 500;
+const POLL_TIMEOUT_MS = 60_000;
+
+interface AssemblyAITranscript {
+  id: string;
+  status: "queued" | "processing" | "completed" | "error";
+  error?: string;
+  text?: string | null;
+  confidence?: number | null;
+  words?: Array<{ text: string; start: number; end: number; confidence?: number }> | null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function request<T>(url: string, apiKey: string, init: RequestInit): Promise<T> {
+  return withRetry(async () => {
+    const r = await fetch(url, {
+      ...init,
+      headers: { authorization: apiKey, ...init.headers },
+    });
+
+    if (!r.ok) {
+      if (r.status === 408 || r.status === 429 || r.status >= 500) {
+        throw Object.assign(
+          new Error(`AssemblyAI STT retryable (${r.status})`),
+          { retryable: true },
+        );
+      }
+      const errorText = await r.text();
+      throw new Error(`AssemblyAI STT failed (${r.status}): ${errorText}`);
+    }
+    return (await r.json()) as T;
+  });
+}
+
+/** AssemblyAI codes are ISO 639-1, except regional English ("en_us", "en_uk", "en_au") */
+function assemblyAILanguage(tag: string): string {
+  const [language, region] = tag.toLowerCase().split("-");
+  if (language === "en" && region) return `en_${region === "gb" ? "uk" : region}`;
+  return primaryLanguage(tag);
+}
+
+export const assemblyAIProvider: STTProvider = {
+  name: "assemblyai",
+
+  async transcribe(audio: Buffer, config: STTConfig): Promise<TranscriptionResult> {
+    const apiKeyEnv = config.apiKeyEnv ?? "ASSEMBLYAI_API_KEY";
+    const apiKey = process.env[apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Missing AssemblyAI API key (env: ${apiKeyEnv})`);
+    }
+
+    const wav = encodeWav(audio, config.sampleRate ?? 24000);
+    const { upload_url } = await request<{ upload_url: string }>(
+      `${ASSEMBLYAI_BASE_URL}/upload`,
+      apiKey,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: wav,
+      },
+    );
+
+    let transcript = await request<AssemblyAITranscript>(
+      `${ASSEMBLYAI_BASE_URL}/transcript`,
+      apiKey,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          audio_url: upload_url,
+          ...(config.model && { speech_model: config.model }),
+          ...(config.language === MULTILINGUAL
+            ? { language_detection: true }
+            : config.language && { language_code: assemblyAILanguage(config.language) }),
+        }),
+      },
+    );
+
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    while (transcript.status === "queued" || transcript.status === "processing") {
+      if (Date.now() > deadline) {
+        throw new Error(`AssemblyAI transcript ${transcript.id} timed out after ${POLL_TIMEOUT_MS}ms`);
+      }
+      await sleep(POLL_INTERVAL_MS);
+      transcript = await request<AssemblyAITranscript>(
+        `${ASSEMBLYAI_BASE_URL}/transcript/${transcript.id}`,
+        apiKey,
+        { method: "GET" },
+      );
+    }
+
+    if (transcript.status === "error") {
+      throw new Error(`AssemblyAI transcript failed: ${transcript.error ?? "unknown error"}`);
+    }
+
+    return {
+      text: transcript.text ?? "",
+      confidence: transcript.confidence ?? 0,
+      words: (transcript.words ?? []).map((w) => ({
+        word: w.text,
+        start_ms: w.start,
+        end_ms: w.end,
+        confidence: w.confidence,
+      })),
+    };
+  },
+};
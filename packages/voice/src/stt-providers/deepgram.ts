@@ -0,0 +1,91 @@
+/**
+ * Deepgram STT — batch /listen with raw linear16 input. A MULTILINGUAL
+ * language hint uses Deepgram's code-switching mode, which needs nova-3
+ * (the default then) or nova-2.
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { STTConfig, STTProvider } from "../stt.js";
+import type { TranscriptionResult } from "../types.js";
+import { MULTILINGUAL } from "../language.js";
+
+const DEEPGRAM_BASE_URL = "https://api.deepgram.com/v1";
+const MULTILINGUAL_MODEL = "nova-3";
+
+interface DeepgramResponse {
+  results?: {
+    channels?: Array<{
+      alternatives?: Array<{
+        transcript?: string;
+        confidence?: number;
+        words?: Array<{
+          word: string;
+          punctuated_word?: string;
+          start: number;
+          end: number;
+          confidence?: number;
+        }>;
+      }>;
+    }>;
+  };
+}
+
+export const deepgramProvider: STTProvider = {
+  name: "deepgram",
+
+  async transcribe(audio: Buffer, config: STTConfig): Promise<TranscriptionResult> {
+    const apiKeyEnv = config.apiKeyEnv ?? "DEEPGRAM_API_KEY";
+    const apiKey = process.env[apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Missing Deepgram API key (env: ${apiKeyEnv})`);
+    }
+
+    const sampleRate = config.sampleRate ?? 24000;
+    const params = new URLSearchParams({
+      encoding: "linear16",
+      sample_rate: String(sampleRate),
+      channels: "1",
+    });
+    if (config.model) params.set("model", config.model);
+    else if (config.language === MULTILINGUAL) params.set("model", MULTILINGUAL_MODEL);
+    if (config.language) params.set("language", config.language);
+    const url = `${DEEPGRAM_BASE_URL}/listen?${params.toString()}`;
+
+    const res = await withRetry(async () => {
+      const r = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Token ${apiKey}`,
+          "Content-Type": "application/octet-stream",
+        },
+        body: audio,
+      });
+
+      if (!r.ok) {
+        if (r.status === 408 || r.status === 429 || r.status >= 500) {
+          throw Object.assign(
+            new Error(`Deepgram STT retryable (${r.status})`),
+            { retryable: true },
+          );
+        }
+        const errorText = await r.text();
+        throw new Error(`Deepgram STT failed (${r.status}): ${errorText}`);
+      }
+      return r;
+    });
+
+    const data = (await res.json()) as DeepgramResponse;
+    const alt = data.results?.channels?.[0]?.alternatives?.[0];
+
+    return {
+      text: alt?.transcript ?? "",
+      confidence: alt?.confidence ?? 0,
+      words: (alt?.words ?? []).map((w) => ({
+        word: w.punctuated_word ?? w.word,
+        start_ms: Math.round(w.start * 1000),
+        end_ms: Math.round(w.end * 1000),
+        confidence: w.confidence,
+      })),
+    };
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Mock STT — fingerprint lookup of audio produced by the mock TTS.
+ */
+
+import type { STTConfig, STTProvider } from "../stt.js";
+import type { TranscriptionResult } from "../types.js";
+import { recognizeMockSpeech, registerMockPhrases } from "../mock-speech.js";
+
+export const mockSTTProvider: STTProvider = {
+  name: "mock",
+
+  async transcribe(audio: Buffer, config: STTConfig): Promise<TranscriptionResult> {
+    if (config.knownPhrases) registerMockPhrases(config.knownPhrases);
+    return recognizeMockSpeech(audio);
+  },
+};
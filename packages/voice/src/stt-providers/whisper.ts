@@ -0,0 +1,92 @@
+/**
+ * Whisper-compatible STT — any endpoint implementing OpenAI's
+ * /audio/transcriptions (OpenAI, Groq, faster-whisper-server, etc.).
+ *
+ * Whisper reports no per-word confidence; the overall confidence is derived
+ * from the mean segment avg_logprob. It takes an ISO 639-1 language hint,
+ * and detects the language itself when there is none (or it's MULTILINGUAL).
+ *
+ * The server's key only goes to OpenAI: a custom base_url is the user's own
+ * host, so it gets the key the user supplied with it (voice.stt.api_key) or
+ * none.
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { STTConfig, STTProvider } from "../stt.js";
+import type { TranscriptionResult } from "../types.js";
+import { encodeWav } from "../format.js";
+import { MULTILINGUAL, primaryLanguage } from "../language.js";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "whisper-1";
+
+interface WhisperVerboseResponse {
+  text?: string;
+  words?: Array<{ word: string; start: number; end: number }>;
+  segments?: Array<{ avg_logprob?: number }>;
+}
+
+export const whisperProvider: STTProvider = {
+  name: "whisper",
+
+  async transcribe(audio: Buffer, config: STTConfig): Promise<TranscriptionResult> {
+    const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    const apiKeyEnv = config.apiKeyEnv ?? "OPENAI_API_KEY";
+    // Self-hosted Whisper servers often run without auth
+    const apiKey = baseUrl === DEFAULT_BASE_URL ? process.env[apiKeyEnv] : config.apiKey;
+    if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
+      throw new Error(`Missing OpenAI API key (env: ${apiKeyEnv})`);
+    }
+
+    const wav = encodeWav(audio, config.sampleRate ?? 24000);
+
+    const res = await withRetry(async () => {
+      const form = new FormData();
+      form.append("file", new Blob([wav], { type: "audio/wav" }), "audio.wav");
+      form.append("model", config.model ?? DEFAULT_MODEL);
+      form.append("response_format", "verbose_json");
+      if (config.language && config.language !== MULTILINGUAL) {
+        form.append("language", primaryLanguage(config.language));
+      }
+      form.append("timestamp_granularities[]", "word");
+      form.append("timestamp_granularities[]", "segment");
+
+      const r = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: form,
+      });
+
+      if (!r.ok) {
+        if (r.status === 408 || r.status === 429 || r.status >= 500) {
+          throw Object.assign(
+            new Error(`Whisper STT retryable (${r.status})`),
+            { retryable: true },
+          );
+        }
+        const errorText = await r.text();
+        throw new Error(`Whisper STT failed (${r.status}): ${errorText}`);
+      }
+      return r;
+    });
+
+    const data = (await res.json()) as WhisperVerboseResponse;
+    const logprobs = (data.segments ?? [])
+      .map((s) => s.avg_logprob)
+      .filter((p): p is number => p != null);
+    const confidence =
+      logprobs.length > 0
+        ? logprobs.reduce((sum, p) => sum + Math.exp(p), 0) / logprobs.length
+        : 0;
+
+    return {
+      text: (data.text ?? "").trim(),
+      confidence,
+      words: (data.words ?? []).map((w) => ({
+        word: w.word.trim(),
+        start_ms: Math.round(w.start * 1000),
+        end_ms: Math.round(w.end * 1000),
+      })),
+    };
+  },
+};
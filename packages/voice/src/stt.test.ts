@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { transcribe } from "./stt.js";
+
+/** A Whisper-compatible endpoint that records the headers it was sent */
+async function whisperServer(): Promise<{ baseUrl: string; seen: IncomingHttpHeaders[]; close: () => void }> {
+  const seen: IncomingHttpHeaders[] = [];
+  const server = createServer((req, res) => {
+    seen.push(req.headers);
+    req.resume().on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ text: "hello", segments: [{ avg_logprob: 0 }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}/v1`, seen, close: () => server.close() };
+}
+
+test("a custom Whisper base_url never gets the server's key", async () => {
+  const server = await whisperServer();
+  process.env["OPENAI_API_KEY"] = "server-secret";
+  try {
+    const audio = Buffer.alloc(4800);
+    const { text } = await transcribe(audio, { provider: "whisper", baseUrl: server.baseUrl, apiKeyEnv: "OPENAI_API_KEY" });
+    assert.equal(text, "hello");
+    assert.equal(server.seen[0]!.authorization, undefined);
+
+    await transcribe(audio, { provider: "whisper", baseUrl: server.baseUrl, apiKey: "user-key" });
+    assert.equal(server.seen[1]!.authorization, "Bearer user-key");
+  } finally {
+    delete process.env["OPENAI_API_KEY"];
+    server.close();
+  }
+});
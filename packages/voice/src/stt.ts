@@ -1,70 +1,78 @@
 /**
- * Deepgram STT — transcribes PCM 16-bit 24kHz mono audio to text.
+ * STT provider registry — transcribes PCM 16-bit 24kHz mono audio to text
+ * with per-word timings.
+ *
+ * transcribe() dispatches to the provider named in STTConfig.provider
+ * (default: Deepgram). Built-in providers: deepgram, whisper (any
+ * OpenAI-compatible /audio/transcriptions endpoint), assemblyai, and mock
+ * (used automatically in hermetic mode).
  */
 
+import type { STTProviderName, VoiceConfig } from "@voiceci/shared";
 import type { TranscriptionResult } from "./types.js";
-import { withRetry } from "@voiceci/shared";
-
-const DEEPGRAM_BASE_URL = "https://api.deepgram.com/v1";
+import { deepgramProvider } from "./stt-providers/deepgram.js";
+import { whisperProvider } from "./stt-providers/whisper.js";
+import { assemblyAIProvider } from "./stt-providers/assemblyai.js";
+import { mockSTTProvider } from "./stt-providers/mock.js";
+import { isHermetic } from "./mock-speech.js";
 
 export interface STTConfig {
+  provider?: STTProviderName;
   apiKeyEnv?: string;
   sampleRate?: number;
+  model?: string;
+  baseUrl?: string;
+  /** Key for a custom baseUrl, supplied by the user rather than read from the server env */
+  apiKey?: string;
+  /** Expected language (BCP-47, e.g. "es"), or MULTILINGUAL to detect it per utterance */
+  language?: string;
+  /** Mock provider only — phrases to register before recognizing */
+  knownPhrases?: string[];
 }
 
-export async function transcribe(
-  audio: Buffer,
-  config?: STTConfig
-): Promise<TranscriptionResult> {
-  const apiKey = process.env[config?.apiKeyEnv ?? "DEEPGRAM_API_KEY"];
-  if (!apiKey) {
-    throw new Error(
-      `Missing Deepgram API key (env: ${config?.apiKeyEnv ?? "DEEPGRAM_API_KEY"})`
-    );
-  }
+export interface STTProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, config: STTConfig): Promise<TranscriptionResult>;
+}
 
-  const sampleRate = config?.sampleRate ?? 24000;
-  const url = `${DEEPGRAM_BASE_URL}/listen?encoding=linear16&sample_rate=${sampleRate}&channels=1`;
+const DEFAULT_PROVIDER: STTProviderName = "deepgram";
 
-  const res = await withRetry(async () => {
-    const r = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Token ${apiKey}`,
-        "Content-Type": "application/octet-stream",
-      },
-      body: audio,
-    });
+const providers = new Map<string, STTProvider>();
 
-    if (!r.ok) {
-      if (r.status === 408 || r.status === 429 || r.status >= 500) {
-        throw Object.assign(
-          new Error(`Deepgram STT retryable (${r.status})`),
-          { retryable: true },
-        );
-      }
-      const errorText = await r.text();
-      throw new Error(`Deepgram STT failed (${r.status}): ${errorText}`);
-    }
-    return r;
-  });
+export function registerSTTProvider(provider: STTProvider): void {
+  providers.set(provider.name, provider);
+}
 
-  const data = (await res.json()) as DeepgramResponse;
-  const alt = data.results?.channels?.[0]?.alternatives?.[0];
+export function getSTTProvider(name: string = DEFAULT_PROVIDER): STTProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(
+      `Unknown STT provider "${name}" (available: ${[...providers.keys()].join(", ")})`
+    );
+  }
+  return provider;
+}
+
+for (const provider of [deepgramProvider, whisperProvider, assemblyAIProvider, mockSTTProvider]) {
+  registerSTTProvider(provider);
+}
 
+/** Map the user-facing VoiceConfig.stt block to an STTConfig. */
+export function sttConfigFromVoice(voice?: VoiceConfig): STTConfig {
+  const stt = voice?.stt;
   return {
-    text: alt?.transcript ?? "",
-    confidence: alt?.confidence ?? 0,
+    provider: isHermetic(voice) ? "mock" : stt?.provider,
+    apiKeyEnv: stt?.api_key_env,
+    model: stt?.model,
+    baseUrl: stt?.base_url,
+    apiKey: stt?.api_key,
+    knownPhrases: voice?.hermetic?.known_phrases,
   };
 }
 
-interface DeepgramResponse {
-  results?: {
-    channels?: Array<{
-      alternatives?: Array<{
-        transcript?: string;
-        confidence?: number;
-      }>;
-    }>;
-  };
+export async function transcribe(
+  audio: Buffer,
+  config?: STTConfig
+): Promise<TranscriptionResult> {
+  return getSTTProvider(config?.provider).transcribe(audio, config ?? {});
 }
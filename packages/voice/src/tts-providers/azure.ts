@@ -0,0 +1,81 @@
+/**
+ * Azure Speech TTS — SSML request with raw 24kHz 16-bit mono PCM output.
+ * With a language or accent and no configured voice, a multilingual voice
+ * speaks it via <lang xml:lang> (an accent is a locale, e.g. "en-IN").
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { TTSConfig, TTSProvider } from "../tts.js";
+import { isEnglish, localeFor } from "../language.js";
+
+const DEFAULT_VOICE = "en-US-JennyNeural";
+const DEFAULT_MULTILINGUAL_VOICE = "en-US-AvaMultilingualNeural";
+const OUTPUT_FORMAT = "raw-24khz-16bit-mono-pcm";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Voice names are "<lang>-<REGION>-<Name>Neural" — the locale is the first two parts. */
+function localeFromVoice(voice: string): string {
+  const parts = voice.split("-");
+  return parts.length >= 3 ? `${parts[0]}-${parts[1]}` : "en-US";
+}
+
+export const azureProvider: TTSProvider = {
+  name: "azure",
+
+  async synthesize(text: string, config: TTSConfig): Promise<Buffer> {
+    const apiKeyEnv = config.apiKeyEnv ?? "AZURE_SPEECH_KEY";
+    const apiKey = process.env[apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Missing Azure Speech key (env: ${apiKeyEnv})`);
+    }
+    const region = config.region ?? process.env["AZURE_SPEECH_REGION"];
+    if (!region) {
+      throw new Error("Azure TTS requires voice.tts.region or AZURE_SPEECH_REGION");
+    }
+
+    const spoken = config.accent ?? config.language;
+    const multilingual = !config.voiceId && (config.accent !== undefined || !isEnglish(config.language));
+    const voice = config.voiceId ?? (multilingual ? DEFAULT_MULTILINGUAL_VOICE : DEFAULT_VOICE);
+    const content = multilingual
+      ? `<lang xml:lang="${localeFor(spoken!)}">${escapeXml(text)}</lang>`
+      : escapeXml(text);
+    const ssml =
+      `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${localeFromVoice(voice)}">` +
+      `<voice name="${escapeXml(voice)}">${content}</voice></speak>`;
+
+    const res = await withRetry(async () => {
+      const r = await fetch(`https://${region}.tts.speech.microsoft.com/cognitiveservices/v1`, {
+        method: "POST",
+        headers: {
+          "Ocp-Apim-Subscription-Key": apiKey,
+          "Content-Type": "application/ssml+xml",
+          "X-Microsoft-OutputFormat": OUTPUT_FORMAT,
+          "User-Agent": "voiceci",
+        },
+        body: ssml,
+      });
+
+      if (!r.ok) {
+        if (r.status === 408 || r.status === 429 || r.status >= 500) {
+          throw Object.assign(
+            new Error(`Azure TTS retryable (${r.status})`),
+            { retryable: true },
+          );
+        }
+        const errorText = await r.text();
+        throw new Error(`Azure TTS failed (${r.status}): ${errorText}`);
+      }
+      return r;
+    });
+
+    return Buffer.from(await res.arrayBuffer());
+  },
+};
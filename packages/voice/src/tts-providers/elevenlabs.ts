@@ -0,0 +1,62 @@
+/**
+ * ElevenLabs TTS — requests pcm_24000 output directly. Non-English text
+ * goes to the multilingual model unless a model is configured. Accents come
+ * with the voice, so an accent needs a voice_id that has it.
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { TTSConfig, TTSProvider } from "../tts.js";
+import { isEnglish } from "../language.js";
+
+const ELEVENLABS_BASE_URL = "https://api.elevenlabs.io/v1";
+const DEFAULT_VOICE_ID = "pNInz6obpgDQGcFmaJgB"; // "Adam"
+const DEFAULT_MODEL = "eleven_monolingual_v1";
+const DEFAULT_MULTILINGUAL_MODEL = "eleven_multilingual_v2";
+
+export const elevenLabsProvider: TTSProvider = {
+  name: "elevenlabs",
+
+  async synthesize(text: string, config: TTSConfig): Promise<Buffer> {
+    const apiKeyEnv = config.apiKeyEnv ?? "ELEVENLABS_API_KEY";
+    const apiKey = process.env[apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Missing ElevenLabs API key (env: ${apiKeyEnv})`);
+    }
+
+    if (config.accent && !config.voiceId) {
+      throw new Error(
+        `ElevenLabs voices carry their own accent — set voice.tts.voice_id to a voice with a ${config.accent} accent`
+      );
+    }
+    const voiceId = config.voiceId ?? DEFAULT_VOICE_ID;
+    const url = `${ELEVENLABS_BASE_URL}/text-to-speech/${voiceId}?output_format=pcm_24000`;
+
+    const res = await withRetry(async () => {
+      const r = await fetch(url, {
+        method: "POST",
+        headers: {
+          "xi-api-key": apiKey,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          text,
+          model_id: config.model ?? (isEnglish(config.language) ? DEFAULT_MODEL : DEFAULT_MULTILINGUAL_MODEL),
+        }),
+      });
+
+      if (!r.ok) {
+        if (r.status === 408 || r.status === 429 || r.status >= 500) {
+          throw Object.assign(
+            new Error(`ElevenLabs TTS retryable (${r.status})`),
+            { retryable: true },
+          );
+        }
+        const errorText = await r.text();
+        throw new Error(`ElevenLabs TTS failed (${r.status}): ${errorText}`);
+      }
+      return r;
+    });
+
+    return Buffer.from(await res.arrayBuffer());
+  },
+};
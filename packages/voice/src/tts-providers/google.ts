@@ -0,0 +1,70 @@
+/**
+ * Google Cloud TTS — LINEAR16 at 24kHz. The response is a base64 WAV, so the
+ * header is stripped before returning raw PCM. With a language or accent
+ * and no configured voice, Google picks its default voice for that locale.
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { TTSConfig, TTSProvider } from "../tts.js";
+import { decodeWav, resample } from "../format.js";
+import { isEnglish, localeFor } from "../language.js";
+
+const GOOGLE_TTS_URL = "https://texttospeech.googleapis.com/v1/text:synthesize";
+const DEFAULT_VOICE = "en-US-Neural2-D";
+const SAMPLE_RATE = 24000;
+
+/** Voice names are "<lang>-<REGION>-<Model>-<Variant>" — the language code is the first two parts. */
+function languageFromVoice(voice: string): string {
+  const parts = voice.split("-");
+  return parts.length >= 3 ? `${parts[0]}-${parts[1]}` : "en-US";
+}
+
+export const googleProvider: TTSProvider = {
+  name: "google",
+
+  async synthesize(text: string, config: TTSConfig): Promise<Buffer> {
+    const apiKeyEnv = config.apiKeyEnv ?? "GOOGLE_TTS_API_KEY";
+    const apiKey = process.env[apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Missing Google TTS API key (env: ${apiKeyEnv})`);
+    }
+
+    const spoken = config.accent ?? config.language;
+    const voice = config.voiceId ?? (!config.accent && isEnglish(config.language) ? DEFAULT_VOICE : undefined);
+    const voiceParams = voice
+      ? { languageCode: languageFromVoice(voice), name: voice }
+      : { languageCode: localeFor(spoken!) };
+
+    const res = await withRetry(async () => {
+      const r = await fetch(`${GOOGLE_TTS_URL}?key=${encodeURIComponent(apiKey)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          input: { text },
+          voice: voiceParams,
+          audioConfig: { audioEncoding: "LINEAR16", sampleRateHertz: SAMPLE_RATE },
+        }),
+      });
+
+      if (!r.ok) {
+        if (r.status === 408 || r.status === 429 || r.status >= 500) {
+          throw Object.assign(
+            new Error(`Google TTS retryable (${r.status})`),
+            { retryable: true },
+          );
+        }
+        const errorText = await r.text();
+        throw new Error(`Google TTS failed (${r.status}): ${errorText}`);
+      }
+      return r;
+    });
+
+    const data = (await res.json()) as { audioContent?: string };
+    if (!data.audioContent) {
+      throw new Error("Google TTS returned no audioContent");
+    }
+
+    const { pcm, sampleRate } = decodeWav(Buffer.from(data.audioContent, "base64"));
+    return resample(pcm, sampleRate, SAMPLE_RATE);
+  },
+};
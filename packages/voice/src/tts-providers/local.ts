@@ -0,0 +1,75 @@
+/**
+ * Local TTS engine — runs a program (e.g. piper, espeak-ng) that reads text
+ * on stdin and writes audio to stdout. WAV output is decoded using its
+ * header; anything else is treated as raw PCM16 mono at LOCAL_TTS_SAMPLE_RATE
+ * (default 22050, piper's --output_raw rate). For an accent or non-English
+ * text the default espeak-ng command gets it as its voice (-v en-gb, -v es).
+ *
+ * The command is server configuration (LOCAL_TTS_COMMAND), never a test's:
+ * it is split on whitespace and run without a shell, so the text and the
+ * voice can only ever be data.
+ */
+
+import { spawn } from "node:child_process";
+import type { TTSConfig, TTSProvider } from "../tts.js";
+import { decodeWav, resample } from "../format.js";
+import { isEnglish, primaryLanguage } from "../language.js";
+
+const DEFAULT_COMMAND = ["espeak-ng", "--stdin", "--stdout"];
+const DEFAULT_RAW_SAMPLE_RATE = 22050;
+const TARGET_SAMPLE_RATE = 24000;
+const TIMEOUT_MS = 30_000;
+
+function runCommand(argv: string[], input: string): Promise<Buffer> {
+  const command = argv.join(" ");
+  return new Promise((resolve, reject) => {
+    const child = spawn(argv[0]!, argv.slice(1), { shell: false, stdio: ["pipe", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`Local TTS timed out after ${TIMEOUT_MS}ms: ${command}`));
+    }, TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Local TTS failed to start (${command}): ${err.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`Local TTS exited with ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+        return;
+      }
+      resolve(Buffer.concat(stdout));
+    });
+
+    child.stdin.end(input);
+  });
+}
+
+export const localProvider: TTSProvider = {
+  name: "local",
+
+  async synthesize(text: string, config: TTSConfig): Promise<Buffer> {
+    const configured = process.env["LOCAL_TTS_COMMAND"]?.trim();
+    const voice = config.accent
+      ? config.accent.toLowerCase()
+      : isEnglish(config.language)
+        ? null
+        : primaryLanguage(config.language!);
+    const argv = configured ? configured.split(/\s+/) : (voice ? [...DEFAULT_COMMAND, "-v", voice] : DEFAULT_COMMAND);
+    const output = await runCommand(argv, text);
+
+    if (output.toString("ascii", 0, 4) === "RIFF") {
+      const { pcm, sampleRate } = decodeWav(output);
+      return resample(pcm, sampleRate, TARGET_SAMPLE_RATE);
+    }
+
+    const rawRate = parseInt(process.env["LOCAL_TTS_SAMPLE_RATE"] ?? String(DEFAULT_RAW_SAMPLE_RATE), 10);
+    return resample(output, rawRate, TARGET_SAMPLE_RATE);
+  },
+};
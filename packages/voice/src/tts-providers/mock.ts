@@ -0,0 +1,14 @@
+/**
+ * Mock TTS — deterministic offline speech for hermetic runs.
+ */
+
+import type { TTSConfig, TTSProvider } from "../tts.js";
+import { synthesizeMockSpeech } from "../mock-speech.js";
+
+export const mockTTSProvider: TTSProvider = {
+  name: "mock",
+
+  async synthesize(text: string, _config: TTSConfig): Promise<Buffer> {
+    return synthesizeMockSpeech(text);
+  },
+};
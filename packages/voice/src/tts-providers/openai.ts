@@ -0,0 +1,67 @@
+/**
+ * OpenAI TTS — response_format "pcm" is already 24kHz 16-bit mono. An
+ * accent is asked for through `instructions`, which only gpt-4o-mini-tts
+ * supports.
+ */
+
+import { withRetry } from "@voiceci/shared";
+import type { TTSConfig, TTSProvider } from "../tts.js";
+
+const OPENAI_SPEECH_URL = "https://api.openai.com/v1/audio/speech";
+const DEFAULT_VOICE = "alloy";
+const DEFAULT_MODEL = "gpt-4o-mini-tts";
+
+/** "en-IN" → "Speak with an accent from India." */
+function accentInstructions(accent: string): string {
+  const region = accent.split("-")[1];
+  let where = accent;
+  try {
+    if (region) where = new Intl.DisplayNames(["en"], { type: "region" }).of(region.toUpperCase()) ?? accent;
+  } catch {
+    // Not a region code — describe it as given
+  }
+  return `Speak with an accent from ${where}.`;
+}
+
+export const openAIProvider: TTSProvider = {
+  name: "openai",
+
+  async synthesize(text: string, config: TTSConfig): Promise<Buffer> {
+    const apiKeyEnv = config.apiKeyEnv ?? "OPENAI_API_KEY";
+    const apiKey = process.env[apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`Missing OpenAI API key (env: ${apiKeyEnv})`);
+    }
+
+    const res = await withRetry(async () => {
+      const r = await fetch(OPENAI_SPEECH_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: config.model ?? DEFAULT_MODEL,
+          voice: config.voiceId ?? DEFAULT_VOICE,
+          input: text,
+          response_format: "pcm",
+          ...(config.accent ? { instructions: accentInstructions(config.accent) } : {}),
+        }),
+      });
+
+      if (!r.ok) {
+        if (r.status === 408 || r.status === 429 || r.status >= 500) {
+          throw Object.assign(
+            new Error(`OpenAI TTS retryable (${r.status})`),
+            { retryable: true },
+          );
+        }
+        const errorText = await r.text();
+        throw new Error(`OpenAI TTS failed (${r.status}): ${errorText}`);
+      }
+      return r;
+    });
+
+    return Buffer.from(await res.arrayBuffer());
+  },
+};
@@ -1,57 +1,93 @@
 /**
- * ElevenLabs TTS — converts text to PCM 16-bit 24kHz mono audio.
+ * TTS provider registry — converts text to PCM 16-bit 24kHz mono audio.
+ *
+ * Every caller voice goes through synthesize(), which dispatches to the
+ * provider named in TTSConfig.provider (default: ElevenLabs). Built-in
+ * providers: elevenlabs, openai, azure, google, local, and mock (used
+ * automatically in hermetic mode). A speech profile (voice.speech_profile)
+ * reshapes each utterance, except from the mock — see speech-profile.ts.
  */
 
-import { withRetry } from "@voiceci/shared";
-
-const ELEVENLABS_BASE_URL = "https://api.elevenlabs.io/v1";
-const DEFAULT_VOICE_ID = "pNInz6obpgDQGcFmaJgB"; // "Adam"
+import type { SpeechProfile, TTSProviderName, VoiceConfig } from "@voiceci/shared";
+import { elevenLabsProvider } from "./tts-providers/elevenlabs.js";
+import { openAIProvider } from "./tts-providers/openai.js";
+import { azureProvider } from "./tts-providers/azure.js";
+import { googleProvider } from "./tts-providers/google.js";
+import { localProvider } from "./tts-providers/local.js";
+import { mockTTSProvider } from "./tts-providers/mock.js";
+import { isHermetic } from "./mock-speech.js";
+import { resolveSpeechProfile, planUtterance, shapeSpeech, silence, speechRandom } from "./speech-profile.js";
 
 export interface TTSConfig {
+  provider?: TTSProviderName;
   voiceId?: string;
   apiKeyEnv?: string;
+  model?: string;
+  region?: string;
+  /** Language to speak (BCP-47, e.g. "es"); providers switch to a multilingual model or voice */
+  language?: string;
+  /** Regional accent as a locale (e.g. "en-IN"); providers pick a voice or style for it */
+  accent?: string;
+  /** How the caller talks: disfluencies, rate, loudness, mic artifacts, accent */
+  speechProfile?: SpeechProfile;
+}
+
+export interface TTSProvider {
+  readonly name: string;
+  /** Must resolve to PCM 16-bit 24kHz mono. */
+  synthesize(text: string, config: TTSConfig): Promise<Buffer>;
+}
+
+const DEFAULT_PROVIDER: TTSProviderName = "elevenlabs";
+
+const providers = new Map<string, TTSProvider>();
+
+export function registerTTSProvider(provider: TTSProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getTTSProvider(name: string = DEFAULT_PROVIDER): TTSProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(
+      `Unknown TTS provider "${name}" (available: ${[...providers.keys()].join(", ")})`
+    );
+  }
+  return provider;
+}
+
+for (const provider of [elevenLabsProvider, openAIProvider, azureProvider, googleProvider, localProvider, mockTTSProvider]) {
+  registerTTSProvider(provider);
+}
+
+/** Map the user-facing VoiceConfig.tts block to a TTSConfig. */
+export function ttsConfigFromVoice(voice?: VoiceConfig): TTSConfig {
+  const tts = voice?.tts;
+  return {
+    provider: isHermetic(voice) ? "mock" : tts?.provider,
+    voiceId: tts?.voice_id,
+    apiKeyEnv: tts?.api_key_env,
+    model: tts?.model,
+    region: tts?.region,
+    speechProfile: voice?.speech_profile ? resolveSpeechProfile(voice.speech_profile) : undefined,
+  };
 }
 
 export async function synthesize(
   text: string,
   config?: TTSConfig
 ): Promise<Buffer> {
-  const apiKey = process.env[config?.apiKeyEnv ?? "ELEVENLABS_API_KEY"];
-  if (!apiKey) {
-    throw new Error(
-      `Missing ElevenLabs API key (env: ${config?.apiKeyEnv ?? "ELEVENLABS_API_KEY"})`
-    );
-  }
+  const provider = getTTSProvider(config?.provider);
+  const profile = config?.speechProfile;
+  // Mock STT only recognizes the mock's audio as synthesized
+  if (!profile || provider === mockTTSProvider) return provider.synthesize(text, config ?? {});
 
-  const voiceId = config?.voiceId ?? DEFAULT_VOICE_ID;
-  const url = `${ELEVENLABS_BASE_URL}/text-to-speech/${voiceId}?output_format=pcm_24000`;
-
-  const res = await withRetry(async () => {
-    const r = await fetch(url, {
-      method: "POST",
-      headers: {
-        "xi-api-key": apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        text,
-        model_id: "eleven_monolingual_v1",
-      }),
-    });
-
-    if (!r.ok) {
-      if (r.status === 408 || r.status === 429 || r.status >= 500) {
-        throw Object.assign(
-          new Error(`ElevenLabs TTS retryable (${r.status})`),
-          { retryable: true },
-        );
-      }
-      const errorText = await r.text();
-      throw new Error(`ElevenLabs TTS failed (${r.status}): ${errorText}`);
-    }
-    return r;
-  });
-
-  const arrayBuffer = await res.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+  const voiceConfig = profile.accent ? { ...config, accent: profile.accent } : config!;
+  const random = speechRandom(profile, text);
+  const parts = await Promise.all(
+    planUtterance(text, profile, random, config?.language).map((segment) =>
+      typeof segment === "string" ? provider.synthesize(segment, voiceConfig) : Promise.resolve(silence(segment.pauseMs))
+    )
+  );
+  return shapeSpeech(Buffer.concat(parts), profile, random);
 }
@@ -1,3 +1,5 @@
+import type { TranscriptWord } from "@voiceci/shared";
+
 export interface AudioConfig {
   encoding: "linear16";
   sampleRate: number;
@@ -7,6 +9,8 @@ export interface AudioConfig {
 export interface TranscriptionResult {
   text: string;
   confidence: number;
+  /** Per-word timings (ms from start of the audio). Empty if the provider returned none. */
+  words: TranscriptWord[];
 }
 
 export const DEFAULT_AUDIO_CONFIG: AudioConfig = {